@@ -2,45 +2,63 @@ import React, { useState, useEffect } from 'react';
 import HomeView from './views/HomeView';
 import CategoryView from './views/CategoryView';
 import ProfileView from './views/ProfileView';
+import TrashView from './views/TrashView';
+import TradeListView from './views/TradeListView';
+import AuthView from './views/AuthView';
 import BottomNav from './components/BottomNav';
 import LoadingSpinner from './components/LoadingSpinner';
-import { ViewState, Topic } from './types';
-import { supabase } from './services/supabaseClient';
+import SyncStatusBar from './components/SyncStatusBar';
+import UndoSnackbar from './components/UndoSnackbar';
+import { ViewState, Topic, MemberRole } from './types';
+import { repository, sync } from './services/repository';
+import { history } from './services/history';
+import { auth, Account } from './services/auth';
+import { DEFAULT_SIZE_VARIANTS } from './services/sizes';
+import { DEFAULT_CURRENCY } from './services/spending';
+import { DEFAULT_RETENTION_DAYS } from './services/trash';
 
 const App: React.FC = () => {
+  // undefined while the stored session is being read
+  const [account, setAccount] = useState<Account | null | undefined>(undefined);
   const [currentView, setCurrentView] = useState<ViewState>(ViewState.HOME);
   const [currentTopic, setCurrentTopic] = useState<Topic | null>(null);
   const [initLoading, setInitLoading] = useState(true);
+  // The account's role in each topic it belongs to
+  const [roles, setRoles] = useState<Record<string, MemberRole>>({});
   
   // Navigation Parameter for Home View (e.g., filter by category ID)
   const [homeInitialCategoryId, setHomeInitialCategoryId] = useState<string | null>(null);
 
-  // Initial Topic Load
   useEffect(() => {
+    auth.ready().then(setAccount);
+    return auth.subscribe(setAccount);
+  }, []);
+
+  // Initial Topic Load, once per signed-in account
+  useEffect(() => {
+    if (!account) return;
+    history.clear();
+    setCurrentView(ViewState.HOME);
+    setCurrentTopic(null);
+    setRoles({});
+    setInitLoading(true);
+
     const initTopic = async () => {
       try {
-        // 1. Check if we have topics
-        const { data: topics, error } = await supabase
-          .from('topics')
-          .select('*')
-          .order('created_at', { ascending: true })
-          .limit(1);
+        // The offline cache and outbox must belong to this account before anything is read
+        await sync?.setOwner(account.id);
 
-        if (error) throw error;
+        // 1. Check if we have topics
+        const topics = await repository.topics.list();
 
-        if (topics && topics.length > 0) {
+        if (topics.length > 0) {
           setCurrentTopic(topics[0]);
         } else {
           // 2. If no topics, create default "My Collection"
-          const { data: newTopic, error: createError } = await supabase
-            .from('topics')
-            .insert([{ name: 'My Collection' }])
-            .select()
-            .single();
-          
-          if (createError) throw createError;
+          const newTopic = await repository.topics.create({ name: 'My Collection', size_variants: DEFAULT_SIZE_VARIANTS, custom_fields: [], locations: [], currency: DEFAULT_CURRENCY, trash_retention_days: DEFAULT_RETENTION_DAYS });
           setCurrentTopic(newTopic);
         }
+        setRoles(await repository.members.myRoles());
       } catch (err) {
         console.error("Failed to initialize topic", err);
       } finally {
@@ -48,8 +66,42 @@ const App: React.FC = () => {
       }
     };
 
-    initTopic();
-  }, []);
+    initTopic().then(() => repository.trash.purgeExpired()).catch(err => console.error("Failed to purge expired trash", err));
+  }, [account?.id]);
+
+  // Keep the active topic in step with renames and deletions made on other devices
+  useEffect(() => {
+    if (!currentTopic) return;
+    const topicId = currentTopic.id;
+    return repository.subscribe(topicId, async change => {
+      if (change.table !== 'topics') return;
+      if (change.type === 'upsert' && change.row.id === topicId) {
+        setCurrentTopic(change.row);
+      } else if (change.type === 'delete' && change.id === topicId) {
+        const remaining = await repository.topics.list();
+        setCurrentTopic(remaining[0] || null);
+      }
+    });
+  }, [currentTopic?.id]);
+
+  // A rename of the active topic may have been undone or redone
+  useEffect(() => {
+    if (!currentTopic) return;
+    const topicId = currentTopic.id;
+    return history.subscribe(async event => {
+      if (event.type === 'recorded') return;
+      const topic = await repository.topics.get(topicId);
+      if (topic && !topic.deleted_at) setCurrentTopic(topic);
+    });
+  }, [currentTopic?.id]);
+
+  const refreshRoles = () =>
+    repository.members.myRoles().then(setRoles).catch(err => console.error("Failed to load roles", err));
+
+  // A topic just created or joined isn't in the roles yet
+  useEffect(() => {
+    if (currentTopic && !initLoading && !roles[currentTopic.id]) refreshRoles();
+  }, [currentTopic?.id]);
 
   const handleSwitchTopic = (topic: Topic) => {
     setCurrentTopic(topic);
@@ -66,6 +118,7 @@ const App: React.FC = () => {
   };
 
   const renderView = () => {
+    if (!account) return null;
     if (initLoading) return <div className="flex h-full items-center justify-center"><LoadingSpinner /></div>;
     if (!currentTopic) return <div className="flex h-full items-center justify-center text-slate-500">Error loading collection.</div>;
 
@@ -73,30 +126,57 @@ const App: React.FC = () => {
       case ViewState.HOME:
         return <HomeView 
             currentTopic={currentTopic} 
+            role={roles[currentTopic.id]}
             initialCategoryId={homeInitialCategoryId}
             onClearInitialCategory={() => setHomeInitialCategoryId(null)}
             onUpdateTopic={handleUpdateTopic}
         />;
       case ViewState.CATEGORY:
-        return <CategoryView currentTopic={currentTopic} onSelectCategory={handleSelectCategory} />;
+        return <CategoryView currentTopic={currentTopic} role={roles[currentTopic.id]} onSelectCategory={handleSelectCategory} />;
       case ViewState.PROFILE:
-        return <ProfileView currentTopic={currentTopic} onSwitchTopic={handleSwitchTopic} />;
+        return <ProfileView
+            account={account}
+            currentTopic={currentTopic}
+            roles={roles}
+            onMembershipChange={refreshRoles}
+            onSwitchTopic={handleSwitchTopic}
+            onOpenTrash={() => setCurrentView(ViewState.TRASH)}
+            onOpenTrades={() => setCurrentView(ViewState.TRADES)}
+        />;
+      case ViewState.TRASH:
+        return <TrashView roles={roles} onBack={() => setCurrentView(ViewState.PROFILE)} />;
+      case ViewState.TRADES:
+        return <TradeListView roles={roles} onBack={() => setCurrentView(ViewState.PROFILE)} />;
       default:
-        return <HomeView currentTopic={currentTopic} onUpdateTopic={handleUpdateTopic} onClearInitialCategory={() => setHomeInitialCategoryId(null)} />;
+        return <HomeView currentTopic={currentTopic} role={roles[currentTopic.id]} onUpdateTopic={handleUpdateTopic} onClearInitialCategory={() => setHomeInitialCategoryId(null)} />;
     }
   };
 
   return (
     <div className="w-full h-full max-w-7xl mx-auto relative flex flex-col shadow-2xl overflow-hidden bg-background-light dark:bg-background-dark">
       <div className="absolute inset-0 bubble-pattern opacity-50 pointer-events-none z-0"></div>
-      
-      {/* View Container */}
-      <div className="flex-1 relative w-full overflow-hidden">
-        {renderView()}
-      </div>
-
-      {/* Navigation */}
-      <BottomNav currentView={currentView} setView={setCurrentView} />
+
+      {account === undefined ? (
+        <div className="flex-1 flex items-center justify-center"><LoadingSpinner /></div>
+      ) : account === null ? (
+        <div className="flex-1 relative w-full overflow-hidden flex">
+          <AuthView />
+        </div>
+      ) : (
+        <>
+          {sync && <SyncStatusBar sync={sync} />}
+
+          {/* View Container */}
+          <div className="flex-1 relative w-full overflow-hidden">
+            {renderView()}
+          </div>
+
+          <UndoSnackbar />
+
+          {/* Navigation */}
+          <BottomNav currentView={currentView} setView={setCurrentView} />
+        </>
+      )}
     </div>
   );
 };
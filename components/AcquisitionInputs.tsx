@@ -0,0 +1,101 @@
+import React from 'react';
+import { Doll } from '../types';
+import { ACQUISITION_METHODS, CURRENCIES } from '../services/spending';
+
+export type Acquisition = Pick<Doll, 'method' | 'tries' | 'cost' | 'currency' | 'venue'>;
+
+interface AcquisitionInputsProps {
+  values: Acquisition;
+  /** The topic's currency, shown while the doll has none of its own. */
+  defaultCurrency: string;
+  onChange: (values: Acquisition) => void;
+  /** Smaller inputs for the edit modal. */
+  compact?: boolean;
+}
+
+const toNumber = (text: string) => (text === '' || isNaN(Number(text)) ? null : Math.max(0, Number(text)));
+
+/** How a doll was acquired: method, crane tries, amount spent and where. */
+const AcquisitionInputs: React.FC<AcquisitionInputsProps> = ({ values, defaultCurrency, onChange, compact }) => {
+  const set = (patch: Partial<Acquisition>) => onChange({ ...values, ...patch });
+  const currency = values.currency || defaultCurrency;
+  const currencies = CURRENCIES.includes(currency) ? CURRENCIES : [currency, ...CURRENCIES];
+
+  const inputClass = `w-full bg-slate-50 dark:bg-slate-800 text-sm dark:text-white border-none focus:ring-2 focus:ring-primary/50 ${compact ? 'rounded p-2' : 'rounded-lg p-3'}`;
+  const labelClass = 'block text-xs font-bold text-slate-500 uppercase mb-1';
+
+  return (
+    <div className="space-y-3">
+      <div>
+        <label className={labelClass}>Acquired by</label>
+        <div className="flex flex-wrap gap-1.5">
+          {ACQUISITION_METHODS.map(method => {
+            const chosen = values.method === method.id;
+            return (
+              <button
+                key={method.id}
+                type="button"
+                onClick={() => set({ method: chosen ? null : method.id, tries: method.id === 'crane' && !chosen ? values.tries : null })}
+                className={`flex items-center gap-1 px-3 py-1 rounded-full text-xs font-bold border transition-colors ${chosen ? 'bg-primary text-white border-primary' : 'bg-white dark:bg-card-dark text-slate-500 dark:text-slate-300 border-slate-200 dark:border-slate-700'}`}
+              >
+                <span className="material-icons-round text-sm">{method.icon}</span>
+                {method.label}
+              </button>
+            );
+          })}
+        </div>
+      </div>
+
+      <div className="grid grid-cols-2 gap-2">
+        <div>
+          <label className={labelClass}>Amount spent</label>
+          <div className="flex gap-1">
+            <input
+              type="number"
+              min={0}
+              step="any"
+              value={values.cost ?? ''}
+              onChange={e => set({ cost: toNumber(e.target.value) })}
+              className={`${inputClass} min-w-0`}
+            />
+            <select
+              value={currency}
+              onChange={e => set({ currency: e.target.value })}
+              className={`${inputClass} !w-auto`}
+            >
+              {currencies.map(code => <option key={code} value={code}>{code}</option>)}
+            </select>
+          </div>
+        </div>
+        {values.method === 'crane' && (
+          <div>
+            <label className={labelClass}>Tries</label>
+            <input
+              type="number"
+              min={0}
+              step={1}
+              value={values.tries ?? ''}
+              onChange={e => {
+                const tries = toNumber(e.target.value);
+                set({ tries: tries === null ? null : Math.round(tries) });
+              }}
+              className={inputClass}
+            />
+          </div>
+        )}
+      </div>
+
+      <div>
+        <label className={labelClass}>Venue</label>
+        <input
+          value={values.venue || ''}
+          onChange={e => set({ venue: e.target.value || null })}
+          placeholder="Arcade or store"
+          className={inputClass}
+        />
+      </div>
+    </div>
+  );
+};
+
+export default AcquisitionInputs;
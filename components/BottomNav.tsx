@@ -4,20 +4,23 @@ import { ViewState } from '../types';
 interface BottomNavProps {
   currentView: ViewState;
   setView: (view: ViewState) => void;
+  /** Tabs to show; defaults to all of them. */
+  views?: ViewState[];
 }
 
-const BottomNav: React.FC<BottomNavProps> = ({ currentView, setView }) => {
+const BottomNav: React.FC<BottomNavProps> = ({ currentView, setView, views }) => {
   const navItems = [
     { id: ViewState.HOME, icon: 'home', label: 'Home' },
     { id: ViewState.CATEGORY, icon: 'category', label: 'Category' },
     { id: ViewState.PROFILE, icon: 'person', label: 'Profile' },
-  ];
+  ].filter(item => !views || views.includes(item.id));
 
   return (
     <nav className="fixed bottom-0 w-full max-w-7xl bg-white/90 dark:bg-card-dark/95 backdrop-blur-md border-t border-slate-100 dark:border-slate-700 px-6 py-4 z-30 left-1/2 -translate-x-1/2 transition-all pb-safe">
       <ul className="flex justify-around md:justify-center md:gap-20 items-center px-2">
         {navItems.map((item) => {
-            const isActive = currentView === item.id;
+            // Trash and the trade list are opened from the profile tab
+            const isActive = currentView === item.id || (item.id === ViewState.PROFILE && [ViewState.TRASH, ViewState.TRADES].includes(currentView));
             return (
                 <li key={item.id}>
                 <button 
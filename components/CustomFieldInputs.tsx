@@ -0,0 +1,79 @@
+import React from 'react';
+import { CustomField, CustomValue } from '../types';
+
+interface CustomFieldInputsProps {
+  fields: CustomField[];
+  values: Record<string, CustomValue>;
+  onChange: (values: Record<string, CustomValue>) => void;
+  /** Smaller inputs for the edit modal. */
+  compact?: boolean;
+}
+
+/** One input per custom field, in the topic's order. Values stay raw until `cleanCustomValues`. */
+const CustomFieldInputs: React.FC<CustomFieldInputsProps> = ({ fields, values, onChange, compact }) => {
+  const setValue = (fieldId: string, value: CustomValue) => onChange({ ...values, [fieldId]: value });
+
+  const toggleOption = (fieldId: string, option: string) => {
+    const current = Array.isArray(values[fieldId]) ? (values[fieldId] as string[]) : [];
+    setValue(fieldId, current.includes(option) ? current.filter(o => o !== option) : [...current, option]);
+  };
+
+  const inputClass = `w-full bg-slate-50 dark:bg-slate-800 text-sm dark:text-white border-none focus:ring-2 focus:ring-primary/50 ${compact ? 'rounded p-2' : 'rounded-lg p-3'}`;
+
+  const renderInput = (field: CustomField) => {
+    const value = values[field.id];
+    const text = value === undefined || Array.isArray(value) ? '' : String(value);
+    switch (field.type) {
+      case 'select':
+        return (
+          <select value={text} onChange={e => setValue(field.id, e.target.value)} className={inputClass}>
+            <option value="">—</option>
+            {(field.options || []).map(option => <option key={option} value={option}>{option}</option>)}
+          </select>
+        );
+      case 'multiselect':
+        return (
+          <div className="flex flex-wrap gap-1.5">
+            {(field.options || []).map(option => {
+              const chosen = Array.isArray(value) && value.includes(option);
+              return (
+                <button
+                  key={option}
+                  type="button"
+                  onClick={() => toggleOption(field.id, option)}
+                  className={`px-3 py-1 rounded-full text-xs font-bold border transition-colors ${chosen ? 'bg-primary text-white border-primary' : 'bg-white dark:bg-card-dark text-slate-500 dark:text-slate-300 border-slate-200 dark:border-slate-700'}`}
+                >
+                  {option}
+                </button>
+              );
+            })}
+            {(field.options || []).length === 0 && <span className="text-xs text-slate-400">No options defined yet.</span>}
+          </div>
+        );
+      default:
+        return (
+          <input
+            type={field.type === 'url' ? 'url' : field.type === 'number' ? 'number' : field.type === 'date' ? 'date' : 'text'}
+            step={field.type === 'number' ? 'any' : undefined}
+            placeholder={field.type === 'url' ? 'https://' : undefined}
+            value={text}
+            onChange={e => setValue(field.id, e.target.value)}
+            className={inputClass}
+          />
+        );
+    }
+  };
+
+  return (
+    <>
+      {fields.map(field => (
+        <div key={field.id}>
+          <label className="block text-xs font-bold text-slate-500 uppercase mb-1">{field.name}</label>
+          {renderInput(field)}
+        </div>
+      ))}
+    </>
+  );
+};
+
+export default CustomFieldInputs;
@@ -0,0 +1,148 @@
+import React, { useState } from 'react';
+import { CustomField, CustomFieldType, Topic } from '../types';
+import { repository } from '../services/repository';
+import { history } from '../services/history';
+import { topicFieldsChanged } from '../services/commands';
+import { CUSTOM_FIELD_TYPE_LABELS, customFieldsOf, hasOptions, newCustomField } from '../services/customFields';
+
+interface CustomFieldsEditorProps {
+  topic: Topic;
+  onClose: () => void;
+  onSaved: (topic: Topic) => void;
+}
+
+const FIELD_TYPES = Object.keys(CUSTOM_FIELD_TYPE_LABELS) as CustomFieldType[];
+
+const parseOptions = (text: string) => [...new Set(text.split(',').map(o => o.trim()).filter(Boolean))];
+
+/** Modal for the extra fields a topic's dolls carry. A field's type is fixed once added. */
+const CustomFieldsEditor: React.FC<CustomFieldsEditorProps> = ({ topic, onClose, onSaved }) => {
+  const [fields, setFields] = useState<CustomField[]>(customFieldsOf(topic));
+  // Options are edited as comma-separated text and parsed on save
+  const [optionsText, setOptionsText] = useState<Record<string, string>>(() =>
+    Object.fromEntries(customFieldsOf(topic).map(f => [f.id, (f.options || []).join(', ')]))
+  );
+  const [newName, setNewName] = useState('');
+  const [newType, setNewType] = useState<CustomFieldType>('text');
+  const [isSaving, setIsSaving] = useState(false);
+
+  const moveField = (index: number, offset: number) =>
+    setFields(prev => {
+      const next = [...prev];
+      [next[index], next[index + offset]] = [next[index + offset], next[index]];
+      return next;
+    });
+
+  const addField = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!newName.trim()) return;
+    const field = newCustomField(newName.trim(), newType);
+    setFields(prev => [...prev, field]);
+    setOptionsText(prev => ({ ...prev, [field.id]: '' }));
+    setNewName('');
+  };
+
+  const handleSave = async () => {
+    const cleaned = fields.map(f => ({
+      ...f,
+      name: f.name.trim(),
+      ...(hasOptions(f.type) ? { options: parseOptions(optionsText[f.id] || '') } : {}),
+    }));
+    if (cleaned.some(f => !f.name)) return alert("Every field needs a name.");
+    const names = cleaned.map(f => f.name.toLowerCase());
+    if (new Set(names).size !== names.length) return alert("Two fields have the same name.");
+    if (cleaned.some(f => hasOptions(f.type) && f.options!.length === 0)) return alert("Select fields need at least one option.");
+
+    const removed = customFieldsOf(topic).filter(f => !cleaned.some(c => c.id === f.id));
+    if (removed.length > 0 && !confirm(`Remove ${removed.map(f => `"${f.name}"`).join(', ')}? Values already entered will no longer show.`)) return;
+
+    setIsSaving(true);
+    try {
+      await repository.topics.update(topic.id, { custom_fields: cleaned });
+      history.record(topicFieldsChanged(topic, cleaned));
+      onSaved({ ...topic, custom_fields: cleaned });
+      onClose();
+    } catch (err) {
+      console.error(err);
+      alert("Failed to save fields.");
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-[100] flex items-center justify-center p-4 bg-black/50 backdrop-blur-sm" onClick={onClose}>
+      <div className="bg-white dark:bg-card-dark rounded-2xl w-full max-w-sm p-6 shadow-2xl max-h-[90vh] overflow-y-auto" onClick={e => e.stopPropagation()}>
+        <div className="flex justify-between items-center mb-1">
+          <h2 className="text-xl font-bold text-slate-800 dark:text-white">Fields in "{topic.name}"</h2>
+          <button onClick={onClose} className="text-slate-400 hover:text-slate-600">
+            <span className="material-icons-round">close</span>
+          </button>
+        </div>
+        <p className="text-xs text-slate-400 mb-4">Extra details to fill in for each item, like brand, series or condition.</p>
+
+        <div className="space-y-2 mb-4">
+          {fields.length === 0 && <p className="text-sm text-slate-400 text-center py-2">No custom fields yet.</p>}
+          {fields.map((field, index) => (
+            <div key={field.id} className="p-2 rounded-xl bg-slate-50 dark:bg-slate-800 space-y-2">
+              <div className="flex items-center gap-2">
+                <input
+                  value={field.name}
+                  onChange={e => setFields(prev => prev.map(f => (f.id === field.id ? { ...f, name: e.target.value } : f)))}
+                  className="flex-1 min-w-0 bg-white dark:bg-card-dark rounded-lg px-2 py-1 text-sm dark:text-white border border-slate-200 dark:border-slate-700"
+                />
+                <span className="text-[10px] uppercase font-bold text-slate-400 whitespace-nowrap">{CUSTOM_FIELD_TYPE_LABELS[field.type]}</span>
+                <button onClick={() => moveField(index, -1)} disabled={index === 0} className="text-slate-400 hover:text-primary disabled:opacity-30">
+                  <span className="material-icons-round text-lg">arrow_upward</span>
+                </button>
+                <button onClick={() => moveField(index, 1)} disabled={index === fields.length - 1} className="text-slate-400 hover:text-primary disabled:opacity-30">
+                  <span className="material-icons-round text-lg">arrow_downward</span>
+                </button>
+                <button onClick={() => setFields(prev => prev.filter(f => f.id !== field.id))} title="Remove" className="text-slate-400 hover:text-red-500">
+                  <span className="material-icons-round text-lg">delete</span>
+                </button>
+              </div>
+              {hasOptions(field.type) && (
+                <input
+                  placeholder="Options, comma-separated"
+                  value={optionsText[field.id] || ''}
+                  onChange={e => setOptionsText(prev => ({ ...prev, [field.id]: e.target.value }))}
+                  className="w-full bg-white dark:bg-card-dark rounded-lg px-2 py-1 text-xs dark:text-white border border-slate-200 dark:border-slate-700"
+                />
+              )}
+            </div>
+          ))}
+        </div>
+
+        <form onSubmit={addField} className="flex gap-2 mb-4">
+          <input
+            placeholder="e.g. Brand, JAN code"
+            value={newName}
+            onChange={e => setNewName(e.target.value)}
+            className="flex-1 min-w-0 bg-slate-50 dark:bg-slate-800 border-none rounded-xl px-3 text-sm dark:text-white focus:ring-2 focus:ring-primary/50"
+          />
+          <select
+            value={newType}
+            onChange={e => setNewType(e.target.value as CustomFieldType)}
+            className="bg-slate-50 dark:bg-slate-800 rounded-xl px-2 text-xs dark:text-white border-none"
+          >
+            {FIELD_TYPES.map(type => <option key={type} value={type}>{CUSTOM_FIELD_TYPE_LABELS[type]}</option>)}
+          </select>
+          <button type="submit" disabled={!newName.trim()} className="bg-slate-100 dark:bg-slate-800 text-slate-600 dark:text-slate-300 rounded-xl px-3 py-2 text-sm font-bold disabled:opacity-50">
+            Add
+          </button>
+        </form>
+
+        <button
+          onClick={handleSave}
+          disabled={isSaving}
+          className="w-full bg-primary text-white py-3 rounded-xl font-bold shadow-soft hover:brightness-110 transition disabled:opacity-50"
+        >
+          {isSaving ? 'Saving...' : 'Save Fields'}
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default CustomFieldsEditor;
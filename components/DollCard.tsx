@@ -1,14 +1,33 @@
 import React, { useState } from 'react';
-import { Doll } from '../types';
+import { Doll, SizeVariant } from '../types';
+import { quantityOf, totalTradeable } from '../services/trades';
+import { matchRanges } from '../services/textSearch';
 
 interface DollCardProps {
   doll: Doll;
   categoryName?: string;
+  /** The topic's size variants, in the order the size bar shows them. */
+  sizeVariants: SizeVariant[];
   onClick: (doll: Doll) => void;
   onDelete?: (e: React.MouseEvent, dollId: string) => void;
+  /** Search words to mark where they match (see `highlightTerms`). */
+  highlight?: Record<'name' | 'description' | 'category', string[]>;
 }
 
-const DollCard: React.FC<DollCardProps> = ({ doll, categoryName, onClick, onDelete }) => {
+// The text with the parts the words match marked, typos and all
+const Highlighted: React.FC<{ text: string; terms?: string[] }> = ({ text, terms }) => {
+  if (!terms?.length) return <>{text}</>;
+  const pieces: React.ReactNode[] = [];
+  let at = 0;
+  matchRanges(text, terms).forEach(({ from, to }) => {
+    pieces.push(text.slice(at, from), <mark key={from} className="bg-yellow-200/80 dark:bg-yellow-500/40 text-inherit rounded-sm">{text.slice(from, to)}</mark>);
+    at = to;
+  });
+  pieces.push(text.slice(at));
+  return <>{pieces}</>;
+};
+
+const DollCard: React.FC<DollCardProps> = ({ doll, categoryName, sizeVariants, onClick, onDelete, highlight }) => {
   const [isDeleting, setIsDeleting] = useState(false);
 
   // Logic for "NEW!" badge: created within last 30 days
@@ -20,8 +39,6 @@ const DollCard: React.FC<DollCardProps> = ({ doll, categoryName, onClick, onDele
     return diffDays <= 30;
   }, [doll.created_at]);
 
-  const hasNormal = doll.size && doll.size.includes('Normal');
-  const hasSmall = doll.size && doll.size.includes('Small');
 
   const handleDeleteClick = (e: React.MouseEvent) => {
       e.stopPropagation();
@@ -68,32 +85,45 @@ const DollCard: React.FC<DollCardProps> = ({ doll, categoryName, onClick, onDele
           ) : (
             <span className="material-icons-round text-slate-300 text-4xl">image</span>
           )}
+          {totalTradeable(doll) > 0 && (
+            <span title="Spares up for trade" className="absolute bottom-1 right-1 flex items-center bg-white/90 dark:bg-card-dark/90 text-primary rounded-full px-1 shadow-sm">
+              <span className="material-icons-round text-[12px]">swap_horiz</span>
+              <span className="text-[8px] font-extrabold">{totalTradeable(doll)}</span>
+            </span>
+          )}
         </div>
         
         {/* Category Tag */}
         {categoryName && (
             <span className="text-[8px] uppercase font-bold text-slate-400 dark:text-slate-500 tracking-wider mb-0.5">
-                {categoryName}
+                <Highlighted text={categoryName} terms={highlight?.category} />
             </span>
         )}
 
         <span className="text-xs font-bold text-slate-600 dark:text-slate-300 text-center leading-tight line-clamp-2">
-          {doll.name}
+          <Highlighted text={doll.name} terms={highlight?.name} />
         </span>
         <span className="text-[9px] text-slate-400 dark:text-slate-500 mb-2 line-clamp-1">
-          {doll.description || 'No description'}
+          {doll.description ? <Highlighted text={doll.description} terms={highlight?.description} /> : 'No description'}
         </span>
       </div>
       
-      {/* Size Indicator Bar - Updated Colors */}
-      <div className="mt-auto border-t border-slate-100 dark:border-slate-700 flex w-full text-[9px] font-bold">
-        <div className={`flex-1 py-1.5 text-center transition-colors ${hasNormal ? 'bg-blue-400 text-white' : 'bg-uncollected dark:bg-uncollected-dark text-slate-400 dark:text-slate-500'}`}>
-          Normal
-        </div>
-        <div className="w-px bg-slate-100 dark:bg-slate-700"></div>
-        <div className={`flex-1 py-1.5 text-center transition-colors ${hasSmall ? 'bg-pink-400 text-white' : 'bg-uncollected dark:bg-uncollected-dark text-slate-400 dark:text-slate-500'}`}>
-          Small
-        </div>
+      {/* Size Indicator Bar - one segment per variant, colored when the doll comes in it */}
+      <div className="mt-auto border-t border-slate-100 dark:border-slate-700 flex w-full text-[9px] font-bold divide-x divide-slate-100 dark:divide-slate-700">
+        {sizeVariants.map(variant => {
+          const has = doll.sizes.includes(variant.id);
+          const quantity = quantityOf(doll, variant.id);
+          return (
+            <div
+              key={variant.id}
+              style={has ? { backgroundColor: variant.color } : undefined}
+              className={`flex-1 min-w-0 truncate px-0.5 py-1.5 text-center transition-colors ${has ? 'text-white' : 'bg-uncollected dark:bg-uncollected-dark text-slate-400 dark:text-slate-500'}`}
+            >
+              {variant.label}
+              {quantity > 1 && ` ×${quantity}`}
+            </div>
+          );
+        })}
       </div>
     </div>
   );
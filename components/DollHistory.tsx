@@ -0,0 +1,151 @@
+import React, { useEffect, useState } from 'react';
+import { AcquisitionMethod, CustomField, CustomValue, Doll, SizeVariant, StorageLocation } from '../types';
+import { repository, FieldChange, DollUpdate } from '../services/repository';
+import LoadingSpinner from './LoadingSpinner';
+import { formatCustomValue, isEmptyValue } from '../services/customFields';
+import { methodLabel } from '../services/spending';
+import { locationPath } from '../services/locations';
+
+interface DollHistoryProps {
+  doll: Doll;
+  categoryNames: Record<string, string>;
+  locations: StorageLocation[];
+  sizeVariants: SizeVariant[];
+  customFields: CustomField[];
+  onRevert: (field: keyof DollUpdate, value: unknown) => Promise<void>;
+}
+
+const FIELD_LABELS: Record<string, string> = {
+  name: 'Name',
+  description: 'Description',
+  sizes: 'Sizes',
+  quantities: 'Copies',
+  for_trade: 'For trade',
+  catch_date: 'Catch date',
+  category_id: 'Category',
+  custom_values: 'Custom fields',
+  tags: 'Tags',
+  method: 'Acquired by',
+  tries: 'Tries',
+  cost: 'Amount spent',
+  currency: 'Currency',
+  venue: 'Venue',
+  location_id: 'Location',
+};
+
+// Photos can't come back once replaced, and the trash has its own restore.
+const REVERTIBLE_FIELDS = Object.keys(FIELD_LABELS);
+
+const sameValue = (a: unknown, b: unknown) => JSON.stringify(a ?? null) === JSON.stringify(b ?? null);
+
+/** Timeline of field changes to one doll, newest first, with per-field revert. */
+const DollHistory: React.FC<DollHistoryProps> = ({ doll, categoryNames, locations, sizeVariants, customFields, onRevert }) => {
+  const [changes, setChanges] = useState<FieldChange[] | null>(null);
+  const [failed, setFailed] = useState(false);
+  const [revertingId, setRevertingId] = useState<string | null>(null);
+
+  // Reloads whenever the doll itself changes, e.g. after a revert
+  useEffect(() => {
+    let cancelled = false;
+    setFailed(false);
+    repository.changes.listForRow('dolls', doll.id)
+      .then(list => { if (!cancelled) setChanges(list); })
+      .catch(err => {
+        console.error('Error fetching history:', err);
+        if (!cancelled) setFailed(true);
+      });
+    return () => { cancelled = true; };
+  }, [doll]);
+
+  const formatValue = (field: string, value: unknown) => {
+    if (value === null || value === undefined || value === '') return 'empty';
+    if (field === 'category_id') return categoryNames[String(value)] || 'a deleted category';
+    if (field === 'location_id') return locationPath(locations, String(value)) || 'a removed location';
+    if (field === 'custom_values') return 'how they were before';
+    if (field === 'sizes' && Array.isArray(value)) {
+      if (value.length === 0) return 'none';
+      return value.map(id => sizeVariants.find(v => v.id === id)?.label || 'a removed size').join(', ');
+    }
+    if (field === 'quantities' || field === 'for_trade') {
+      const counts = Object.entries(value as Record<string, number>);
+      if (counts.length === 0) return field === 'quantities' ? 'one of each' : 'none';
+      return counts.map(([id, count]) => `${sizeVariants.find(v => v.id === id)?.label || 'a removed size'} ×${count}`).join(', ');
+    }
+    if (field === 'tags' && Array.isArray(value)) return value.length === 0 ? 'none' : value.join(', ');
+    if (field === 'method') return methodLabel(value as AcquisitionMethod);
+    return String(value);
+  };
+
+  // One change can touch several custom fields; each is listed by name.
+  const describeCustomValues = (oldValues: unknown, newValues: unknown) => {
+    const before = (oldValues || {}) as Record<string, CustomValue>;
+    const after = (newValues || {}) as Record<string, CustomValue>;
+    const show = (value: CustomValue | undefined) => (isEmptyValue(value) ? 'empty' : formatCustomValue(value!));
+    return [...new Set([...Object.keys(before), ...Object.keys(after)])]
+      .filter(id => !sameValue(before[id], after[id]))
+      .map(id => `${customFields.find(f => f.id === id)?.name || 'A removed field'}: ${show(before[id])} → ${show(after[id])}`)
+      .join('; ');
+  };
+
+  const describePhotos = (oldValue: unknown, newValue: unknown) => {
+    const before = Array.isArray(oldValue) ? oldValue : [];
+    const after = Array.isArray(newValue) ? newValue : [];
+    const added = after.filter(url => !before.includes(url)).length;
+    const removed = before.filter(url => !after.includes(url)).length;
+    const parts = [added && `added ${added}`, removed && `removed ${removed}`].filter(Boolean);
+    return parts.length > 0 ? `Photos: ${parts.join(', ')}` : 'Reordered the photos';
+  };
+
+  const describe = (change: FieldChange) => {
+    if (change.field === null) return 'Added to the collection';
+    if (change.field === 'custom_values') return describeCustomValues(change.old_value, change.new_value);
+    if (change.field === 'deleted_at') return change.new_value ? 'Moved to the trash' : 'Restored from the trash';
+    if (change.field === 'image_url') return 'Changed the cover photo';
+    if (change.field === 'photos') return describePhotos(change.old_value, change.new_value);
+    const label = FIELD_LABELS[change.field] || change.field;
+    return `${label}: ${formatValue(change.field, change.old_value)} → ${formatValue(change.field, change.new_value)}`;
+  };
+
+  const handleRevert = async (change: FieldChange) => {
+    setRevertingId(change.id);
+    try {
+      await onRevert(change.field as keyof DollUpdate, change.old_value);
+    } finally {
+      setRevertingId(null);
+    }
+  };
+
+  if (failed) return <p className="text-xs text-slate-400 text-center py-4">History is only available online.</p>;
+  if (!changes) return <LoadingSpinner />;
+  if (changes.length === 0) return <p className="text-xs text-slate-400 text-center py-4">No recorded changes yet.</p>;
+
+  return (
+    <ol className="relative border-l-2 border-slate-100 dark:border-slate-700 ml-2 space-y-4">
+      {changes.map(change => {
+        const canRevert = !!change.field && REVERTIBLE_FIELDS.includes(change.field) &&
+          !sameValue((doll as unknown as Record<string, unknown>)[change.field], change.old_value);
+        return (
+          <li key={change.id} className="pl-4 relative">
+            <span className="absolute -left-[7px] top-1 w-3 h-3 rounded-full bg-primary/60 border-2 border-white dark:border-card-dark"></span>
+            <p className="text-sm text-slate-600 dark:text-slate-300 break-words">{describe(change)}</p>
+            <div className="flex items-center gap-2 text-[10px] text-slate-400">
+              <span>{change.actor || 'Someone'} · {new Date(change.changed_at).toLocaleString()}</span>
+              {canRevert && (
+                <button
+                  onClick={() => handleRevert(change)}
+                  disabled={revertingId !== null}
+                  title={`Set ${FIELD_LABELS[change.field!]} back to ${formatValue(change.field!, change.old_value)}`}
+                  className="font-bold text-primary hover:underline disabled:opacity-50"
+                >
+                  {revertingId === change.id ? 'Reverting...' : 'Revert'}
+                </button>
+              )}
+            </div>
+          </li>
+        );
+      })}
+    </ol>
+  );
+};
+
+export default DollHistory;
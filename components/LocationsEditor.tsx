@@ -0,0 +1,139 @@
+import React, { useState } from 'react';
+import { StorageLocation, Topic } from '../types';
+import { repository } from '../services/repository';
+import { history } from '../services/history';
+import { topicLocationsChanged } from '../services/commands';
+import { locationsOf, newLocation, removeLocation } from '../services/locations';
+import { canMoveTo, flattenTree, indentedName } from '../services/categoryTree';
+
+interface LocationsEditorProps {
+  topic: Topic;
+  onClose: () => void;
+  onSaved: (topic: Topic) => void;
+}
+
+/** Modal for a topic's storage locations: rooms, shelves and bins, nested inside each other. */
+const LocationsEditor: React.FC<LocationsEditorProps> = ({ topic, onClose, onSaved }) => {
+  const [locations, setLocations] = useState<StorageLocation[]>(locationsOf(topic));
+  const [newName, setNewName] = useState('');
+  const [newParentId, setNewParentId] = useState('');
+  const [isSaving, setIsSaving] = useState(false);
+
+  const rows = flattenTree(locations);
+
+  const updateLocation = (id: string, patch: Partial<StorageLocation>) =>
+    setLocations(prev => prev.map(l => (l.id === id ? { ...l, ...patch } : l)));
+
+  const addLocation = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!newName.trim()) return;
+    setLocations(prev => [...prev, newLocation(newName.trim(), newParentId || null)]);
+    setNewName('');
+  };
+
+  const handleRemove = (id: string) => {
+    setLocations(prev => removeLocation(prev, id));
+    if (newParentId === id) setNewParentId('');
+  };
+
+  const handleSave = async () => {
+    const cleaned = locations.map(l => ({ ...l, name: l.name.trim() }));
+    if (cleaned.some(l => !l.name)) return alert("Every location needs a name.");
+
+    setIsSaving(true);
+    try {
+      const removed = locationsOf(topic).filter(l => !cleaned.some(c => c.id === l.id));
+      if (removed.length > 0) {
+        const page = await repository.dolls.page({ topicId: topic.id, locationIds: removed.map(l => l.id), sort: 'DATE_DESC' }, null, 1);
+        if (page.total && !confirm(`${page.total} ${page.total === 1 ? 'doll is' : 'dolls are'} kept in the removed locations and will be marked as not put away. Continue?`)) return;
+      }
+
+      await repository.topics.update(topic.id, { locations: cleaned });
+      history.record(topicLocationsChanged(topic, cleaned));
+      onSaved({ ...topic, locations: cleaned });
+      onClose();
+    } catch (err) {
+      console.error(err);
+      alert("Failed to save locations.");
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-[100] flex items-center justify-center p-4 bg-black/50 backdrop-blur-sm" onClick={onClose}>
+      <div className="bg-white dark:bg-card-dark rounded-2xl w-full max-w-sm p-6 shadow-2xl max-h-[90vh] overflow-y-auto" onClick={e => e.stopPropagation()}>
+        <div className="flex justify-between items-center mb-1">
+          <h2 className="text-xl font-bold text-slate-800 dark:text-white">Storage in "{topic.name}"</h2>
+          <button onClick={onClose} className="text-slate-400 hover:text-slate-600">
+            <span className="material-icons-round">close</span>
+          </button>
+        </div>
+        <p className="text-xs text-slate-400 mb-4">Rooms, shelves, boxes or bins. Put one inside another to nest it; removing one moves what's inside up a level.</p>
+
+        <div className="space-y-2 mb-4">
+          {rows.length === 0 && <p className="text-sm text-slate-400 text-center py-2">No locations yet.</p>}
+          {rows.map(({ category: location, depth }) => (
+            <div key={location.id} className="p-2 rounded-xl bg-slate-50 dark:bg-slate-800 space-y-1.5" style={{ marginLeft: depth * 12 }}>
+              <div className="flex items-center gap-2">
+                <span className="material-icons-round text-base text-slate-400">{depth === 0 ? 'meeting_room' : 'inventory_2'}</span>
+                <input
+                  value={location.name}
+                  onChange={e => updateLocation(location.id, { name: e.target.value })}
+                  className="flex-1 min-w-0 bg-white dark:bg-card-dark rounded-lg px-2 py-1 text-sm dark:text-white border border-slate-200 dark:border-slate-700"
+                />
+                <button onClick={() => handleRemove(location.id)} title="Remove" className="text-slate-400 hover:text-red-500">
+                  <span className="material-icons-round text-lg">delete</span>
+                </button>
+              </div>
+              <select
+                value={location.parent_id || ''}
+                onChange={e => updateLocation(location.id, { parent_id: e.target.value || null })}
+                className="w-full bg-white dark:bg-card-dark rounded-lg px-2 py-1 text-xs dark:text-white border border-slate-200 dark:border-slate-700"
+              >
+                <option value="">Top level</option>
+                {rows.filter(row => canMoveTo(locations, location.id, row.category.id)).map(row => (
+                  <option key={row.category.id} value={row.category.id}>{indentedName(row.category.name, row.depth)}</option>
+                ))}
+              </select>
+            </div>
+          ))}
+        </div>
+
+        <form onSubmit={addLocation} className="space-y-2 mb-4">
+          <div className="flex gap-2">
+            <input
+              placeholder="e.g. Bedroom, Shelf 2, Blue bin"
+              value={newName}
+              onChange={e => setNewName(e.target.value)}
+              className="flex-1 min-w-0 bg-slate-50 dark:bg-slate-800 border-none rounded-xl px-3 text-sm dark:text-white focus:ring-2 focus:ring-primary/50"
+            />
+            <button type="submit" disabled={!newName.trim()} className="bg-slate-100 dark:bg-slate-800 text-slate-600 dark:text-slate-300 rounded-xl px-3 py-2 text-sm font-bold disabled:opacity-50">
+              Add
+            </button>
+          </div>
+          {rows.length > 0 && (
+            <select
+              value={newParentId}
+              onChange={e => setNewParentId(e.target.value)}
+              className="w-full bg-slate-50 dark:bg-slate-800 rounded-xl px-3 py-2 text-xs dark:text-white border-none"
+            >
+              <option value="">At the top level</option>
+              {rows.map(row => <option key={row.category.id} value={row.category.id}>{indentedName(row.category.name, row.depth)}</option>)}
+            </select>
+          )}
+        </form>
+
+        <button
+          onClick={handleSave}
+          disabled={isSaving}
+          className="w-full bg-primary text-white py-3 rounded-xl font-bold shadow-soft hover:brightness-110 transition disabled:opacity-50"
+        >
+          {isSaving ? 'Saving...' : 'Save Locations'}
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default LocationsEditor;
@@ -0,0 +1,203 @@
+import React, { useEffect, useRef, useState } from 'react';
+
+interface PhotoGalleryProps {
+  photos: string[];
+  /** The photo shown first, e.g. the cover. */
+  initialIndex?: number;
+}
+
+const MAX_ZOOM = 4;
+const DOUBLE_TAP_ZOOM = 2.5;
+const SWIPE_DISTANCE = 50; // px of horizontal drag that flips to the next photo
+const DOUBLE_TAP_MS = 300;
+
+const clamp = (value: number, min: number, max: number) => Math.min(max, Math.max(min, value));
+
+interface Gesture {
+  startX: number;
+  startY: number;
+  startPan: { x: number; y: number };
+  startZoom: number;
+  /** Finger distance when a pinch began; null for a one-finger drag. */
+  pinchDistance: number | null;
+  moved: boolean;
+}
+
+/**
+ * Full-size photos of one doll. Swipe or use the arrows to move between them;
+ * double-tap, pinch or scroll to zoom, and drag to look around while zoomed.
+ */
+const PhotoGallery: React.FC<PhotoGalleryProps> = ({ photos, initialIndex = 0 }) => {
+  const [index, setIndex] = useState(initialIndex);
+  const [zoom, setZoom] = useState(1);
+  const [pan, setPan] = useState({ x: 0, y: 0 });
+  const [dragX, setDragX] = useState(0);
+  const [isGesturing, setIsGesturing] = useState(false);
+  const containerRef = useRef<HTMLDivElement>(null);
+  const pointers = useRef(new Map<number, { x: number; y: number }>());
+  const gesture = useRef<Gesture | null>(null);
+  const lastTap = useRef(0);
+
+  // The list can shrink while open, e.g. after removing a photo
+  const current = clamp(index, 0, photos.length - 1);
+
+  useEffect(() => {
+    setZoom(1);
+    setPan({ x: 0, y: 0 });
+  }, [current]);
+
+  // Keeps the zoomed photo covering the frame instead of sliding off it
+  const clampPan = (next: { x: number; y: number }, atZoom: number) => {
+    const width = containerRef.current?.clientWidth || 0;
+    const height = containerRef.current?.clientHeight || 0;
+    const maxX = ((atZoom - 1) * width) / 2;
+    const maxY = ((atZoom - 1) * height) / 2;
+    return { x: clamp(next.x, -maxX, maxX), y: clamp(next.y, -maxY, maxY) };
+  };
+
+  const setZoomLevel = (next: number) => {
+    const level = clamp(next, 1, MAX_ZOOM);
+    setZoom(level);
+    setPan(prev => clampPan(prev, level));
+  };
+
+  const fingerDistance = () => {
+    const [a, b] = [...pointers.current.values()];
+    return Math.hypot(a.x - b.x, a.y - b.y);
+  };
+
+  const startGesture = (x: number, y: number) => {
+    gesture.current = {
+      startX: x,
+      startY: y,
+      startPan: pan,
+      startZoom: zoom,
+      pinchDistance: pointers.current.size >= 2 ? fingerDistance() : null,
+      moved: !!gesture.current?.moved,
+    };
+  };
+
+  const handlePointerDown = (e: React.PointerEvent<HTMLDivElement>) => {
+    e.currentTarget.setPointerCapture(e.pointerId);
+    pointers.current.set(e.pointerId, { x: e.clientX, y: e.clientY });
+    setIsGesturing(true);
+    startGesture(e.clientX, e.clientY);
+  };
+
+  const handlePointerMove = (e: React.PointerEvent<HTMLDivElement>) => {
+    if (!pointers.current.has(e.pointerId) || !gesture.current) return;
+    pointers.current.set(e.pointerId, { x: e.clientX, y: e.clientY });
+    const g = gesture.current;
+
+    if (g.pinchDistance && pointers.current.size >= 2) {
+      g.moved = true;
+      setZoomLevel(g.startZoom * (fingerDistance() / g.pinchDistance));
+      return;
+    }
+
+    const dx = e.clientX - g.startX;
+    const dy = e.clientY - g.startY;
+    if (Math.abs(dx) + Math.abs(dy) > 5) g.moved = true;
+    if (zoom > 1) setPan(clampPan({ x: g.startPan.x + dx, y: g.startPan.y + dy }, zoom));
+    else if (photos.length > 1) setDragX(dx);
+  };
+
+  const handlePointerUp = (e: React.PointerEvent<HTMLDivElement>) => {
+    if (!pointers.current.delete(e.pointerId)) return;
+
+    // One finger lifted from a pinch: carry on as a drag from where the other is
+    const [remaining] = [...pointers.current.values()];
+    if (remaining) return startGesture(remaining.x, remaining.y);
+
+    const g = gesture.current;
+    gesture.current = null;
+    setIsGesturing(false);
+
+    if (Math.abs(dragX) > SWIPE_DISTANCE) setIndex(clamp(current + (dragX < 0 ? 1 : -1), 0, photos.length - 1));
+    setDragX(0);
+    if (zoom < 1.05) setZoomLevel(1);
+
+    if (g && !g.moved) {
+      const now = Date.now();
+      if (now - lastTap.current < DOUBLE_TAP_MS) {
+        lastTap.current = 0;
+        if (zoom > 1) {
+          setZoom(1);
+          setPan({ x: 0, y: 0 });
+        } else {
+          setZoom(DOUBLE_TAP_ZOOM);
+        }
+      } else {
+        lastTap.current = now;
+      }
+    }
+  };
+
+  const handleWheel = (e: React.WheelEvent) => setZoomLevel(zoom * (e.deltaY < 0 ? 1.15 : 1 / 1.15));
+
+  // Buttons sit inside the gesture area; keep their taps from starting a drag
+  const stopGesture = (e: React.PointerEvent) => e.stopPropagation();
+
+  return (
+    <div
+      ref={containerRef}
+      className="relative w-full h-full overflow-hidden select-none touch-none"
+      onPointerDown={handlePointerDown}
+      onPointerMove={handlePointerMove}
+      onPointerUp={handlePointerUp}
+      onPointerCancel={handlePointerUp}
+      onWheel={handleWheel}
+    >
+      <div
+        className={`flex h-full ${isGesturing ? '' : 'transition-transform duration-300'}`}
+        style={{ transform: `translateX(calc(${-current * 100}% + ${dragX}px))` }}
+      >
+        {photos.map((url, i) => (
+          <div key={url} className="w-full h-full shrink-0 overflow-hidden">
+            <img
+              src={url}
+              draggable={false}
+              className={`w-full h-full object-contain ${isGesturing ? '' : 'transition-transform duration-200'}`}
+              style={i === current ? { transform: `translate(${pan.x}px, ${pan.y}px) scale(${zoom})` } : undefined}
+            />
+          </div>
+        ))}
+      </div>
+
+      {photos.length > 1 && zoom === 1 && (
+        <>
+          {current > 0 && (
+            <button
+              onPointerDown={stopGesture}
+              onClick={() => setIndex(current - 1)}
+              className="absolute left-2 top-1/2 -translate-y-1/2 bg-black/20 text-white rounded-full p-1 hover:bg-black/40 backdrop-blur-md"
+            >
+              <span className="material-icons-round">chevron_left</span>
+            </button>
+          )}
+          {current < photos.length - 1 && (
+            <button
+              onPointerDown={stopGesture}
+              onClick={() => setIndex(current + 1)}
+              className="absolute right-2 top-1/2 -translate-y-1/2 bg-black/20 text-white rounded-full p-1 hover:bg-black/40 backdrop-blur-md"
+            >
+              <span className="material-icons-round">chevron_right</span>
+            </button>
+          )}
+          <div className="absolute bottom-3 left-0 right-0 flex justify-center gap-1.5">
+            {photos.map((url, i) => (
+              <button
+                key={url}
+                onPointerDown={stopGesture}
+                onClick={() => setIndex(i)}
+                className={`w-2 h-2 rounded-full transition-colors ${i === current ? 'bg-white' : 'bg-white/40'}`}
+              />
+            ))}
+          </div>
+        </>
+      )}
+    </div>
+  );
+};
+
+export default PhotoGallery;
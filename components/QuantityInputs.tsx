@@ -0,0 +1,84 @@
+import React from 'react';
+import { Doll, SizeVariant } from '../types';
+import { quantityOf, sparesOf, tradeableOf } from '../services/trades';
+
+export type Counts = Pick<Doll, 'quantities' | 'for_trade'>;
+
+interface QuantityInputsProps {
+  /** The sizes the doll comes in; each gets its own counts. */
+  sizes: SizeVariant[];
+  values: Counts;
+  onChange: (values: Counts) => void;
+  /** Smaller inputs for the edit modal. */
+  compact?: boolean;
+}
+
+/** Copies owned per size, and how many of the spares are up for trade. */
+const QuantityInputs: React.FC<QuantityInputsProps> = ({ sizes, values, onChange, compact }) => {
+  if (sizes.length === 0) return null;
+  const counts = { ...values, sizes: sizes.map(s => s.id) };
+
+  const setQuantity = (sizeId: string, quantity: number) => {
+    const next = Math.max(1, quantity);
+    onChange({
+      quantities: { ...values.quantities, [sizeId]: next },
+      // Fewer copies can't leave more up for trade than there are spares
+      for_trade: { ...values.for_trade, [sizeId]: Math.min(tradeableOf(counts, sizeId), next - 1) },
+    });
+  };
+
+  const setTradeable = (sizeId: string, tradeable: number) =>
+    onChange({ ...values, for_trade: { ...values.for_trade, [sizeId]: Math.max(0, Math.min(tradeable, sparesOf(counts, sizeId))) } });
+
+  const stepper = (value: number, min: number, max: number, set: (value: number) => void, label: string) => (
+    <div className="flex items-center gap-1" aria-label={label}>
+      <button
+        type="button"
+        onClick={() => set(value - 1)}
+        disabled={value <= min}
+        className="w-6 h-6 rounded-full bg-slate-100 dark:bg-slate-800 text-slate-500 flex items-center justify-center disabled:opacity-30"
+      >
+        <span className="material-icons-round text-sm">remove</span>
+      </button>
+      <span className="w-6 text-center text-sm font-bold text-slate-700 dark:text-slate-200">{value}</span>
+      <button
+        type="button"
+        onClick={() => set(value + 1)}
+        disabled={value >= max}
+        className="w-6 h-6 rounded-full bg-slate-100 dark:bg-slate-800 text-slate-500 flex items-center justify-center disabled:opacity-30"
+      >
+        <span className="material-icons-round text-sm">add</span>
+      </button>
+    </div>
+  );
+
+  return (
+    <div>
+      <label className="block text-xs font-bold text-slate-500 uppercase mb-1">Copies</label>
+      <ul className={compact ? 'space-y-1.5' : 'space-y-2'}>
+        {sizes.map(size => {
+          const quantity = quantityOf(counts, size.id);
+          const spares = sparesOf(counts, size.id);
+          return (
+            <li key={size.id} className="flex flex-wrap items-center gap-x-4 gap-y-1 text-sm text-slate-600 dark:text-slate-300">
+              <span className="flex items-center gap-1.5 w-24 truncate">
+                <span className="w-2 h-2 rounded-full shrink-0" style={{ backgroundColor: size.color }}></span>
+                {size.label}
+              </span>
+              {stepper(quantity, 1, 99, value => setQuantity(size.id, value), `${size.label} copies`)}
+              {spares > 0 && (
+                <span className="flex items-center gap-1.5 text-xs text-slate-400">
+                  <span className="material-icons-round text-sm">swap_horiz</span>
+                  For trade
+                  {stepper(tradeableOf(counts, size.id), 0, spares, value => setTradeable(size.id, value), `${size.label} for trade`)}
+                </span>
+              )}
+            </li>
+          );
+        })}
+      </ul>
+    </div>
+  );
+};
+
+export default QuantityInputs;
@@ -0,0 +1,130 @@
+import React, { useRef, useState } from 'react';
+import { SearchContext, SearchError, completeSearch } from '../services/searchQuery';
+
+interface SearchQueryInputProps {
+  value: string;
+  onChange: (value: string) => void;
+  /** Parse errors for `value`, underlined where they are. */
+  errors: SearchError[];
+  context: SearchContext;
+}
+
+/**
+ * The search box: a text input over a copy of its text that marks parse errors in place,
+ * with suggestions for field keys and names below.
+ */
+const SearchQueryInput: React.FC<SearchQueryInputProps> = ({ value, onChange, errors, context }) => {
+  const inputRef = useRef<HTMLInputElement>(null);
+  const backdropRef = useRef<HTMLDivElement>(null);
+  const [caret, setCaret] = useState(value.length);
+  const [isFocused, setIsFocused] = useState(false);
+  const [highlighted, setHighlighted] = useState(0);
+
+  const completion = completeSearch(value, caret, context);
+  const showCompletions = isFocused && completion.options.length > 0;
+
+  const syncCaret = () => {
+    const input = inputRef.current;
+    if (!input) return;
+    setCaret(input.selectionStart ?? input.value.length);
+    if (backdropRef.current) backdropRef.current.scrollLeft = input.scrollLeft;
+  };
+
+  const accept = (index: number) => {
+    const option = completion.options[index];
+    if (!option) return;
+    const next = value.slice(0, completion.from) + option.insert + value.slice(completion.to);
+    const position = completion.from + option.insert.length;
+    onChange(next);
+    setCaret(position);
+    setHighlighted(0);
+    requestAnimationFrame(() => {
+      inputRef.current?.setSelectionRange(position, position);
+      if (backdropRef.current && inputRef.current) backdropRef.current.scrollLeft = inputRef.current.scrollLeft;
+    });
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (!showCompletions) return;
+    if (e.key === 'ArrowDown' || e.key === 'ArrowUp') {
+      e.preventDefault();
+      const step = e.key === 'ArrowDown' ? 1 : -1;
+      setHighlighted(prev => (prev + step + completion.options.length) % completion.options.length);
+    } else if (e.key === 'Tab' || e.key === 'Enter') {
+      e.preventDefault();
+      accept(Math.min(highlighted, completion.options.length - 1));
+    } else if (e.key === 'Escape') {
+      setIsFocused(false);
+    }
+  };
+
+  // The text split at the errors, so they can be marked under the transparent input
+  const pieces: { text: string; error?: SearchError }[] = [];
+  let at = 0;
+  [...errors].sort((a, b) => a.from - b.from).forEach(error => {
+    if (error.from < at) return;
+    pieces.push({ text: value.slice(at, error.from) }, { text: value.slice(error.from, error.to), error });
+    at = error.to;
+  });
+  pieces.push({ text: value.slice(at) });
+
+  return (
+    <div className="w-full relative">
+      <div className="relative bg-slate-100 dark:bg-slate-800 rounded-full">
+        <div
+          ref={backdropRef}
+          aria-hidden
+          className="absolute inset-0 py-2 pl-4 pr-8 text-sm whitespace-pre overflow-hidden pointer-events-none text-transparent"
+        >
+          {pieces.map((piece, i) => piece.error ? (
+            <span key={i} className="bg-red-200/70 dark:bg-red-500/40 rounded-sm underline decoration-wavy decoration-red-500">{piece.text}</span>
+          ) : piece.text)}
+        </div>
+        <input
+          ref={inputRef}
+          autoFocus
+          value={value}
+          onChange={e => { onChange(e.target.value); setHighlighted(0); syncCaret(); }}
+          onSelect={syncCaret}
+          onScroll={syncCaret}
+          onKeyDown={handleKeyDown}
+          onFocus={() => setIsFocused(true)}
+          onBlur={() => setIsFocused(false)}
+          placeholder="Search, or try category: size: caught:"
+          spellCheck={false}
+          className="relative w-full bg-transparent border-none rounded-full py-2 pl-4 pr-8 text-sm dark:text-white focus:ring-2 focus:ring-primary/50"
+        />
+        <span className="material-icons-round absolute right-3 top-2 text-slate-400 text-sm pointer-events-none">search</span>
+      </div>
+
+      {showCompletions ? (
+        <ul className="absolute left-0 right-0 mt-2 bg-white dark:bg-card-dark rounded-xl shadow-xl border border-slate-100 dark:border-slate-700 py-1 z-50 max-h-72 overflow-y-auto">
+          {completion.options.map((option, i) => (
+            <li key={option.insert}>
+              {/* Mouse down rather than click, which would come after the input's blur */}
+              <button
+                type="button"
+                onMouseDown={e => { e.preventDefault(); accept(i); }}
+                className={`w-full flex justify-between gap-3 px-3 py-1.5 text-left text-sm ${i === highlighted ? 'bg-blue-50 dark:bg-slate-700' : ''}`}
+              >
+                <span className="font-medium text-slate-700 dark:text-slate-200 truncate">{option.label}</span>
+                {option.detail && <span className="text-xs text-slate-400 truncate">{option.detail}</span>}
+              </button>
+            </li>
+          ))}
+        </ul>
+      ) : errors.length > 0 && (
+        <div className="absolute left-0 right-0 mt-2 bg-white dark:bg-card-dark rounded-xl shadow-xl border border-red-100 dark:border-red-900 px-3 py-2 z-50 space-y-0.5">
+          {errors.map(error => (
+            <p key={`${error.from}-${error.message}`} className="flex items-start gap-1 text-xs text-red-500">
+              <span className="material-icons-round text-sm">error_outline</span>
+              {error.message}
+            </p>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default SearchQueryInput;
@@ -0,0 +1,311 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { Category, ChecklistItem, Doll, Topic } from '../types';
+import { repository } from '../services/repository';
+import { history } from '../services/history';
+import { categoryEdited, dollAdded } from '../services/commands';
+import { compressImage } from '../services/utils';
+import { checklistOf, completion, fetchImageFile, newChecklistItem, ownedItems } from '../services/checklist';
+import { dollSizes, sizeVariantsOf } from '../services/sizes';
+import { currencyOf } from '../services/spending';
+import LoadingSpinner from './LoadingSpinner';
+
+interface SeriesChecklistProps {
+  topic: Topic;
+  category: Category;
+  readOnly: boolean;
+  /** The dolls of a share link's snapshot; otherwise the category's dolls are loaded. */
+  sharedDolls?: Doll[];
+  onClose: () => void;
+  /** After the checklist changes or an item is caught, so the category grid can refresh. */
+  onChanged: (category: Category) => void;
+}
+
+type ChecklistFilter = 'all' | 'missing' | 'owned';
+
+interface ItemDraft {
+  name: string;
+  sizes: string[];
+  imageFile: File | null;
+}
+
+const uploadImage = async (topicId: string, file: File, prefix: string) => {
+  const compressed = await compressImage(file);
+  const fileExt = compressed.name.split('.').pop();
+  return repository.images.upload(topicId, `${prefix}${Date.now()}.${fileExt}`, compressed);
+};
+
+/**
+ * Modal listing the known items of a category's series, owned or still missing.
+ * Editors add and edit items, and turn a missing one into a doll when they catch it.
+ */
+const SeriesChecklist: React.FC<SeriesChecklistProps> = ({ topic, category, readOnly, sharedDolls, onClose, onChanged }) => {
+  const sizeVariants = sizeVariantsOf(topic);
+  const emptyDraft = (): ItemDraft => ({ name: '', sizes: sizeVariants.slice(0, 1).map(v => v.id), imageFile: null });
+
+  const [current, setCurrent] = useState(category);
+  const [dolls, setDolls] = useState<Doll[] | null>(null);
+  const [filter, setFilter] = useState<ChecklistFilter>('all');
+  const [draft, setDraft] = useState<ItemDraft>(emptyDraft);
+  const [editing, setEditing] = useState<{ id: string; draft: ItemDraft } | null>(null);
+  const [busy, setBusy] = useState(false);
+
+  useEffect(() => {
+    if (sharedDolls) return setDolls(sharedDolls.filter(d => d.category_id === category.id));
+    repository.dolls.listByTopic(topic.id)
+      .then(list => setDolls(list.filter(d => d.category_id === category.id)))
+      .catch(err => {
+        console.error('Error fetching dolls:', err);
+        setDolls([]);
+      });
+  }, [category.id]);
+
+  const items = checklistOf(current);
+  const owned = useMemo(() => ownedItems(items, dolls || []), [items, dolls]);
+  const percent = completion(owned.size, items.length);
+  const shown = items.filter(item => filter === 'all' || (filter === 'owned') === owned.has(item.id));
+
+  const run = async (action: () => Promise<void>, failure: string) => {
+    setBusy(true);
+    try {
+      await action();
+    } catch (err) {
+      console.error(err);
+      alert(failure);
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const saveChecklist = async (checklist: ChecklistItem[]) => {
+    // Dropped pictures stay while the change can be undone
+    await repository.categories.update(current.id, { checklist }, { keepPreviousImage: true });
+    history.record(categoryEdited(current, { checklist }));
+    const updated = { ...current, checklist };
+    setCurrent(updated);
+    onChanged(updated);
+  };
+
+  const addItem = () => {
+    const name = draft.name.trim();
+    if (!name) return;
+    if (items.some(item => item.name.toLowerCase() === name.toLowerCase())) return alert(`"${name}" is already on the checklist.`);
+    run(async () => {
+      const imageUrl = draft.imageFile ? await uploadImage(topic.id, draft.imageFile, 'ref_') : null;
+      await saveChecklist([...items, newChecklistItem(name, draft.sizes, imageUrl)]);
+      setDraft(emptyDraft());
+    }, "Failed to add the item.");
+  };
+
+  const saveItem = () => {
+    if (!editing) return;
+    const name = editing.draft.name.trim();
+    if (!name) return;
+    run(async () => {
+      const imageFile = editing.draft.imageFile;
+      const imageUrl = imageFile ? await uploadImage(topic.id, imageFile, 'ref_') : undefined;
+      await saveChecklist(items.map(item => item.id === editing.id
+        ? { ...item, name, sizes: editing.draft.sizes, ...(imageUrl ? { image_url: imageUrl } : {}) }
+        : item));
+      setEditing(null);
+    }, "Failed to save the item.");
+  };
+
+  const removeItem = (item: ChecklistItem) => {
+    if (!confirm(`Remove "${item.name}" from the checklist?`)) return;
+    run(() => saveChecklist(items.filter(i => i.id !== item.id)), "Failed to remove the item.");
+  };
+
+  // One step from a missing entry to an owned doll, with a photo or the reference picture
+  const catchItem = (item: ChecklistItem, photo?: File) => run(async () => {
+    const file = photo || (item.image_url ? await fetchImageFile(item.image_url, item.name) : null);
+    if (!file) return;
+    const publicUrl = await uploadImage(topic.id, file, '');
+    const sizes = dollSizes({ sizes: item.sizes }, sizeVariants).map(v => v.id);
+    const doll = await repository.dolls.create({
+      name: item.name,
+      description: '',
+      sizes: sizes.length > 0 ? sizes : sizeVariants.slice(0, 1).map(v => v.id),
+      quantities: {},
+      for_trade: {},
+      custom_values: {},
+      tags: [],
+      category_id: current.id,
+      topic_id: topic.id,
+      catch_date: new Date().toISOString().split('T')[0],
+      method: null,
+      tries: null,
+      cost: null,
+      currency: currencyOf(topic),
+      venue: null,
+      image_url: publicUrl,
+      photos: [publicUrl],
+      checklist_item: item.id,
+    });
+    history.record(dollAdded(doll));
+    setDolls(prev => [...(prev || []), doll]);
+    onChanged(current);
+  }, "Failed to add the doll.");
+
+  const renderDraft = (value: ItemDraft, onChange: (draft: ItemDraft) => void, imageUrl?: string | null) => (
+    <div className="space-y-2">
+      <div className="flex gap-2">
+        <label className="relative w-12 h-12 shrink-0 rounded-lg bg-slate-100 dark:bg-slate-800 overflow-hidden flex items-center justify-center cursor-pointer border border-dashed border-slate-300 dark:border-slate-600">
+          {value.imageFile || imageUrl ? (
+            <img src={value.imageFile ? URL.createObjectURL(value.imageFile) : imageUrl!} className="w-full h-full object-cover" />
+          ) : (
+            <span className="material-icons-round text-slate-400 text-lg">add_photo_alternate</span>
+          )}
+          <input type="file" accept="image/*" className="absolute inset-0 opacity-0 cursor-pointer" onChange={e => e.target.files?.[0] && onChange({ ...value, imageFile: e.target.files[0] })} />
+        </label>
+        <input
+          value={value.name}
+          onChange={e => onChange({ ...value, name: e.target.value })}
+          placeholder="Item name"
+          className="flex-1 min-w-0 bg-slate-50 dark:bg-slate-800 rounded-lg px-3 text-sm dark:text-white border-none focus:ring-2 focus:ring-primary/50"
+        />
+      </div>
+      {sizeVariants.length > 1 && (
+        <div className="flex flex-wrap gap-1.5">
+          {sizeVariants.map(variant => {
+            const chosen = value.sizes.includes(variant.id);
+            return (
+              <button
+                key={variant.id}
+                type="button"
+                onClick={() => onChange({ ...value, sizes: chosen ? value.sizes.filter(s => s !== variant.id) : [...value.sizes, variant.id] })}
+                style={chosen ? { backgroundColor: variant.color, borderColor: variant.color } : undefined}
+                className={`px-2 py-0.5 rounded-full text-[10px] font-bold border ${chosen ? 'text-white' : 'text-slate-500 border-slate-200 dark:border-slate-700'}`}
+              >
+                {variant.label}
+              </button>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-black/60 backdrop-blur-sm" onClick={onClose}>
+      <div className="bg-white dark:bg-card-dark rounded-2xl w-full max-w-md p-6 shadow-2xl max-h-[90vh] overflow-y-auto" onClick={e => e.stopPropagation()}>
+        <div className="flex justify-between items-center mb-1">
+          <h2 className="text-xl font-bold text-slate-800 dark:text-white">{current.name} checklist</h2>
+          <button onClick={onClose} className="text-slate-400 hover:text-slate-600">
+            <span className="material-icons-round">close</span>
+          </button>
+        </div>
+
+        {items.length > 0 && (
+          <div className="mb-4">
+            <div className="flex justify-between text-xs text-slate-500 mb-1">
+              <span>{owned.size} of {items.length} owned</span>
+              <span className="font-bold">{percent}%</span>
+            </div>
+            <div className="h-2 rounded-full bg-uncollected dark:bg-uncollected-dark overflow-hidden">
+              <div className="h-full bg-primary rounded-full transition-all" style={{ width: `${percent}%` }} />
+            </div>
+            <div className="flex gap-2 mt-3">
+              {(['all', 'missing', 'owned'] as ChecklistFilter[]).map(option => (
+                <button
+                  key={option}
+                  onClick={() => setFilter(option)}
+                  className={`px-3 py-1 rounded-full text-xs font-bold capitalize ${filter === option ? 'bg-primary text-white' : 'bg-slate-100 dark:bg-slate-800 text-slate-500'}`}
+                >
+                  {option}
+                </button>
+              ))}
+            </div>
+          </div>
+        )}
+
+        {dolls === null ? <LoadingSpinner /> : (
+          <ul className={`space-y-2 ${busy ? 'opacity-50 pointer-events-none' : ''}`}>
+            {items.length === 0 && (
+              <li className="text-sm text-slate-400 text-center py-4">
+                No checklist yet.{!readOnly && ' Add the items of this series to track which ones are still missing.'}
+              </li>
+            )}
+            {items.length > 0 && shown.length === 0 && (
+              <li className="text-sm text-slate-400 text-center py-4">{filter === 'missing' ? 'Nothing missing. Complete!' : 'Nothing owned yet.'}</li>
+            )}
+            {shown.map(item => {
+              const doll = owned.get(item.id);
+              if (editing?.id === item.id) {
+                return (
+                  <li key={item.id} className="p-2 rounded-xl bg-slate-50 dark:bg-slate-800/50">
+                    {renderDraft(editing.draft, draft => setEditing({ id: item.id, draft }), item.image_url)}
+                    <div className="flex justify-end gap-2 mt-2">
+                      <button onClick={() => setEditing(null)} className="px-3 py-1 text-xs font-bold text-slate-500">Cancel</button>
+                      <button onClick={saveItem} disabled={!editing.draft.name.trim()} className="px-3 py-1 rounded-lg text-xs font-bold text-white bg-primary disabled:opacity-50">Save</button>
+                    </div>
+                  </li>
+                );
+              }
+              return (
+                <li key={item.id} className="flex items-center gap-3 p-2 rounded-xl bg-slate-50 dark:bg-slate-800/50">
+                  <div className={`w-12 h-12 shrink-0 rounded-lg overflow-hidden flex items-center justify-center ${doll ? '' : 'bg-uncollected dark:bg-uncollected-dark'}`}>
+                    {doll ? (
+                      <img src={doll.image_url} className="w-full h-full object-cover" />
+                    ) : item.image_url ? (
+                      <img src={item.image_url} className="w-full h-full object-cover grayscale opacity-60" />
+                    ) : (
+                      <span className="material-icons-round text-slate-400">help_outline</span>
+                    )}
+                  </div>
+                  <div className="flex-1 min-w-0">
+                    <p className={`text-sm font-bold truncate ${doll ? 'text-slate-700 dark:text-slate-200' : 'text-slate-400'}`}>{item.name}</p>
+                    <div className="flex flex-wrap gap-1 mt-0.5">
+                      {dollSizes(item, sizeVariants).map(variant => (
+                        <span key={variant.id} className="flex items-center gap-1 text-[10px] text-slate-400">
+                          <span className="w-1.5 h-1.5 rounded-full" style={{ backgroundColor: variant.color }} />
+                          {variant.label}
+                        </span>
+                      ))}
+                    </div>
+                  </div>
+                  {doll ? (
+                    <span className="material-icons-round text-green-500" title="Owned">check_circle</span>
+                  ) : !readOnly && (
+                    <div className="flex items-center gap-1">
+                      {item.image_url && (
+                        <button onClick={() => catchItem(item)} title="Caught it: add with the reference picture" className="px-2 py-1 rounded-lg bg-primary text-white text-xs font-bold whitespace-nowrap">
+                          Caught it
+                        </button>
+                      )}
+                      <label title="Caught it: add with a photo" className="relative p-1 text-primary cursor-pointer">
+                        <span className="material-icons-round text-lg">add_a_photo</span>
+                        <input type="file" accept="image/*" className="absolute inset-0 opacity-0 cursor-pointer" onChange={e => e.target.files?.[0] && catchItem(item, e.target.files[0])} />
+                      </label>
+                    </div>
+                  )}
+                  {!readOnly && (
+                    <div className="flex flex-col">
+                      <button onClick={() => setEditing({ id: item.id, draft: { name: item.name, sizes: item.sizes, imageFile: null } })} title="Edit" className="text-slate-400 hover:text-primary">
+                        <span className="material-icons-round text-base">edit</span>
+                      </button>
+                      <button onClick={() => removeItem(item)} title="Remove" className="text-slate-400 hover:text-red-500">
+                        <span className="material-icons-round text-base">delete</span>
+                      </button>
+                    </div>
+                  )}
+                </li>
+              );
+            })}
+          </ul>
+        )}
+
+        {!readOnly && (
+          <div className={`mt-4 pt-4 border-t border-slate-100 dark:border-slate-700 ${busy ? 'opacity-50 pointer-events-none' : ''}`}>
+            <h3 className="text-xs font-bold text-slate-500 uppercase mb-2">Add an item</h3>
+            {renderDraft(draft, setDraft)}
+            <button onClick={addItem} disabled={!draft.name.trim()} className="w-full mt-2 py-2 rounded-lg text-white font-bold bg-primary disabled:opacity-50">
+              Add to checklist
+            </button>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default SeriesChecklist;
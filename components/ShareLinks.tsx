@@ -0,0 +1,134 @@
+import React, { useEffect, useState } from 'react';
+import { ShareLink, Topic } from '../types';
+import { repository } from '../services/repository';
+import { shareUrl } from '../services/share';
+import LoadingSpinner from './LoadingSpinner';
+
+interface ShareLinksProps {
+  topic: Topic;
+  onClose: () => void;
+}
+
+/** Modal listing a topic's read-only share links, with create, copy, rotate and revoke. */
+const ShareLinks: React.FC<ShareLinksProps> = ({ topic, onClose }) => {
+  const [links, setLinks] = useState<ShareLink[] | null>(null);
+  const [hideCatchDates, setHideCatchDates] = useState(false);
+  const [busyId, setBusyId] = useState<string | null>(null);
+  const [copiedId, setCopiedId] = useState<string | null>(null);
+
+  useEffect(() => {
+    repository.shares.listByTopic(topic.id)
+      .then(setLinks)
+      .catch(err => {
+        console.error(err);
+        alert("Couldn't load share links. Are you online?");
+        onClose();
+      });
+  }, [topic.id]);
+
+  // Runs one link action at a time; `key` marks which button shows progress
+  const run = async (key: string, action: () => Promise<void>, failure: string) => {
+    setBusyId(key);
+    try {
+      await action();
+    } catch (err) {
+      console.error(err);
+      alert(failure);
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const createLink = () => run('new', async () => {
+    const link = await repository.shares.create(topic.id, { hideCatchDates });
+    setLinks(prev => [link, ...(prev || [])]);
+  }, "Failed to create link.");
+
+  const rotateLink = (id: string) => run(id, async () => {
+    const rotated = await repository.shares.rotate(id);
+    setLinks(prev => (prev || []).map(l => (l.id === id ? rotated : l)));
+  }, "Failed to rotate link.");
+
+  const revokeLink = (id: string) => run(id, async () => {
+    await repository.shares.revoke(id);
+    setLinks(prev => (prev || []).filter(l => l.id !== id));
+  }, "Failed to revoke link.");
+
+  const copyLink = async (link: ShareLink) => {
+    try {
+      await navigator.clipboard.writeText(shareUrl(link.token));
+      setCopiedId(link.id);
+      setTimeout(() => setCopiedId(prev => (prev === link.id ? null : prev)), 2000);
+    } catch (err) {
+      console.error(err);
+      prompt("Copy this link:", shareUrl(link.token));
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-[100] flex items-center justify-center p-4 bg-black/50 backdrop-blur-sm" onClick={onClose}>
+      <div className="bg-white dark:bg-card-dark rounded-2xl w-full max-w-sm p-6 shadow-2xl max-h-[90vh] overflow-y-auto" onClick={e => e.stopPropagation()}>
+        <div className="flex justify-between items-center mb-1">
+          <h2 className="text-xl font-bold text-slate-800 dark:text-white">Share "{topic.name}"</h2>
+          <button onClick={onClose} className="text-slate-400 hover:text-slate-600">
+            <span className="material-icons-round">close</span>
+          </button>
+        </div>
+        <p className="text-xs text-slate-400 mb-4">Anyone with a link can view this collection without signing in. They can't change anything.</p>
+
+        {links === null ? <LoadingSpinner /> : (
+          <div className="space-y-3 mb-4">
+            {links.length === 0 && <p className="text-sm text-slate-400 text-center py-2">No active links.</p>}
+            {links.map(link => (
+              <div key={link.id} className="p-3 rounded-xl bg-slate-50 dark:bg-slate-800">
+                <p className="text-xs font-mono text-slate-500 dark:text-slate-300 truncate">{shareUrl(link.token)}</p>
+                <p className="text-[10px] text-slate-400 mb-2">
+                  Created {new Date(link.created_at).toLocaleDateString()}{link.hide_catch_dates ? ' · catch dates hidden' : ''}
+                </p>
+                <div className="flex gap-2">
+                  <button onClick={() => copyLink(link)} className="flex-1 py-1.5 rounded-lg bg-primary text-white text-xs font-bold">
+                    {copiedId === link.id ? 'Copied!' : 'Copy'}
+                  </button>
+                  <button
+                    onClick={() => rotateLink(link.id)}
+                    disabled={busyId !== null}
+                    title="Replace the link; the old one stops working"
+                    className="flex-1 py-1.5 rounded-lg bg-white dark:bg-card-dark border border-slate-200 dark:border-slate-700 text-xs font-bold text-slate-500 disabled:opacity-50"
+                  >
+                    {busyId === link.id ? '...' : 'New Link'}
+                  </button>
+                  <button
+                    onClick={() => revokeLink(link.id)}
+                    disabled={busyId !== null}
+                    className="flex-1 py-1.5 rounded-lg bg-white dark:bg-card-dark border border-red-200 dark:border-red-900 text-xs font-bold text-red-500 disabled:opacity-50"
+                  >
+                    Revoke
+                  </button>
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+
+        <label className="flex items-center gap-2 text-sm text-slate-600 dark:text-slate-300 cursor-pointer mb-3">
+          <input
+            type="checkbox"
+            checked={hideCatchDates}
+            onChange={e => setHideCatchDates(e.target.checked)}
+            className="rounded border-slate-300 text-primary focus:ring-primary"
+          />
+          Hide catch dates
+        </label>
+        <button
+          onClick={createLink}
+          disabled={busyId !== null || links === null}
+          className="w-full bg-primary text-white py-3 rounded-xl font-bold shadow-soft hover:brightness-110 transition disabled:opacity-50"
+        >
+          {busyId === 'new' ? 'Creating...' : 'Create Link'}
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default ShareLinks;
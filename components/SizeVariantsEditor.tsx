@@ -0,0 +1,133 @@
+import React, { useState } from 'react';
+import { SizeVariant, Topic } from '../types';
+import { repository } from '../services/repository';
+import { history } from '../services/history';
+import { topicSizesChanged } from '../services/commands';
+import { newSizeVariant, sizeVariantsOf } from '../services/sizes';
+
+interface SizeVariantsEditorProps {
+  topic: Topic;
+  onClose: () => void;
+  onSaved: (topic: Topic) => void;
+}
+
+/** Modal for a topic's size variants: rename, recolor, reorder, add and remove. */
+const SizeVariantsEditor: React.FC<SizeVariantsEditorProps> = ({ topic, onClose, onSaved }) => {
+  const [variants, setVariants] = useState<SizeVariant[]>(sizeVariantsOf(topic));
+  const [newLabel, setNewLabel] = useState('');
+  const [isSaving, setIsSaving] = useState(false);
+
+  const updateVariant = (id: string, patch: Partial<SizeVariant>) =>
+    setVariants(prev => prev.map(v => (v.id === id ? { ...v, ...patch } : v)));
+
+  const moveVariant = (index: number, offset: number) =>
+    setVariants(prev => {
+      const next = [...prev];
+      [next[index], next[index + offset]] = [next[index + offset], next[index]];
+      return next;
+    });
+
+  const addVariant = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!newLabel.trim()) return;
+    setVariants(prev => [...prev, newSizeVariant(newLabel.trim(), prev)]);
+    setNewLabel('');
+  };
+
+  const handleSave = async () => {
+    const cleaned = variants.map(v => ({ ...v, label: v.label.trim() }));
+    if (cleaned.length === 0) return alert("Keep at least one size.");
+    if (cleaned.some(v => !v.label)) return alert("Every size needs a name.");
+    const labels = cleaned.map(v => v.label.toLowerCase());
+    if (new Set(labels).size !== labels.length) return alert("Two sizes have the same name.");
+
+    setIsSaving(true);
+    try {
+      const removed = sizeVariantsOf(topic).filter(v => !cleaned.some(c => c.id === v.id));
+      const counts = await Promise.all(removed.map(v =>
+        repository.dolls.page({ topicId: topic.id, size: v.id, sort: 'DATE_DESC' }, null, 1).then(page => page.total || 0)
+      ));
+      const inUse = removed.map((v, i) => (counts[i] > 0 ? `"${v.label}" (${counts[i]})` : null)).filter(Boolean);
+      if (inUse.length > 0 && !confirm(`Dolls marked ${inUse.join(', ')} will lose that size. Continue?`)) return;
+
+      await repository.topics.update(topic.id, { size_variants: cleaned });
+      history.record(topicSizesChanged(topic, cleaned));
+      onSaved({ ...topic, size_variants: cleaned });
+      onClose();
+    } catch (err) {
+      console.error(err);
+      alert("Failed to save sizes.");
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-[100] flex items-center justify-center p-4 bg-black/50 backdrop-blur-sm" onClick={onClose}>
+      <div className="bg-white dark:bg-card-dark rounded-2xl w-full max-w-sm p-6 shadow-2xl max-h-[90vh] overflow-y-auto" onClick={e => e.stopPropagation()}>
+        <div className="flex justify-between items-center mb-1">
+          <h2 className="text-xl font-bold text-slate-800 dark:text-white">Sizes in "{topic.name}"</h2>
+          <button onClick={onClose} className="text-slate-400 hover:text-slate-600">
+            <span className="material-icons-round">close</span>
+          </button>
+        </div>
+        <p className="text-xs text-slate-400 mb-4">Cards show a size bar in this order. Renaming a size keeps it on every doll.</p>
+
+        <div className="space-y-2 mb-4">
+          {variants.map((variant, index) => (
+            <div key={variant.id} className="flex items-center gap-2 p-2 rounded-xl bg-slate-50 dark:bg-slate-800">
+              <input
+                type="color"
+                value={variant.color}
+                onChange={e => updateVariant(variant.id, { color: e.target.value })}
+                title="Color"
+                className="w-7 h-7 shrink-0 rounded-full border-none p-0 bg-transparent cursor-pointer"
+              />
+              <input
+                value={variant.label}
+                onChange={e => updateVariant(variant.id, { label: e.target.value })}
+                className="flex-1 min-w-0 bg-white dark:bg-card-dark rounded-lg px-2 py-1 text-sm dark:text-white border border-slate-200 dark:border-slate-700"
+              />
+              <button onClick={() => moveVariant(index, -1)} disabled={index === 0} className="text-slate-400 hover:text-primary disabled:opacity-30">
+                <span className="material-icons-round text-lg">arrow_upward</span>
+              </button>
+              <button onClick={() => moveVariant(index, 1)} disabled={index === variants.length - 1} className="text-slate-400 hover:text-primary disabled:opacity-30">
+                <span className="material-icons-round text-lg">arrow_downward</span>
+              </button>
+              <button
+                onClick={() => setVariants(prev => prev.filter(v => v.id !== variant.id))}
+                disabled={variants.length === 1}
+                title="Remove"
+                className="text-slate-400 hover:text-red-500 disabled:opacity-30"
+              >
+                <span className="material-icons-round text-lg">delete</span>
+              </button>
+            </div>
+          ))}
+        </div>
+
+        <form onSubmit={addVariant} className="flex gap-2 mb-4">
+          <input
+            placeholder="e.g. XS, Jumbo"
+            value={newLabel}
+            onChange={e => setNewLabel(e.target.value)}
+            className="flex-1 min-w-0 bg-slate-50 dark:bg-slate-800 border-none rounded-xl px-3 text-sm dark:text-white focus:ring-2 focus:ring-primary/50"
+          />
+          <button type="submit" disabled={!newLabel.trim()} className="bg-slate-100 dark:bg-slate-800 text-slate-600 dark:text-slate-300 rounded-xl px-3 py-2 text-sm font-bold disabled:opacity-50">
+            Add
+          </button>
+        </form>
+
+        <button
+          onClick={handleSave}
+          disabled={isSaving}
+          className="w-full bg-primary text-white py-3 rounded-xl font-bold shadow-soft hover:brightness-110 transition disabled:opacity-50"
+        >
+          {isSaving ? 'Saving...' : 'Save Sizes'}
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default SizeVariantsEditor;
@@ -0,0 +1,161 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { Category, Doll, Topic } from '../types';
+import { repository } from '../services/repository';
+import { history } from '../services/history';
+import { topicCurrencyChanged } from '../services/commands';
+import { CURRENCIES, SpendingGroup, currencyOf, formatMoney, summarizeSpending } from '../services/spending';
+import LoadingSpinner from './LoadingSpinner';
+
+interface SpendingReportProps {
+  topic: Topic;
+  /** Only owners change the collection's currency. */
+  canChangeCurrency: boolean;
+  onClose: () => void;
+  onSaved: (topic: Topic) => void;
+}
+
+/** Modal with what a collection's dolls cost: totals per month, category and venue, and the priciest catches. */
+const SpendingReport: React.FC<SpendingReportProps> = ({ topic, canChangeCurrency, onClose, onSaved }) => {
+  const [data, setData] = useState<{ dolls: Doll[]; categories: Category[] } | null>(null);
+  const [currency, setCurrency] = useState(currencyOf(topic));
+  const [isSaving, setIsSaving] = useState(false);
+
+  useEffect(() => {
+    Promise.all([repository.dolls.listByTopic(topic.id), repository.categories.listByTopic(topic.id)])
+      .then(([dolls, categories]) => setData({ dolls, categories }))
+      .catch(err => {
+        console.error('Error fetching spending:', err);
+        alert("Failed to load spending.");
+        onClose();
+      });
+  }, [topic.id]);
+
+  const report = useMemo(() => data && summarizeSpending(data.dolls, data.categories, currency), [data, currency]);
+  const currencies = CURRENCIES.includes(currency) ? CURRENCIES : [currency, ...CURRENCIES];
+  const money = (amount: number) => formatMoney(amount, currency);
+
+  const handleCurrencyChange = async (next: string) => {
+    setIsSaving(true);
+    try {
+      await repository.topics.update(topic.id, { currency: next });
+      history.record(topicCurrencyChanged(topic, next));
+      setCurrency(next);
+      onSaved({ ...topic, currency: next });
+    } catch (err) {
+      console.error(err);
+      alert("Failed to change the currency.");
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const renderGroups = (title: string, groups: SpendingGroup[]) => {
+    const largest = Math.max(...groups.map(g => g.total), 0);
+    return (
+      <section>
+        <h3 className="text-xs font-bold text-slate-500 uppercase mb-2">{title}</h3>
+        <ul className="space-y-1.5">
+          {groups.map(group => (
+            <li key={group.key} className="text-sm">
+              <div className="flex justify-between gap-2">
+                <span className="truncate text-slate-700 dark:text-slate-200">{group.label}</span>
+                <span className="shrink-0 font-bold text-slate-700 dark:text-slate-200">{money(group.total)}</span>
+              </div>
+              <div className="flex items-center gap-2">
+                <div className="flex-1 h-1.5 rounded-full bg-slate-100 dark:bg-slate-800 overflow-hidden">
+                  <div className="h-full bg-primary rounded-full" style={{ width: `${largest ? (group.total / largest) * 100 : 0}%` }} />
+                </div>
+                <span className="text-[10px] text-slate-400 w-12 text-right">{group.count} {group.count === 1 ? 'doll' : 'dolls'}</span>
+              </div>
+            </li>
+          ))}
+        </ul>
+      </section>
+    );
+  };
+
+  return (
+    <div className="fixed inset-0 z-[100] flex items-center justify-center p-4 bg-black/50 backdrop-blur-sm" onClick={onClose}>
+      <div className="bg-white dark:bg-card-dark rounded-2xl w-full max-w-md p-6 shadow-2xl max-h-[90vh] overflow-y-auto" onClick={e => e.stopPropagation()}>
+        <div className="flex justify-between items-center mb-4">
+          <h2 className="text-xl font-bold text-slate-800 dark:text-white">Spending in "{topic.name}"</h2>
+          <button onClick={onClose} className="text-slate-400 hover:text-slate-600">
+            <span className="material-icons-round">close</span>
+          </button>
+        </div>
+
+        <div className="flex items-center justify-between mb-4 text-sm">
+          <span className="text-slate-500">Currency</span>
+          {canChangeCurrency ? (
+            <select
+              value={currency}
+              disabled={isSaving}
+              onChange={e => handleCurrencyChange(e.target.value)}
+              className="bg-slate-50 dark:bg-slate-800 rounded-lg px-2 py-1 text-sm dark:text-white border-none disabled:opacity-50"
+            >
+              {currencies.map(code => <option key={code} value={code}>{code}</option>)}
+            </select>
+          ) : (
+            <span className="font-bold text-slate-700 dark:text-slate-200">{currency}</span>
+          )}
+        </div>
+
+        {!report ? <LoadingSpinner /> : report.count === 0 ? (
+          <p className="text-sm text-slate-400 text-center py-4">
+            Nothing spent in {currency} yet. Add what a doll cost when adding or editing it.
+          </p>
+        ) : (
+          <div className="space-y-6">
+            <div className="grid grid-cols-2 gap-2">
+              {[
+                { label: 'Total spent', value: money(report.total) },
+                { label: 'Per doll', value: money(report.total / report.count) },
+                { label: 'Dolls paid for', value: String(report.count) },
+                {
+                  label: 'Tries per doll',
+                  value: report.triedCount ? (report.tries / report.triedCount).toFixed(1) : '—',
+                },
+              ].map(stat => (
+                <div key={stat.label} className="p-3 rounded-xl bg-slate-50 dark:bg-slate-800">
+                  <p className="text-[10px] font-bold text-slate-400 uppercase">{stat.label}</p>
+                  <p className="text-lg font-bold text-slate-800 dark:text-white">{stat.value}</p>
+                </div>
+              ))}
+            </div>
+
+            {renderGroups('By month', report.byMonth)}
+            {renderGroups('By category', report.byCategory)}
+            {renderGroups('By venue', report.byVenue)}
+
+            <section>
+              <h3 className="text-xs font-bold text-slate-500 uppercase mb-2">Most expensive</h3>
+              <ol className="space-y-2">
+                {report.mostExpensive.map(doll => (
+                  <li key={doll.id} className="flex items-center gap-3">
+                    <img src={doll.image_url} className="w-10 h-10 rounded-lg object-cover shrink-0" />
+                    <div className="flex-1 min-w-0">
+                      <p className="text-sm font-bold text-slate-700 dark:text-slate-200 truncate">{doll.name}</p>
+                      <p className="text-xs text-slate-400 truncate">
+                        {[doll.tries != null && `${doll.tries} ${doll.tries === 1 ? 'try' : 'tries'}`, doll.venue].filter(Boolean).join(' · ')}
+                      </p>
+                    </div>
+                    <span className="text-sm font-bold text-slate-700 dark:text-slate-200">{money(doll.cost!)}</span>
+                  </li>
+                ))}
+              </ol>
+            </section>
+          </div>
+        )}
+
+        {report && report.otherCurrencies.length > 0 && (
+          <p className="mt-6 text-xs text-slate-400">
+            Not included, paid in other currencies:{' '}
+            {report.otherCurrencies.map(other => `${formatMoney(other.total, other.currency)} (${other.count} ${other.count === 1 ? 'doll' : 'dolls'})`).join(', ')}
+          </p>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default SpendingReport;
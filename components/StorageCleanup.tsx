@@ -0,0 +1,75 @@
+import React, { useState } from 'react';
+import { sweepOrphanedImages, SweepReport } from '../services/imageSweep';
+
+const formatBytes = (bytes: number) => {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+};
+
+/** Scans the image bucket for files no row references (dry run) and purges them on request. */
+const StorageCleanup: React.FC = () => {
+  const [report, setReport] = useState<SweepReport | null>(null);
+  const [isSweeping, setIsSweeping] = useState(false);
+
+  const runSweep = async (dryRun: boolean) => {
+    setIsSweeping(true);
+    try {
+      setReport(await sweepOrphanedImages({ dryRun }));
+    } catch (err) {
+      console.error(err);
+      alert("Storage scan failed. Are you online?");
+    } finally {
+      setIsSweeping(false);
+    }
+  };
+
+  return (
+    <div className="mt-8">
+      <h3 className="text-sm font-bold text-slate-500 uppercase tracking-wider mb-3">Storage Cleanup</h3>
+      <div className="bg-white dark:bg-card-dark p-4 rounded-2xl shadow-sm border border-slate-100 dark:border-slate-700 space-y-3">
+        <p className="text-xs text-slate-400">Find photos left behind by deleted items. Scanning changes nothing.</p>
+
+        {report && (
+          <div className="text-sm text-slate-600 dark:text-slate-300">
+            {report.purged ? (
+              <p>Deleted {report.orphans.length} unused photo{report.orphans.length === 1 ? '' : 's'} ({formatBytes(report.orphanBytes)}).</p>
+            ) : report.orphans.length === 0 ? (
+              <p>All {report.scanned} photos are in use.</p>
+            ) : (
+              <>
+                <p>{report.orphans.length} of {report.scanned} photos are unused ({formatBytes(report.orphanBytes)}).</p>
+                <div className="flex gap-1 overflow-x-auto no-scrollbar mt-2">
+                  {report.orphans.slice(0, 20).map(file => (
+                    <img key={file.fileName} src={file.url} alt={file.fileName} className="w-12 h-12 rounded-lg object-cover shrink-0 bg-slate-100" />
+                  ))}
+                </div>
+              </>
+            )}
+          </div>
+        )}
+
+        <div className="flex gap-2">
+          <button
+            onClick={() => runSweep(true)}
+            disabled={isSweeping}
+            className="flex-1 py-2 bg-slate-100 dark:bg-slate-800 rounded-xl text-xs font-bold text-slate-500 disabled:opacity-50"
+          >
+            {isSweeping ? 'Scanning...' : 'Scan'}
+          </button>
+          {report && !report.purged && report.orphans.length > 0 && (
+            <button
+              onClick={() => runSweep(false)}
+              disabled={isSweeping}
+              className="flex-1 py-2 bg-red-500 rounded-xl text-xs font-bold text-white disabled:opacity-50"
+            >
+              Delete {report.orphans.length}
+            </button>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default StorageCleanup;
@@ -0,0 +1,136 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { createPortal } from 'react-dom';
+import { Doll, Topic } from '../types';
+import { repository } from '../services/repository';
+import { sizeVariantsOf, dollSizes } from '../services/sizes';
+import { quantityOf } from '../services/trades';
+import { findDolls, inventory, locationOf, locationPath, locationsOf } from '../services/locations';
+import LoadingSpinner from './LoadingSpinner';
+
+interface StorageFinderProps {
+  topic: Topic;
+  onClose: () => void;
+  /** Opens a found doll's detail modal. */
+  onSelect: (doll: Doll) => void;
+}
+
+/**
+ * "Where is it?": finds a doll by name and says where it's kept. With nothing typed it
+ * lists what each location holds, laid out to print when reorganizing.
+ */
+const StorageFinder: React.FC<StorageFinderProps> = ({ topic, onClose, onSelect }) => {
+  const locations = locationsOf(topic);
+  const sizeVariants = sizeVariantsOf(topic);
+  const [dolls, setDolls] = useState<Doll[] | null>(null);
+  const [text, setText] = useState('');
+
+  useEffect(() => {
+    repository.dolls.listByTopic(topic.id)
+      .then(setDolls)
+      .catch(err => {
+        console.error('Error fetching dolls:', err);
+        alert("Failed to load the dolls.");
+        onClose();
+      });
+  }, [topic.id]);
+
+  const sections = useMemo(() => (dolls ? inventory(locations, dolls) : []), [dolls, locations]);
+  const found = dolls ? findDolls(dolls, text) : [];
+
+  // "Small ×2, Normal" after the name, so a printout says how many to look for
+  const describeSizes = (doll: Doll) =>
+    dollSizes(doll, sizeVariants)
+      .map(v => (quantityOf(doll, v.id) > 1 ? `${v.label} ×${quantityOf(doll, v.id)}` : v.label))
+      .join(', ');
+
+  // Portaled next to the app so printing can hide everything else (see index.html)
+  return createPortal(
+    <div className="print-sheet fixed inset-0 z-[100] flex items-center justify-center p-4 bg-black/50 backdrop-blur-sm print:static print:block print:p-0 print:bg-white print:backdrop-blur-none" onClick={onClose}>
+      <div className="bg-white dark:bg-card-dark rounded-2xl w-full max-w-md p-6 shadow-2xl max-h-[90vh] overflow-y-auto print:max-h-none print:overflow-visible print:shadow-none print:rounded-none print:max-w-none" onClick={e => e.stopPropagation()}>
+        <div className="flex justify-between items-center mb-4 print:hidden">
+          <h2 className="text-xl font-bold text-slate-800 dark:text-white">Where is it?</h2>
+          <button onClick={onClose} className="text-slate-400 hover:text-slate-600">
+            <span className="material-icons-round">close</span>
+          </button>
+        </div>
+
+        <div className="relative mb-4 print:hidden">
+          <input
+            autoFocus
+            value={text}
+            onChange={e => setText(e.target.value)}
+            placeholder="Doll name..."
+            className="w-full bg-slate-100 dark:bg-slate-800 border-none rounded-full py-2 px-4 text-sm dark:text-white focus:ring-2 focus:ring-primary/50"
+          />
+          <span className="material-icons-round absolute right-3 top-2 text-slate-400 text-sm">search</span>
+        </div>
+
+        {!dolls ? <LoadingSpinner /> : text.trim() ? (
+          found.length === 0 ? (
+            <p className="text-sm text-slate-400 text-center py-4">No doll called "{text.trim()}".</p>
+          ) : (
+            <ul className="space-y-2">
+              {found.map(doll => {
+                const location = locationOf(doll, locations);
+                return (
+                  <li key={doll.id}>
+                    <button onClick={() => onSelect(doll)} className="w-full flex items-center gap-3 text-left p-2 rounded-xl hover:bg-slate-50 dark:hover:bg-slate-800">
+                      <img src={doll.image_url} alt={doll.name} className="w-12 h-12 rounded-lg object-cover shrink-0" />
+                      <div className="flex-1 min-w-0">
+                        <p className="text-sm font-bold text-slate-700 dark:text-slate-200 truncate">{doll.name}</p>
+                        <p className={`text-xs flex items-center gap-1 truncate ${location ? 'text-primary' : 'text-slate-400'}`}>
+                          <span className="material-icons-round text-sm">place</span>
+                          {location ? locationPath(locations, location.id) : 'Not put away'}
+                        </p>
+                      </div>
+                    </button>
+                  </li>
+                );
+              })}
+            </ul>
+          )
+        ) : (
+          <>
+            <div className="flex justify-between items-center mb-3">
+              <h3 className="text-xs font-bold text-slate-500 uppercase print:text-base print:text-black">Inventory of "{topic.name}"</h3>
+              <button onClick={() => window.print()} className="flex items-center gap-1 text-xs font-bold text-primary print:hidden">
+                <span className="material-icons-round text-base">print</span>
+                Print
+              </button>
+            </div>
+            <div className="space-y-4">
+              {sections.map(section => (
+                <section
+                  key={section.location?.id ?? 'none'}
+                  style={{ marginLeft: section.depth * 16 }}
+                  className="break-inside-avoid"
+                >
+                  <h4 className="flex items-center gap-1 text-sm font-bold text-slate-700 dark:text-slate-200 print:text-black">
+                    <span className="material-icons-round text-base text-slate-400">{section.location ? 'place' : 'help_outline'}</span>
+                    {section.location ? section.location.name : 'Not put away'}
+                    <span className="text-xs font-normal text-slate-400">({section.dolls.length})</span>
+                  </h4>
+                  {section.dolls.length === 0 ? (
+                    <p className="text-xs text-slate-400 ml-5">Empty</p>
+                  ) : (
+                    <ul className="ml-5 mt-1 space-y-0.5">
+                      {section.dolls.map(doll => (
+                        <li key={doll.id} className="flex justify-between gap-2 text-xs text-slate-600 dark:text-slate-300 print:text-black">
+                          <span className="truncate">{doll.name}</span>
+                          <span className="shrink-0 text-slate-400">{describeSizes(doll)}</span>
+                        </li>
+                      ))}
+                    </ul>
+                  )}
+                </section>
+              ))}
+            </div>
+          </>
+        )}
+      </div>
+    </div>,
+    document.body
+  );
+};
+
+export default StorageFinder;
@@ -0,0 +1,100 @@
+import React, { useEffect, useState } from 'react';
+import { SyncEngine, SyncStatus } from '../services/offlineRepository';
+
+interface SyncStatusBarProps {
+  sync: SyncEngine;
+}
+
+const formatValue = (value: unknown) => {
+  if (value === undefined || value === null || value === '') return '—';
+  return typeof value === 'string' ? value : JSON.stringify(value);
+};
+
+const SyncStatusBar: React.FC<SyncStatusBarProps> = ({ sync }) => {
+  const [status, setStatus] = useState<SyncStatus>(sync.getStatus());
+  const [showConflicts, setShowConflicts] = useState(false);
+
+  useEffect(() => sync.subscribe(setStatus), [sync]);
+
+  const { online, syncing, pending, conflicts } = status;
+  if (online && pending === 0 && conflicts.length === 0) return null;
+
+  return (
+    <>
+      <div className="absolute top-2 left-1/2 -translate-x-1/2 z-50 flex items-center gap-2 bg-white/90 dark:bg-card-dark/95 backdrop-blur-md shadow-soft border border-slate-100 dark:border-slate-700 rounded-full px-3 py-1 text-[10px] font-bold text-slate-500 dark:text-slate-300">
+        {!online ? (
+          <span className="flex items-center gap-1"><span className="material-icons-round text-sm text-amber-500">cloud_off</span>Offline</span>
+        ) : syncing ? (
+          <span className="flex items-center gap-1"><span className="material-icons-round text-sm text-primary animate-spin">sync</span>Syncing</span>
+        ) : null}
+        {pending > 0 && <span>{pending} change{pending === 1 ? '' : 's'} waiting</span>}
+        {conflicts.length > 0 && (
+          <button onClick={() => setShowConflicts(true)} className="flex items-center gap-1 text-red-500">
+            <span className="material-icons-round text-sm">warning</span>
+            {conflicts.length} conflict{conflicts.length === 1 ? '' : 's'}
+          </button>
+        )}
+      </div>
+
+      {showConflicts && (
+        <div className="fixed inset-0 z-[110] flex items-center justify-center p-4 bg-black/60 backdrop-blur-sm" onClick={() => setShowConflicts(false)}>
+          <div className="bg-white dark:bg-card-dark rounded-2xl w-full max-w-sm p-6 shadow-2xl max-h-[80vh] overflow-y-auto" onClick={e => e.stopPropagation()}>
+            <div className="flex justify-between items-center mb-4">
+              <h2 className="text-xl font-bold text-slate-800 dark:text-white">Sync Conflicts</h2>
+              <button onClick={() => setShowConflicts(false)} className="text-slate-400 hover:text-slate-600">
+                <span className="material-icons-round">close</span>
+              </button>
+            </div>
+            {conflicts.length === 0 && <p className="text-sm text-slate-400">All resolved.</p>}
+            <div className="space-y-4">
+              {conflicts.map(conflict => (
+                <div key={conflict.id} className="rounded-xl border border-slate-100 dark:border-slate-700 p-3">
+                  <p className="text-sm font-bold text-slate-700 dark:text-slate-200">{conflict.label}</p>
+                  <p className="text-[10px] text-slate-400 mb-2">
+                    {conflict.reason === 'deleted' ? 'Deleted on another device before your edit synced.'
+                      : conflict.reason === 'rejected' ? `Not saved: the server refused this change${conflict.message ? ` (${conflict.message})` : ''}. Showing the saved version.`
+                      : conflict.reason === 'upload' ? `A photo didn't upload${conflict.message ? ` (${conflict.message})` : ''}. Changes that use it are waiting until it does.`
+                      : 'Edited on another device while you were offline.'}
+                  </p>
+                  {conflict.reason === 'edited' && (
+                    <table className="w-full text-xs mb-3">
+                      <thead>
+                        <tr className="text-slate-400 text-left"><th className="font-bold">Field</th><th className="font-bold">Yours</th><th className="font-bold">Theirs</th></tr>
+                      </thead>
+                      <tbody>
+                        {Object.entries(conflict.fields).map(([field, values]) => (
+                          <tr key={field} className="text-slate-600 dark:text-slate-300 align-top">
+                            <td className="pr-2 font-medium">{field}</td>
+                            <td className="pr-2">{formatValue(values.mine)}</td>
+                            <td>{formatValue(values.theirs)}</td>
+                          </tr>
+                        ))}
+                      </tbody>
+                    </table>
+                  )}
+                  <div className="flex gap-2">
+                    {conflict.reason === 'edited' ? (
+                      <>
+                        <button onClick={() => sync.resolveConflict(conflict.id, 'theirs')} className="flex-1 py-1.5 bg-slate-100 dark:bg-slate-800 rounded-lg text-xs font-bold text-slate-500">Keep Theirs</button>
+                        <button onClick={() => sync.resolveConflict(conflict.id, 'mine')} className="flex-1 py-1.5 bg-primary rounded-lg text-xs font-bold text-white">Keep Mine</button>
+                      </>
+                    ) : conflict.reason === 'upload' ? (
+                      <>
+                        <button onClick={() => sync.resolveConflict(conflict.id, 'theirs')} className="flex-1 py-1.5 bg-slate-100 dark:bg-slate-800 rounded-lg text-xs font-bold text-slate-500">Drop Changes</button>
+                        <button onClick={() => sync.resolveConflict(conflict.id, 'mine')} className="flex-1 py-1.5 bg-primary rounded-lg text-xs font-bold text-white">Retry</button>
+                      </>
+                    ) : (
+                      <button onClick={() => sync.resolveConflict(conflict.id, 'theirs')} className="flex-1 py-1.5 bg-slate-100 dark:bg-slate-800 rounded-lg text-xs font-bold text-slate-500">Dismiss</button>
+                    )}
+                  </div>
+                </div>
+              ))}
+            </div>
+          </div>
+        </div>
+      )}
+    </>
+  );
+};
+
+export default SyncStatusBar;
@@ -0,0 +1,75 @@
+import React, { useState } from 'react';
+import { canonicalTag, normalizeTag, suggestTags } from '../services/tags';
+
+interface TagInputProps {
+  tags: string[];
+  /** Tags already in use in the topic, offered as suggestions. */
+  known: string[];
+  onChange: (tags: string[]) => void;
+  /** Smaller input for the edit modal. */
+  compact?: boolean;
+}
+
+/** Chosen tags as removable chips, plus a text input that suggests tags already in use. */
+const TagInput: React.FC<TagInputProps> = ({ tags, known, onChange, compact }) => {
+  const [text, setText] = useState('');
+  const suggestions = suggestTags(text, known, tags);
+
+  const addTag = (value: string) => {
+    const tag = canonicalTag(value, known);
+    if (tag && !tags.includes(tag)) onChange([...tags, tag]);
+    setText('');
+  };
+
+  // Enter or a comma commits what's typed; Backspace on an empty input takes the last tag off.
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if ((e.key === 'Enter' || e.key === ',') && normalizeTag(text)) {
+      e.preventDefault();
+      addTag(text);
+    } else if (e.key === 'Enter') {
+      e.preventDefault();
+    } else if (e.key === 'Backspace' && !text && tags.length > 0) {
+      onChange(tags.slice(0, -1));
+    }
+  };
+
+  return (
+    <div className="relative">
+      <div className={`flex flex-wrap items-center gap-1.5 bg-slate-50 dark:bg-slate-800 focus-within:ring-2 focus-within:ring-primary/50 ${compact ? 'rounded p-1.5' : 'rounded-lg p-2'}`}>
+        {tags.map(tag => (
+          <span key={tag} className="flex items-center gap-0.5 pl-2 pr-1 py-0.5 rounded-full bg-primary/10 text-primary text-xs font-bold">
+            {tag}
+            <button type="button" onClick={() => onChange(tags.filter(t => t !== tag))} className="hover:text-red-500">
+              <span className="material-icons-round text-sm">close</span>
+            </button>
+          </span>
+        ))}
+        <input
+          value={text}
+          onChange={e => setText(e.target.value)}
+          onKeyDown={handleKeyDown}
+          onBlur={() => normalizeTag(text) && addTag(text)}
+          placeholder={tags.length === 0 ? 'Add tags...' : ''}
+          className="flex-1 min-w-[6rem] bg-transparent border-none p-1 text-sm dark:text-white focus:ring-0"
+        />
+      </div>
+      {suggestions.length > 0 && (
+        <div className="absolute left-0 right-0 top-full mt-1 z-10 bg-white dark:bg-card-dark shadow-xl rounded-xl p-1 flex flex-col border border-slate-100 dark:border-slate-700">
+          {suggestions.map(tag => (
+            // mousedown, so the pick lands before the input's blur commits the partial text
+            <button
+              key={tag}
+              type="button"
+              onMouseDown={e => { e.preventDefault(); addTag(tag); }}
+              className="text-left text-xs p-2 rounded-lg text-slate-600 dark:text-slate-300 hover:bg-slate-50 dark:hover:bg-slate-700"
+            >
+              {tag}
+            </button>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default TagInput;
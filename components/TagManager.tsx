@@ -0,0 +1,133 @@
+import React, { useEffect, useState } from 'react';
+import { Topic } from '../types';
+import { repository } from '../services/repository';
+import LoadingSpinner from './LoadingSpinner';
+import { TagWithCount, canonicalTag, normalizeTag } from '../services/tags';
+
+interface TagManagerProps {
+  topic: Topic;
+  onClose: () => void;
+  /** After a rename, merge or delete, so the grid can reload. */
+  onChanged: () => void;
+}
+
+/** Modal listing a topic's tags, to rename, merge into another or delete across every doll. */
+const TagManager: React.FC<TagManagerProps> = ({ topic, onClose, onChanged }) => {
+  const [tags, setTags] = useState<TagWithCount[] | null>(null);
+  const [editing, setEditing] = useState<{ name: string; text: string } | null>(null);
+  const [mergingFrom, setMergingFrom] = useState<string | null>(null);
+  const [busy, setBusy] = useState(false);
+
+  const fetchTags = async () => {
+    try {
+      setTags(await repository.tags.listByTopic(topic.id));
+    } catch (err) {
+      console.error('Error fetching tags:', err);
+      setTags([]);
+    }
+  };
+
+  useEffect(() => {
+    fetchTags();
+  }, [topic.id]);
+
+  const run = async (action: () => Promise<void>, failure: string) => {
+    setBusy(true);
+    try {
+      await action();
+      onChanged();
+      await fetchTags();
+    } catch (err) {
+      console.error(err);
+      alert(failure);
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const renameTag = (from: string, to: string) => {
+    const names = (tags || []).map(t => t.name);
+    const target = canonicalTag(to, names.filter(n => n !== from));
+    setEditing(null);
+    setMergingFrom(null);
+    if (!target || target === from) return;
+    if (names.includes(target) && !confirm(`Merge "${from}" into "${target}"? Dolls tagged "${from}" will be tagged "${target}" instead.`)) return;
+    run(() => repository.tags.rename(topic.id, from, target), "Failed to rename tag.");
+  };
+
+  const deleteTag = (tag: TagWithCount) => {
+    if (!confirm(`Remove the tag "${tag.name}" from ${tag.count} ${tag.count === 1 ? 'doll' : 'dolls'}?`)) return;
+    run(() => repository.tags.remove(topic.id, tag.name), "Failed to delete tag.");
+  };
+
+  return (
+    <div className="fixed inset-0 z-[100] flex items-center justify-center p-4 bg-black/50 backdrop-blur-sm" onClick={onClose}>
+      <div className="bg-white dark:bg-card-dark rounded-2xl w-full max-w-sm p-6 shadow-2xl max-h-[90vh] overflow-y-auto" onClick={e => e.stopPropagation()}>
+        <div className="flex justify-between items-center mb-1">
+          <h2 className="text-xl font-bold text-slate-800 dark:text-white">Tags in "{topic.name}"</h2>
+          <button onClick={onClose} className="text-slate-400 hover:text-slate-600">
+            <span className="material-icons-round">close</span>
+          </button>
+        </div>
+        <p className="text-xs text-slate-400 mb-4">Changes apply to every doll carrying the tag. Renaming a tag to one that exists merges them.</p>
+
+        {tags === null ? <LoadingSpinner /> : (
+          <div className={`space-y-2 ${busy ? 'opacity-50 pointer-events-none' : ''}`}>
+            {tags.length === 0 && <p className="text-sm text-slate-400 text-center py-2">No tags yet. Add some while editing a doll.</p>}
+            {tags.map(tag => (
+              <div key={tag.name} className="p-2 rounded-xl bg-slate-50 dark:bg-slate-800">
+                {editing?.name === tag.name ? (
+                  <form onSubmit={e => { e.preventDefault(); renameTag(tag.name, editing.text); }} className="flex items-center gap-2">
+                    <input
+                      autoFocus
+                      value={editing.text}
+                      onChange={e => setEditing({ name: tag.name, text: e.target.value })}
+                      className="flex-1 min-w-0 bg-white dark:bg-card-dark rounded-lg px-2 py-1 text-sm dark:text-white border border-slate-200 dark:border-slate-700"
+                    />
+                    <button type="submit" disabled={!normalizeTag(editing.text)} className="text-primary disabled:opacity-30">
+                      <span className="material-icons-round text-lg">check</span>
+                    </button>
+                    <button type="button" onClick={() => setEditing(null)} className="text-slate-400 hover:text-slate-600">
+                      <span className="material-icons-round text-lg">close</span>
+                    </button>
+                  </form>
+                ) : (
+                  <div className="flex items-center gap-2">
+                    <span className="flex-1 min-w-0 truncate text-sm font-bold text-slate-700 dark:text-slate-200">{tag.name}</span>
+                    <span className="text-xs text-slate-400">{tag.count}</span>
+                    <button onClick={() => { setEditing({ name: tag.name, text: tag.name }); setMergingFrom(null); }} title="Rename" className="text-slate-400 hover:text-primary">
+                      <span className="material-icons-round text-lg">edit</span>
+                    </button>
+                    <button
+                      onClick={() => { setMergingFrom(mergingFrom === tag.name ? null : tag.name); setEditing(null); }}
+                      disabled={tags.length < 2}
+                      title="Merge into another tag"
+                      className={`hover:text-primary disabled:opacity-30 ${mergingFrom === tag.name ? 'text-primary' : 'text-slate-400'}`}
+                    >
+                      <span className="material-icons-round text-lg">merge_type</span>
+                    </button>
+                    <button onClick={() => deleteTag(tag)} title="Delete" className="text-slate-400 hover:text-red-500">
+                      <span className="material-icons-round text-lg">delete</span>
+                    </button>
+                  </div>
+                )}
+                {mergingFrom === tag.name && (
+                  <select
+                    value=""
+                    onChange={e => e.target.value && renameTag(tag.name, e.target.value)}
+                    className="w-full mt-2 bg-white dark:bg-card-dark rounded-lg px-2 py-1 text-xs dark:text-white border border-slate-200 dark:border-slate-700"
+                  >
+                    <option value="">Merge into...</option>
+                    {tags.filter(t => t.name !== tag.name).map(t => <option key={t.name} value={t.name}>{t.name}</option>)}
+                  </select>
+                )}
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default TagManager;
@@ -0,0 +1,186 @@
+import React, { useEffect, useState } from 'react';
+import { MemberRole, Topic, TopicInvite, TopicMember } from '../types';
+import { repository } from '../services/repository';
+import { ROLE_LABELS, canManage } from '../services/roles';
+import LoadingSpinner from './LoadingSpinner';
+
+interface TopicMembersProps {
+  topic: Topic;
+  /** The signed-in account. */
+  userId: string;
+  role: MemberRole | null;
+  onClose: () => void;
+  /** The signed-in account's own role changed, or it left the topic. */
+  onMembershipChange: (left: boolean) => void;
+}
+
+const ROLES: MemberRole[] = ['owner', 'editor', 'viewer'];
+
+/** Modal listing a topic's members and pending invites. Owners manage both; anyone can leave. */
+const TopicMembers: React.FC<TopicMembersProps> = ({ topic, userId, role, onClose, onMembershipChange }) => {
+  const isOwner = canManage(role);
+  const [members, setMembers] = useState<TopicMember[] | null>(null);
+  const [invites, setInvites] = useState<TopicInvite[]>([]);
+  const [inviteEmail, setInviteEmail] = useState('');
+  const [inviteRole, setInviteRole] = useState<MemberRole>('editor');
+  const [isBusy, setIsBusy] = useState(false);
+
+  const fetchMembers = async () => {
+    try {
+      const [list, pending] = await Promise.all([
+        repository.members.listByTopic(topic.id),
+        isOwner ? repository.members.listInvites(topic.id) : Promise.resolve([]),
+      ]);
+      setMembers(list);
+      setInvites(pending);
+    } catch (err) {
+      console.error(err);
+      alert("Couldn't load members. Are you online?");
+      onClose();
+    }
+  };
+
+  useEffect(() => {
+    fetchMembers();
+  }, [topic.id]);
+
+  // One change at a time; errors (e.g. removing the last owner) come back from the server
+  const run = async (action: () => Promise<void>, failure: string) => {
+    setIsBusy(true);
+    try {
+      await action();
+    } catch (err) {
+      console.error(err);
+      alert((err as { message?: string })?.message || failure);
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  const changeRole = (member: TopicMember, next: MemberRole) => run(async () => {
+    await repository.members.setRole(topic.id, member.user_id, next);
+    setMembers(prev => (prev || []).map(m => (m.user_id === member.user_id ? { ...m, role: next } : m)));
+    if (member.user_id === userId) onMembershipChange(false);
+  }, "Failed to change role.");
+
+  const removeMember = (member: TopicMember) => run(async () => {
+    const isSelf = member.user_id === userId;
+    if (isSelf && !confirm(`Leave "${topic.name}"? You'll need a new invite to come back.`)) return;
+    await repository.members.remove(topic.id, member.user_id);
+    setMembers(prev => (prev || []).filter(m => m.user_id !== member.user_id));
+    if (isSelf) {
+      onMembershipChange(true);
+      onClose();
+    }
+  }, "Failed to remove member.");
+
+  const sendInvite = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!inviteEmail.trim()) return;
+    run(async () => {
+      const invite = await repository.members.invite(topic.id, inviteEmail.trim(), inviteRole);
+      setInvites(prev => [invite, ...prev]);
+      setInviteEmail('');
+    }, "Failed to send invite.");
+  };
+
+  const withdrawInvite = (id: string) => run(async () => {
+    await repository.members.cancelInvite(id);
+    setInvites(prev => prev.filter(i => i.id !== id));
+  }, "Failed to withdraw invite.");
+
+  return (
+    <div className="fixed inset-0 z-[100] flex items-center justify-center p-4 bg-black/50 backdrop-blur-sm" onClick={onClose}>
+      <div className="bg-white dark:bg-card-dark rounded-2xl w-full max-w-sm p-6 shadow-2xl max-h-[90vh] overflow-y-auto" onClick={e => e.stopPropagation()}>
+        <div className="flex justify-between items-center mb-4">
+          <h2 className="text-xl font-bold text-slate-800 dark:text-white">Members of "{topic.name}"</h2>
+          <button onClick={onClose} className="text-slate-400 hover:text-slate-600">
+            <span className="material-icons-round">close</span>
+          </button>
+        </div>
+
+        {members === null ? <LoadingSpinner /> : (
+          <div className="space-y-2 mb-6">
+            {members.map(member => (
+              <div key={member.user_id} className="flex items-center gap-3 p-2 rounded-xl bg-slate-50 dark:bg-slate-800">
+                <div className="w-9 h-9 rounded-full bg-primary/10 text-primary flex items-center justify-center text-sm font-bold shrink-0">
+                  {(member.display_name || member.email).charAt(0).toUpperCase()}
+                </div>
+                <div className="flex-1 min-w-0">
+                  <p className="text-sm font-bold text-slate-700 dark:text-slate-200 truncate">
+                    {member.display_name || member.email}{member.user_id === userId ? ' (you)' : ''}
+                  </p>
+                  {member.display_name && <p className="text-[10px] text-slate-400 truncate">{member.email}</p>}
+                </div>
+                {isOwner ? (
+                  <select
+                    value={member.role}
+                    disabled={isBusy}
+                    onChange={e => changeRole(member, e.target.value as MemberRole)}
+                    className="bg-white dark:bg-card-dark rounded-lg p-1 text-xs dark:text-white border border-slate-200 dark:border-slate-700"
+                  >
+                    {ROLES.map(r => <option key={r} value={r}>{ROLE_LABELS[r]}</option>)}
+                  </select>
+                ) : (
+                  <span className="text-[10px] uppercase font-bold text-slate-400">{ROLE_LABELS[member.role]}</span>
+                )}
+                {(isOwner || member.user_id === userId) && (
+                  <button
+                    onClick={() => removeMember(member)}
+                    disabled={isBusy}
+                    title={member.user_id === userId ? 'Leave' : 'Remove'}
+                    className="p-1 text-slate-400 hover:text-red-500 disabled:opacity-50"
+                  >
+                    <span className="material-icons-round text-lg">{member.user_id === userId ? 'logout' : 'person_remove'}</span>
+                  </button>
+                )}
+              </div>
+            ))}
+          </div>
+        )}
+
+        {isOwner && (
+          <>
+            <h3 className="text-xs font-bold text-slate-500 uppercase tracking-wider mb-2">Invite</h3>
+            {invites.length > 0 && (
+              <div className="space-y-1 mb-3">
+                {invites.map(invite => (
+                  <div key={invite.id} className="flex items-center gap-2 text-xs text-slate-500 dark:text-slate-400">
+                    <span className="material-icons-round text-sm">schedule</span>
+                    <span className="flex-1 truncate">{invite.email} · {ROLE_LABELS[invite.role]}</span>
+                    <button onClick={() => withdrawInvite(invite.id)} disabled={isBusy} className="font-bold text-red-500 hover:underline disabled:opacity-50">
+                      Withdraw
+                    </button>
+                  </div>
+                ))}
+              </div>
+            )}
+            <form onSubmit={sendInvite} className="flex gap-2">
+              <input
+                type="email"
+                required
+                placeholder="partner@example.com"
+                value={inviteEmail}
+                onChange={e => setInviteEmail(e.target.value)}
+                className="flex-1 min-w-0 bg-slate-50 dark:bg-slate-800 border-none rounded-xl px-3 text-sm dark:text-white focus:ring-2 focus:ring-primary/50"
+              />
+              <select
+                value={inviteRole}
+                onChange={e => setInviteRole(e.target.value as MemberRole)}
+                className="bg-slate-50 dark:bg-slate-800 rounded-xl px-2 text-xs dark:text-white border-none"
+              >
+                {ROLES.map(r => <option key={r} value={r}>{ROLE_LABELS[r]}</option>)}
+              </select>
+              <button type="submit" disabled={isBusy || !inviteEmail} className="bg-primary text-white rounded-xl px-3 py-2 text-sm font-bold disabled:opacity-50">
+                Invite
+              </button>
+            </form>
+            <p className="text-[10px] text-slate-400 mt-2">They'll see the invite in their profile after signing in with that email.</p>
+          </>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default TopicMembers;
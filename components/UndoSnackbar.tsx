@@ -0,0 +1,89 @@
+import React, { useEffect, useState } from 'react';
+import { history, HistoryEvent } from '../services/history';
+
+const SNACKBAR_MS = 5000;
+
+// Text fields keep the browser's own undo.
+const isTextInput = (target: EventTarget | null) => {
+  const el = target as HTMLElement | null;
+  return !!el && (el.isContentEditable || ['INPUT', 'TEXTAREA', 'SELECT'].includes(el.tagName));
+};
+
+/**
+ * Shows the last recorded, undone or redone action with a button to reverse it.
+ * Also owns the desktop shortcuts: Ctrl/Cmd+Z undoes, Ctrl/Cmd+Shift+Z or Ctrl+Y redoes.
+ */
+const UndoSnackbar: React.FC = () => {
+  const [event, setEvent] = useState<HistoryEvent | null>(null);
+  const [isBusy, setIsBusy] = useState(false);
+
+  useEffect(() => {
+    let hideTimer: ReturnType<typeof setTimeout> | undefined;
+    const unsubscribe = history.subscribe(e => {
+      setEvent(e);
+      clearTimeout(hideTimer);
+      hideTimer = setTimeout(() => setEvent(null), SNACKBAR_MS);
+    });
+    return () => {
+      clearTimeout(hideTimer);
+      unsubscribe();
+    };
+  }, []);
+
+  const run = async (step: 'undo' | 'redo') => {
+    if (step === 'undo' ? !history.canUndo() : !history.canRedo()) return;
+    setIsBusy(true);
+    try {
+      await history[step]();
+    } catch (err) {
+      console.error(err);
+      alert(step === 'undo' ? "Could not undo." : "Could not redo.");
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  useEffect(() => {
+    const onKeyDown = (e: KeyboardEvent) => {
+      if (!(e.ctrlKey || e.metaKey) || e.altKey || isTextInput(e.target)) return;
+      const key = e.key.toLowerCase();
+      if (key === 'z' && !e.shiftKey) {
+        e.preventDefault();
+        run('undo');
+      } else if ((key === 'z' && e.shiftKey) || key === 'y') {
+        e.preventDefault();
+        run('redo');
+      }
+    };
+    window.addEventListener('keydown', onKeyDown);
+    return () => window.removeEventListener('keydown', onKeyDown);
+  }, []);
+
+  if (!event) return null;
+
+  const step = event.type === 'undone' ? 'redo' : 'undo';
+  const canRun = step === 'undo' ? history.canUndo() : history.canRedo();
+  const message = event.type === 'recorded' ? event.label : `${event.type === 'undone' ? 'Undone' : 'Redone'}: ${event.label}`;
+
+  return (
+    <div className="fixed bottom-24 left-1/2 -translate-x-1/2 z-40 w-[calc(100%-2rem)] max-w-sm animate-in fade-in slide-in-from-bottom duration-200">
+      <div className="flex items-center gap-3 bg-slate-800 dark:bg-slate-700 text-white rounded-2xl shadow-2xl px-4 py-3">
+        <span className="flex-1 text-sm truncate">{message}</span>
+        {canRun && (
+          <button
+            onClick={() => run(step)}
+            disabled={isBusy}
+            className="text-sm font-bold text-primary uppercase tracking-wider disabled:opacity-50"
+          >
+            {step === 'undo' ? 'Undo' : 'Redo'}
+          </button>
+        )}
+        <button onClick={() => setEvent(null)} className="text-slate-400 hover:text-white">
+          <span className="material-icons-round text-lg">close</span>
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default UndoSnackbar;
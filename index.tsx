@@ -1,15 +1,20 @@
 import React from 'react';
 import ReactDOM from 'react-dom/client';
 import App from './App';
+import SharedCollectionView from './views/SharedCollectionView';
+import { shareTokenFromUrl } from './services/share';
 
 const rootElement = document.getElementById('root');
 if (!rootElement) {
   throw new Error("Could not find root element to mount to");
 }
 
+// Share links open a read-only page that needs no account
+const shareToken = shareTokenFromUrl();
+
 const root = ReactDOM.createRoot(rootElement);
 root.render(
   <React.StrictMode>
-    <App />
+    {shareToken ? <SharedCollectionView token={shareToken} /> : <App />}
   </React.StrictMode>
 );
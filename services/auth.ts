@@ -0,0 +1,125 @@
+import type { User } from '@supabase/supabase-js';
+import { supabase } from './supabaseClient';
+
+export interface Account {
+  id: string;
+  email: string;
+  displayName: string;
+  created_at: string;
+}
+
+export interface AuthService {
+  /** The signed-in account, as of the last auth event. */
+  current(): Account | null;
+  /** Resolves once the stored session (if any) has been read. */
+  ready(): Promise<Account | null>;
+  /** Returns the unsubscribe function. */
+  subscribe(listener: (account: Account | null) => void): () => void;
+  /** `needsConfirmation`: the account exists but the email must be confirmed before signing in. */
+  signUp(email: string, password: string, displayName: string): Promise<{ needsConfirmation: boolean }>;
+  signIn(email: string, password: string): Promise<void>;
+  signOut(): Promise<void>;
+  updateProfile(patch: { displayName: string }): Promise<void>;
+}
+
+const toAccount = (user: User): Account => ({
+  id: user.id,
+  email: user.email || '',
+  displayName: (user.user_metadata?.display_name as string | undefined) || '',
+  created_at: user.created_at,
+});
+
+/** Email and password accounts through Supabase Auth; the session persists in local storage. */
+const createSupabaseAuth = (): AuthService => {
+  let account: Account | null = null;
+  const listeners = new Set<(account: Account | null) => void>();
+
+  const setAccount = (next: Account | null) => {
+    account = next;
+    listeners.forEach(listener => listener(account));
+  };
+
+  const initial = supabase.auth.getSession().then(({ data }) => {
+    account = data.session ? toAccount(data.session.user) : null;
+    return account;
+  });
+
+  supabase.auth.onAuthStateChange((_event, session) => {
+    const next = session ? toAccount(session.user) : null;
+    // Token refreshes repeat the same user; only report real changes.
+    if (JSON.stringify(next) !== JSON.stringify(account)) setAccount(next);
+  });
+
+  return {
+    current: () => account,
+    ready: () => initial,
+    subscribe(listener) {
+      listeners.add(listener);
+      return () => { listeners.delete(listener); };
+    },
+    async signUp(email, password, displayName) {
+      const { data, error } = await supabase.auth.signUp({
+        email,
+        password,
+        options: { data: { display_name: displayName } },
+      });
+      if (error) throw error;
+      return { needsConfirmation: !data.session };
+    },
+    async signIn(email, password) {
+      const { error } = await supabase.auth.signInWithPassword({ email, password });
+      if (error) throw error;
+    },
+    async signOut() {
+      const { error } = await supabase.auth.signOut();
+      if (error) throw error;
+    },
+    async updateProfile({ displayName }) {
+      const { data, error } = await supabase.auth.updateUser({ data: { display_name: displayName } });
+      if (error) throw error;
+      if (data.user) setAccount(toAccount(data.user));
+    },
+  };
+};
+
+// Demo accounts are told apart by email, so invites between them work within one session.
+const localAccount = (email: string, displayName: string): Account =>
+  ({ id: `local:${email.toLowerCase()}`, email, displayName, created_at: new Date().toISOString() });
+
+/**
+ * Demo-mode accounts: any email and password sign in, nothing is checked or stored.
+ * Starts signed in so the in-memory store is usable straight away.
+ */
+const createLocalAuth = (): AuthService => {
+  let account: Account | null = localAccount('demo@example.com', 'Demo');
+  const listeners = new Set<(account: Account | null) => void>();
+
+  const setAccount = (next: Account | null) => {
+    account = next;
+    listeners.forEach(listener => listener(account));
+  };
+
+  return {
+    current: () => account,
+    ready: async () => account,
+    subscribe(listener) {
+      listeners.add(listener);
+      return () => { listeners.delete(listener); };
+    },
+    async signUp(email, _password, displayName) {
+      setAccount(localAccount(email, displayName));
+      return { needsConfirmation: false };
+    },
+    async signIn(email) {
+      setAccount(localAccount(email, ''));
+    },
+    async signOut() {
+      setAccount(null);
+    },
+    async updateProfile({ displayName }) {
+      if (account) setAccount({ ...account, displayName });
+    },
+  };
+};
+
+export const auth: AuthService = import.meta.env.VITE_DATA_BACKEND === 'local' ? createLocalAuth() : createSupabaseAuth();
@@ -0,0 +1,37 @@
+import { Category, Doll } from '../types';
+import { checklistOf, ownedItems } from './checklist';
+
+/** A category with the aggregates the category grid shows, as one row of `category_stats`. */
+export interface CategoryWithStats {
+  category: Category;
+  count: number;
+  latestCatchDate: string | null;
+  /** The most recently added doll's photo, for categories without their own image. */
+  sampleImageUrl: string | null;
+  /** How many of the category's checklist items its dolls fulfil. */
+  checklistOwned: number;
+}
+
+export const emptyStats = (category: Category): CategoryWithStats => ({
+  category,
+  count: 0,
+  latestCatchDate: null,
+  sampleImageUrl: null,
+  checklistOwned: 0,
+});
+
+/** In-memory equivalent of the `category_stats` view (local backend, offline cache). */
+export const summarizeCategories = (categories: Category[], dolls: Doll[]): CategoryWithStats[] =>
+  categories.map(category => {
+    const members = dolls
+      .filter(d => d.category_id === category.id)
+      .sort((a, b) => b.created_at.localeCompare(a.created_at));
+    const catchDates = members.map(d => d.catch_date).filter((date): date is string => !!date).sort();
+    return {
+      category,
+      count: members.length,
+      latestCatchDate: catchDates[catchDates.length - 1] || null,
+      sampleImageUrl: members[0]?.image_url || null,
+      checklistOwned: ownedItems(checklistOf(category), members).size,
+    };
+  });
@@ -0,0 +1,78 @@
+import { Category } from '../types';
+import { CategoryWithStats } from './categoryStats';
+
+type TreeNode = Pick<Category, 'id' | 'parent_id'>;
+
+// A parent that is in the trash, or gone, leaves its children at the top level.
+const parentIn = (ids: Set<string>, category: TreeNode) =>
+  category.parent_id && ids.has(category.parent_id) ? category.parent_id : null;
+
+/** The categories directly inside `parentId`, or at the top level for null. */
+export const childrenOf = <T extends TreeNode>(categories: T[], parentId: string | null) => {
+  const ids = new Set(categories.map(c => c.id));
+  return categories.filter(c => parentIn(ids, c) === parentId);
+};
+
+/** The category and everything nested below it, e.g. to filter dolls by a parent. */
+export const subtreeIds = (categories: TreeNode[], id: string) => {
+  const ids = [id];
+  for (let i = 0; i < ids.length; i++) {
+    categories.forEach(c => {
+      if (c.parent_id === ids[i] && !ids.includes(c.id)) ids.push(c.id);
+    });
+  }
+  return ids;
+};
+
+/** From the top level down to the category itself, for breadcrumbs. */
+export const ancestry = <T extends TreeNode>(categories: T[], id: string | null) => {
+  const byId = new Map(categories.map(c => [c.id, c]));
+  const path: T[] = [];
+  let current = id ? byId.get(id) : undefined;
+  while (current && !path.includes(current)) {
+    path.unshift(current);
+    current = current.parent_id ? byId.get(current.parent_id) : undefined;
+  }
+  return path;
+};
+
+/** "Sanrio › Cinnamoroll › Seasonal" */
+export const categoryPath = (categories: Category[], id: string) =>
+  ancestry(categories, id).map(c => c.name).join(' › ');
+
+/** Every category with its depth, each followed by its children, for indented pickers. */
+export const flattenTree = <T extends TreeNode>(categories: T[]) => {
+  const rows: { category: T; depth: number }[] = [];
+  const visit = (parentId: string | null, depth: number) =>
+    childrenOf(categories, parentId).forEach(category => {
+      rows.push({ category, depth });
+      visit(category.id, depth + 1);
+    });
+  visit(null, 0);
+  return rows;
+};
+
+/** An option label indented to show nesting; select options can't be styled. */
+export const indentedName = (name: string, depth: number) => `${'\u00a0\u00a0\u00a0'.repeat(depth)}${name}`;
+
+/** Whether `id` can move into `parentId` without ending up inside itself. */
+export const canMoveTo = (categories: TreeNode[], id: string, parentId: string | null) =>
+  !parentId || !subtreeIds(categories, id).includes(parentId);
+
+/** Stats that include every descendant's dolls, as a parent's card shows them. */
+export const rollUpStats = (stats: CategoryWithStats[]): CategoryWithStats[] => {
+  const nodes = stats.map(s => s.category);
+  const byId = new Map(stats.map(s => [s.category.id, s]));
+  return stats.map(item => {
+    const subtree = subtreeIds(nodes, item.category.id).map(id => byId.get(id)!).filter(Boolean);
+    const catchDates = subtree.map(s => s.latestCatchDate).filter((date): date is string => !!date).sort();
+    return {
+      category: item.category,
+      count: subtree.reduce((sum, s) => sum + s.count, 0),
+      latestCatchDate: catchDates[catchDates.length - 1] || null,
+      sampleImageUrl: item.sampleImageUrl || subtree.find(s => s.sampleImageUrl)?.sampleImageUrl || null,
+      // A checklist belongs to its own category; subcategories keep theirs
+      checklistOwned: item.checklistOwned,
+    };
+  });
+};
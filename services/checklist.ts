@@ -0,0 +1,40 @@
+import { Category, ChecklistItem, Doll } from '../types';
+
+// Rows cached before categories had checklists carry none.
+export const checklistOf = (category: Pick<Category, 'checklist'>) => category.checklist || [];
+
+export const newChecklistItem = (name: string, sizes: string[], image_url: string | null = null): ChecklistItem => ({
+  id: crypto.randomUUID().slice(0, 8),
+  name,
+  image_url,
+  sizes,
+});
+
+const sameName = (a: string, b: string) => a.trim().toLowerCase() === b.trim().toLowerCase();
+
+/**
+ * The doll in the category that fulfils each checklist item, by item id. A doll linked
+ * to an item (`checklist_item`) owns it; otherwise an unlinked doll of the same name
+ * does, so dolls added before the checklist count without relinking them.
+ */
+export const ownedItems = (items: ChecklistItem[], dolls: Doll[]) => {
+  const owned = new Map<string, Doll>();
+  items.forEach(item => {
+    const doll = dolls.find(d => d.checklist_item === item.id)
+      || dolls.find(d => !d.checklist_item && sameName(d.name, item.name));
+    if (doll) owned.set(item.id, doll);
+  });
+  return owned;
+};
+
+/** Whole percent of the checklist owned; 0 for an empty one. */
+export const completion = (owned: number, total: number) => (total === 0 ? 0 : Math.round((owned / total) * 100));
+
+/** A reference picture as a file, so a caught item gets its own copy rather than sharing the checklist's. */
+export const fetchImageFile = async (url: string, name: string) => {
+  const response = await fetch(url);
+  if (!response.ok) throw new Error(`Could not fetch ${url}: ${response.status}`);
+  const blob = await response.blob();
+  const extension = blob.type.split('/')[1] || 'jpg';
+  return new File([blob], `${name}.${extension}`, { type: blob.type });
+};
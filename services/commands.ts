@@ -0,0 +1,125 @@
+import { Doll, Category, Topic, SizeVariant, CustomField, StorageLocation } from '../types';
+import { repository, DollUpdate, CategoryUpdate, CategoryDeleteOptions } from './repository';
+import type { Command } from './history';
+import { imageUrlsOf } from './photos';
+import { checklistOf } from './checklist';
+import { currencyOf } from './spending';
+import { locationsOf } from './locations';
+
+// The values `patch` is about to overwrite, so undo can put them back.
+const previousValues = <T extends object, P extends object>(row: T, patch: P) =>
+  Object.fromEntries(Object.keys(patch).map(key => [key, (row as Record<string, unknown>)[key] ?? null])) as P;
+
+// Deletes go to the trash, so undoing an add or redoing a delete is a restore away.
+export const dollAdded = (doll: Doll): Command => ({
+  label: `Added "${doll.name}"`,
+  undo: () => repository.dolls.remove(doll.id),
+  redo: () => repository.trash.restore('dolls', doll.id),
+});
+
+/** Like categoryEdited, photos taken off the doll stay in storage until the command drops out. */
+export const dollEdited = (before: Doll, patch: DollUpdate): Command => {
+  const previous = previousValues(before, patch);
+  const photosChanged = patch.photos !== undefined || patch.image_url !== undefined;
+  const options = { keepPreviousImage: true };
+  return {
+    label: `Edited "${before.name}"`,
+    undo: () => repository.dolls.update(before.id, previous, options),
+    redo: () => repository.dolls.update(before.id, patch, options),
+    dispose: photosChanged
+      ? () => {
+          repository.images.release([...imageUrlsOf(before), ...imageUrlsOf(patch)])
+            .catch(err => console.error('Failed to release removed photos', err));
+        }
+      : undefined,
+  };
+};
+
+export const dollDeleted = (doll: Doll): Command => ({
+  label: `Deleted "${doll.name}"`,
+  undo: () => repository.trash.restore('dolls', doll.id),
+  redo: () => repository.dolls.remove(doll.id),
+});
+
+export const categoryCreated = (category: Category): Command => ({
+  label: `Created "${category.name}"`,
+  undo: () => repository.categories.remove(category.id, { dolls: 'uncategorize' }),
+  redo: () => repository.trash.restore('categories', category.id),
+});
+
+/**
+ * Rename, image change, move under another parent and/or checklist change. Replaced
+ * images stay in storage while the command is in the history and are released once
+ * it drops out.
+ */
+export const categoryEdited = (before: Category, patch: CategoryUpdate): Command => {
+  const previous = { ...previousValues(before, patch), ...(patch.checklist ? { checklist: checklistOf(before) } : {}) };
+  const renamed = patch.name !== undefined && patch.name !== before.name;
+  const imageChanged = patch.image_url !== undefined && patch.image_url !== before.image_url;
+  const moved = patch.parent_id !== undefined && (patch.parent_id ?? null) !== (before.parent_id ?? null);
+  const checklistChanged = patch.checklist !== undefined;
+  const options = { keepPreviousImage: true };
+  const changes = [renamed, imageChanged, moved, checklistChanged].filter(Boolean).length;
+  return {
+    label: changes > 1 ? `Edited "${before.name}"`
+      : renamed ? `Renamed "${before.name}" to "${patch.name}"`
+      : imageChanged ? `Changed the image of "${before.name}"`
+      : moved ? `Moved "${before.name}"`
+      : checklistChanged ? `Changed the checklist of "${before.name}"` : `Edited "${before.name}"`,
+    undo: () => repository.categories.update(before.id, previous, options),
+    redo: () => repository.categories.update(before.id, patch, options),
+    dispose: imageChanged || checklistChanged
+      ? () => {
+          repository.images.release([...imageUrlsOf(before), ...imageUrlsOf(patch)])
+            .catch(err => console.error('Failed to release replaced images', err));
+        }
+      : undefined,
+  };
+};
+
+/**
+ * `movedDollIds` are the dolls a move or uncategorize took out of the category,
+ * and `childIds` the subcategories that moved up a level; undo puts them back.
+ * Dolls deleted with it come back with the restore.
+ */
+export const categoryDeleted = (category: Category, options: CategoryDeleteOptions, movedDollIds: string[], childIds: string[] = []): Command => ({
+  label: `Deleted "${category.name}"`,
+  async undo() {
+    await repository.trash.restore('categories', category.id);
+    await Promise.all([
+      ...movedDollIds.map(id => repository.dolls.update(id, { category_id: category.id })),
+      ...childIds.map(id => repository.categories.update(id, { parent_id: category.id })),
+    ]);
+  },
+  redo: () => repository.categories.remove(category.id, options),
+});
+
+export const topicRenamed = (topic: Topic, name: string): Command => ({
+  label: `Renamed "${topic.name}" to "${name}"`,
+  undo: () => repository.topics.update(topic.id, { name: topic.name }),
+  redo: () => repository.topics.update(topic.id, { name }),
+});
+
+export const topicSizesChanged = (topic: Topic, sizeVariants: SizeVariant[]): Command => ({
+  label: `Changed the sizes of "${topic.name}"`,
+  undo: () => repository.topics.update(topic.id, { size_variants: topic.size_variants }),
+  redo: () => repository.topics.update(topic.id, { size_variants: sizeVariants }),
+});
+
+export const topicFieldsChanged = (topic: Topic, customFields: CustomField[]): Command => ({
+  label: `Changed the fields of "${topic.name}"`,
+  undo: () => repository.topics.update(topic.id, { custom_fields: topic.custom_fields }),
+  redo: () => repository.topics.update(topic.id, { custom_fields: customFields }),
+});
+
+export const topicLocationsChanged = (topic: Topic, locations: StorageLocation[]): Command => ({
+  label: `Changed the storage locations of "${topic.name}"`,
+  undo: () => repository.topics.update(topic.id, { locations: locationsOf(topic) }),
+  redo: () => repository.topics.update(topic.id, { locations }),
+});
+
+export const topicCurrencyChanged = (topic: Topic, currency: string): Command => ({
+  label: `Changed the currency of "${topic.name}" to ${currency}`,
+  undo: () => repository.topics.update(topic.id, { currency: currencyOf(topic) }),
+  redo: () => repository.topics.update(topic.id, { currency }),
+});
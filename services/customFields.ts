@@ -0,0 +1,100 @@
+import { CustomField, CustomFieldType, CustomValue, Doll, Topic } from '../types';
+
+export const CUSTOM_FIELD_TYPE_LABELS: Record<CustomFieldType, string> = {
+  text: 'Text',
+  number: 'Number',
+  date: 'Date',
+  select: 'Single select',
+  multiselect: 'Multi select',
+  url: 'Link',
+};
+
+export const hasOptions = (type: CustomFieldType) => type === 'select' || type === 'multiselect';
+
+/** A doll can hold several values of a multiselect, so there is nothing to order by. */
+export const isSortable = (field: CustomField) => field.type !== 'multiselect';
+
+export const newCustomField = (name: string, type: CustomFieldType): CustomField => ({
+  id: crypto.randomUUID().slice(0, 8),
+  name,
+  type,
+  ...(hasOptions(type) ? { options: [] } : {}),
+});
+
+const NO_FIELDS: CustomField[] = [];
+
+// Rows cached before topics had custom fields carry none.
+export const customFieldsOf = (topic: Pick<Topic, 'custom_fields'>) => topic.custom_fields || NO_FIELDS;
+
+export const customValue = (doll: Pick<Doll, 'custom_values'>, fieldId: string): CustomValue | null =>
+  doll.custom_values?.[fieldId] ?? null;
+
+export const isEmptyValue = (value: CustomValue | null | undefined) =>
+  value === null || value === undefined || value === '' || (Array.isArray(value) && value.length === 0);
+
+/** Only http(s) links are rendered as links. */
+export const isSafeUrl = (value: string) => /^https?:\/\//i.test(value);
+
+export const formatCustomValue = (value: CustomValue | null) =>
+  Array.isArray(value) ? value.join(', ') : value === null ? '' : String(value);
+
+/**
+ * Form state to stored values: only the topic's fields, numbers as numbers, blanks
+ * left out. Values of fields removed from the topic are dropped.
+ */
+export const cleanCustomValues = (fields: CustomField[], values: Record<string, CustomValue> | undefined) => {
+  const cleaned: Record<string, CustomValue> = {};
+  fields.forEach(field => {
+    let value = values?.[field.id];
+    if (typeof value === 'string') value = value.trim();
+    if (isEmptyValue(value)) return;
+    if (field.type === 'number') {
+      const number = Number(value);
+      if (Number.isFinite(number)) cleaned[field.id] = number;
+    } else if (field.type === 'multiselect') {
+      const chosen = Array.isArray(value) ? value : [String(value)];
+      const ordered = (field.options || []).filter(option => chosen.includes(option));
+      if (ordered.length > 0) cleaned[field.id] = ordered;
+    } else {
+      cleaned[field.id] = Array.isArray(value) ? value.join(', ') : String(value);
+    }
+  });
+  return cleaned;
+};
+
+export const compareCustomValues = (field: CustomField, a: CustomValue, b: CustomValue) =>
+  field.type === 'number'
+    ? Number(a) - Number(b)
+    : formatCustomValue(a).localeCompare(formatCustomValue(b), undefined, { numeric: true, sensitivity: 'base' });
+
+/** A filter on one custom field, as the grid's field filter sets it. */
+export interface FieldFilter {
+  field: CustomField;
+  value: string;
+}
+
+/**
+ * Text and links match on a case-insensitive substring, a multiselect when it includes
+ * the option, everything else on the exact value. A number filter that isn't a number
+ * filters nothing out. The Supabase backend mirrors this.
+ */
+export const matchesFieldFilter = (doll: Pick<Doll, 'custom_values'>, { field, value }: FieldFilter) => {
+  if (field.type === 'number' && !Number.isFinite(Number(value))) return true;
+  const stored = customValue(doll, field.id);
+  if (isEmptyValue(stored)) return false;
+  switch (field.type) {
+    case 'text':
+    case 'url':
+      return formatCustomValue(stored).toLowerCase().includes(value.toLowerCase());
+    case 'multiselect':
+      return Array.isArray(stored) && stored.includes(value);
+    case 'number':
+      return Number(stored) === Number(value);
+    default:
+      return formatCustomValue(stored) === value;
+  }
+};
+
+/** `target` plus the fields of `source` it lacks, for dolls moving between topics. */
+export const mergeCustomFields = (target: CustomField[], source: CustomField[]) =>
+  [...target, ...source.filter(f => !target.some(t => t.id === f.id))];
@@ -0,0 +1,49 @@
+import { describe, expect, it } from 'vitest';
+import { DollQuery, LoadedDolls, applyDollChange, orderDolls, pageDolls, pageOrderedDolls } from './dollQuery';
+import { parseDoll } from './validation';
+
+const doll = (id: string, name: string) =>
+  parseDoll({ id, topic_id: 'topic', name, image_url: `${id}.jpg`, created_at: `2026-01-0${id.length}T00:00:00Z` });
+
+const query: DollQuery = { topicId: 'topic', sort: 'DATE_DESC' };
+const loaded: LoadedDolls = { dolls: [doll('a', 'Whale')], total: 3, nextCursor: { value: '2026-01-01T00:00:00Z', id: 'a' } };
+
+describe('applyDollChange', () => {
+  it('takes a loaded row off the page and the total', () => {
+    expect(applyDollChange(loaded, { type: 'delete', id: 'a' }, query)).toMatchObject({ dolls: [], total: 2 });
+  });
+
+  it('counts a matching delete past the loaded pages off the total', () => {
+    const change = { type: 'delete' as const, id: 'bb', row: doll('bb', 'Shark') };
+    expect(applyDollChange(loaded, change, query)).toMatchObject({ dolls: loaded.dolls, total: 2 });
+  });
+
+  it('leaves the total alone for deletes it cannot place', () => {
+    expect(applyDollChange(loaded, { type: 'delete', id: 'bb' }, query).total).toBe(3);
+    const elsewhere = { ...doll('bb', 'Shark'), topic_id: 'other' };
+    expect(applyDollChange(loaded, { type: 'delete', id: 'bb', row: elsewhere }, query).total).toBe(3);
+  });
+});
+
+describe('pageDolls', () => {
+  const search: DollQuery = {
+    ...query,
+    search: [{ kind: 'text', fields: ['name'], value: 'whale', negated: false }],
+  };
+  const rows = [doll('a', 'Blue whale'), doll('bb', 'Shark'), doll('ccc', 'Whale shark'), doll('dddd', 'Whale')];
+
+  it('ranks a search and keeps the position of the next page in its cursor', () => {
+    const first = pageDolls(rows, search, null, 2);
+    expect(first.dolls.map(d => d.id)).toEqual(['dddd', 'ccc']);
+    expect(first).toMatchObject({ total: 3, nextCursor: { value: '2' } });
+    const second = pageDolls(rows, search, first.nextCursor, 2);
+    expect(second).toMatchObject({ total: null, nextCursor: null });
+    expect(second.dolls.map(d => d.id)).toEqual(['a']);
+  });
+
+  it('pages rows put in order once the same way', () => {
+    const ordered = orderDolls(rows, search);
+    const cursor = pageDolls(rows, search, null, 2).nextCursor;
+    expect(pageOrderedDolls(ordered, search, cursor, 2)).toEqual(pageDolls(rows, search, cursor, 2));
+  });
+});
@@ -0,0 +1,207 @@
+import { CustomField, Doll, SortOption } from '../types';
+import { FieldFilter, compareCustomValues, customValue, isEmptyValue, matchesFieldFilter } from './customFields';
+import { TagMode, matchesTags } from './tags';
+import { SearchClause, isRankedSearch, matchesClause, searchRelevance } from './searchQuery';
+
+/**
+ * Filters and ordering for one doll grid listing. Every field is applied server-side,
+ * except the search's words, which are matched and ranked in memory (see textSearch.ts).
+ */
+export interface DollQuery {
+  topicId: string;
+  /** The search box, parsed (see `parseSearch`); every clause must match. Words rank the results. */
+  search?: SearchClause[];
+  /** Only dolls in one of these categories: a chosen category and its subcategories (see `subtreeIds`). */
+  categoryIds?: string[];
+  /** Only dolls kept in one of these storage locations: a chosen one and those inside it. */
+  locationIds?: string[];
+  /** Only dolls that come in this size variant (its id). */
+  size?: string;
+  /** Only dolls created at or after this ISO timestamp (the "New" filter). */
+  createdSince?: string;
+  /** Only dolls caught in this month, as YYYY-MM. */
+  catchMonth?: string;
+  /** Only dolls whose custom field matches (see `matchesFieldFilter`). */
+  fieldFilter?: FieldFilter;
+  /** Only dolls carrying these tags, all of them or any one as `tagMode` says. */
+  tags?: string[];
+  tagMode?: TagMode;
+  sort: SortOption;
+  /** Orders by a custom field instead of `sort`. Dolls without a value come last either way. */
+  fieldSort?: { field: CustomField; ascending: boolean };
+}
+
+/** Keyset cursor: the sort value and id of the last row on the previous page. */
+export interface DollCursor {
+  value: string;
+  id: string;
+}
+
+export interface DollPage {
+  dolls: Doll[];
+  /** Total rows matching the query. Only computed for the first page. */
+  total: number | null;
+  nextCursor: DollCursor | null;
+}
+
+export const DOLL_PAGE_SIZE = 48;
+
+export const sortColumn = (sort: SortOption): 'created_at' | 'name' =>
+  sort === 'NAME_ASC' || sort === 'NAME_DESC' ? 'name' : 'created_at';
+
+export const isAscending = (sort: SortOption) => sort === 'DATE_ASC' || sort === 'NAME_ASC';
+
+export const cursorFor = (doll: Doll, sort: SortOption): DollCursor => ({
+  value: doll[sortColumn(sort)],
+  id: doll.id,
+});
+
+/** First day of the month after `month` (YYYY-MM), as YYYY-MM-DD. */
+export const nextMonthStart = (month: string) => {
+  const [year, m] = month.split('-').map(Number);
+  return m === 12 ? `${year + 1}-01-01` : `${year}-${String(m + 1).padStart(2, '0')}-01`;
+};
+
+// Code-point comparison. Close enough to the database collation to place live inserts.
+const compareValues = (a: string, b: string) => (a < b ? -1 : a > b ? 1 : 0);
+
+export const compareDolls = (sort: SortOption) => (a: Doll, b: Doll) => {
+  const column = sortColumn(sort);
+  const order = compareValues(a[column], b[column]) || compareValues(a.id, b.id);
+  return isAscending(sort) ? order : -order;
+};
+
+/** Whether results come by relevance to the search's words; a custom field sort still wins. */
+export const isRanked = (query: DollQuery) => !query.fieldSort && isRankedSearch(query.search);
+
+/**
+ * The query's ordering, custom field sort included. A search with words puts the best
+ * matches first, then follows `sort`; `relevance` can pass in scores already worked out.
+ */
+export const compareForQuery = (
+  query: DollQuery,
+  relevance = (doll: Doll) => searchRelevance(doll, query.search || [])
+) => {
+  if (isRanked(query)) {
+    const compare = compareDolls(query.sort);
+    return (a: Doll, b: Doll) => relevance(b) - relevance(a) || compare(a, b);
+  }
+  if (!query.fieldSort) return compareDolls(query.sort);
+  const { field, ascending } = query.fieldSort;
+  return (a: Doll, b: Doll) => {
+    const x = customValue(a, field.id);
+    const y = customValue(b, field.id);
+    if (isEmptyValue(x) !== isEmptyValue(y)) return isEmptyValue(x) ? 1 : -1;
+    const order = (isEmptyValue(x) ? 0 : compareCustomValues(field, x!, y!)) || compareValues(a.id, b.id);
+    return ascending ? order : -order;
+  };
+};
+
+/** The cursor after `doll`; a custom field sort keeps the JSON of its value. */
+export const cursorForQuery = (doll: Doll, query: DollQuery): DollCursor =>
+  query.fieldSort
+    ? { value: JSON.stringify(customValue(doll, query.fieldSort.field.id)), id: doll.id }
+    : cursorFor(doll, query.sort);
+
+// A stand-in row sitting exactly at the cursor, to compare others against.
+const rowAtCursor = (doll: Doll, query: DollQuery, cursor: DollCursor): Doll =>
+  query.fieldSort
+    ? { ...doll, id: cursor.id, custom_values: { ...doll.custom_values, [query.fieldSort.field.id]: JSON.parse(cursor.value) } }
+    : { ...doll, [sortColumn(query.sort)]: cursor.value, id: cursor.id };
+
+/** The in-memory equivalent of the server-side filters. */
+export const matchesDollQuery = (doll: Doll, query: DollQuery) => {
+  if (doll.topic_id !== query.topicId) return false;
+  if (query.search && !query.search.every(clause => matchesClause(doll, clause))) return false;
+  if (query.categoryIds && !query.categoryIds.includes(doll.category_id || '')) return false;
+  if (query.locationIds && !query.locationIds.includes(doll.location_id || '')) return false;
+  if (query.size && !doll.sizes.includes(query.size)) return false;
+  if (query.createdSince && doll.created_at < query.createdSince) return false;
+  if (query.catchMonth) {
+    if (!doll.catch_date) return false;
+    if (doll.catch_date < `${query.catchMonth}-01` || doll.catch_date >= nextMonthStart(query.catchMonth)) return false;
+  }
+  if (query.fieldFilter && !matchesFieldFilter(doll, query.fieldFilter)) return false;
+  if (query.tags?.length && !matchesTags(doll, query.tags, query.tagMode || 'all')) return false;
+  return true;
+};
+
+/** The rows matching the query, in its order, best matches first for a search with words. */
+export const orderDolls = (rows: Doll[], query: DollQuery): Doll[] => {
+  const matching = rows.filter(d => matchesDollQuery(d, query));
+  if (!isRanked(query)) return matching.sort(compareForQuery(query));
+  const scores = new Map(matching.map(d => [d.id, searchRelevance(d, query.search || [])]));
+  return matching.sort(compareForQuery(query, doll => scores.get(doll.id) ?? 0));
+};
+
+/**
+ * One page of rows already matched and put in order by `orderDolls`. Ranked results have
+ * no column to keep a cursor on, so theirs holds the position of the next page.
+ */
+export const pageOrderedDolls = (ordered: Doll[], query: DollQuery, cursor: DollCursor | null, limit: number): DollPage => {
+  if (isRanked(query)) {
+    const start = cursor ? Number(cursor.value) : 0;
+    const dolls = ordered.slice(start, start + limit);
+    const last = dolls[dolls.length - 1];
+    return {
+      dolls,
+      total: cursor ? null : ordered.length,
+      nextCursor: dolls.length === limit && last ? { value: String(start + limit), id: last.id } : null,
+    };
+  }
+
+  const compare = compareForQuery(query);
+  const start = cursor ? ordered.findIndex(d => compare(d, rowAtCursor(d, query, cursor)) > 0) : 0;
+  const dolls = start === -1 ? [] : ordered.slice(start, start + limit);
+  const last = dolls[dolls.length - 1];
+  return {
+    dolls,
+    total: cursor ? null : ordered.length,
+    nextCursor: dolls.length === limit && last ? cursorForQuery(last, query) : null,
+  };
+};
+
+/** Pages through rows already in memory (local backend, offline cache, shared views). */
+export const pageDolls = (rows: Doll[], query: DollQuery, cursor: DollCursor | null, limit: number): DollPage =>
+  pageOrderedDolls(orderDolls(rows, query), query, cursor, limit);
+
+/** The pages of a listing loaded so far, as the doll grid holds them. */
+export interface LoadedDolls {
+  dolls: Doll[];
+  total: number;
+  nextCursor: DollCursor | null;
+}
+
+/**
+ * Applies a single-row change to a loaded listing without refetching. The row is
+ * placed by the query's sort; rows that would sort past the loaded window are left
+ * for a later page to bring in, but still count towards the total, and a delete of one
+ * of those comes off the total when the change carries the row to match against.
+ */
+export const applyDollChange = (
+  loaded: LoadedDolls,
+  change: { type: 'upsert'; row: Doll } | { type: 'delete'; id: string; row?: Doll },
+  query: DollQuery
+): LoadedDolls => {
+  const id = change.type === 'delete' ? change.id : change.row.id;
+  const present = loaded.dolls.some(d => d.id === id);
+  const others = loaded.dolls.filter(d => d.id !== id);
+
+  if (change.type === 'delete' || !matchesDollQuery(change.row, query)) {
+    if (present) return { ...loaded, dolls: others, total: loaded.total - 1 };
+    const unloaded = change.type === 'delete' && change.row && loaded.nextCursor && matchesDollQuery(change.row, query);
+    return unloaded ? { ...loaded, total: loaded.total - 1 } : loaded;
+  }
+
+  const total = present ? loaded.total : loaded.total + 1;
+  const compare = compareForQuery(query);
+  const last = others[others.length - 1];
+  if (loaded.nextCursor && last && compare(change.row, last) > 0) {
+    return { ...loaded, dolls: others, total };
+  }
+
+  const index = others.findIndex(d => compare(change.row, d) < 0);
+  const dolls = [...others];
+  dolls.splice(index === -1 ? dolls.length : index, 0, change.row);
+  return { ...loaded, dolls, total };
+};
@@ -2,6 +2,8 @@
 // Reference: https://docs.perplexity.ai/guides/chat-completions-sdk
 // Reference: https://docs.perplexity.ai/guides/structured-outputs
 
+import { DollIdentification, ValidationError, parseCategorySuggestion, parseIdentification } from './validation';
+
 const PERPLEXITY_PROXY_URL = '/api/perplexity'; // Use relative path for Vercel
 
 // Helper to convert File to Base64
@@ -23,6 +25,15 @@ const cleanJsonText = (text: string): string => {
   return cleaned;
 };
 
+// The model's reply as JSON; anything else is reported like any other malformed answer.
+const parseJsonAnswer = (text: string): unknown => {
+  try {
+    return JSON.parse(cleanJsonText(text));
+  } catch {
+    throw new ValidationError('AI answer', [{ path: 'value', message: 'is not JSON' }]);
+  }
+};
+
 async function callPerplexity(messages: any[], imageBase64?: string, mimeType?: string, outputSchema?: any) {
   const payload: any = {
     model: 'sonar-pro',
@@ -58,14 +69,17 @@ async function callPerplexity(messages: any[], imageBase64?: string, mimeType?:
   return data.choices?.[0]?.message?.content || '{}';
 }
 
-export const identifyDoll = async (file: File) => {
+// `sizeLabels` are the topic's size variants; the answer picks from those.
+// Throws when the request fails or the answer doesn't fit the schema.
+export const identifyDoll = async (file: File, sizeLabels: string[]): Promise<DollIdentification> => {
   try {
     const base64Data = await fileToBase64(file);
+    const choices = sizeLabels.map(label => `"${label}"`).join(', ');
     const messages = [
       {
         role: 'user',
         content: [
-          { type: 'text', text: `Analyze this doll/plushie image. Return a JSON object with:\n- 'name': A cute, short name.\n- 'description': A very short description.\n- 'size': A string containing "Normal", "Small", or "Normal, Small" based on visual estimation.` },
+          { type: 'text', text: `Analyze this doll/plushie image. Return a JSON object with:\n- 'name': A cute, short name.\n- 'description': A very short description.\n- 'sizes': An array of the sizes it comes in, chosen from ${choices}, based on visual estimation.` },
         ],
       },
     ];
@@ -74,19 +88,19 @@ export const identifyDoll = async (file: File) => {
       properties: {
         name: { type: 'string' },
         description: { type: 'string' },
-        size: { type: 'string' },
+        sizes: { type: 'array', items: { type: 'string', enum: sizeLabels } },
       },
-      required: ['name', 'description', 'size'],
+      required: ['name', 'description', 'sizes'],
     };
     const text = await callPerplexity(messages, base64Data, file.type, outputSchema);
-    return JSON.parse(cleanJsonText(text));
+    return parseIdentification(parseJsonAnswer(text), sizeLabels);
   } catch (error) {
     console.error('Perplexity Error:', error);
-    return { name: '', description: '', size: 'Normal' };
+    throw error;
   }
 };
 
-export const suggestCategory = async (file: File) => {
+export const suggestCategory = async (file: File): Promise<string> => {
   try {
     const base64Data = await fileToBase64(file);
     const messages = [
@@ -105,10 +119,9 @@ export const suggestCategory = async (file: File) => {
       required: ['category'],
     };
     const text = await callPerplexity(messages, base64Data, file.type, outputSchema);
-    const data = JSON.parse(cleanJsonText(text));
-    return data.category || 'Misc';
+    return parseCategorySuggestion(parseJsonAnswer(text));
   } catch (error) {
     console.error('Perplexity Error:', error);
-    return 'Unknown';
+    throw error;
   }
 };
@@ -0,0 +1,79 @@
+/**
+ * A mutation that has already been applied, with the means to take it back.
+ * `undo` and `redo` talk to the repository; views learn about the result from
+ * realtime changes and the history's own events.
+ */
+export interface Command {
+  /** Shown in the snackbar, e.g. `Deleted "Pikachu"`. */
+  label: string;
+  undo(): Promise<void>;
+  redo(): Promise<void>;
+  /** Called once the command can neither be undone nor redone any more. */
+  dispose?(): void;
+}
+
+export type HistoryEvent = { type: 'recorded' | 'undone' | 'redone'; label: string };
+
+export interface CommandHistory {
+  record(command: Command): void;
+  undo(): Promise<void>;
+  redo(): Promise<void>;
+  canUndo(): boolean;
+  canRedo(): boolean;
+  /** Forgets everything, e.g. when another account signs in. */
+  clear(): void;
+  /** Returns the unsubscribe function. */
+  subscribe(listener: (event: HistoryEvent) => void): () => void;
+}
+
+const MAX_COMMANDS = 50;
+
+export const createHistory = (): CommandHistory => {
+  let done: Command[] = [];
+  let undone: Command[] = [];
+  const listeners = new Set<(event: HistoryEvent) => void>();
+  // One step at a time, so a held-down shortcut can't interleave requests.
+  let running = false;
+
+  const emit = (event: HistoryEvent) => listeners.forEach(listener => listener(event));
+
+  // Moves the top command of `from` onto `to` once `step` succeeds; on failure it stays put.
+  const move = async (from: Command[], to: Command[], step: 'undo' | 'redo') => {
+    const command = from[from.length - 1];
+    if (!command || running) return;
+    running = true;
+    try {
+      await command[step]();
+      from.pop();
+      to.push(command);
+      emit({ type: step === 'undo' ? 'undone' : 'redone', label: command.label });
+    } finally {
+      running = false;
+    }
+  };
+
+  return {
+    record(command) {
+      undone.forEach(c => c.dispose?.());
+      undone = [];
+      done.push(command);
+      if (done.length > MAX_COMMANDS) done.shift()!.dispose?.();
+      emit({ type: 'recorded', label: command.label });
+    },
+    undo: () => move(done, undone, 'undo'),
+    redo: () => move(undone, done, 'redo'),
+    canUndo: () => done.length > 0,
+    canRedo: () => undone.length > 0,
+    clear() {
+      [...done, ...undone].forEach(c => c.dispose?.());
+      done = [];
+      undone = [];
+    },
+    subscribe(listener) {
+      listeners.add(listener);
+      return () => { listeners.delete(listener); };
+    },
+  };
+};
+
+export const history = createHistory();
@@ -0,0 +1,41 @@
+import { repository, StoredImage } from './repository';
+
+export interface SweepOptions {
+  /** Report what would be removed without deleting anything. */
+  dryRun: boolean;
+  /**
+   * Files younger than this are left alone: an upload from the add form or the
+   * offline outbox lands before the row that references it.
+   */
+  minAgeHours?: number;
+}
+
+export interface SweepReport {
+  scanned: number;
+  orphans: StoredImage[];
+  orphanBytes: number;
+  purged: boolean;
+}
+
+/**
+ * Finds files in the image bucket that no category or doll references, and optionally deletes them.
+ * References are checked across every topic, not just those the account can read.
+ */
+export const sweepOrphanedImages = async ({ dryRun, minAgeHours = 24 }: SweepOptions): Promise<SweepReport> => {
+  const files = await repository.images.list();
+  const cutoff = Date.now() - minAgeHours * 60 * 60 * 1000;
+  const oldEnough = files.filter(file => !file.created_at || new Date(file.created_at).getTime() < cutoff);
+  const inUse = new Set(await repository.images.inUse(oldEnough.map(file => file.url)));
+  const orphans = oldEnough.filter(file => !inUse.has(file.url));
+
+  if (!dryRun && orphans.length > 0) {
+    await repository.images.remove(orphans.map(file => file.fileName));
+  }
+
+  return {
+    scanned: files.length,
+    orphans,
+    orphanBytes: orphans.reduce((sum, file) => sum + (file.size || 0), 0),
+    purged: !dryRun && orphans.length > 0,
+  };
+};
@@ -0,0 +1,156 @@
+/**
+ * Thin promise wrapper around the IndexedDB database that backs the offline cache.
+ * Store names double as Supabase table names where they mirror one.
+ */
+import { DEFAULT_SIZE_VARIANTS, sizesFromLegacy } from './sizes';
+
+const DB_NAME = 'doll-collection';
+const DB_VERSION = 2;
+
+export type StoreName = 'topics' | 'categories' | 'dolls' | 'outbox' | 'blobs' | 'uploads' | 'conflicts';
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+// Rewrites every stored value of `store` through `update`; returns undefined to leave one as is.
+const rewrite = (tx: IDBTransaction, store: StoreName, update: (value: unknown) => unknown) => {
+  const cursorRequest = tx.objectStore(store).openCursor();
+  cursorRequest.onsuccess = () => {
+    const cursor = cursorRequest.result;
+    if (!cursor) return;
+    const updated = update(cursor.value);
+    if (updated !== undefined) cursor.update(updated);
+    cursor.continue();
+  };
+};
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+// Version 2: sizes went from a comma-joined `size` string to per-topic variants
+// and a `sizes` list of variant ids, matching the size_variants migration.
+const migrateSizes = (tx: IDBTransaction) => {
+  const legacySizes = (size: unknown) => sizesFromLegacy(typeof size === 'string' ? size : null);
+  const dollFields = (fields: unknown) => {
+    if (!isRecord(fields) || !('size' in fields)) return fields;
+    const { size, ...rest } = fields;
+    return { ...rest, sizes: legacySizes(size) };
+  };
+  rewrite(tx, 'topics', topic => (isRecord(topic) && !topic.size_variants ? { ...topic, size_variants: DEFAULT_SIZE_VARIANTS } : undefined));
+  rewrite(tx, 'dolls', doll => (isRecord(doll) && 'size' in doll ? dollFields(doll) : undefined));
+  rewrite(tx, 'conflicts', conflict => {
+    if (!isRecord(conflict) || conflict.table !== 'dolls' || !isRecord(conflict.fields)) return undefined;
+    const { size, ...fields } = conflict.fields;
+    if (!isRecord(size)) return undefined;
+    return { ...conflict, fields: { ...fields, sizes: { mine: legacySizes(size.mine), theirs: legacySizes(size.theirs) } } };
+  });
+  rewrite(tx, 'outbox', entry => {
+    if (!isRecord(entry)) return undefined;
+    if (entry.kind === 'insert' && entry.table === 'topics' && isRecord(entry.row) && !entry.row.size_variants) {
+      return { ...entry, row: { ...entry.row, size_variants: DEFAULT_SIZE_VARIANTS } };
+    }
+    if (entry.table !== 'dolls') return undefined;
+    if (entry.kind === 'insert') return { ...entry, row: dollFields(entry.row) };
+    if (entry.kind === 'update') return { ...entry, patch: dollFields(entry.patch), base: dollFields(entry.base) };
+    return undefined;
+  });
+};
+
+const openDb = (): Promise<IDBDatabase> => {
+  if (dbPromise) return dbPromise;
+  dbPromise = new Promise((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    request.onupgradeneeded = event => {
+      const db = request.result;
+      if (event.oldVersion < 1) {
+        db.createObjectStore('topics', { keyPath: 'id' });
+        db.createObjectStore('categories', { keyPath: 'id' }).createIndex('topic_id', 'topic_id');
+        db.createObjectStore('dolls', { keyPath: 'id' }).createIndex('topic_id', 'topic_id');
+        db.createObjectStore('outbox', { keyPath: 'seq', autoIncrement: true });
+        db.createObjectStore('blobs');
+        db.createObjectStore('uploads');
+        db.createObjectStore('conflicts', { keyPath: 'id' });
+      } else if (event.oldVersion < 2) {
+        migrateSizes(request.transaction!);
+      }
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+  return dbPromise;
+};
+
+const withStore = async <T>(
+  name: StoreName,
+  mode: IDBTransactionMode,
+  run: (store: IDBObjectStore) => IDBRequest<T> | void
+): Promise<T> => {
+  const db = await openDb();
+  return new Promise((resolve, reject) => {
+    const tx = db.transaction(name, mode);
+    const request = run(tx.objectStore(name));
+    tx.oncomplete = () => resolve(request ? request.result : (undefined as T));
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
+};
+
+export const getAll = <T>(name: StoreName): Promise<T[]> =>
+  withStore(name, 'readonly', store => store.getAll() as IDBRequest<T[]>);
+
+export const getAllByIndex = <T>(name: StoreName, index: string, key: IDBValidKey): Promise<T[]> =>
+  withStore(name, 'readonly', store => store.index(index).getAll(key) as IDBRequest<T[]>);
+
+export const get = <T>(name: StoreName, key: IDBValidKey): Promise<T | undefined> =>
+  withStore(name, 'readonly', store => store.get(key) as IDBRequest<T | undefined>);
+
+export const put = (name: StoreName, value: unknown, key?: IDBValidKey): Promise<IDBValidKey> =>
+  withStore(name, 'readwrite', store => store.put(value, key));
+
+export const remove = (name: StoreName, key: IDBValidKey): Promise<void> =>
+  withStore(name, 'readwrite', store => { store.delete(key); });
+
+export const count = (name: StoreName): Promise<number> =>
+  withStore(name, 'readonly', store => store.count());
+
+/**
+ * Replaces every row whose `index` equals `key` with `rows`, in one transaction.
+ * With no index, the whole store is replaced.
+ */
+export const replaceAll = async (name: StoreName, rows: unknown[], index?: string, key?: IDBValidKey): Promise<void> => {
+  const db = await openDb();
+  return new Promise((resolve, reject) => {
+    const tx = db.transaction(name, 'readwrite');
+    const store = tx.objectStore(name);
+    if (index && key !== undefined) {
+      const cursorRequest = store.index(index).openCursor(key);
+      cursorRequest.onsuccess = () => {
+        const cursor = cursorRequest.result;
+        if (cursor) {
+          cursor.delete();
+          cursor.continue();
+        } else {
+          rows.forEach(row => store.put(row));
+        }
+      };
+    } else {
+      store.clear();
+      rows.forEach(row => store.put(row));
+    }
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
+};
+
+/** Empties every store, e.g. when the cache changes hands to another account. */
+export const clearAll = async (): Promise<void> => {
+  const db = await openDb();
+  return new Promise((resolve, reject) => {
+    const names = Array.from(db.objectStoreNames);
+    const tx = db.transaction(names, 'readwrite');
+    names.forEach(name => tx.objectStore(name).clear());
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
+};
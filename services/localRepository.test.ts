@@ -0,0 +1,144 @@
+// @vitest-environment happy-dom
+// The change log reads the actor name from localStorage.
+import { describe, expect, it, vi } from 'vitest';
+import type { DataRepository, NewDoll, NewTopic } from './repository';
+import { createLocalRepository } from './localRepository';
+import { DEFAULT_SIZE_VARIANTS } from './sizes';
+import { DEFAULT_CURRENCY } from './spending';
+import { DEFAULT_RETENTION_DAYS } from './trash';
+
+// As in demo mode: signed in as the local account, with no Supabase client to connect.
+vi.hoisted(() => vi.stubEnv('VITE_DATA_BACKEND', 'local'));
+vi.mock('./supabaseClient', () => ({ supabase: {} }));
+
+const newTopic = (name: string): NewTopic => ({
+  name,
+  size_variants: DEFAULT_SIZE_VARIANTS,
+  custom_fields: [],
+  locations: [],
+  currency: DEFAULT_CURRENCY,
+  trash_retention_days: DEFAULT_RETENTION_DAYS,
+});
+
+const newDoll = (topicId: string, name: string, categoryId: string | null = null): NewDoll => ({
+  name,
+  description: null,
+  sizes: ['normal'],
+  quantities: {},
+  for_trade: {},
+  category_id: categoryId,
+  topic_id: topicId,
+  catch_date: null,
+  image_url: `${name}.jpg`,
+  photos: [`${name}.jpg`],
+  custom_values: {},
+  tags: [],
+  method: null,
+  tries: null,
+  cost: null,
+  currency: null,
+  venue: null,
+});
+
+/** What every DataRepository has to do, whichever backend it talks to. */
+const describeRepository = (name: string, create: () => DataRepository) =>
+  describe(name, () => {
+    it('lists topics oldest first and renames them', async () => {
+      const repo = create();
+      const first = await repo.topics.create(newTopic('Sharks'));
+      const second = await repo.topics.create(newTopic('Whales'));
+      await repo.topics.update(first.id, { name: 'Fish' });
+      expect((await repo.topics.list()).map(t => [t.id, t.name])).toEqual([[first.id, 'Fish'], [second.id, 'Whales']]);
+    });
+
+    it('fails to update a row that does not exist', async () => {
+      const repo = create();
+      await expect(repo.topics.update('missing', { name: 'Fish' })).rejects.toThrow();
+      await expect(repo.dolls.update('missing', { name: 'Shark' })).rejects.toThrow();
+    });
+
+    it('lists categories by name with their doll counts and latest catch', async () => {
+      const repo = create();
+      const topic = await repo.topics.create(newTopic('Sharks'));
+      const whale = await repo.categories.create({ name: 'Whale', topic_id: topic.id });
+      const blue = await repo.categories.create({ name: 'Blue', topic_id: topic.id });
+      await repo.dolls.create({ ...newDoll(topic.id, 'Orca', whale.id), catch_date: '2024-06-01' });
+      await repo.dolls.create({ ...newDoll(topic.id, 'Humpback', whale.id), catch_date: '2024-05-01' });
+      const stats = await repo.categories.listWithStats(topic.id);
+      expect(stats.map(({ category, count, latestCatchDate }) => [category.name, count, latestCatchDate]))
+        .toEqual([['Blue', 0, null], ['Whale', 2, '2024-06-01']]);
+      expect(stats[0].category.id).toBe(blue.id);
+    });
+
+    it('keeps the dolls of a removed category, uncategorized', async () => {
+      const repo = create();
+      const topic = await repo.topics.create(newTopic('Sharks'));
+      const category = await repo.categories.create({ name: 'Whale', topic_id: topic.id });
+      const doll = await repo.dolls.create(newDoll(topic.id, 'Orca', category.id));
+      await repo.categories.remove(category.id, { dolls: 'uncategorize' });
+      expect(await repo.categories.listByTopic(topic.id)).toEqual([]);
+      expect(await repo.dolls.listByTopic(topic.id)).toEqual([{ ...doll, category_id: null }]);
+    });
+
+    it('creates, updates and removes dolls within their topic', async () => {
+      const repo = create();
+      const topic = await repo.topics.create(newTopic('Sharks'));
+      const other = await repo.topics.create(newTopic('Whales'));
+      const doll = await repo.dolls.create(newDoll(topic.id, 'Whale shark'));
+      await repo.dolls.create(newDoll(other.id, 'Orca'));
+      await repo.dolls.update(doll.id, { name: 'Great white' });
+      expect((await repo.dolls.listByTopic(topic.id)).map(d => d.name)).toEqual(['Great white']);
+      await repo.dolls.remove(doll.id);
+      expect(await repo.dolls.listByTopic(topic.id)).toEqual([]);
+    });
+
+    it('removes a topic with its categories and dolls', async () => {
+      const repo = create();
+      const topic = await repo.topics.create(newTopic('Sharks'));
+      const category = await repo.categories.create({ name: 'Whale', topic_id: topic.id });
+      await repo.dolls.create(newDoll(topic.id, 'Orca', category.id));
+      await repo.topics.remove(topic.id, { contents: 'delete' });
+      expect(await repo.topics.list()).toEqual([]);
+      expect(await repo.categories.listByTopic(topic.id)).toEqual([]);
+      expect(await repo.dolls.listByTopic(topic.id)).toEqual([]);
+    });
+
+    it('moves the dolls of a removed category to another', async () => {
+      const repo = create();
+      const topic = await repo.topics.create(newTopic('Sharks'));
+      const from = await repo.categories.create({ name: 'Whale', topic_id: topic.id });
+      const to = await repo.categories.create({ name: 'Ocean', topic_id: topic.id });
+      await repo.dolls.create(newDoll(topic.id, 'Orca', from.id));
+      await repo.categories.remove(from.id, { dolls: 'move', targetCategoryId: to.id });
+      expect((await repo.dolls.listByTopic(topic.id)).map(d => d.category_id)).toEqual([to.id]);
+    });
+
+    it('moves the contents of a removed topic to another', async () => {
+      const repo = create();
+      const topic = await repo.topics.create(newTopic('Sharks'));
+      const target = await repo.topics.create(newTopic('Fish'));
+      const category = await repo.categories.create({ name: 'Whale', topic_id: topic.id });
+      await repo.dolls.create(newDoll(topic.id, 'Orca', category.id));
+      expect(await repo.topics.countContents(topic.id)).toEqual({ categories: 1, dolls: 1 });
+      await repo.topics.remove(topic.id, { contents: 'move', targetTopicId: target.id });
+      expect((await repo.categories.listByTopic(target.id)).map(c => c.id)).toEqual([category.id]);
+      expect((await repo.dolls.listByTopic(target.id)).map(d => d.name)).toEqual(['Orca']);
+    });
+
+    it('logs each edited field, newest first', async () => {
+      const repo = create();
+      const topic = await repo.topics.create(newTopic('Sharks'));
+      const doll = await repo.dolls.create(newDoll(topic.id, 'Orca'));
+      await repo.dolls.update(doll.id, { name: 'Killer whale' });
+      const [edit, created] = await repo.changes.listForRow('dolls', doll.id);
+      expect(edit).toMatchObject({ field: 'name', old_value: 'Orca', new_value: 'Killer whale' });
+      expect(created).toMatchObject({ field: null });
+    });
+
+    it('returns a URL for an uploaded image', async () => {
+      const url = await create().images.upload(null, 'orca.jpg', new File(['orca'], 'orca.jpg'));
+      expect(url).toEqual(expect.any(String));
+    });
+  });
+
+describeRepository('local repository', () => createLocalRepository());
@@ -0,0 +1,475 @@
+import { Doll, Category, Topic, ShareLink, MemberRole, TopicMember, TopicInvite } from '../types';
+import type { DataRepository, RowChange, TableName, TableRows, StoredImage, FieldChange } from './repository';
+import { pageDolls } from './dollQuery';
+import { summarizeCategories } from './categoryStats';
+import { auth } from './auth';
+import { newShareToken } from './share';
+import { mergeSizeVariants, sizeVariantsOf } from './sizes';
+import { customFieldsOf, mergeCustomFields } from './customFields';
+import { renameTagIn, summarizeTags, tagsOf } from './tags';
+import { imageUrlsOf } from './photos';
+import { totalTradeable } from './trades';
+import { locationsOf, mergeLocations } from './locations';
+
+type LocalStore = { [K in TableName]: TableRows[K][] };
+type Match<K extends TableName> = (row: TableRows[K]) => boolean;
+
+const newId = () => crypto.randomUUID();
+const now = () => new Date().toISOString();
+
+const byCreatedAsc = (a: { created_at: string }, b: { created_at: string }) =>
+  a.created_at.localeCompare(b.created_at);
+
+const live = <T extends { deleted_at?: string | null }>(rows: T[]) => rows.filter(row => !row.deleted_at);
+const trashed = <T extends { deleted_at?: string | null }>(rows: T[]) =>
+  rows.filter(row => !!row.deleted_at).sort((a, b) => b.deleted_at!.localeCompare(a.deleted_at!));
+const none = () => false;
+
+// Mirrors the change_log triggers: every doll change, and category and topic renames.
+const isTracked: { [K in TableName]: (field: string) => boolean } = {
+  topics: field => field === 'name',
+  categories: field => field === 'name',
+  dolls: field => !['id', 'created_at', 'owner_id', 'added_by'].includes(field),
+};
+
+const actorName = () => {
+  const account = auth.current();
+  return account ? account.displayName || account.email : null;
+};
+
+/**
+ * In-memory implementation of the data layer. Nothing leaves the browser:
+ * uploaded images become object URLs and everything is gone on reload.
+ * Pass a seed to start from a known state (demo data, tests).
+ */
+export const createLocalRepository = (seed: Partial<LocalStore> = {}): DataRepository => {
+  const store: LocalStore = {
+    topics: [...(seed.topics || [])],
+    categories: [...(seed.categories || [])],
+    dolls: [...(seed.dolls || [])],
+  };
+  const listeners = new Set<(change: RowChange) => void>();
+  const images = new Map<string, StoredImage>();
+  const changeLog: FieldChange[] = [];
+  let shareLinks: ShareLink[] = [];
+  let members: TopicMember[] = [];
+  let invites: TopicInvite[] = [];
+
+  const emit = (change: RowChange) => listeners.forEach(listener => listener(change));
+
+  const logChanges = <K extends TableName>(table: K, before: TableRows[K] | null, after: TableRows[K]) => {
+    const entry = { table, row_id: after.id, actor: actorName(), changed_at: now() };
+    if (!before) {
+      if (table === 'dolls') changeLog.push({ ...entry, id: newId(), field: null, old_value: null, new_value: null });
+      return;
+    }
+    const oldValues = before as unknown as Record<string, unknown>;
+    const newValues = after as unknown as Record<string, unknown>;
+    new Set([...Object.keys(oldValues), ...Object.keys(newValues)]).forEach(field => {
+      const old_value = oldValues[field] ?? null;
+      const new_value = newValues[field] ?? null;
+      if (isTracked[table](field) && JSON.stringify(old_value) !== JSON.stringify(new_value)) {
+        changeLog.push({ ...entry, id: newId(), field, old_value, new_value });
+      }
+    });
+  };
+
+  // Listeners see a move to the trash as a delete, like the Supabase backend.
+  const emitRow = <K extends TableName>(table: K, row: TableRows[K]) =>
+    emit((row.deleted_at ? { table, type: 'delete', id: row.id, row } : { table, type: 'upsert', row }) as RowChange);
+
+  // Rows are replaced rather than mutated so objects already handed out stay stable.
+  const rowsOf = <K extends TableName>(table: K) => store[table] as TableRows[K][];
+  const setRows = <K extends TableName>(table: K, rows: TableRows[K][]) => {
+    (store as Record<TableName, unknown[]>)[table] = rows;
+  };
+
+  const insertRow = <K extends TableName>(table: K, row: TableRows[K]) => {
+    setRows(table, [...rowsOf(table), row]);
+    logChanges(table, null, row);
+    emitRow(table, row);
+    return row;
+  };
+
+  const patchRows = <K extends TableName>(table: K, match: (row: TableRows[K]) => boolean, patch: Partial<TableRows[K]>) => {
+    setRows(table, rowsOf(table).map(row => {
+      if (!match(row)) return row;
+      const updated = { ...row, ...patch };
+      logChanges(table, row, updated);
+      emitRow(table, updated);
+      return updated;
+    }));
+  };
+
+  const patchRow = <K extends TableName>(table: K, id: string, patch: Partial<TableRows[K]>) => {
+    if (!rowsOf(table).some(r => r.id === id)) throw new Error(`${table} ${id} not found`);
+    patchRows(table, row => row.id === id, patch);
+  };
+
+  const removeRows = <K extends TableName>(table: K, match: (row: TableRows[K]) => boolean) => {
+    const removed = rowsOf(table).filter(match);
+    setRows(table, rowsOf(table).filter(row => !match(row)));
+    removed.forEach(row => emit({ table, type: 'delete', id: row.id, row } as RowChange));
+  };
+
+  const findRow = <K extends TableName>(table: K, id: string) =>
+    rowsOf(table).find(r => r.id === id) || null;
+
+  const restoreTopic = (topicId: string) =>
+    patchRows('topics', t => t.id === topicId && !!t.deleted_at, { deleted_at: null });
+
+  const referencedUrls = () =>
+    [...store.dolls, ...store.categories].flatMap(imageUrlsOf);
+
+  // Drops image files no row points at any more, mirroring the Supabase backend.
+  const releaseImages = (urls: (string | null | undefined)[]) => {
+    const stillUsed = new Set(referencedUrls());
+    images.forEach((image, fileName) => {
+      if (urls.includes(image.url) && !stillUsed.has(image.url)) {
+        URL.revokeObjectURL(image.url);
+        images.delete(fileName);
+      }
+    });
+  };
+
+  // Permanent delete out of the trash. Dolls left pointing at a purged category are uncategorized.
+  const purgeRows = ({ dolls = none, categories = none, topics = none }: { [K in TableName]?: Match<K> }) => {
+    const purgedCategoryIds = new Set(store.categories.filter(categories).map(c => c.id));
+    const owned = [...store.dolls.filter(dolls), ...store.categories.filter(categories)].flatMap(imageUrlsOf);
+    removeRows('dolls', dolls);
+    patchRows('dolls', d => !!d.category_id && purgedCategoryIds.has(d.category_id), { category_id: null });
+    removeRows('categories', categories);
+    removeRows('topics', topics);
+    const remains = (row: { topic_id: string }) => store.topics.some(t => t.id === row.topic_id);
+    shareLinks = shareLinks.filter(remains);
+    members = members.filter(remains);
+    invites = invites.filter(remains);
+    releaseImages(owned);
+  };
+
+  // Demo mode only tracks roles for the UI; the rows themselves aren't guarded.
+  // Seeded topics have no members, and everyone owns them.
+  const roleIn = (topicId: string): MemberRole | null => {
+    const topicMembers = members.filter(m => m.topic_id === topicId);
+    if (topicMembers.length === 0) return 'owner';
+    return topicMembers.find(m => m.user_id === auth.current()?.id)?.role ?? null;
+  };
+
+  const joinTopic = (topicId: string, role: MemberRole) => {
+    const account = auth.current();
+    if (!account) return;
+    members = [
+      ...members.filter(m => !(m.topic_id === topicId && m.user_id === account.id)),
+      { topic_id: topicId, user_id: account.id, role, display_name: account.displayName, email: account.email, created_at: now() },
+    ];
+  };
+
+  // Mirrors the keep_an_owner trigger.
+  const assertOwnerRemains = (topicId: string, userId: string) => {
+    if (!members.some(m => m.topic_id === topicId && m.role === 'owner' && m.user_id !== userId)) {
+      throw new Error('A collection needs at least one owner');
+    }
+  };
+
+  return {
+    topics: {
+      async list() {
+        return live(store.topics).filter(t => roleIn(t.id) !== null).sort(byCreatedAsc);
+      },
+      async get(id) {
+        return findRow('topics', id);
+      },
+      async countContents(id) {
+        return {
+          categories: live(store.categories).filter(c => c.topic_id === id).length,
+          dolls: live(store.dolls).filter(d => d.topic_id === id).length,
+        };
+      },
+      async create(topic) {
+        const row = insertRow('topics', { id: newId(), created_at: now(), ...topic } as Topic);
+        joinTopic(row.id, 'owner');
+        return row;
+      },
+      async update(id, patch) {
+        patchRow('topics', id, patch);
+      },
+      async remove(id, options) {
+        const deletedAt = now();
+        if (options.contents === 'move') {
+          const targetTopicId = options.targetTopicId;
+          const source = findRow('topics', id);
+          const target = findRow('topics', targetTopicId);
+          // The moved dolls keep their sizes, field values and locations, so the target takes on any it lacks
+          if (source && target) {
+            patchRow('topics', targetTopicId, {
+              size_variants: mergeSizeVariants(sizeVariantsOf(target), sizeVariantsOf(source)),
+              custom_fields: mergeCustomFields(customFieldsOf(target), customFieldsOf(source)),
+              locations: mergeLocations(locationsOf(target), locationsOf(source)),
+            });
+          }
+          patchRows('categories', c => c.topic_id === id, { topic_id: targetTopicId });
+          patchRows('dolls', d => d.topic_id === id, { topic_id: targetTopicId });
+        } else {
+          patchRows('dolls', d => d.topic_id === id && !d.deleted_at, { deleted_at: deletedAt });
+          patchRows('categories', c => c.topic_id === id && !c.deleted_at, { deleted_at: deletedAt });
+        }
+        patchRow('topics', id, { deleted_at: deletedAt });
+      },
+    },
+
+    categories: {
+      async listByTopic(topicId) {
+        return live(store.categories)
+          .filter(c => c.topic_id === topicId)
+          .sort((a, b) => a.name.localeCompare(b.name));
+      },
+      async listWithStats(topicId) {
+        return summarizeCategories(await this.listByTopic(topicId), live(store.dolls));
+      },
+      async get(id) {
+        return findRow('categories', id);
+      },
+      async create(category) {
+        return insertRow('categories', { id: newId(), created_at: now(), ...category } as Category);
+      },
+      async update(id, patch, options) {
+        const previousImages = imageUrlsOf(findRow('categories', id) || {});
+        patchRow('categories', id, patch);
+        if (!options?.keepPreviousImage) releaseImages(previousImages);
+      },
+      async remove(id, options) {
+        const deletedAt = now();
+        const inCategory = (d: Doll) => d.category_id === id && !d.deleted_at;
+        if (options.dolls === 'delete') {
+          patchRows('dolls', inCategory, { deleted_at: deletedAt });
+        } else {
+          const categoryId = options.dolls === 'move' ? options.targetCategoryId : null;
+          patchRows('dolls', inCategory, { category_id: categoryId });
+        }
+        const parentId = findRow('categories', id)?.parent_id ?? null;
+        patchRows('categories', c => c.parent_id === id && !c.deleted_at, { parent_id: parentId });
+        patchRow('categories', id, { deleted_at: deletedAt });
+      },
+    },
+
+    dolls: {
+      async listByTopic(topicId) {
+        return live(store.dolls).filter(d => d.topic_id === topicId);
+      },
+      async listForTrade() {
+        const topicIds = new Set(live(store.topics).filter(t => roleIn(t.id) !== null).map(t => t.id));
+        return live(store.dolls).filter(d => topicIds.has(d.topic_id) && totalTradeable(d) > 0);
+      },
+      async page(query, cursor, limit) {
+        return pageDolls(live(store.dolls), query, cursor, limit);
+      },
+      async get(id) {
+        return findRow('dolls', id);
+      },
+      // As on the server, who added a doll is the signed-in account, whatever the caller sends
+      async create({ added_by, owner_id, ...doll }) {
+        return insertRow('dolls', { id: newId(), created_at: now(), ...doll, added_by: auth.current()?.id ?? null } as Doll);
+      },
+      async update(id, patch, options) {
+        const previousImages = imageUrlsOf(findRow('dolls', id) || {});
+        patchRow('dolls', id, patch);
+        if (!options?.keepPreviousImage) releaseImages(previousImages);
+      },
+      async remove(id) {
+        patchRow('dolls', id, { deleted_at: now() });
+      },
+    },
+
+    images: {
+      async upload(_topicId, fileName, file) {
+        const url = URL.createObjectURL(file);
+        images.set(fileName, { fileName, url, size: file.size, created_at: now() });
+        return url;
+      },
+      async list() {
+        return [...images.values()];
+      },
+      async inUse(urls) {
+        const referenced = new Set(referencedUrls());
+        return urls.filter(url => referenced.has(url));
+      },
+      async remove(fileNames) {
+        fileNames.forEach(fileName => {
+          const image = images.get(fileName);
+          if (image) URL.revokeObjectURL(image.url);
+          images.delete(fileName);
+        });
+      },
+      async release(urls) {
+        releaseImages(urls);
+      },
+    },
+
+    trash: {
+      async list() {
+        return { topics: trashed(store.topics), categories: trashed(store.categories), dolls: trashed(store.dolls) };
+      },
+      async restore(table, id) {
+        const deletedAt = findRow(table, id)?.deleted_at;
+        if (!deletedAt) return;
+        if (table === 'topics') {
+          patchRows('dolls', d => d.topic_id === id && d.deleted_at === deletedAt, { deleted_at: null });
+          patchRows('categories', c => c.topic_id === id && c.deleted_at === deletedAt, { deleted_at: null });
+          patchRow('topics', id, { deleted_at: null });
+        } else if (table === 'categories') {
+          patchRows('dolls', d => d.category_id === id && d.deleted_at === deletedAt, { deleted_at: null });
+          patchRow('categories', id, { deleted_at: null });
+          restoreTopic(findRow('categories', id)!.topic_id);
+        } else {
+          const doll = findRow('dolls', id)!;
+          const category = doll.category_id ? findRow('categories', doll.category_id) : null;
+          patchRow('dolls', id, { deleted_at: null, category_id: category && !category.deleted_at ? category.id : null });
+          restoreTopic(doll.topic_id);
+        }
+      },
+      async purge(table, id) {
+        const deletedAt = findRow(table, id)?.deleted_at;
+        if (!deletedAt) return;
+        if (table === 'topics') {
+          purgeRows({ dolls: d => d.topic_id === id, categories: c => c.topic_id === id, topics: t => t.id === id });
+        } else if (table === 'categories') {
+          purgeRows({ dolls: d => d.category_id === id && d.deleted_at === deletedAt, categories: c => c.id === id });
+        } else {
+          purgeRows({ dolls: d => d.id === id });
+        }
+      },
+      async purgeBefore(cutoff) {
+        const expired = (row: { deleted_at?: string | null }) => !!row.deleted_at && row.deleted_at < cutoff;
+        const expiredTopicIds = new Set(store.topics.filter(expired).map(t => t.id));
+        purgeRows({
+          dolls: d => expired(d) || expiredTopicIds.has(d.topic_id),
+          categories: c => expired(c) || expiredTopicIds.has(c.topic_id),
+          topics: expired,
+        });
+      },
+      async purgeExpired() {
+        // Each topic's own cutoff; topics keeping their trash have none
+        const cutoffs = new Map(store.topics.filter(t => t.trash_retention_days > 0).map(t => [
+          t.id, new Date(Date.now() - t.trash_retention_days * 24 * 60 * 60 * 1000).toISOString(),
+        ]));
+        const expired = (topicId: string, deletedAt?: string | null) =>
+          !!deletedAt && cutoffs.has(topicId) && deletedAt < cutoffs.get(topicId)!;
+        const expiredTopicIds = new Set(store.topics.filter(t => expired(t.id, t.deleted_at)).map(t => t.id));
+        purgeRows({
+          dolls: d => expired(d.topic_id, d.deleted_at) || expiredTopicIds.has(d.topic_id),
+          categories: c => expired(c.topic_id, c.deleted_at) || expiredTopicIds.has(c.topic_id),
+          topics: t => expiredTopicIds.has(t.id),
+        });
+      },
+    },
+
+    tags: {
+      async listByTopic(topicId) {
+        return summarizeTags(live(store.dolls).filter(d => d.topic_id === topicId));
+      },
+      async rename(topicId, from, to) {
+        store.dolls
+          .filter(d => d.topic_id === topicId && tagsOf(d).includes(from))
+          .forEach(d => patchRow('dolls', d.id, { tags: renameTagIn(tagsOf(d), from, to) }));
+      },
+      async remove(topicId, name) {
+        store.dolls
+          .filter(d => d.topic_id === topicId && tagsOf(d).includes(name))
+          .forEach(d => patchRow('dolls', d.id, { tags: tagsOf(d).filter(t => t !== name) }));
+      },
+    },
+
+    changes: {
+      async listForRow(table, rowId) {
+        return changeLog.filter(c => c.table === table && c.row_id === rowId).reverse();
+      },
+    },
+
+    members: {
+      async myRoles() {
+        const roles: Record<string, MemberRole> = {};
+        store.topics.forEach(t => {
+          const role = roleIn(t.id);
+          if (role) roles[t.id] = role;
+        });
+        return roles;
+      },
+      async listByTopic(topicId) {
+        return members.filter(m => m.topic_id === topicId);
+      },
+      async setRole(topicId, userId, role) {
+        if (role !== 'owner') assertOwnerRemains(topicId, userId);
+        members = members.map(m => (m.topic_id === topicId && m.user_id === userId ? { ...m, role } : m));
+      },
+      async remove(topicId, userId) {
+        assertOwnerRemains(topicId, userId);
+        members = members.filter(m => !(m.topic_id === topicId && m.user_id === userId));
+      },
+      async listInvites(topicId) {
+        return invites.filter(i => i.topic_id === topicId).reverse();
+      },
+      async invite(topicId, email, role) {
+        const normalized = email.trim().toLowerCase();
+        if (invites.some(i => i.topic_id === topicId && i.email === normalized)) throw new Error(`${normalized} is already invited`);
+        const invite: TopicInvite = {
+          id: newId(), topic_id: topicId, topic_name: findRow('topics', topicId)?.name || '',
+          email: normalized, role, invited_by: actorName(), created_at: now(),
+        };
+        invites = [...invites, invite];
+        return invite;
+      },
+      async listMyInvites() {
+        const email = auth.current()?.email.toLowerCase();
+        return invites.filter(i => i.email === email).reverse();
+      },
+      async acceptInvite(id) {
+        const invite = invites.find(i => i.id === id && i.email === auth.current()?.email.toLowerCase());
+        if (!invite) throw new Error('Invite not found');
+        joinTopic(invite.topic_id, invite.role);
+        invites = invites.filter(i => i.id !== id);
+      },
+      async cancelInvite(id) {
+        invites = invites.filter(i => i.id !== id);
+      },
+    },
+
+    shares: {
+      async listByTopic(topicId) {
+        return shareLinks.filter(link => link.topic_id === topicId).reverse();
+      },
+      async create(topicId, options) {
+        const link: ShareLink = { id: newId(), topic_id: topicId, token: newShareToken(), hide_catch_dates: options.hideCatchDates, created_at: now() };
+        shareLinks = [...shareLinks, link];
+        return link;
+      },
+      async rotate(id) {
+        const link = shareLinks.find(l => l.id === id);
+        if (!link) throw new Error(`share link ${id} not found`);
+        const rotated = { ...link, token: newShareToken() };
+        shareLinks = shareLinks.map(l => (l.id === id ? rotated : l));
+        return rotated;
+      },
+      async revoke(id) {
+        shareLinks = shareLinks.filter(l => l.id !== id);
+      },
+      async open(token) {
+        const link = shareLinks.find(l => l.token === token);
+        const topic = link && findRow('topics', link.topic_id);
+        if (!link || !topic || topic.deleted_at) return null;
+        return {
+          topic,
+          hideCatchDates: link.hide_catch_dates,
+          categories: live(store.categories).filter(c => c.topic_id === topic.id).sort((a, b) => a.name.localeCompare(b.name)),
+          dolls: live(store.dolls)
+            .filter(d => d.topic_id === topic.id)
+            .map(d => (link.hide_catch_dates ? { ...d, catch_date: null } : d)),
+        };
+      },
+    },
+
+    subscribe(_topicId, listener) {
+      listeners.add(listener);
+      return () => { listeners.delete(listener); };
+    },
+  };
+};
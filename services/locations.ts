@@ -0,0 +1,67 @@
+import { Doll, StorageLocation, Topic } from '../types';
+import { ancestry, flattenTree } from './categoryTree';
+import { matchText } from './textSearch';
+
+const NO_LOCATIONS: StorageLocation[] = [];
+
+// Rows cached before topics had storage locations carry none.
+export const locationsOf = (topic: Pick<Topic, 'locations'>) => topic.locations || NO_LOCATIONS;
+
+export const newLocation = (name: string, parentId: string | null): StorageLocation => ({
+  id: crypto.randomUUID().slice(0, 8),
+  name,
+  parent_id: parentId,
+});
+
+/** "Bedroom › Shelf 2 › Blue bin" */
+export const locationPath = (locations: StorageLocation[], id: string) =>
+  ancestry(locations, id).map(l => l.name).join(' › ');
+
+/** Where the doll is kept; a location removed since counts as not put away. */
+export const locationOf = (doll: Pick<Doll, 'location_id'>, locations: StorageLocation[]) =>
+  (doll.location_id && locations.find(l => l.id === doll.location_id)) || null;
+
+/** Takes a location out, moving the ones inside it up to its parent. */
+export const removeLocation = (locations: StorageLocation[], id: string) => {
+  const parentId = locations.find(l => l.id === id)?.parent_id ?? null;
+  return locations
+    .filter(l => l.id !== id)
+    .map(l => (l.parent_id === id ? { ...l, parent_id: parentId } : l));
+};
+
+/** `target` plus the locations of `source` it lacks, for dolls moving between topics. */
+export const mergeLocations = (target: StorageLocation[], source: StorageLocation[]) =>
+  [...target, ...source.filter(l => !target.some(t => t.id === l.id))];
+
+export interface InventorySection {
+  /** Null for the dolls that aren't put away anywhere. */
+  location: StorageLocation | null;
+  depth: number;
+  dolls: Doll[];
+}
+
+/**
+ * Every location in tree order with the dolls kept directly in it, by name, then the
+ * dolls not put away. Empty locations are listed too, so a printout shows the free space.
+ */
+export const inventory = (locations: StorageLocation[], dolls: Doll[]): InventorySection[] => {
+  const byName = (a: Doll, b: Doll) => a.name.localeCompare(b.name);
+  const sections: InventorySection[] = flattenTree(locations).map(({ category: location, depth }) => ({
+    location,
+    depth,
+    dolls: dolls.filter(d => d.location_id === location.id).sort(byName),
+  }));
+  const unplaced = dolls.filter(d => !locationOf(d, locations)).sort(byName);
+  if (unplaced.length > 0) sections.push({ location: null, depth: 0, dolls: unplaced });
+  return sections;
+};
+
+/** Dolls whose name matches the text as the search box does, best first, for the "where is it?" lookup. */
+export const findDolls = (dolls: Doll[], text: string) => {
+  if (!text.trim()) return [];
+  return dolls
+    .map(doll => ({ doll, match: matchText(text, doll.name) }))
+    .filter(found => found.match)
+    .sort((a, b) => b.match!.quality - a.match!.quality || a.doll.name.localeCompare(b.doll.name))
+    .map(found => found.doll);
+};
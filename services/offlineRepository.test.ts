@@ -0,0 +1,178 @@
+// @vitest-environment happy-dom
+import 'fake-indexeddb/auto';
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import type { DataRepository } from './repository';
+import { createLocalRepository } from './localRepository';
+import { createOfflineRepository } from './offlineRepository';
+import { parseDoll, parseTopic } from './validation';
+
+// The local backend stands in for the server, signed in as its demo account.
+vi.hoisted(() => vi.stubEnv('VITE_DATA_BACKEND', 'local'));
+vi.mock('./supabaseClient', () => ({ supabase: {} }));
+
+const topic = parseTopic({ id: 'sharks', name: 'Sharks', created_at: '2026-01-01T00:00:00Z' });
+const doll = parseDoll({ id: 'orca', topic_id: 'sharks', name: 'Orca', image_url: 'orca.jpg', created_at: '2026-01-02T00:00:00Z' });
+
+/** A server that can be cut off, and that logs the changes reaching it. */
+const fakeRemote = () => {
+  const server = createLocalRepository();
+  const state = { offline: false, writes: [] as string[] };
+  const remote = Object.fromEntries(Object.entries(server).map(([name, part]) => [
+    name,
+    typeof part === 'function' ? part : Object.fromEntries(Object.entries(part).map(([method, fn]) => [
+      method,
+      async (...args: unknown[]) => {
+        if (state.offline) throw new TypeError('Failed to fetch');
+        if (!['get', 'list', 'listByTopic'].includes(method)) state.writes.push(`${name}.${method}`);
+        return (fn as (...args: unknown[]) => unknown).apply(part, args);
+      },
+    ])),
+  ])) as unknown as DataRepository;
+  return { server, remote, state };
+};
+
+const setup = async () => {
+  const { server, remote, state } = fakeRemote();
+  const { repository, sync } = createOfflineRepository(remote);
+  await sync.setOwner('demo');
+  return { server, remote, state, repository, sync };
+};
+
+beforeEach(() => {
+  localStorage.clear();
+  vi.spyOn(console, 'error').mockImplementation(() => {});
+});
+
+describe('offline repository', () => {
+  it('replays changes made offline in the order they were made', async () => {
+    const { server, state, repository, sync } = await setup();
+    state.offline = true;
+    await repository.topics.create(topic);
+    await repository.dolls.create(doll);
+    await repository.dolls.update(doll.id, { name: 'Killer whale' });
+    expect(sync.getStatus()).toMatchObject({ online: false, pending: 3 });
+
+    state.offline = false;
+    await sync.flush();
+    expect(state.writes).toEqual(['topics.create', 'dolls.create', 'dolls.update']);
+    expect(await server.dolls.get(doll.id)).toMatchObject({ name: 'Killer whale' });
+    expect(sync.getStatus()).toMatchObject({ online: true, pending: 0, conflicts: [] });
+  });
+
+  it('stops at a network error and keeps the rest queued', async () => {
+    const { server, remote, state, repository, sync } = await setup();
+    state.offline = true;
+    await repository.topics.create(topic);
+    await repository.dolls.create(doll);
+
+    state.offline = false;
+    vi.spyOn(remote.dolls, 'create').mockRejectedValueOnce(new TypeError('Failed to fetch'));
+    await sync.flush();
+    expect(await server.topics.get(topic.id)).not.toBeNull();
+    expect(await server.dolls.get(doll.id)).toBeNull();
+    expect(sync.getStatus()).toMatchObject({ online: false, pending: 1 });
+
+    await sync.flush();
+    expect(await server.dolls.get(doll.id)).not.toBeNull();
+    expect(sync.getStatus().pending).toBe(0);
+  });
+
+  it('reports a change the server refuses and goes back to its copy', async () => {
+    const { remote, state, repository, sync } = await setup();
+    await repository.topics.create(topic);
+    await repository.dolls.create(doll);
+    await sync.flush();
+
+    state.offline = true;
+    await repository.dolls.update(doll.id, { name: 'Killer whale' });
+    state.offline = false;
+    vi.spyOn(remote.dolls, 'update').mockRejectedValueOnce(new Error('permission denied for table dolls'));
+    await sync.flush();
+
+    expect(sync.getStatus().pending).toBe(0);
+    expect(sync.getStatus().conflicts).toEqual([expect.objectContaining({
+      rowId: doll.id,
+      reason: 'rejected',
+      message: 'permission denied for table dolls',
+      fields: { name: { mine: 'Killer whale', theirs: 'Orca' } },
+    })]);
+    state.offline = true;
+    expect(await repository.dolls.get(doll.id)).toMatchObject({ name: 'Orca' });
+  });
+
+  it('merges offline edits and reports fields both sides changed', async () => {
+    const { server, state, repository, sync } = await setup();
+    await repository.topics.create(topic);
+    await repository.dolls.create(doll);
+    await sync.flush();
+
+    state.offline = true;
+    await repository.dolls.update(doll.id, { name: 'Killer whale', description: 'Black and white' });
+    await server.dolls.update(doll.id, { name: 'Orcinus', catch_date: '2024-06-01' });
+    state.offline = false;
+    await sync.flush();
+
+    expect(await server.dolls.get(doll.id)).toMatchObject({
+      name: 'Orcinus', description: 'Black and white', catch_date: '2024-06-01',
+    });
+    expect(sync.getStatus().conflicts).toEqual([expect.objectContaining({
+      rowId: doll.id,
+      reason: 'edited',
+      fields: { name: { mine: 'Killer whale', theirs: 'Orcinus' } },
+    })]);
+
+    const [conflict] = sync.getStatus().conflicts;
+    await sync.resolveConflict(conflict.id, 'mine');
+    await sync.flush();
+    expect(await server.dolls.get(doll.id)).toMatchObject({ name: 'Killer whale' });
+    expect(sync.getStatus().conflicts).toEqual([]);
+  });
+
+  describe('with a photo taken offline', () => {
+    const refused = new Error('new row violates row-level security policy');
+
+    const takePhotoOffline = async () => {
+      const context = await setup();
+      await context.repository.topics.create(topic);
+      await context.sync.flush();
+      context.state.offline = true;
+      const url = await context.repository.images.upload(topic.id, 'orca.jpg', new File(['orca'], 'orca.jpg'));
+      await context.repository.dolls.create({ ...doll, image_url: url, photos: [url] });
+      await context.repository.dolls.update(doll.id, { description: 'Black and white' });
+      context.state.offline = false;
+      return context;
+    };
+
+    it('holds the changes that use a refused photo and saves them once it uploads', async () => {
+      const { server, remote, repository, sync } = await takePhotoOffline();
+      vi.spyOn(remote.images, 'upload').mockRejectedValueOnce(refused);
+      await sync.flush();
+
+      expect(await server.dolls.get(doll.id)).toBeNull();
+      expect(sync.getStatus().pending).toBe(3);
+      const [conflict] = sync.getStatus().conflicts;
+      expect(conflict).toMatchObject({ rowId: doll.id, label: 'Orca', reason: 'upload', message: refused.message });
+      expect((await repository.dolls.listByTopic(topic.id))[0].image_url).toMatch(/^blob:/);
+
+      await sync.resolveConflict(conflict.id, 'mine');
+      await sync.flush();
+      const saved = await server.dolls.get(doll.id);
+      expect(saved).toMatchObject({ description: 'Black and white' });
+      expect(saved!.image_url).not.toMatch(/^pending-image:/);
+      expect(sync.getStatus()).toMatchObject({ pending: 0, conflicts: [] });
+    });
+
+    it('drops a refused photo with the changes that use it', async () => {
+      const { server, remote, repository, sync } = await takePhotoOffline();
+      vi.spyOn(remote.images, 'upload').mockRejectedValue(refused);
+      await sync.flush();
+
+      const [conflict] = sync.getStatus().conflicts;
+      await sync.resolveConflict(conflict.id, 'theirs');
+      await sync.flush();
+      expect(await server.dolls.get(doll.id)).toBeNull();
+      expect(sync.getStatus()).toMatchObject({ pending: 0, conflicts: [] });
+      expect(await repository.dolls.listByTopic(topic.id)).toEqual([]);
+    });
+  });
+});
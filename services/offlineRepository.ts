@@ -0,0 +1,713 @@
+import { Doll, Category, Topic, MemberRole } from '../types';
+import type { DataRepository, RowChange, TableName, CategoryDeleteOptions, TopicDeleteOptions, UpdateOptions } from './repository';
+import * as localDb from './localDb';
+import { pageDolls } from './dollQuery';
+import { summarizeCategories } from './categoryStats';
+import { mergeSizeVariants, sizeVariantsOf } from './sizes';
+import { customFieldsOf, mergeCustomFields } from './customFields';
+import { renameTagIn, summarizeTags, tagsOf } from './tags';
+import { imageUrlsOf } from './photos';
+import { totalTradeable } from './trades';
+import { locationsOf, mergeLocations } from './locations';
+
+type Row = Topic | Category | Doll;
+type Fields = Record<string, unknown>;
+
+/**
+ * One queued mutation. Entries replay in `seq` order, so an image upload always
+ * reaches the server before the row that points at it.
+ */
+type OutboxEntry = { seq?: number } & (
+  | { kind: 'upload'; fileName: string; topicId?: string } // No topic on uploads queued by older versions
+  | { kind: 'insert'; table: TableName; row: Row }
+  | { kind: 'update'; table: TableName; id: string; patch: Fields; base: Fields; options?: UpdateOptions }
+  | { kind: 'delete'; table: TableName; id: string; options?: CategoryDeleteOptions | TopicDeleteOptions }
+);
+
+export interface SyncConflict {
+  id: string;
+  table: TableName;
+  rowId: string;
+  label: string;
+  /**
+   * 'edited': another device changed the same fields. 'deleted': the row is gone or in the trash remotely.
+   * 'rejected': the server refused the change, e.g. after losing edit rights, and the cache went back to its copy.
+   * 'upload': the server refused a photo taken offline; the changes that use it wait in the outbox until it is
+   * retried ('mine') or dropped along with them ('theirs').
+   */
+  reason: 'edited' | 'deleted' | 'rejected' | 'upload';
+  fields: Record<string, { mine: unknown; theirs: unknown }>;
+  /** Why the server refused a 'rejected' change or an 'upload'. */
+  message?: string;
+  /** The photo of an 'upload' conflict. */
+  fileName?: string;
+  detected_at: string;
+}
+
+export interface SyncStatus {
+  online: boolean;
+  syncing: boolean;
+  pending: number;
+  conflicts: SyncConflict[];
+}
+
+export interface SyncEngine {
+  getStatus(): SyncStatus;
+  subscribe(listener: (status: SyncStatus) => void): () => void;
+  flush(): Promise<void>;
+  resolveConflict(conflictId: string, keep: 'mine' | 'theirs'): Promise<void>;
+  /**
+   * The cache and outbox belong to one account. Claiming them for a different
+   * account (or for none, on sign-out) drops everything, queued changes included.
+   */
+  setOwner(accountId: string | null): Promise<void>;
+}
+
+// Images uploaded while offline are stored as `pending-image:<fileName>` until the upload replays.
+const PENDING_IMAGE_PREFIX = 'pending-image:';
+
+const CACHE_OWNER_KEY = 'offlineCacheOwner';
+// The account's roles, so the UI can gate editing while offline.
+const CACHED_ROLES_KEY = 'offlineMemberRoles';
+
+const cachedRoles = (): Record<string, MemberRole> => JSON.parse(localStorage.getItem(CACHED_ROLES_KEY) || '{}');
+const cacheRoles = (roles: Record<string, MemberRole>) => localStorage.setItem(CACHED_ROLES_KEY, JSON.stringify(roles));
+
+const isNetworkError = (err: unknown): boolean => {
+  if (!navigator.onLine) return true;
+  const message = (err as { message?: string } | null)?.message || '';
+  return /Failed to fetch|NetworkError|Load failed|network request failed/i.test(message);
+};
+
+const isDuplicateKey = (err: unknown) => (err as { code?: string } | null)?.code === '23505';
+
+const sameValue = (a: unknown, b: unknown) => JSON.stringify(a ?? null) === JSON.stringify(b ?? null);
+
+const pick = (row: Fields | undefined, keys: string[]): Fields =>
+  Object.fromEntries(keys.map(key => [key, row ? row[key] : undefined]));
+
+const rowIdOf = (entry: Exclude<OutboxEntry, { kind: 'upload' }>) => (entry.kind === 'insert' ? entry.row.id : entry.id);
+
+// Whether a queued row or patch points at a photo still waiting for its upload.
+const usesPendingImage = (entry: OutboxEntry, fileName: string) => {
+  const values = entry.kind === 'insert' ? entry.row : entry.kind === 'update' ? entry.patch : null;
+  return !!values && imageUrlsOf(values).includes(PENDING_IMAGE_PREFIX + fileName);
+};
+
+/**
+ * Wraps a remote repository with an IndexedDB cache and a persistent outbox.
+ * Reads go to the server when it is reachable and nothing is queued, and fall back
+ * to the cache otherwise. Writes land in the cache immediately and replay in order.
+ */
+export const createOfflineRepository = (remote: DataRepository): { repository: DataRepository; sync: SyncEngine } => {
+  let status: SyncStatus = { online: navigator.onLine, syncing: false, pending: 0, conflicts: [] };
+  const listeners = new Set<(status: SyncStatus) => void>();
+  let flushing: Promise<void> | null = null;
+  // Replay waits for an account: without a session the server would reject, and drop, every entry.
+  let owner: string | null = null;
+
+  const setStatus = (patch: Partial<SyncStatus>) => {
+    status = { ...status, ...patch };
+    listeners.forEach(listener => listener(status));
+  };
+
+  const refreshPending = async () => setStatus({ pending: await localDb.count('outbox') });
+  const refreshConflicts = async () => setStatus({ conflicts: await localDb.getAll<SyncConflict>('conflicts') });
+
+  const remoteTable = (table: TableName) => remote[table] as unknown as {
+    get(id: string): Promise<Row | null>;
+    create(row: Row): Promise<Row>;
+    update(id: string, patch: Fields, options?: UpdateOptions): Promise<void>;
+    remove(id: string, options?: CategoryDeleteOptions | TopicDeleteOptions): Promise<void>;
+  };
+
+  // --- Pending image URLs ---
+  const objectUrls = new Map<string, string>();
+
+  const toDisplayUrl = async (url: string | undefined) => {
+    if (!url || !url.startsWith(PENDING_IMAGE_PREFIX)) return url;
+    const fileName = url.slice(PENDING_IMAGE_PREFIX.length);
+    const uploaded = await localDb.get<string>('uploads', fileName);
+    if (uploaded) return uploaded;
+    if (!objectUrls.has(fileName)) {
+      const blob = await localDb.get<Blob>('blobs', fileName);
+      if (!blob) return url;
+      objectUrls.set(fileName, URL.createObjectURL(blob));
+    }
+    return objectUrls.get(fileName);
+  };
+
+  const toStoredUrl = (url: unknown) => {
+    for (const [fileName, objectUrl] of objectUrls) {
+      if (objectUrl === url) return PENDING_IMAGE_PREFIX + fileName;
+    }
+    return url;
+  };
+
+  // Rewrites every image URL in a row or patch: the cover, a doll's photos and a category's checklist pictures.
+  const mapImageUrls = async <T extends object>(values: T, map: (url: string) => unknown): Promise<T> => {
+    const urls = imageUrlsOf(values);
+    if (urls.length === 0) return values;
+    const mapped = new Map(await Promise.all(urls.map(async url => [url, await map(url)] as const)));
+    const fields = values as Fields;
+    return {
+      ...values,
+      ...(typeof fields.image_url === 'string' ? { image_url: mapped.get(fields.image_url) } : {}),
+      ...(Array.isArray(fields.photos) ? { photos: fields.photos.map(url => mapped.get(url)) } : {}),
+      ...(Array.isArray(fields.checklist)
+        ? { checklist: fields.checklist.map(item => (item.image_url ? { ...item, image_url: mapped.get(item.image_url) } : item)) }
+        : {}),
+    };
+  };
+
+  const forDisplay = <T extends Row>(row: T): Promise<T> => mapImageUrls(row, toDisplayUrl);
+
+  const forStorage = <T extends Fields>(values: T): T => ({
+    ...values,
+    ...('image_url' in values ? { image_url: toStoredUrl(values.image_url) } : {}),
+    ...(Array.isArray(values.photos) ? { photos: values.photos.map(toStoredUrl) } : {}),
+    ...(Array.isArray(values.checklist)
+      ? { checklist: values.checklist.map(item => (item.image_url ? { ...item, image_url: toStoredUrl(item.image_url) } : item)) }
+      : {}),
+  });
+
+  // A pending URL that never uploaded must not reach the server as if it were a real one.
+  const withUploadedUrls = <T extends Fields>(values: T): Promise<T> =>
+    mapImageUrls(values, async url => {
+      if (!url.startsWith(PENDING_IMAGE_PREFIX)) return url;
+      const uploaded = await localDb.get<string>('uploads', url.slice(PENDING_IMAGE_PREFIX.length));
+      if (!uploaded) throw new Error('A photo taken offline was never uploaded');
+      return uploaded;
+    });
+
+  // --- Outbox replay ---
+  const recordConflict = async (conflict: Omit<SyncConflict, 'id' | 'detected_at'>, id = `${conflict.table}:${conflict.rowId}:${Date.now()}`) => {
+    await localDb.put('conflicts', {
+      ...conflict,
+      id,
+      detected_at: new Date().toISOString(),
+    });
+    await refreshConflicts();
+  };
+
+  const replayUpdate = async (entry: Extract<OutboxEntry, { kind: 'update' }>) => {
+    const table = remoteTable(entry.table);
+    const patch = await withUploadedUrls(entry.patch);
+    const current = await table.get(entry.id) as Fields | null;
+    const cached = await localDb.get<Fields>(entry.table, entry.id);
+    const label = String((current || cached)?.name ?? entry.id);
+
+    if (!current || current.deleted_at) {
+      await recordConflict({
+        table: entry.table, rowId: entry.id, label, reason: 'deleted',
+        fields: Object.fromEntries(Object.entries(patch).map(([key, mine]) => [key, { mine, theirs: undefined }])),
+      });
+      await localDb.remove(entry.table, entry.id);
+      return;
+    }
+
+    // Three-way merge: a field conflicts only if the server moved away from the value
+    // we edited from, and not to the same value we chose.
+    const merged: Fields = {};
+    const conflicting: SyncConflict['fields'] = {};
+    Object.entries(patch).forEach(([key, mine]) => {
+      const theirs = current[key];
+      if (!sameValue(theirs, entry.base[key]) && !sameValue(theirs, mine)) {
+        conflicting[key] = { mine, theirs };
+      } else {
+        merged[key] = mine;
+      }
+    });
+
+    if (Object.keys(merged).length > 0) await table.update(entry.id, merged, entry.options);
+    await localDb.put(entry.table, { ...current, ...merged });
+    if (Object.keys(conflicting).length > 0) {
+      await recordConflict({ table: entry.table, rowId: entry.id, label, reason: 'edited', fields: conflicting });
+    }
+  };
+
+  const replay = async (entry: OutboxEntry) => {
+    switch (entry.kind) {
+      case 'upload': {
+        const blob = await localDb.get<Blob>('blobs', entry.fileName);
+        if (!blob) return;
+        const url = await remote.images.upload(entry.topicId ?? null, entry.fileName, new File([blob], entry.fileName, { type: blob.type }));
+        await localDb.put('uploads', url, entry.fileName);
+        await localDb.remove('blobs', entry.fileName);
+        return;
+      }
+      case 'insert':
+        try {
+          await remoteTable(entry.table).create(await withUploadedUrls(entry.row as unknown as Fields) as unknown as Row);
+        } catch (err) {
+          // Already inserted by an earlier replay that was cut off before it was dequeued.
+          if (!isDuplicateKey(err)) throw err;
+        }
+        return;
+      case 'update':
+        return replayUpdate(entry);
+      case 'delete':
+        return remoteTable(entry.table).remove(entry.id, entry.options);
+    }
+  };
+
+  // Puts the server's copy of a row back in the cache, or takes the row out if the server has none.
+  const reloadRow = async (table: TableName, rowId: string) => {
+    try {
+      const current = await remoteTable(table).get(rowId) as Fields | null;
+      if (current && !current.deleted_at) await localDb.put(table, current);
+      else await localDb.remove(table, rowId);
+      return current;
+    } catch (fetchErr) {
+      console.error('Sync: could not reload a rejected row', fetchErr);
+      return null;
+    }
+  };
+
+  // A change the server won't take is reported, and the cached row goes back to the server's copy.
+  const rejectEntry = async (entry: Exclude<OutboxEntry, { kind: 'upload' }>, err: unknown) => {
+    const rowId = rowIdOf(entry);
+    const cached = await localDb.get<Fields>(entry.table, rowId);
+    const current = await reloadRow(entry.table, rowId);
+    const mine: Fields = entry.kind === 'insert' ? entry.row as unknown as Fields : entry.kind === 'update' ? entry.patch : {};
+    await recordConflict({
+      table: entry.table, rowId, label: String((current || cached)?.name ?? (mine.name || rowId)), reason: 'rejected',
+      fields: Object.fromEntries(Object.entries(mine).map(([key, value]) => [key, { mine: value, theirs: current?.[key] }])),
+      message: (err as { message?: string } | null)?.message || String(err),
+    });
+  };
+
+  // A photo the server won't take stays queued with its blob, to be tried again on the next
+  // flush, and the changes that use it wait with it rather than saving its placeholder URL.
+  // False when no queued change uses the photo any more, so there is nothing to hold.
+  const holdUpload = async (entry: Extract<OutboxEntry, { kind: 'upload' }>, queued: OutboxEntry[], err: unknown) => {
+    const user = queued.find((e): e is Exclude<OutboxEntry, { kind: 'upload' }> => usesPendingImage(e, entry.fileName));
+    if (!user) return false;
+    const rowId = rowIdOf(user);
+    const cached = await localDb.get<Fields>(user.table, rowId);
+    await recordConflict({
+      table: user.table, rowId, label: String(cached?.name ?? rowId), reason: 'upload', fields: {},
+      message: (err as { message?: string } | null)?.message || String(err),
+      fileName: entry.fileName,
+    }, `upload:${entry.fileName}`);
+    return true;
+  };
+
+  // Gives up on a refused photo: it and every queued change to the rows using it are
+  // dropped, and those rows go back to the server's copy.
+  const dropUpload = async (fileName: string) => {
+    await flushing;
+    const rows = new Map<string, { table: TableName; rowId: string }>();
+    const dropped = (await localDb.getAll<OutboxEntry>('outbox')).filter(entry => {
+      if (entry.kind === 'upload') return entry.fileName === fileName;
+      const key = `${entry.table}:${rowIdOf(entry)}`;
+      if (!rows.has(key) && !usesPendingImage(entry, fileName)) return false;
+      rows.set(key, { table: entry.table, rowId: rowIdOf(entry) });
+      return true;
+    });
+    await Promise.all(dropped.map(entry => localDb.remove('outbox', entry.seq!)));
+    for (const { table, rowId } of rows.values()) await reloadRow(table, rowId);
+    await localDb.remove('blobs', fileName);
+    const objectUrl = objectUrls.get(fileName);
+    if (objectUrl) URL.revokeObjectURL(objectUrl);
+    objectUrls.delete(fileName);
+    await refreshPending();
+  };
+
+  const runFlush = async () => {
+    if (!owner) return;
+    const entries = await localDb.getAll<OutboxEntry>('outbox');
+    if (entries.length === 0) return;
+    setStatus({ syncing: true });
+    try {
+      // Photos refused on this flush, and the rows whose later changes wait for them
+      const heldFiles: string[] = [];
+      const heldRows = new Set<string>();
+      for (const entry of entries) {
+        if (entry.kind !== 'upload') {
+          const key = `${entry.table}:${rowIdOf(entry)}`;
+          if (heldRows.has(key) || heldFiles.some(fileName => usesPendingImage(entry, fileName))) {
+            heldRows.add(key);
+            continue;
+          }
+        }
+        try {
+          await replay(entry);
+        } catch (err) {
+          if (isNetworkError(err)) {
+            setStatus({ online: false });
+            return;
+          }
+          console.error('Sync: server rejected queued change', entry, err);
+          if (entry.kind !== 'upload') {
+            await rejectEntry(entry, err);
+          } else if (await holdUpload(entry, entries, err)) {
+            heldFiles.push(entry.fileName);
+            continue;
+          } else {
+            await localDb.remove('blobs', entry.fileName);
+          }
+        }
+        await localDb.remove('outbox', entry.seq!);
+        await refreshPending();
+      }
+      setStatus({ online: true });
+    } finally {
+      setStatus({ syncing: false });
+    }
+  };
+
+  const flush = () => {
+    if (!flushing) flushing = runFlush().finally(() => { flushing = null; });
+    return flushing;
+  };
+
+  const enqueue = async (entry: OutboxEntry) => {
+    await localDb.put('outbox', entry);
+    await refreshPending();
+    void flush();
+  };
+
+  // --- Cached reads and queued writes ---
+  const read = async <T>(fromRemote: () => Promise<T>, fromCache: () => Promise<T>, toCache: (value: T) => Promise<void>): Promise<T> => {
+    await flush();
+    if (status.pending === 0) {
+      try {
+        const value = await fromRemote();
+        await toCache(value);
+        setStatus({ online: true });
+        return value;
+      } catch (err) {
+        if (!isNetworkError(err)) throw err;
+        setStatus({ online: false });
+      }
+    }
+    return fromCache();
+  };
+
+  const cachedRows = async <T extends Row>(rows: Promise<T[]>) => Promise.all((await rows).map(forDisplay));
+
+  const cachedCategories = async (topicId: string) =>
+    (await cachedRows(localDb.getAllByIndex<Category>('categories', 'topic_id', topicId)))
+      .sort((a, b) => a.name.localeCompare(b.name));
+
+  const insertRow = async <T extends Row>(table: TableName, values: Omit<T, 'id' | 'created_at'> & Partial<Row>): Promise<T> => {
+    const row = forStorage({ id: crypto.randomUUID(), created_at: new Date().toISOString(), ...values } as unknown as Fields) as unknown as T;
+    await localDb.put(table, row);
+    await enqueue({ kind: 'insert', table, row });
+    return forDisplay(row);
+  };
+
+  const updateRow = async (table: TableName, id: string, values: Fields, options?: UpdateOptions) => {
+    const patch = forStorage(values);
+    const cached = await localDb.get<Fields>(table, id);
+    const base = pick(cached, Object.keys(patch));
+    if (cached) await localDb.put(table, { ...cached, ...patch });
+    await enqueue({ kind: 'update', table, id, patch, base, options });
+  };
+
+  const removeRow = async (table: TableName, id: string, options?: CategoryDeleteOptions | TopicDeleteOptions) => {
+    await localDb.remove(table, id);
+    await enqueue({ kind: 'delete', table, id, options });
+  };
+
+  // Mirrors the server-side cascade in the cache so offline views match what will sync.
+  const cascadeCategoryDelete = async (id: string, options: CategoryDeleteOptions) => {
+    const category = await localDb.get<Category>('categories', id);
+    if (!category) return;
+    const dolls = (await localDb.getAllByIndex<Doll>('dolls', 'topic_id', category.topic_id)).filter(d => d.category_id === id);
+    await Promise.all(dolls.map(doll => options.dolls === 'delete'
+      ? localDb.remove('dolls', doll.id)
+      : localDb.put('dolls', { ...doll, category_id: options.dolls === 'move' ? options.targetCategoryId : null })
+    ));
+    const children = (await localDb.getAllByIndex<Category>('categories', 'topic_id', category.topic_id)).filter(c => c.parent_id === id);
+    await Promise.all(children.map(child => localDb.put('categories', { ...child, parent_id: category.parent_id ?? null })));
+  };
+
+  const cascadeTopicDelete = async (id: string, options: TopicDeleteOptions) => {
+    if (options.contents === 'move') {
+      const [source, target] = await Promise.all([localDb.get<Topic>('topics', id), localDb.get<Topic>('topics', options.targetTopicId)]);
+      if (source && target) {
+        await localDb.put('topics', {
+          ...target,
+          size_variants: mergeSizeVariants(sizeVariantsOf(target), sizeVariantsOf(source)),
+          custom_fields: mergeCustomFields(customFieldsOf(target), customFieldsOf(source)),
+          locations: mergeLocations(locationsOf(target), locationsOf(source)),
+        });
+      }
+    }
+    for (const table of ['categories', 'dolls'] as const) {
+      const rows = await localDb.getAllByIndex<Category | Doll>(table, 'topic_id', id);
+      await Promise.all(rows.map(row => options.contents === 'move'
+        ? localDb.put(table, { ...row, topic_id: options.targetTopicId })
+        : localDb.remove(table, row.id)
+      ));
+    }
+  };
+
+  // Mirrors a tag rename or delete the server has just applied onto the cached dolls.
+  const retagCached = async (topicId: string, name: string, retag: (tags: string[]) => string[]) => {
+    const dolls = (await localDb.getAllByIndex<Doll>('dolls', 'topic_id', topicId)).filter(d => tagsOf(d).includes(name));
+    await Promise.all(dolls.map(doll => localDb.put('dolls', { ...doll, tags: retag(tagsOf(doll)) })));
+  };
+
+  const getRow = <T extends Row>(table: TableName, id: string, fromRemote: () => Promise<T | null>) =>
+    read<T | null>(
+      fromRemote,
+      async () => {
+        const row = await localDb.get<T>(table, id);
+        return row ? forDisplay(row) : null;
+      },
+      async row => {
+        if (row?.deleted_at) await localDb.remove(table, id);
+        else if (row) await localDb.put(table, row);
+      }
+    );
+
+  const repository: DataRepository = {
+    topics: {
+      list: () => read(
+        () => remote.topics.list(),
+        async () => (await localDb.getAll<Topic>('topics')).sort((a, b) => a.created_at.localeCompare(b.created_at)),
+        rows => localDb.replaceAll('topics', rows)
+      ),
+      get: id => getRow('topics', id, () => remote.topics.get(id)),
+      create: async topic => {
+        const row = await insertRow<Topic>('topics', topic);
+        // The server makes the creator the owner once the insert replays
+        cacheRoles({ ...cachedRoles(), [row.id]: 'owner' });
+        return row;
+      },
+      update: (id, patch) => updateRow('topics', id, patch),
+      countContents: id => read(
+        () => remote.topics.countContents(id),
+        async () => ({
+          categories: (await localDb.getAllByIndex('categories', 'topic_id', id)).length,
+          dolls: (await localDb.getAllByIndex('dolls', 'topic_id', id)).length,
+        }),
+        async () => {}
+      ),
+      remove: async (id, options) => {
+        await cascadeTopicDelete(id, options);
+        await removeRow('topics', id, options);
+      },
+    },
+
+    categories: {
+      listByTopic: topicId => read(
+        () => remote.categories.listByTopic(topicId),
+        () => cachedCategories(topicId),
+        rows => localDb.replaceAll('categories', rows, 'topic_id', topicId)
+      ),
+      listWithStats: topicId => read(
+        () => remote.categories.listWithStats(topicId),
+        async () => summarizeCategories(
+          await cachedCategories(topicId),
+          await cachedRows(localDb.getAllByIndex<Doll>('dolls', 'topic_id', topicId))
+        ),
+        rows => localDb.replaceAll('categories', rows.map(r => r.category), 'topic_id', topicId)
+      ),
+      get: id => getRow('categories', id, () => remote.categories.get(id)),
+      create: category => insertRow<Category>('categories', category),
+      update: (id, patch, options) => updateRow('categories', id, patch, options),
+      remove: async (id, options) => {
+        await cascadeCategoryDelete(id, options);
+        await removeRow('categories', id, options);
+      },
+    },
+
+    dolls: {
+      listByTopic: topicId => read(
+        () => remote.dolls.listByTopic(topicId),
+        () => cachedRows(localDb.getAllByIndex<Doll>('dolls', 'topic_id', topicId)),
+        rows => localDb.replaceAll('dolls', rows, 'topic_id', topicId)
+      ),
+      listForTrade: () => read(
+        () => remote.dolls.listForTrade(),
+        async () => cachedRows(localDb.getAll<Doll>('dolls').then(rows => rows.filter(d => !d.deleted_at && totalTradeable(d) > 0))),
+        async dolls => { await Promise.all(dolls.map(doll => localDb.put('dolls', doll))); }
+      ),
+      // Pages are cached row by row; a full refresh of the topic happens via listByTopic.
+      page: (query, cursor, limit) => read(
+        () => remote.dolls.page(query, cursor, limit),
+        async () => {
+          const page = pageDolls(await localDb.getAllByIndex<Doll>('dolls', 'topic_id', query.topicId), query, cursor, limit);
+          return { ...page, dolls: await Promise.all(page.dolls.map(forDisplay)) };
+        },
+        async page => { await Promise.all(page.dolls.map(doll => localDb.put('dolls', doll))); }
+      ),
+      get: id => getRow('dolls', id, () => remote.dolls.get(id)),
+      create: doll => insertRow<Doll>('dolls', doll),
+      update: (id, patch, options) => updateRow('dolls', id, patch, options),
+      remove: id => removeRow('dolls', id),
+    },
+
+    // Renames and deletes touch dolls that may not be cached, so they run on the server.
+    tags: {
+      listByTopic: topicId => read(
+        () => remote.tags.listByTopic(topicId),
+        async () => summarizeTags(await localDb.getAllByIndex<Doll>('dolls', 'topic_id', topicId)),
+        async () => {}
+      ),
+      rename: async (topicId, from, to) => {
+        await flush();
+        await remote.tags.rename(topicId, from, to);
+        await retagCached(topicId, from, tags => renameTagIn(tags, from, to));
+      },
+      remove: async (topicId, name) => {
+        await flush();
+        await remote.tags.remove(topicId, name);
+        await retagCached(topicId, name, tags => tags.filter(t => t !== name));
+      },
+    },
+
+    images: {
+      async upload(topicId, fileName, file) {
+        try {
+          return await remote.images.upload(topicId, fileName, file);
+        } catch (err) {
+          if (!isNetworkError(err)) throw err;
+        }
+        await localDb.put('blobs', file, fileName);
+        const objectUrl = URL.createObjectURL(file);
+        objectUrls.set(fileName, objectUrl);
+        await enqueue({ kind: 'upload', fileName, ...(topicId ? { topicId } : {}) });
+        return objectUrl;
+      },
+      // Storage maintenance needs the server; files still queued for upload aren't there yet.
+      list: () => remote.images.list(),
+      inUse: urls => remote.images.inUse(urls),
+      remove: fileNames => remote.images.remove(fileNames),
+      // Files still queued for upload are referenced by queued rows; leave them be.
+      release: urls => remote.images.release(urls.filter(url => !String(toStoredUrl(url)).startsWith(PENDING_IMAGE_PREFIX))),
+    },
+
+    // The cache only holds live rows, so the trash is read and emptied on the server,
+    // after queued deletes have reached it.
+    trash: {
+      list: async () => {
+        await flush();
+        return remote.trash.list();
+      },
+      restore: async (table, id) => {
+        await flush();
+        await remote.trash.restore(table, id);
+      },
+      purge: async (table, id) => {
+        await flush();
+        await remote.trash.purge(table, id);
+      },
+      purgeBefore: async cutoff => {
+        await flush();
+        await remote.trash.purgeBefore(cutoff);
+      },
+      purgeExpired: async () => {
+        await flush();
+        await remote.trash.purgeExpired();
+      },
+    },
+
+    // The log is written server-side as queued changes replay.
+    changes: {
+      listForRow: async (table, rowId) => {
+        await flush();
+        return remote.changes.listForRow(table, rowId);
+      },
+    },
+
+    // Links only mean anything server-side, so these need a connection.
+    shares: {
+      listByTopic: topicId => remote.shares.listByTopic(topicId),
+      create: async (topicId, options) => {
+        // The topic itself may still be waiting in the outbox
+        await flush();
+        return remote.shares.create(topicId, options);
+      },
+      rotate: id => remote.shares.rotate(id),
+      revoke: id => remote.shares.revoke(id),
+      open: token => remote.shares.open(token),
+    },
+
+    // Membership is managed online; only the account's own roles are cached.
+    members: {
+      myRoles: () => read(
+        () => remote.members.myRoles(),
+        async () => cachedRoles(),
+        async roles => cacheRoles(roles)
+      ),
+      listByTopic: topicId => remote.members.listByTopic(topicId),
+      setRole: (topicId, userId, role) => remote.members.setRole(topicId, userId, role),
+      remove: (topicId, userId) => remote.members.remove(topicId, userId),
+      listInvites: topicId => remote.members.listInvites(topicId),
+      invite: async (topicId, email, role) => {
+        await flush();
+        return remote.members.invite(topicId, email, role);
+      },
+      listMyInvites: () => remote.members.listMyInvites(),
+      acceptInvite: id => remote.members.acceptInvite(id),
+      cancelInvite: id => remote.members.cancelInvite(id),
+    },
+
+    // Remote changes are written through to the cache so offline reads stay current.
+    subscribe(topicId, listener) {
+      return remote.subscribe(topicId, async change => {
+        if (change.type === 'delete') {
+          await localDb.remove(change.table, change.id);
+          listener(change);
+        } else {
+          await localDb.put(change.table, change.row);
+          listener({ ...change, row: await forDisplay(change.row) } as RowChange);
+        }
+      });
+    },
+  };
+
+  const sync: SyncEngine = {
+    getStatus: () => status,
+    subscribe(listener) {
+      listeners.add(listener);
+      return () => { listeners.delete(listener); };
+    },
+    flush,
+    async resolveConflict(conflictId, keep) {
+      const conflict = (await localDb.getAll<SyncConflict>('conflicts')).find(c => c.id === conflictId);
+      if (!conflict) return;
+      await localDb.remove('conflicts', conflictId);
+      if (keep === 'mine' && conflict.reason === 'edited') {
+        const entries = Object.entries(conflict.fields);
+        await updateRow(conflict.table, conflict.rowId, Object.fromEntries(entries.map(([key, f]) => [key, f.mine])));
+      }
+      if (conflict.reason === 'upload' && conflict.fileName) {
+        // 'mine' tries the photo again; a refusal brings the conflict back
+        if (keep === 'theirs') await dropUpload(conflict.fileName);
+        void flush();
+      }
+      await refreshConflicts();
+    },
+    async setOwner(accountId) {
+      if (!accountId || localStorage.getItem(CACHE_OWNER_KEY) !== accountId) {
+        owner = null;
+        await flushing;
+        await localDb.clearAll();
+        objectUrls.forEach(url => URL.revokeObjectURL(url));
+        objectUrls.clear();
+        localStorage.removeItem(CACHED_ROLES_KEY);
+        if (accountId) localStorage.setItem(CACHE_OWNER_KEY, accountId);
+        else localStorage.removeItem(CACHE_OWNER_KEY);
+        await refreshPending();
+        await refreshConflicts();
+      }
+      owner = accountId;
+      if (owner) void flush();
+    },
+  };
+
+  window.addEventListener('online', () => {
+    setStatus({ online: true });
+    void flush();
+  });
+  window.addEventListener('offline', () => setStatus({ online: false }));
+  void refreshPending().then(refreshConflicts);
+
+  return { repository, sync };
+};
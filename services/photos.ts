@@ -0,0 +1,16 @@
+import { Doll } from '../types';
+
+/** The most photos one doll keeps. */
+export const MAX_PHOTOS = 12;
+
+/** A doll's photos in order. Rows from before dolls had several photos only have their cover. */
+export const photosOf = (doll: Pick<Doll, 'image_url' | 'photos'>) =>
+  doll.photos?.length ? doll.photos : doll.image_url ? [doll.image_url] : [];
+
+/** Every image URL a row points at: its cover, plus a doll's other photos or a category's checklist pictures. */
+export const imageUrlsOf = (row: object) => {
+  const { image_url, photos, checklist } = row as { image_url?: unknown; photos?: unknown; checklist?: unknown };
+  const references = Array.isArray(checklist) ? checklist.map(item => item?.image_url) : [];
+  return [...new Set([image_url, ...(Array.isArray(photos) ? photos : []), ...references])]
+    .filter((url): url is string => typeof url === 'string' && !!url);
+};
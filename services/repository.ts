@@ -0,0 +1,255 @@
+import { Doll, Category, Topic, ShareLink, MemberRole, TopicMember, TopicInvite } from '../types';
+import { createSupabaseRepository } from './supabaseRepository';
+import { createLocalRepository } from './localRepository';
+import { createOfflineRepository, SyncEngine } from './offlineRepository';
+import type { DollQuery, DollCursor, DollPage } from './dollQuery';
+import type { CategoryWithStats } from './categoryStats';
+import type { TagWithCount } from './tags';
+
+// Callers may supply `id` (and `created_at`) so rows created offline keep a stable identity.
+type WithOptionalIdentity<T extends { id: string; created_at: string }> =
+  Omit<T, 'id' | 'created_at'> & Partial<Pick<T, 'id' | 'created_at'>>;
+
+export type NewDoll = WithOptionalIdentity<Doll>;
+export type DollUpdate = Partial<Omit<Doll, 'id' | 'topic_id' | 'created_at' | 'deleted_at' | 'owner_id' | 'added_by'>>;
+
+export type NewCategory = WithOptionalIdentity<Category>;
+export type CategoryUpdate = Partial<Pick<Category, 'name' | 'image_url' | 'parent_id' | 'checklist'>>;
+
+export interface UpdateOptions {
+  /** Leave a replaced image in storage, e.g. while the change can still be undone. */
+  keepPreviousImage?: boolean;
+}
+
+export type NewTopic = WithOptionalIdentity<Topic>;
+export type TopicUpdate = Partial<Pick<Topic, 'name' | 'size_variants' | 'custom_fields' | 'locations' | 'currency' | 'trash_retention_days'>>;
+
+/** What happens to a category's dolls when it is deleted. */
+export type CategoryDeleteOptions =
+  | { dolls: 'move'; targetCategoryId: string }
+  | { dolls: 'uncategorize' }
+  | { dolls: 'delete' };
+
+/** What happens to a topic's categories and dolls when it is deleted. */
+export type TopicDeleteOptions =
+  | { contents: 'move'; targetTopicId: string }
+  | { contents: 'delete' };
+
+export interface TopicContents {
+  categories: number;
+  dolls: number;
+}
+
+export interface TableRows {
+  topics: Topic;
+  categories: Category;
+  dolls: Doll;
+}
+
+export type TableName = keyof TableRows;
+
+/** Rows currently in the trash. */
+export type TrashedRows = { [K in TableName]: TableRows[K][] };
+
+/**
+ * A row written or deleted elsewhere (another device, another tab).
+ * Moving a row to the trash arrives as a delete, restoring it as an upsert.
+ * A delete carries the row as it was when it is known, as it is for a move to the trash.
+ */
+export type RowChange = {
+  [K in TableName]: { table: K; type: 'upsert'; row: TableRows[K] } | { table: K; type: 'delete'; id: string; row?: TableRows[K] };
+}[TableName];
+
+export interface TopicRepository {
+  list(): Promise<Topic[]>;
+  get(id: string): Promise<Topic | null>;
+  /** How many categories and dolls a delete would affect. */
+  countContents(id: string): Promise<TopicContents>;
+  create(topic: NewTopic): Promise<Topic>;
+  update(id: string, patch: TopicUpdate): Promise<void>;
+  /** Moves the topic to the trash. */
+  remove(id: string, options: TopicDeleteOptions): Promise<void>;
+}
+
+export interface CategoryRepository {
+  listByTopic(topicId: string): Promise<Category[]>;
+  /** Categories with doll count, latest catch date and a sample thumbnail, in one round trip. */
+  listWithStats(topicId: string): Promise<CategoryWithStats[]>;
+  get(id: string): Promise<Category | null>;
+  create(category: NewCategory): Promise<Category>;
+  update(id: string, patch: CategoryUpdate, options?: UpdateOptions): Promise<void>;
+  /** Moves the category to the trash. Its subcategories move up to its parent. */
+  remove(id: string, options: CategoryDeleteOptions): Promise<void>;
+}
+
+export interface DollRepository {
+  listByTopic(topicId: string): Promise<Doll[]>;
+  /** Dolls with spares up for trade, across every topic the account belongs to. */
+  listForTrade(): Promise<Doll[]>;
+  /** One page of the doll grid; pass the previous page's `nextCursor` to continue. */
+  page(query: DollQuery, cursor: DollCursor | null, limit: number): Promise<DollPage>;
+  get(id: string): Promise<Doll | null>;
+  create(doll: NewDoll): Promise<Doll>;
+  /** Photos the patch drops are removed from storage unless `keepPreviousImage` is set. */
+  update(id: string, patch: DollUpdate, options?: UpdateOptions): Promise<void>;
+  /** Moves the doll to the trash. */
+  remove(id: string): Promise<void>;
+}
+
+/**
+ * Tags live on the dolls themselves (`Doll.tags`), so a topic's tags are simply those
+ * its dolls carry; a tag no doll uses any more is gone. Renames and deletes reach
+ * trashed dolls too, so restoring one doesn't bring back an old name.
+ */
+export interface TagRepository {
+  /** The topic's tags by name, with how many live dolls carry each. */
+  listByTopic(topicId: string): Promise<TagWithCount[]>;
+  /** Renames the tag on every doll in the topic. Renaming onto an existing tag merges the two. */
+  rename(topicId: string, from: string, to: string): Promise<void>;
+  /** Takes the tag off every doll in the topic. */
+  remove(topicId: string, name: string): Promise<void>;
+}
+
+/**
+ * Soft-deleted rows. Rows trashed by one delete (a category and its dolls, a topic
+ * and its contents) share a `deleted_at` and are restored or purged together.
+ */
+export interface TrashRepository {
+  list(): Promise<TrashedRows>;
+  /** Also brings back the row's topic if that is in the trash. */
+  restore(table: TableName, id: string): Promise<void>;
+  /** Deletes the row for good, with the rows trashed alongside it and their images. */
+  purge(table: TableName, id: string): Promise<void>;
+  /** Permanently deletes everything trashed before `cutoff`. */
+  purgeBefore(cutoff: string): Promise<void>;
+  /** Permanently deletes whatever has been trashed longer than its topic keeps it. */
+  purgeExpired(): Promise<void>;
+}
+
+export interface StoredImage {
+  fileName: string;
+  url: string;
+  size: number | null;
+  created_at: string | null;
+}
+
+/**
+ * Image files. Purging a row from the trash, or replacing its image, removes the file it owned;
+ * `list`/`inUse`/`remove` exist for the orphan sweep.
+ */
+export interface ImageRepository {
+  /**
+   * Uploads the file under `fileName` in the topic's folder and returns its public URL. Uploads
+   * queued offline before files went into topic folders have no topic, and go to the account's.
+   */
+  upload(topicId: string | null, fileName: string, file: File): Promise<string>;
+  /** The files the account may remove: its own and those of the topics it can edit. */
+  list(): Promise<StoredImage[]>;
+  /** Which of `urls` a category or doll row points at, in any topic, trashed rows included. */
+  inUse(urls: string[]): Promise<string[]>;
+  remove(fileNames: string[]): Promise<void>;
+  /** Removes the files behind `urls` that no row points at any more. */
+  release(urls: string[]): Promise<void>;
+}
+
+/** One field of one row changing, as recorded by the audit trail. */
+export interface FieldChange {
+  id: string;
+  table: TableName;
+  row_id: string;
+  /** null when the row was created. */
+  field: string | null;
+  old_value: unknown;
+  new_value: unknown;
+  /** Who made the change, if known. */
+  actor: string | null;
+  changed_at: string;
+}
+
+/**
+ * The audit trail: every change to a doll, and category and topic renames.
+ * Entries are written by the backend as rows change, never by callers.
+ */
+export interface ChangeLogRepository {
+  /** Newest first. */
+  listForRow(table: TableName, rowId: string): Promise<FieldChange[]>;
+}
+
+export interface ShareOptions {
+  /** Leave catch dates out of what visitors see. */
+  hideCatchDates: boolean;
+}
+
+/** Everything a share link's visitors see of one topic, trashed rows left out. */
+export interface SharedCollection {
+  topic: Topic;
+  hideCatchDates: boolean;
+  categories: Category[];
+  dolls: Doll[];
+}
+
+/** Read-only links to a topic for people without an account. */
+export interface ShareRepository {
+  /** Active links to the topic, newest first. */
+  listByTopic(topicId: string): Promise<ShareLink[]>;
+  create(topicId: string, options: ShareOptions): Promise<ShareLink>;
+  /** Gives the link a new token; the old URL stops working. */
+  rotate(id: string): Promise<ShareLink>;
+  revoke(id: string): Promise<void>;
+  /** Works signed out. null when the token is unknown, revoked, or its topic is in the trash. */
+  open(token: string): Promise<SharedCollection | null>;
+}
+
+/**
+ * Who can do what with a topic. Invites are addressed to an email and accepted
+ * by the account signed in with it.
+ */
+export interface MemberRepository {
+  /** The signed-in account's role in each topic it belongs to, by topic id. */
+  myRoles(): Promise<Record<string, MemberRole>>;
+  listByTopic(topicId: string): Promise<TopicMember[]>;
+  /** Owners only. A topic always keeps at least one owner. */
+  setRole(topicId: string, userId: string, role: MemberRole): Promise<void>;
+  /** Owners remove anyone; anyone can remove themselves to leave. */
+  remove(topicId: string, userId: string): Promise<void>;
+  /** Owners only. Pending invites to the topic, newest first. */
+  listInvites(topicId: string): Promise<TopicInvite[]>;
+  invite(topicId: string, email: string, role: MemberRole): Promise<TopicInvite>;
+  /** Invites waiting for the signed-in account. */
+  listMyInvites(): Promise<TopicInvite[]>;
+  acceptInvite(id: string): Promise<void>;
+  /** Withdraws an invite (owners) or declines it (the invitee). */
+  cancelInvite(id: string): Promise<void>;
+}
+
+export interface DataRepository {
+  topics: TopicRepository;
+  categories: CategoryRepository;
+  dolls: DollRepository;
+  tags: TagRepository;
+  images: ImageRepository;
+  trash: TrashRepository;
+  changes: ChangeLogRepository;
+  shares: ShareRepository;
+  members: MemberRepository;
+  /**
+   * Streams changes to all topics and to the categories and dolls of `topicId`.
+   * Delete events carry only the id and may belong to another topic; ignore unknown ids.
+   * Returns the unsubscribe function.
+   */
+  subscribe(topicId: string, listener: (change: RowChange) => void): () => void;
+}
+
+/**
+ * Set VITE_DATA_BACKEND=local to run against the in-memory store
+ * (demo mode, no network). Anything else talks to Supabase through the
+ * offline cache, which also exposes the sync engine.
+ */
+const createRepository = (): { repository: DataRepository; sync: SyncEngine | null } => {
+  if (import.meta.env.VITE_DATA_BACKEND === 'local') {
+    return { repository: createLocalRepository(), sync: null };
+  }
+  return createOfflineRepository(createSupabaseRepository());
+};
+
+export const { repository, sync } = createRepository();
@@ -0,0 +1,13 @@
+import { MemberRole } from '../types';
+
+export const ROLE_LABELS: Record<MemberRole, string> = {
+  owner: 'Owner',
+  editor: 'Editor',
+  viewer: 'Viewer',
+};
+
+/** Adding, editing and deleting dolls and categories. */
+export const canEdit = (role: MemberRole | null | undefined) => role === 'owner' || role === 'editor';
+
+/** Renaming, deleting and sharing the collection, and managing its members. */
+export const canManage = (role: MemberRole | null | undefined) => role === 'owner';
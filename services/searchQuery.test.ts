@@ -0,0 +1,114 @@
+import { describe, expect, it, vi } from 'vitest';
+import { SearchClause, SearchContext, matchesClause, parseSearch } from './searchQuery';
+import { clauseFilter } from './supabaseRepository';
+import { DEFAULT_SIZE_VARIANTS } from './sizes';
+import { parseCategory, parseDoll } from './validation';
+
+vi.mock('./supabaseClient', () => ({ supabase: {} }));
+
+const context: SearchContext = {
+  categories: [
+    parseCategory({ id: 'sharks', name: 'Sharks', topic_id: 't1', created_at: '2026-01-01T00:00:00Z' }),
+    parseCategory({ id: 'whale-sharks', name: 'Whale sharks', topic_id: 't1', parent_id: 'sharks', created_at: '2026-01-01T00:00:00Z' }),
+  ],
+  sizeVariants: DEFAULT_SIZE_VARIANTS,
+  tags: ['plush'],
+  locations: [],
+};
+
+const doll = (catchDate: string | null) =>
+  parseDoll({ id: 'orca', topic_id: 't1', name: 'Orca', image_url: 'orca.jpg', catch_date: catchDate, created_at: '2026-01-02T00:00:00Z' });
+
+const clauseOf = (text: string) => {
+  const { clauses, errors } = parseSearch(text, context);
+  expect(errors).toEqual([]);
+  return clauses[0] as Exclude<SearchClause, { kind: 'text' }>;
+};
+
+describe('parseSearch', () => {
+  it('keeps quoted values together', () => {
+    const { clauses } = parseSearch('name:"whale shark" "blue whale"', context);
+    expect(clauses).toEqual([
+      expect.objectContaining({ kind: 'text', fields: ['name'], value: 'whale shark', negated: false }),
+      expect.objectContaining({ kind: 'text', fields: ['name', 'description'], value: 'blue whale', negated: false }),
+    ]);
+  });
+
+  it('negates a field with a leading dash', () => {
+    expect(clauseOf('-tag:plush')).toEqual({ kind: 'contains', field: 'tags', value: 'plush', negated: true });
+    expect(clauseOf('-category:sharks')).toEqual({ kind: 'in', field: 'category_id', ids: ['sharks', 'whale-sharks'], negated: true });
+  });
+
+  it('reads a date as the whole period it names', () => {
+    expect(clauseOf('caught:2024-06')).toMatchObject({
+      from: { value: '2024-06-01', inclusive: true },
+      to: { value: '2024-07-01', inclusive: false },
+    });
+    expect(clauseOf('caught:2024-02..2024-03-15')).toMatchObject({
+      from: { value: '2024-02-01', inclusive: true },
+      to: { value: '2024-03-16', inclusive: false },
+    });
+  });
+
+  it('reads open ranges and comparisons', () => {
+    expect(clauseOf('caught:2024..')).toEqual({
+      kind: 'range', field: 'catch_date', from: { value: '2024-01-01', inclusive: true }, negated: false,
+    });
+    expect(clauseOf('caught:..2024-06')).toEqual({
+      kind: 'range', field: 'catch_date', to: { value: '2024-07-01', inclusive: false }, negated: false,
+    });
+    expect(clauseOf('tries:>5')).toEqual({ kind: 'range', field: 'tries', from: { value: 5, inclusive: false }, negated: false });
+    expect(clauseOf('cost:..1000')).toEqual({ kind: 'range', field: 'cost', to: { value: 1000, inclusive: true }, negated: false });
+  });
+
+  it('reads closed number ranges inclusively', () => {
+    expect(clauseOf('cost:100..500')).toMatchObject({
+      from: { value: 100, inclusive: true },
+      to: { value: 500, inclusive: true },
+    });
+  });
+
+  it('reports bad input where it was typed and leaves it out', () => {
+    const text = 'orca size:huge caught:2024-13 cost:abc';
+    const { clauses, errors } = parseSearch(text, context);
+    expect(clauses).toHaveLength(1);
+    expect(errors.map(e => [text.slice(e.from, e.to), e.message])).toEqual([
+      ['size:huge', 'No size called "huge"'],
+      ['caught:2024-13', '"2024-13" isn\'t a date; use YYYY, YYYY-MM or YYYY-MM-DD'],
+      ['cost:abc', '"abc" isn\'t a number'],
+    ]);
+  });
+
+  it('reports ranges it cannot read', () => {
+    const messages = (text: string) => parseSearch(text, context).errors.map(e => e.message);
+    expect(messages('caught:2025..2024')).toEqual(['The range ends before it starts']);
+    expect(messages('cost:..')).toEqual(['Give a start or an end around ".."']);
+    expect(messages('caught:2023..2024..2025')).toEqual(['Use ".." once, between the start and the end']);
+    expect(messages('name:"orca')).toEqual(['Close the quote']);
+    expect(messages('tag:')).toEqual(['Type something after "tag:"']);
+  });
+});
+
+describe('matchesClause and clauseFilter', () => {
+  it('match dolls without the field on a negated range', () => {
+    const clause = clauseOf('-caught:2024-06');
+    expect(matchesClause(doll(null), clause)).toBe(true);
+    expect(matchesClause(doll('2024-06-15'), clause)).toBe(false);
+    expect(matchesClause(doll('2024-07-01'), clause)).toBe(true);
+    expect(clauseFilter(clause)).toBe('catch_date.is.null,catch_date.lt."2024-06-01",catch_date.gte."2024-07-01"');
+  });
+
+  it('leave dolls without the field out of a range', () => {
+    const clause = clauseOf('caught:2024-06');
+    expect(matchesClause(doll(null), clause)).toBe(false);
+    expect(matchesClause(doll('2024-06-15'), clause)).toBe(true);
+    expect(clauseFilter(clause)).toBe('and(catch_date.gte."2024-06-01",catch_date.lt."2024-07-01")');
+  });
+
+  it('match dolls without the field on an open negated range', () => {
+    const clause = clauseOf('-caught:2024..');
+    expect(matchesClause(doll(null), clause)).toBe(true);
+    expect(matchesClause(doll('2023-12-31'), clause)).toBe(true);
+    expect(clauseFilter(clause)).toBe('catch_date.is.null,catch_date.lt."2024-01-01"');
+  });
+});
@@ -0,0 +1,373 @@
+import { AcquisitionMethod, Category, Doll, SizeVariant, StorageLocation } from '../types';
+import { subtreeIds } from './categoryTree';
+import { ACQUISITION_METHODS } from './spending';
+import { isDateString } from './validation';
+import { matchText } from './textSearch';
+
+/**
+ * The search box's query language. Words match the name, description or category, loosely
+ * (see textSearch.ts), and rank the results; the rest narrows by field, e.g. `category:sharks size:small caught:2024-06..2024-08 -keychain "whale shark"`.
+ *
+ * - `"..."` keeps a phrase, or a value with spaces, together
+ * - `-` in front of any term leaves out what it matches
+ * - `key:value` matches one field (see `SEARCH_KEYS`)
+ * - dates and numbers take `a..b`, `a..`, `..b`, `>a`, `>=a`, `<a` and `<=a`; a date can
+ *   be a year, a month or a day, so `caught:2024-06` is the whole of June
+ */
+
+export interface SearchBound {
+  value: string | number;
+  inclusive: boolean;
+}
+
+type SearchCondition =
+  | {
+      kind: 'text';
+      fields: ('name' | 'description' | 'venue')[];
+      value: string;
+      /** How well the word matches each category it finds, by id, subcategories included. */
+      categoryMatches?: Record<string, number>;
+    }
+  | { kind: 'in'; field: 'category_id' | 'location_id'; ids: string[] }
+  | { kind: 'contains'; field: 'sizes' | 'tags'; value: string }
+  | { kind: 'equals'; field: 'method'; value: AcquisitionMethod }
+  | { kind: 'range'; field: 'catch_date' | 'created_at' | 'tries' | 'cost'; from?: SearchBound; to?: SearchBound };
+
+/** One condition a doll must meet, resolved against the topic (ids rather than names). */
+export type SearchClause = SearchCondition & { negated: boolean };
+
+/** A part of the text that couldn't be understood, by character offsets. */
+export interface SearchError {
+  from: number;
+  to: number;
+  message: string;
+}
+
+export interface ParsedSearch {
+  clauses: SearchClause[];
+  errors: SearchError[];
+}
+
+/** What names in a query are looked up in. */
+export interface SearchContext {
+  categories: Category[];
+  sizeVariants: SizeVariant[];
+  tags: string[];
+  locations: StorageLocation[];
+}
+
+export const SEARCH_KEYS: { key: string; aliases: string[]; hint: string }[] = [
+  { key: 'category', aliases: ['cat'], hint: 'In a category or its subcategories' },
+  { key: 'size', aliases: [], hint: 'Comes in a size' },
+  { key: 'tag', aliases: [], hint: 'Carries a tag' },
+  { key: 'caught', aliases: [], hint: 'Caught on a date or in a range' },
+  { key: 'added', aliases: [], hint: 'Added on a date or in a range' },
+  { key: 'name', aliases: [], hint: 'Name contains' },
+  { key: 'desc', aliases: ['description'], hint: 'Description contains' },
+  { key: 'in', aliases: ['location'], hint: 'Kept in a storage location' },
+  { key: 'method', aliases: [], hint: 'Crane, purchase, gift or trade' },
+  { key: 'tries', aliases: [], hint: 'Crane tries, e.g. >5' },
+  { key: 'cost', aliases: [], hint: 'Amount spent, e.g. ..1000' },
+  { key: 'venue', aliases: [], hint: 'Arcade or store contains' },
+];
+
+const keyOf = (word: string) => {
+  const lower = word.toLowerCase();
+  return SEARCH_KEYS.find(k => k.key === lower || k.aliases.includes(lower))?.key ?? null;
+};
+
+interface Token {
+  from: number;
+  to: number;
+  negated: boolean;
+  /** As typed, before the colon; null for plain words and phrases, "Re:Zero" among them. */
+  key: string | null;
+  /** Where the value starts, after any `-`, key and opening quote. */
+  valueFrom: number;
+  value: string;
+  quoted: boolean;
+  unterminated: boolean;
+}
+
+const tokenize = (text: string): Token[] => {
+  const tokens: Token[] = [];
+  let i = 0;
+  while (i < text.length) {
+    if (/\s/.test(text[i])) {
+      i++;
+      continue;
+    }
+    const from = i;
+    const negated = text[i] === '-' && i + 1 < text.length && !/\s/.test(text[i + 1]);
+    if (negated) i++;
+    // Only a field name makes a key; any other word before a colon is part of the word
+    const keyMatch = /^([a-z]+):/i.exec(text.slice(i));
+    const key = keyMatch && keyOf(keyMatch[1]) ? keyMatch[1] : null;
+    if (key) i += key.length + 1;
+
+    let value: string;
+    let valueFrom = i;
+    let unterminated = false;
+    const quoted = text[i] === '"';
+    if (quoted) {
+      const close = text.indexOf('"', i + 1);
+      unterminated = close === -1;
+      valueFrom = i + 1;
+      value = text.slice(i + 1, unterminated ? text.length : close);
+      i = unterminated ? text.length : close + 1;
+    } else {
+      while (i < text.length && !/\s/.test(text[i])) i++;
+      value = text.slice(valueFrom, i);
+    }
+    tokens.push({ from, to: i, negated, key, valueFrom, value, quoted, unterminated });
+  }
+  return tokens;
+};
+
+const sameName = (a: string, b: string) => a.trim().toLowerCase() === b.trim().toLowerCase();
+
+// A year, month or day as the period [start, end), in YYYY-MM-DD.
+const datePeriod = (value: string): { start: string; end: string } | null => {
+  const match = /^(\d{4})(?:-(\d{2})(?:-(\d{2}))?)?$/.exec(value);
+  if (!match) return null;
+  const [, year, month, day] = match;
+  const start = `${year}-${month || '01'}-${day || '01'}`;
+  if (!isDateString(start)) return null;
+  const end = new Date(`${start}T00:00:00Z`);
+  if (day) end.setUTCDate(end.getUTCDate() + 1);
+  else if (month) end.setUTCMonth(end.getUTCMonth() + 1);
+  else end.setUTCFullYear(end.getUTCFullYear() + 1);
+  return { start, end: end.toISOString().slice(0, 10) };
+};
+
+type Range = { from?: SearchBound; to?: SearchBound };
+
+// Dates cover whole periods, so `<=2024-06` means before July; numbers are exact.
+const parseRange = (value: string, kind: 'date' | 'number'): Range | string => {
+  const bounds = (v: string) => {
+    if (kind === 'date') {
+      const period = datePeriod(v);
+      return period && { start: period.start, end: period.end };
+    }
+    const n = Number(v);
+    return v.trim() !== '' && Number.isFinite(n) ? { start: n, end: n } : null;
+  };
+  const bad = (v: string) => (kind === 'date'
+    ? `"${v}" isn't a date; use YYYY, YYYY-MM or YYYY-MM-DD`
+    : `"${v}" isn't a number`);
+  const exclusiveEnd = kind === 'date';
+
+  const comparison = /^(>=|<=|>|<)(.*)$/.exec(value);
+  if (comparison) {
+    const [, op, v] = comparison;
+    const b = bounds(v);
+    if (!b) return bad(v);
+    if (op === '>') return { from: { value: b.end, inclusive: exclusiveEnd } };
+    if (op === '>=') return { from: { value: b.start, inclusive: true } };
+    if (op === '<') return { to: { value: b.start, inclusive: false } };
+    return { to: { value: b.end, inclusive: !exclusiveEnd } };
+  }
+
+  const parts = value.includes('..') ? value.split('..') : [value, value];
+  if (parts.length > 2) return 'Use ".." once, between the start and the end';
+  const [low, high] = parts;
+  if (!low && !high) return 'Give a start or an end around ".."';
+  const start = low ? bounds(low) : null;
+  const end = high ? bounds(high) : null;
+  if (low && !start) return bad(low);
+  if (high && !end) return bad(high);
+  if (start && end && start.start > end.start) return 'The range ends before it starts';
+  return {
+    ...(start ? { from: { value: start.start, inclusive: true } } : {}),
+    ...(end ? { to: { value: end.end, inclusive: !exclusiveEnd } } : {}),
+  };
+};
+
+// The clause for `key:value`, or what's wrong with it.
+const resolve = (key: string, value: string, context: SearchContext): SearchCondition | string => {
+  const range = (field: 'catch_date' | 'created_at' | 'tries' | 'cost', kind: 'date' | 'number') => {
+    const parsed = parseRange(value, kind);
+    return typeof parsed === 'string' ? parsed : { kind: 'range' as const, field, ...parsed };
+  };
+
+  switch (key) {
+    case 'name':
+      return { kind: 'text', fields: ['name'], value };
+    case 'desc':
+      return { kind: 'text', fields: ['description'], value };
+    case 'venue':
+      return { kind: 'text', fields: ['venue'], value };
+    case 'category': {
+      const matches = context.categories.filter(c => sameName(c.name, value));
+      if (matches.length === 0) return `No category called "${value}"`;
+      return { kind: 'in', field: 'category_id', ids: [...new Set(matches.flatMap(c => subtreeIds(context.categories, c.id)))] };
+    }
+    case 'in': {
+      const matches = context.locations.filter(l => sameName(l.name, value));
+      if (matches.length === 0) return `No storage location called "${value}"`;
+      return { kind: 'in', field: 'location_id', ids: [...new Set(matches.flatMap(l => subtreeIds(context.locations, l.id)))] };
+    }
+    case 'size': {
+      const variant = context.sizeVariants.find(v => sameName(v.label, value) || v.id === value);
+      return variant ? { kind: 'contains', field: 'sizes', value: variant.id } : `No size called "${value}"`;
+    }
+    case 'tag': {
+      const tag = context.tags.find(t => sameName(t, value));
+      return tag ? { kind: 'contains', field: 'tags', value: tag } : `No doll is tagged "${value}"`;
+    }
+    case 'method': {
+      const method = ACQUISITION_METHODS.find(m => sameName(m.id, value) || sameName(m.label, value));
+      return method ? { kind: 'equals', field: 'method', value: method.id } : `"${value}" isn't crane, purchase, gift or trade`;
+    }
+    case 'caught':
+      return range('catch_date', 'date');
+    case 'added':
+      return range('created_at', 'date');
+    case 'tries':
+      return range('tries', 'number');
+    default:
+      return range('cost', 'number');
+  }
+};
+
+/** Reads the search box. Terms with errors are left out of `clauses`. */
+export const parseSearch = (text: string, context: SearchContext): ParsedSearch => {
+  const clauses: SearchClause[] = [];
+  const errors: SearchError[] = [];
+
+  tokenize(text).forEach(token => {
+    const fail = (message: string) => errors.push({ from: token.from, to: token.to, message });
+    if (token.unterminated) return fail('Close the quote');
+
+    const key = token.key ? keyOf(token.key) : null;
+    const value = token.value.trim();
+    if (!value) return fail(key ? `Type something after "${token.key}:"` : 'Type something between the quotes');
+
+    if (!key) {
+      // A dash on its own is a negation still being typed
+      if (value === '-' && !token.quoted) return;
+      const categoryMatches: Record<string, number> = {};
+      context.categories.forEach(category => {
+        const match = matchText(value, category.name);
+        if (!match) return;
+        subtreeIds(context.categories, category.id).forEach(id => {
+          categoryMatches[id] = Math.max(categoryMatches[id] ?? 0, match.quality);
+        });
+      });
+      clauses.push({ kind: 'text', fields: ['name', 'description'], value, categoryMatches, negated: token.negated });
+      return;
+    }
+    const resolved = resolve(key, value, context);
+    if (typeof resolved === 'string') return fail(resolved);
+    clauses.push({ ...resolved, negated: token.negated });
+  });
+
+  return { clauses, errors };
+};
+
+const inRange = (value: string | number, { from, to }: Range) => {
+  if (from && (from.inclusive ? value < from.value : value <= from.value)) return false;
+  if (to && (to.inclusive ? value > to.value : value >= to.value)) return false;
+  return true;
+};
+
+// A word in the name counts for more than one in the category, and that more than the description.
+const FIELD_WEIGHTS = { name: 3, category: 2, description: 1, venue: 1 };
+
+/** How well a doll matches a word, from its best field; null when it doesn't. */
+export const textScore = (doll: Doll, clause: Extract<SearchClause, { kind: 'text' }>) => {
+  const scores = clause.fields
+    .map(field => {
+      const match = matchText(clause.value, doll[field]);
+      return match && FIELD_WEIGHTS[field] * match.quality;
+    })
+    .filter((score): score is number => score !== null);
+  const category = doll.category_id ? clause.categoryMatches?.[doll.category_id] : undefined;
+  if (category !== undefined) scores.push(FIELD_WEIGHTS.category * category);
+  return scores.length > 0 ? Math.max(...scores) : null;
+};
+
+/** How well a doll matches the search's words, for ranking; 0 without any. */
+export const searchRelevance = (doll: Doll, clauses: SearchClause[]) =>
+  clauses.reduce((sum, clause) => (clause.kind === 'text' && !clause.negated ? sum + (textScore(doll, clause) ?? 0) : sum), 0);
+
+/** Whether the search has words to rank by. */
+export const isRankedSearch = (clauses: SearchClause[] | undefined) =>
+  !!clauses?.some(clause => clause.kind === 'text' && !clause.negated);
+
+/** The words to highlight in one of a doll's fields. */
+export const highlightTerms = (clauses: SearchClause[], field: 'name' | 'description' | 'category') =>
+  clauses
+    .filter((clause): clause is Extract<SearchClause, { kind: 'text' }> =>
+      clause.kind === 'text' && !clause.negated && (field === 'category' ? !!clause.categoryMatches : clause.fields.includes(field)))
+    .map(clause => clause.value);
+
+const matchesPositive = (doll: Doll, clause: SearchClause) => {
+  switch (clause.kind) {
+    case 'text':
+      return textScore(doll, clause) !== null;
+    case 'in':
+      return clause.ids.includes(doll[clause.field] || '');
+    case 'contains':
+      return doll[clause.field].includes(clause.value);
+    case 'equals':
+      return doll[clause.field] === clause.value;
+    case 'range': {
+      const value = doll[clause.field];
+      // Timestamps compare with YYYY-MM-DD bounds as text: "2024-06-01T…" is on or after "2024-06-01"
+      return value !== null && value !== undefined && inRange(value, clause);
+    }
+  }
+};
+
+/** The in-memory equivalent of a clause; the server-side one is in the Supabase repository. */
+export const matchesClause = (doll: Doll, clause: SearchClause) => matchesPositive(doll, clause) !== clause.negated;
+
+export interface SearchCompletion {
+  label: string;
+  /** Replaces the text from `from` to `to`. */
+  insert: string;
+  detail?: string;
+}
+
+const quoteIfNeeded = (value: string) => (/[\s"]/.test(value) ? `"${value.replace(/"/g, '')}"` : value);
+
+/**
+ * Suggestions for the term the caret is in: field keys once a plain word is started, or the
+ * topic's names after `category:`, `size:`, `tag:`, `in:` and `method:`.
+ */
+export const completeSearch = (text: string, caret: number, context: SearchContext, limit = 8) => {
+  const token = tokenize(text).find(t => t.from <= caret && caret <= t.to);
+  const from = token ? token.from + (token.negated ? 1 : 0) : caret;
+  const to = token ? token.to : caret;
+  const typed = token ? text.slice(from, caret) : '';
+  const none = { from, to, options: [] as SearchCompletion[] };
+
+  const key = token?.key ? keyOf(token.key) : null;
+  if (!token || !key) {
+    if (!typed || typed.includes('"')) return none;
+    const options = SEARCH_KEYS
+      .filter(k => [k.key, ...k.aliases].some(name => name.startsWith(typed.toLowerCase())))
+      .map(k => ({ label: `${k.key}:`, insert: `${k.key}:`, detail: k.hint }));
+    return { from, to, options: options.slice(0, limit) };
+  }
+
+  const names: { value: string; detail?: string }[] =
+    key === 'category' ? context.categories.map(c => ({ value: c.name }))
+    : key === 'size' ? context.sizeVariants.map(v => ({ value: v.label }))
+    : key === 'tag' ? context.tags.map(t => ({ value: t }))
+    : key === 'in' ? context.locations.map(l => ({ value: l.name }))
+    : key === 'method' ? ACQUISITION_METHODS.map(m => ({ value: m.id, detail: m.label }))
+    : [];
+  const prefix = `${token.key}:`;
+  const needle = text.slice(token.valueFrom, caret).replace(/^"/, '').toLowerCase();
+  // Names starting with what's typed come first; subcategories may share a name
+  const startsFirst = (n: { value: string }) => (n.value.toLowerCase().startsWith(needle) ? 0 : 1);
+  const options = names
+    .filter((n, i) => n.value.toLowerCase().includes(needle) && names.findIndex(m => sameName(m.value, n.value)) === i)
+    .filter(n => token.unterminated || !sameName(n.value, token.value))
+    .sort((a, b) => startsFirst(a) - startsFirst(b) || a.value.localeCompare(b.value))
+    .slice(0, limit)
+    .map(n => ({ label: n.value, insert: `${prefix}${quoteIfNeeded(n.value)} `, detail: n.detail }));
+  return { from, to, options };
+};
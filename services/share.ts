@@ -0,0 +1,15 @@
+/** Share links open the app with the token in this query parameter. */
+const SHARE_PARAM = 'share';
+
+/** 128 random bits as hex; anyone holding it can view the shared topic. */
+export const newShareToken = () =>
+  Array.from(crypto.getRandomValues(new Uint8Array(16)), byte => byte.toString(16).padStart(2, '0')).join('');
+
+export const shareUrl = (token: string) => {
+  const url = new URL(window.location.pathname, window.location.origin);
+  url.searchParams.set(SHARE_PARAM, token);
+  return url.toString();
+};
+
+/** The token the page was opened with, if it was opened from a share link. */
+export const shareTokenFromUrl = () => new URLSearchParams(window.location.search).get(SHARE_PARAM);
@@ -0,0 +1,38 @@
+import { Doll, SizeVariant, Topic } from '../types';
+
+/** What every collection started with, and what new collections get. */
+export const DEFAULT_SIZE_VARIANTS: SizeVariant[] = [
+  { id: 'normal', label: 'Normal', color: '#60a5fa' },
+  { id: 'small', label: 'Small', color: '#f472b6' },
+];
+
+/** Swatches offered when picking a variant's color. */
+export const SIZE_COLORS = ['#60a5fa', '#f472b6', '#34d399', '#fbbf24', '#a78bfa', '#f87171', '#2dd4bf', '#94a3b8'];
+
+export const newSizeVariant = (label: string, taken: SizeVariant[]): SizeVariant => ({
+  id: crypto.randomUUID().slice(0, 8),
+  label,
+  color: SIZE_COLORS.find(color => !taken.some(v => v.color === color)) || SIZE_COLORS[taken.length % SIZE_COLORS.length],
+});
+
+// Rows cached before topics had their own variants carry none.
+export const sizeVariantsOf = (topic: Pick<Topic, 'size_variants'>) =>
+  topic.size_variants?.length ? topic.size_variants : DEFAULT_SIZE_VARIANTS;
+
+/** The doll's sizes in the topic's order. Ids of variants removed since are dropped. */
+export const dollSizes = (doll: Pick<Doll, 'sizes'>, variants: SizeVariant[]) =>
+  variants.filter(v => doll.sizes.includes(v.id));
+
+/** Variant ids for labels as a person or the AI wrote them, matched case-insensitively. */
+export const sizesFromLabels = (labels: string[], variants: SizeVariant[]) => {
+  const wanted = labels.map(label => label.trim().toLowerCase());
+  return variants.filter(v => wanted.includes(v.label.toLowerCase())).map(v => v.id);
+};
+
+/** Variant ids for the comma-joined labels sizes used to be stored as ("Normal, Small"). */
+export const sizesFromLegacy = (size: string | null | undefined) =>
+  (size || '').split(',').map(s => s.trim().toLowerCase()).filter(Boolean);
+
+/** `target` plus the variants of `source` it lacks, for dolls moving between topics. */
+export const mergeSizeVariants = (target: SizeVariant[], source: SizeVariant[]) =>
+  [...target, ...source.filter(v => !target.some(t => t.id === v.id))];
@@ -0,0 +1,120 @@
+import { AcquisitionMethod, Category, Doll, Topic } from '../types';
+
+export const ACQUISITION_METHODS: { id: AcquisitionMethod; label: string; icon: string }[] = [
+  { id: 'crane', label: 'Crane game', icon: 'sports_esports' },
+  { id: 'purchase', label: 'Bought', icon: 'shopping_bag' },
+  { id: 'gift', label: 'Gift', icon: 'redeem' },
+  { id: 'trade', label: 'Trade', icon: 'swap_horiz' },
+];
+
+export const methodLabel = (method: AcquisitionMethod) =>
+  ACQUISITION_METHODS.find(m => m.id === method)?.label || method;
+
+/** What new collections report in. */
+export const DEFAULT_CURRENCY = 'JPY';
+
+/** Offered in the currency pickers. */
+export const CURRENCIES = ['JPY', 'USD', 'EUR', 'GBP', 'CNY', 'KRW', 'TWD', 'HKD', 'SGD', 'AUD', 'CAD'];
+
+// Rows cached before topics had a currency carry none.
+export const currencyOf = (topic: Pick<Topic, 'currency'>) => topic.currency || DEFAULT_CURRENCY;
+
+/** The currency a doll was paid in; dolls without one were paid in their topic's. */
+export const dollCurrency = (doll: Pick<Doll, 'currency'>, topicCurrency: string) => doll.currency || topicCurrency;
+
+export const formatMoney = (amount: number, currency: string) => {
+  try {
+    return new Intl.NumberFormat(undefined, { style: 'currency', currency }).format(amount);
+  } catch {
+    return `${amount} ${currency}`;
+  }
+};
+
+/** One line of the acquisition details, e.g. "Crane game · 8 tries · ¥1,600 · Round1". Empty when nothing was recorded. */
+export const describeAcquisition = (doll: Pick<Doll, 'method' | 'tries' | 'cost' | 'currency' | 'venue'>, topicCurrency: string) =>
+  [
+    doll.method && methodLabel(doll.method),
+    doll.tries != null && `${doll.tries} ${doll.tries === 1 ? 'try' : 'tries'}`,
+    doll.cost != null && formatMoney(doll.cost, dollCurrency(doll, topicCurrency)),
+    doll.venue,
+  ].filter(Boolean).join(' · ');
+
+export interface SpendingGroup {
+  key: string;
+  label: string;
+  total: number;
+  count: number;
+}
+
+export interface SpendingReport {
+  currency: string;
+  total: number;
+  /** Dolls with an amount in the report's currency. */
+  count: number;
+  /** Crane tries across those dolls, and how many of them recorded any. */
+  tries: number;
+  triedCount: number;
+  /** Newest month first. */
+  byMonth: SpendingGroup[];
+  /** Biggest total first. */
+  byCategory: SpendingGroup[];
+  byVenue: SpendingGroup[];
+  mostExpensive: Doll[];
+  /** Amounts paid in other currencies. They are left out of everything above; there is no conversion. */
+  otherCurrencies: { currency: string; total: number; count: number }[];
+}
+
+const hasCost = (doll: Doll): doll is Doll & { cost: number } => typeof doll.cost === 'number';
+
+const groupBy = (dolls: (Doll & { cost: number })[], keyOf: (doll: Doll) => string, labelOf: (key: string) => string) => {
+  const groups = new Map<string, SpendingGroup>();
+  dolls.forEach(doll => {
+    const key = keyOf(doll);
+    const group = groups.get(key) || { key, label: labelOf(key), total: 0, count: 0 };
+    group.total += doll.cost;
+    group.count += 1;
+    groups.set(key, group);
+  });
+  return [...groups.values()];
+};
+
+const byTotal = (a: SpendingGroup, b: SpendingGroup) => b.total - a.total || a.label.localeCompare(b.label);
+
+/** Monthly, per-category and per-venue totals of what was spent on `dolls` in `currency`. */
+export const summarizeSpending = (dolls: Doll[], categories: Category[], currency: string, top = 5): SpendingReport => {
+  const paid = dolls.filter(hasCost);
+  const inCurrency = paid.filter(doll => dollCurrency(doll, currency) === currency);
+  const categoryNames = new Map(categories.map(c => [c.id, c.name]));
+  const tried = inCurrency.filter(doll => doll.tries != null);
+
+  const otherCurrencies = groupBy(
+    paid.filter(doll => dollCurrency(doll, currency) !== currency),
+    doll => dollCurrency(doll, currency),
+    key => key
+  ).sort(byTotal).map(({ key, total, count }) => ({ currency: key, total, count }));
+
+  return {
+    currency,
+    total: inCurrency.reduce((sum, doll) => sum + doll.cost, 0),
+    count: inCurrency.length,
+    tries: tried.reduce((sum, doll) => sum + (doll.tries || 0), 0),
+    triedCount: tried.length,
+    byMonth: groupBy(
+      inCurrency,
+      doll => (doll.catch_date || doll.created_at).slice(0, 7),
+      key => new Date(`${key}-01T00:00:00`).toLocaleDateString(undefined, { year: 'numeric', month: 'short' })
+    ).sort((a, b) => b.key.localeCompare(a.key)),
+    byCategory: groupBy(
+      inCurrency,
+      doll => doll.category_id || '',
+      key => categoryNames.get(key) || 'Uncategorized'
+    ).sort(byTotal),
+    byVenue: groupBy(
+      inCurrency,
+      doll => doll.venue?.trim() || '',
+      key => key || 'Unknown venue'
+    ).sort(byTotal),
+    mostExpensive: [...inCurrency].sort((a, b) => b.cost - a.cost).slice(0, top),
+    otherCurrencies,
+  };
+};
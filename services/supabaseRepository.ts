@@ -0,0 +1,704 @@
+import { supabase } from './supabaseClient';
+import { Doll } from '../types';
+import type { DataRepository, RowChange, TableName, StoredImage, TrashedRows } from './repository';
+import {
+  DollQuery, DollCursor, DollPage, sortColumn, isAscending, nextMonthStart, cursorFor, cursorForQuery, isRanked,
+  matchesDollQuery, orderDolls, pageOrderedDolls,
+} from './dollQuery';
+import { FieldFilter } from './customFields';
+import { newShareToken } from './share';
+import { imageUrlsOf } from './photos';
+import { totalTradeable } from './trades';
+import { SearchBound, SearchClause } from './searchQuery';
+import {
+  parseCategory, parseCategoryStats, parseDoll, parseFieldChange, parseMembership, parseRows, parseShareLink,
+  parseTagWithCount, parseTopic, parseTopicInvite, parseTopicMember,
+} from './validation';
+
+let channelCount = 0;
+
+const BUCKET = 'images';
+const PAGE = 1000;
+
+/** The bucket path behind a public URL, or null for URLs that aren't ours. */
+const storagePath = (url: string) => {
+  const marker = `/object/public/${BUCKET}/`;
+  const index = url.indexOf(marker);
+  return index === -1 ? null : decodeURIComponent(url.slice(index + marker.length));
+};
+
+const currentUserId = async () => {
+  const { data } = await supabase.auth.getSession();
+  if (!data.session) throw new Error('Not signed in');
+  return data.session.user.id;
+};
+
+// Files live in a folder per topic, so every editor of the topic can release them (see the
+// topic_image_folders migration). Older files sit in a folder named after the uploader's id.
+const topicFolder = (topicId: string) => `topics/${topicId}`;
+
+// Double-quoted PostgREST filter value, so commas and parentheses in user input stay literal.
+const quote = (value: string) => `"${value.replace(/\\/g, '\\\\').replace(/"/g, '\\"')}"`;
+
+// Array literal for `cs`/`ov` filters. supabase-js would join the values unquoted.
+const arrayLiteral = (values: string[]) => `{${values.map(quote).join(',')}}`;
+
+// Which of `urls` any row still points at, in any topic, asked in batches to keep requests small.
+const imagesInUse = async (urls: string[]) => {
+  const used: string[] = [];
+  for (let from = 0; from < urls.length; from += PAGE) {
+    const { data, error } = await supabase.rpc('images_in_use', { p_urls: urls.slice(from, from + PAGE) });
+    if (error) throw error;
+    used.push(...((data || []) as string[]));
+  }
+  return used;
+};
+
+/**
+ * Deletes the storage objects behind `urls` once no row points at them any more.
+ * Runs after the row change has succeeded; a failure here only leaves an orphan
+ * for the sweep, so it is logged rather than thrown.
+ */
+const releaseImages = async (urls: (string | null | undefined)[]) => {
+  const candidates = [...new Set(urls.filter((url): url is string => !!url))];
+  if (candidates.length === 0) return;
+  try {
+    // Checked across every topic: the caller can't see rows in topics they aren't in
+    const stillUsed = new Set(await imagesInUse(candidates));
+    const paths = candidates
+      .filter(url => !stillUsed.has(url))
+      .map(storagePath)
+      .filter((path): path is string => !!path);
+    if (paths.length === 0) return;
+    const { error } = await supabase.storage.from(BUCKET).remove(paths);
+    if (error) throw error;
+  } catch (err) {
+    console.error('Failed to remove images from storage', err);
+  }
+};
+
+// Rows are checked against the domain types as they come in (see validation.ts).
+const ROW_PARSERS = { topics: parseTopic, categories: parseCategory, dolls: parseDoll };
+
+const selectTrashed = async <K extends TableName>(table: K) => {
+  const { data, error } = await supabase
+    .from(table)
+    .select('*')
+    .not('deleted_at', 'is', null)
+    .order('deleted_at', { ascending: false });
+  if (error) throw error;
+  return (data || []).map(row => ROW_PARSERS[table](row)) as TrashedRows[K];
+};
+
+const IMAGE_COLUMNS = { dolls: 'image_url, photos', categories: 'image_url, checklist' };
+
+const rowImageUrls = async (table: 'categories' | 'dolls', id: string) => {
+  const { data, error } = await supabase.from(table).select(IMAGE_COLUMNS[table]).eq('id', id).maybeSingle();
+  if (error) throw error;
+  return data ? imageUrlsOf(data) : [];
+};
+
+const hasWords = (query: DollQuery) => !!query.search?.some(clause => clause.kind === 'text');
+
+// Bound values are dates or numbers; dates are quoted like any other text.
+const boundValue = (bound: SearchBound) => (typeof bound.value === 'number' ? String(bound.value) : quote(bound.value));
+
+/**
+ * A search clause as an OR of PostgREST conditions, mirroring matchesClause. Negations
+ * spell out null columns, which `not` alone would leave out. Words are matched in memory.
+ */
+export const clauseFilter = (clause: Exclude<SearchClause, { kind: 'text' }>): string => {
+  switch (clause.kind) {
+    case 'in': {
+      const list = `(${clause.ids.map(quote).join(',')})`;
+      return clause.negated ? `${clause.field}.is.null,${clause.field}.not.in.${list}` : `${clause.field}.in.${list}`;
+    }
+    case 'contains':
+      return `${clause.field}.${clause.negated ? 'not.cs' : 'cs'}.${arrayLiteral([clause.value])}`;
+    case 'equals':
+      return clause.negated
+        ? `${clause.field}.is.null,${clause.field}.neq.${quote(clause.value)}`
+        : `${clause.field}.eq.${quote(clause.value)}`;
+    case 'range': {
+      const { field, from, to } = clause;
+      if (clause.negated) {
+        return [
+          `${field}.is.null`,
+          ...(from ? [`${field}.${from.inclusive ? 'lt' : 'lte'}.${boundValue(from)}`] : []),
+          ...(to ? [`${field}.${to.inclusive ? 'gt' : 'gte'}.${boundValue(to)}`] : []),
+        ].join(',');
+      }
+      const conditions = [
+        ...(from ? [`${field}.${from.inclusive ? 'gte' : 'gt'}.${boundValue(from)}`] : []),
+        ...(to ? [`${field}.${to.inclusive ? 'lte' : 'lt'}.${boundValue(to)}`] : []),
+      ];
+      return conditions.length === 1 ? conditions[0] : `and(${conditions.join(',')})`;
+    }
+  }
+};
+
+/**
+ * Each search clause and the keyset cursor are an OR of conditions. PostgREST takes a
+ * single `or` parameter, so when several apply they are nested under one `and`.
+ */
+const dollOrFilter = (query: DollQuery, cursor: DollCursor | null) => {
+  const groups: string[] = (query.search || [])
+    .filter((clause): clause is Exclude<SearchClause, { kind: 'text' }> => clause.kind !== 'text')
+    .map(clauseFilter);
+  if (cursor) {
+    const column = sortColumn(query.sort);
+    const op = isAscending(query.sort) ? 'gt' : 'lt';
+    const value = quote(cursor.value);
+    groups.push(`${column}.${op}.${value},and(${column}.eq.${value},id.${op}.${cursor.id})`);
+  }
+  if (groups.length === 0) return null;
+  return groups.length === 1 ? groups[0] : `and(${groups.map(g => `or(${g})`).join(',')})`;
+};
+
+// A regular expression matching `value` as typed. PostgREST turns every `*` in an `ilike`
+// pattern into a wildcard, with no way to escape it, so substrings are matched with `imatch`.
+const literalPattern = (value: string) => value.replace(/[\\.^$*+?()[\]{}|]/g, '\\$&');
+
+// Mirrors matchesFieldFilter, null when there is nothing to filter by. Field ids are hex,
+// so they are safe inside a JSON path.
+const fieldFilterParams = ({ field, value }: FieldFilter): [string, string, string] | null => {
+  switch (field.type) {
+    case 'text':
+    case 'url':
+      return [`custom_values->>${field.id}`, 'imatch', literalPattern(value)];
+    case 'multiselect':
+      return [`custom_values->${field.id}`, 'cs', JSON.stringify([value])];
+    case 'number': {
+      const number = Number(value);
+      return Number.isFinite(number) ? [`custom_values->${field.id}`, 'eq', String(number)] : null;
+    }
+    default:
+      return [`custom_values->>${field.id}`, 'eq', value];
+  }
+};
+
+// The grid's filters, without search and cursor (see dollOrFilter).
+const filteredDolls = (query: DollQuery, count?: { count: 'exact' }) => {
+  let request = supabase
+    .from('dolls')
+    .select('*', count)
+    .eq('topic_id', query.topicId)
+    .is('deleted_at', null);
+
+  if (query.categoryIds) request = request.in('category_id', query.categoryIds);
+  if (query.locationIds) request = request.in('location_id', query.locationIds);
+  if (query.size) request = request.contains('sizes', [query.size]);
+  if (query.createdSince) request = request.gte('created_at', query.createdSince);
+  if (query.catchMonth) {
+    request = request.gte('catch_date', `${query.catchMonth}-01`).lt('catch_date', nextMonthStart(query.catchMonth));
+  }
+  const fieldFilter = query.fieldFilter && fieldFilterParams(query.fieldFilter);
+  if (fieldFilter) request = request.filter(...fieldFilter);
+  if (query.tags?.length) {
+    request = request.filter('tags', query.tagMode === 'any' ? 'ov' : 'cs', arrayLiteral(query.tags));
+  }
+  return request;
+};
+
+// Every row matching the query, for orderings the database can't page through (see page).
+const loadMatching = async (query: DollQuery) => {
+  const rows: Doll[] = [];
+  const searchFilter = dollOrFilter(query, null);
+  for (let from = 0; ; from += PAGE) {
+    let request = filteredDolls(query);
+    if (searchFilter) request = request.or(searchFilter);
+    const { data, error } = await request.order('id').range(from, from + PAGE - 1);
+    if (error) throw error;
+    rows.push(...parseRows(data, parseDoll));
+    if (!data || data.length < PAGE) break;
+  }
+  return rows;
+};
+
+// The ids a ranked search or custom field sort put in order on its first page, by query,
+// so later pages fetch only their own rows instead of loading the whole topic again.
+const MAX_ORDERINGS = 20;
+const orderings = new Map<string, string[]>();
+
+const rememberOrdering = (key: string, ids: string[]) => {
+  orderings.delete(key);
+  if (orderings.size >= MAX_ORDERINGS) orderings.delete(orderings.keys().next().value!);
+  orderings.set(key, ids);
+};
+
+// Where the page after `cursor` starts in the ordering: ranked cursors hold the position,
+// custom field sort cursors the last row's id. -1 if that row isn't in the ordering.
+const orderingStart = (query: DollQuery, ids: string[], cursor: DollCursor) => {
+  if (isRanked(query)) return Number(cursor.value);
+  const at = ids.indexOf(cursor.id);
+  return at === -1 ? -1 : at + 1;
+};
+
+// A later page of a remembered ordering. Rows trashed or changed to no longer match since
+// the first page are left out rather than shifting the rest.
+const orderedPage = async (query: DollQuery, ids: string[], start: number, limit: number): Promise<DollPage> => {
+  const pageIds = ids.slice(start, start + limit);
+  const { data, error } = await supabase.from('dolls').select('*').in('id', pageIds).is('deleted_at', null);
+  if (error) throw error;
+  const byId = new Map(parseRows(data, parseDoll).map(doll => [doll.id, doll]));
+  const dolls = pageIds.flatMap(id => byId.get(id) ?? []).filter(doll => matchesDollQuery(doll, query));
+  const last = dolls[dolls.length - 1];
+  const more = start + limit < ids.length;
+  if (isRanked(query)) {
+    return { dolls, total: null, nextCursor: more ? { value: String(start + limit), id: pageIds[pageIds.length - 1] } : null };
+  }
+  return { dolls, total: null, nextCursor: more && last ? cursorForQuery(last, query) : null };
+};
+
+export const createSupabaseRepository = (): DataRepository => ({
+  topics: {
+    async list() {
+      const { data, error } = await supabase
+        .from('topics')
+        .select('*')
+        .is('deleted_at', null)
+        .order('created_at', { ascending: true });
+      if (error) throw error;
+      return parseRows(data, parseTopic);
+    },
+    async get(id) {
+      const { data, error } = await supabase.from('topics').select('*').eq('id', id).maybeSingle();
+      if (error) throw error;
+      return data ? parseTopic(data) : null;
+    },
+    async create(topic) {
+      const { data, error } = await supabase
+        .from('topics')
+        .insert([topic])
+        .select()
+        .single();
+      if (error) throw error;
+      return parseTopic(data);
+    },
+    async update(id, patch) {
+      const { error } = await supabase.from('topics').update(patch).eq('id', id);
+      if (error) throw error;
+    },
+    async countContents(id) {
+      const [categories, dolls] = await Promise.all([
+        supabase.from('categories').select('*', { count: 'exact', head: true }).eq('topic_id', id).is('deleted_at', null),
+        supabase.from('dolls').select('*', { count: 'exact', head: true }).eq('topic_id', id).is('deleted_at', null),
+      ]);
+      if (categories.error) throw categories.error;
+      if (dolls.error) throw dolls.error;
+      return { categories: categories.count || 0, dolls: dolls.count || 0 };
+    },
+    // The cascade runs in one transaction server-side; images stay until the trash is purged.
+    async remove(id, options) {
+      const { error } = await supabase.rpc('delete_topic', {
+        p_topic_id: id,
+        p_contents: options.contents,
+        p_target_topic_id: options.contents === 'move' ? options.targetTopicId : null,
+      });
+      if (error) throw error;
+    },
+  },
+
+  categories: {
+    async listByTopic(topicId) {
+      const { data, error } = await supabase
+        .from('categories')
+        .select('*')
+        .eq('topic_id', topicId)
+        .is('deleted_at', null)
+        .order('name');
+      if (error) throw error;
+      return parseRows(data, parseCategory);
+    },
+    async listWithStats(topicId) {
+      const { data, error } = await supabase
+        .from('category_stats')
+        .select('*')
+        .eq('topic_id', topicId)
+        .order('name');
+      if (error) throw error;
+      return parseRows(data, parseCategoryStats);
+    },
+    async get(id) {
+      const { data, error } = await supabase.from('categories').select('*').eq('id', id).maybeSingle();
+      if (error) throw error;
+      return data ? parseCategory(data) : null;
+    },
+    async create(category) {
+      const { data, error } = await supabase
+        .from('categories')
+        .insert([category])
+        .select()
+        .single();
+      if (error) throw error;
+      return parseCategory(data);
+    },
+    async update(id, patch, options) {
+      const imagesChanged = patch.image_url !== undefined || patch.checklist !== undefined;
+      const previousImages = imagesChanged && !options?.keepPreviousImage ? await rowImageUrls('categories', id) : [];
+      const { error } = await supabase.from('categories').update(patch).eq('id', id);
+      if (error) throw error;
+      const dropped = previousImages.filter(url => !imageUrlsOf(patch).includes(url));
+      if (dropped.length > 0) await releaseImages(dropped);
+    },
+    async remove(id, options) {
+      const { error } = await supabase.rpc('delete_category', {
+        p_category_id: id,
+        p_dolls: options.dolls,
+        p_target_category_id: options.dolls === 'move' ? options.targetCategoryId : null,
+      });
+      if (error) throw error;
+    },
+  },
+
+  dolls: {
+    async listByTopic(topicId) {
+      const { data, error } = await supabase
+        .from('dolls')
+        .select('*')
+        .eq('topic_id', topicId)
+        .is('deleted_at', null);
+      if (error) throw error;
+      return parseRows(data, parseDoll);
+    },
+    async listForTrade() {
+      // Row level security keeps this to the account's topics; trashed topics trash their dolls
+      const { data, error } = await supabase
+        .from('dolls')
+        .select('*')
+        .neq('for_trade', '{}')
+        .is('deleted_at', null);
+      if (error) throw error;
+      return parseRows(data, parseDoll).filter(doll => totalTradeable(doll) > 0);
+    },
+    async page(query, cursor, limit) {
+      // Keyset paging can't follow a JSON value with empties last, so a custom field
+      // sort loads every matching row and puts them in order in memory. So does a search
+      // with words, which are matched loosely and ranked there (see textSearch.ts). Both
+      // do so once: the first page keeps the order for the pages after it.
+      if (query.fieldSort || hasWords(query)) {
+        const key = JSON.stringify(query);
+        const ids = cursor ? orderings.get(key) : undefined;
+        const start = cursor && ids ? orderingStart(query, ids, cursor) : -1;
+        if (ids && start !== -1) return orderedPage(query, ids, start, limit);
+        const ordered = orderDolls(await loadMatching(query), query);
+        rememberOrdering(key, ordered.map(doll => doll.id));
+        return pageOrderedDolls(ordered, query, cursor, limit);
+      }
+
+      let request = filteredDolls(query, cursor ? undefined : { count: 'exact' });
+      const orFilter = dollOrFilter(query, cursor);
+      if (orFilter) request = request.or(orFilter);
+
+      const ascending = isAscending(query.sort);
+      const { data, count, error } = await request
+        .order(sortColumn(query.sort), { ascending })
+        .order('id', { ascending })
+        .limit(limit);
+      if (error) throw error;
+
+      const dolls = parseRows(data, parseDoll);
+      const last = dolls[dolls.length - 1];
+      return {
+        dolls,
+        total: cursor ? null : count ?? dolls.length,
+        nextCursor: dolls.length === limit && last ? cursorFor(last, query.sort) : null,
+      };
+    },
+    async get(id) {
+      const { data, error } = await supabase.from('dolls').select('*').eq('id', id).maybeSingle();
+      if (error) throw error;
+      return data ? parseDoll(data) : null;
+    },
+    async create(doll) {
+      const { data, error } = await supabase
+        .from('dolls')
+        .insert([doll])
+        .select()
+        .single();
+      if (error) throw error;
+      return parseDoll(data);
+    },
+    async update(id, patch, options) {
+      const imagesChanged = patch.image_url !== undefined || patch.photos !== undefined;
+      const previousImages = imagesChanged && !options?.keepPreviousImage ? await rowImageUrls('dolls', id) : [];
+      const { error } = await supabase.from('dolls').update(patch).eq('id', id);
+      if (error) throw error;
+      const dropped = previousImages.filter(url => !imageUrlsOf(patch).includes(url));
+      if (dropped.length > 0) await releaseImages(dropped);
+    },
+    async remove(id) {
+      const { error } = await supabase.from('dolls').update({ deleted_at: new Date().toISOString() }).eq('id', id);
+      if (error) throw error;
+    },
+  },
+
+  images: {
+    async upload(topicId, fileName, file) {
+      const path = `${topicId ? topicFolder(topicId) : await currentUserId()}/${fileName}`;
+      const { error } = await supabase.storage.from(BUCKET).upload(path, file);
+      if (error) throw error;
+      const { data } = supabase.storage.from(BUCKET).getPublicUrl(path);
+      return data.publicUrl;
+    },
+    // File names are returned as bucket paths, ready for `remove`.
+    async list() {
+      const userId = await currentUserId();
+      const { data: memberships, error: membershipError } = await supabase
+        .from('topic_members')
+        .select('topic_id')
+        .eq('user_id', userId)
+        .in('role', ['owner', 'editor']);
+      if (membershipError) throw membershipError;
+      const folders = [userId, ...(memberships || []).map(row => topicFolder(String(row.topic_id)))];
+      const images: StoredImage[] = [];
+      for (const folder of folders) {
+        for (let offset = 0; ; offset += PAGE) {
+          const { data, error } = await supabase.storage.from(BUCKET).list(folder, { limit: PAGE, offset });
+          if (error) throw error;
+          (data || [])
+            .filter(file => file.id) // folders have no id
+            .forEach(file => images.push({
+              fileName: `${folder}/${file.name}`,
+              url: supabase.storage.from(BUCKET).getPublicUrl(`${folder}/${file.name}`).data.publicUrl,
+              size: file.metadata?.size ?? null,
+              created_at: file.created_at ?? null,
+            }));
+          if (!data || data.length < PAGE) break;
+        }
+      }
+      return images;
+    },
+    inUse: imagesInUse,
+    async remove(fileNames) {
+      if (fileNames.length === 0) return;
+      const { error } = await supabase.storage.from(BUCKET).remove(fileNames);
+      if (error) throw error;
+    },
+    release: releaseImages,
+  },
+
+  trash: {
+    async list() {
+      const [topics, categories, dolls] = await Promise.all([
+        selectTrashed('topics'),
+        selectTrashed('categories'),
+        selectTrashed('dolls'),
+      ]);
+      return { topics, categories, dolls };
+    },
+    async restore(table, id) {
+      const { error } = await supabase.rpc('restore_from_trash', { p_table: table, p_id: id });
+      if (error) throw error;
+    },
+    // Both purges return the image URLs of the deleted rows.
+    async purge(table, id) {
+      const { data, error } = await supabase.rpc('purge_from_trash', { p_table: table, p_id: id });
+      if (error) throw error;
+      await releaseImages((data || []) as string[]);
+    },
+    async purgeBefore(cutoff) {
+      const { data, error } = await supabase.rpc('purge_trash_before', { p_cutoff: cutoff });
+      if (error) throw error;
+      await releaseImages((data || []) as string[]);
+    },
+    async purgeExpired() {
+      const { data, error } = await supabase.rpc('purge_expired_trash');
+      if (error) throw error;
+      await releaseImages((data || []) as string[]);
+    },
+  },
+
+  tags: {
+    async listByTopic(topicId) {
+      const { data, error } = await supabase
+        .from('topic_tags')
+        .select('name, doll_count')
+        .eq('topic_id', topicId)
+        .order('name');
+      if (error) throw error;
+      return parseRows(data, parseTagWithCount);
+    },
+    async rename(topicId, from, to) {
+      const { error } = await supabase.rpc('rename_tag', { p_topic_id: topicId, p_from: from, p_to: to });
+      if (error) throw error;
+    },
+    async remove(topicId, name) {
+      const { error } = await supabase.rpc('delete_tag', { p_topic_id: topicId, p_name: name });
+      if (error) throw error;
+    },
+  },
+
+  changes: {
+    async listForRow(table, rowId) {
+      const { data, error } = await supabase
+        .from('change_log')
+        .select('*')
+        .eq('table_name', table)
+        .eq('row_id', rowId)
+        .order('changed_at', { ascending: false })
+        .order('id', { ascending: false });
+      if (error) throw error;
+      return parseRows(data, parseFieldChange);
+    },
+  },
+
+  shares: {
+    async listByTopic(topicId) {
+      const { data, error } = await supabase
+        .from('share_links')
+        .select('*')
+        .eq('topic_id', topicId)
+        .order('created_at', { ascending: false });
+      if (error) throw error;
+      return parseRows(data, parseShareLink);
+    },
+    async create(topicId, options) {
+      const { data, error } = await supabase
+        .from('share_links')
+        .insert([{ topic_id: topicId, token: newShareToken(), hide_catch_dates: options.hideCatchDates }])
+        .select()
+        .single();
+      if (error) throw error;
+      return parseShareLink(data);
+    },
+    async rotate(id) {
+      const { data, error } = await supabase
+        .from('share_links')
+        .update({ token: newShareToken() })
+        .eq('id', id)
+        .select()
+        .single();
+      if (error) throw error;
+      return parseShareLink(data);
+    },
+    async revoke(id) {
+      const { error } = await supabase.from('share_links').delete().eq('id', id);
+      if (error) throw error;
+    },
+    // Visitors have no access to the tables; the function reads them on the owner's behalf.
+    async open(token) {
+      const { data, error } = await supabase.rpc('shared_collection', { p_token: token });
+      if (error) throw error;
+      if (!data) return null;
+      const { topic, hide_catch_dates, categories, dolls } = data;
+      return {
+        topic: parseTopic(topic),
+        hideCatchDates: hide_catch_dates === true,
+        categories: parseRows(categories, parseCategory),
+        dolls: parseRows(dolls, parseDoll),
+      };
+    },
+  },
+
+  members: {
+    async myRoles() {
+      const { data: session } = await supabase.auth.getSession();
+      if (!session.session) return {};
+      const { data, error } = await supabase
+        .from('topic_members')
+        .select('topic_id, role')
+        .eq('user_id', session.session.user.id);
+      if (error) throw error;
+      return Object.fromEntries(parseRows(data, parseMembership).map(({ topicId, role }) => [topicId, role]));
+    },
+    async listByTopic(topicId) {
+      const { data, error } = await supabase
+        .from('topic_members')
+        .select('*')
+        .eq('topic_id', topicId)
+        .order('created_at', { ascending: true });
+      if (error) throw error;
+      return parseRows(data, parseTopicMember);
+    },
+    async setRole(topicId, userId, role) {
+      const { error } = await supabase.from('topic_members').update({ role }).eq('topic_id', topicId).eq('user_id', userId);
+      if (error) throw error;
+    },
+    async remove(topicId, userId) {
+      const { error } = await supabase.from('topic_members').delete().eq('topic_id', topicId).eq('user_id', userId);
+      if (error) throw error;
+    },
+    async listInvites(topicId) {
+      const { data, error } = await supabase
+        .from('topic_invites')
+        .select('*')
+        .eq('topic_id', topicId)
+        .order('created_at', { ascending: false });
+      if (error) throw error;
+      return parseRows(data, parseTopicInvite);
+    },
+    // The topic name, inviter and normalized email are filled in server-side.
+    async invite(topicId, email, role) {
+      const { data, error } = await supabase
+        .from('topic_invites')
+        .insert([{ topic_id: topicId, email, role }])
+        .select()
+        .single();
+      if (error) throw error;
+      return parseTopicInvite(data);
+    },
+    // RLS only shows an account the invites to its topics and the ones addressed to it.
+    async listMyInvites() {
+      const { data: session } = await supabase.auth.getSession();
+      const email = session.session?.user.email;
+      if (!email) return [];
+      const { data, error } = await supabase
+        .from('topic_invites')
+        .select('*')
+        .eq('email', email.toLowerCase())
+        .order('created_at', { ascending: false });
+      if (error) throw error;
+      return parseRows(data, parseTopicInvite);
+    },
+    async acceptInvite(id) {
+      const { error } = await supabase.rpc('accept_invite', { p_invite_id: id });
+      if (error) throw error;
+    },
+    async cancelInvite(id) {
+      const { error } = await supabase.from('topic_invites').delete().eq('id', id);
+      if (error) throw error;
+    },
+  },
+
+  subscribe(topicId, listener) {
+    // A move to the trash is an UPDATE that sets deleted_at; listeners see it as a delete.
+    const emit = (table: TableName) => (payload: { eventType: string; new: Record<string, unknown>; old: Record<string, unknown> }) => {
+      const deleted = payload.eventType === 'DELETE' || !!payload.new.deleted_at;
+      // A malformed row is left out rather than breaking the subscription; a delete still goes through
+      let row;
+      if (payload.eventType !== 'DELETE') {
+        try {
+          row = ROW_PARSERS[table](payload.new);
+        } catch (err) {
+          console.error(`Skipped a change to ${table}:`, err);
+          if (!deleted) return;
+        }
+      }
+      if (deleted) {
+        const id = payload.old.id ?? payload.new.id;
+        if (typeof id !== 'string') {
+          console.error(`Skipped a delete from ${table} without an id:`, payload);
+          return;
+        }
+        listener({ table, type: 'delete', id, row } as RowChange);
+        return;
+      }
+      listener({ table, type: 'upsert', row } as RowChange);
+    };
+
+    // Realtime filters are not applied to DELETE events, so deletes are subscribed unfiltered.
+    const channel = supabase.channel(`changes-${topicId}-${++channelCount}`);
+    channel.on('postgres_changes', { event: '*', schema: 'public', table: 'topics' }, emit('topics'));
+    (['categories', 'dolls'] as const).forEach(table => {
+      const filter = `topic_id=eq.${topicId}`;
+      channel
+        .on('postgres_changes', { event: 'INSERT', schema: 'public', table, filter }, emit(table))
+        .on('postgres_changes', { event: 'UPDATE', schema: 'public', table, filter }, emit(table))
+        .on('postgres_changes', { event: 'DELETE', schema: 'public', table }, emit(table));
+    });
+    channel.subscribe();
+
+    return () => { supabase.removeChannel(channel); };
+  },
+});
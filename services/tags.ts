@@ -0,0 +1,49 @@
+import { Doll } from '../types';
+
+/** A tag in use in a topic, as one row of the `topic_tags` view. */
+export interface TagWithCount {
+  name: string;
+  count: number;
+}
+
+/** How a tag filter combines several tags: dolls carrying all of them, or any one. */
+export type TagMode = 'all' | 'any';
+
+const NO_TAGS: string[] = [];
+
+// Rows cached before dolls had tags carry none.
+export const tagsOf = (doll: Pick<Doll, 'tags'>) => doll.tags || NO_TAGS;
+
+/** Trimmed, with inner whitespace collapsed. Empty when there's nothing left. */
+export const normalizeTag = (text: string) => text.trim().replace(/\s+/g, ' ');
+
+/** The spelling already in use for `text` when it only differs in case, so "shark" joins "Shark". */
+export const canonicalTag = (text: string, known: string[]) => {
+  const tag = normalizeTag(text);
+  return known.find(k => k.toLowerCase() === tag.toLowerCase()) || tag;
+};
+
+/** Tags that start with `text` first, then those containing it, leaving out ones already chosen. */
+export const suggestTags = (text: string, known: string[], chosen: string[], limit = 6) => {
+  const needle = normalizeTag(text).toLowerCase();
+  if (!needle) return [];
+  const open = known.filter(k => !chosen.includes(k) && k.toLowerCase().includes(needle));
+  return [
+    ...open.filter(k => k.toLowerCase().startsWith(needle)),
+    ...open.filter(k => !k.toLowerCase().startsWith(needle)),
+  ].slice(0, limit);
+};
+
+/** `tags` with `from` replaced by `to`, keeping the first of any duplicates that leaves. */
+export const renameTagIn = (tags: string[], from: string, to: string) =>
+  [...new Set(tags.map(t => (t === from ? to : t)))];
+
+export const matchesTags = (doll: Pick<Doll, 'tags'>, tags: string[], mode: TagMode) =>
+  mode === 'all' ? tags.every(t => tagsOf(doll).includes(t)) : tags.some(t => tagsOf(doll).includes(t));
+
+/** In-memory equivalent of the `topic_tags` view (local backend, offline cache). */
+export const summarizeTags = (dolls: Doll[]): TagWithCount[] => {
+  const counts = new Map<string, number>();
+  dolls.forEach(d => tagsOf(d).forEach(t => counts.set(t, (counts.get(t) || 0) + 1)));
+  return [...counts].map(([name, count]) => ({ name, count })).sort((a, b) => a.name.localeCompare(b.name));
+};
@@ -0,0 +1,52 @@
+import { describe, expect, it } from 'vitest';
+import { matchRanges, matchText } from './textSearch';
+
+describe('matchText', () => {
+  it('ignores case, accents and character widths', () => {
+    expect(matchText('cafe', 'Café')).toMatchObject({ from: 0, to: 4, edits: 0 });
+    expect(matchText('chiikawa', 'ﾁｲｶﾜ')).toMatchObject({ from: 0, to: 4, edits: 0 });
+  });
+
+  it('matches kana and romaji either way', () => {
+    expect(matchText('ちいかわ', 'Chiikawa')).toMatchObject({ from: 0, to: 8, edits: 0 });
+    expect(matchText('chiikawa', 'ちいかわ')).toMatchObject({ from: 0, to: 4, edits: 0 });
+    expect(matchText('matcha', 'まっちゃ')).toMatchObject({ edits: 0 });
+  });
+
+  it('lets a typo through in longer words', () => {
+    expect(matchText('usagii', 'Usagi')).toMatchObject({ edits: 1 });
+    expect(matchText('hachiwarre', 'Hachiware')).toMatchObject({ from: 0, to: 9, edits: 1 });
+  });
+
+  it('ranks the start of the text above later words and the inside of words', () => {
+    expect(matchText('shark', 'Shark plush')!.quality).toBe(1);
+    expect(matchText('shark', 'big sharks')!.quality).toBe(0.8);
+    expect(matchText('rabbit', 'grabbit')!.quality).toBe(0.6);
+  });
+
+  it.each([
+    ['frog', 'from'],
+    ['pink', 'Pikachu'],
+    ['bear', 'Year'],
+    ['bear', 'Pearl'],
+    ['blue', 'double'],
+    ['duck', 'Luck'],
+  ])('keeps words under five letters exact: %s does not find %s', (term, text) => {
+    expect(matchText(term, text)).toBeNull();
+  });
+
+  it('keeps typos off the ends of the match', () => {
+    expect(matchText('panda', 'pandy')).toBeNull();
+    expect(matchText('panda', 'xanda')).toBeNull();
+    expect(matchText('panda', 'pamda')).toMatchObject({ edits: 1 });
+  });
+});
+
+describe('matchRanges', () => {
+  it('merges overlapping matches in order', () => {
+    expect(matchRanges('Whale shark plush', ['plush', 'whale', 'whale shark'])).toEqual([
+      { from: 0, to: 11 },
+      { from: 12, to: 17 },
+    ]);
+  });
+});
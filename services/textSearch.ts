@@ -0,0 +1,239 @@
+/**
+ * Fuzzy text matching for search: ignores case, accents and full- or half-width forms,
+ * treats hiragana and katakana alike, matches kana against romaji ("ちいかわ" finds
+ * "Chiikawa") and lets longer words through with a typo or two.
+ */
+
+/** Text folded for matching, with the span of the original each character came from. */
+export interface FoldedText {
+  text: string;
+  from: number[];
+  to: number[];
+}
+
+/** Where a term matched, in the original text, and how well (see `matchQuality`). */
+export interface TextMatch {
+  from: number;
+  to: number;
+  edits: number;
+  quality: number;
+}
+
+const KATAKANA = /[ァ-ヶ]/;
+const SOUND_MARKS = /^[\u3099\u309a]$/; // Dakuten and handakuten on their own, as half-width kana have them
+
+/** Lower case, no accents, full-width letters and half-width kana made regular, katakana as hiragana. */
+const foldChar = (ch: string) =>
+  ch.normalize('NFKD').replace(/[\u0300-\u036f]/g, '').normalize('NFC').toLowerCase()
+    .replace(new RegExp(KATAKANA.source, 'g'), k => String.fromCharCode(k.charCodeAt(0) - 0x60));
+
+export const foldText = (text: string): FoldedText => {
+  const folded: FoldedText = { text: '', from: [], to: [] };
+  let offset = 0;
+  for (const ch of text) {
+    const end = offset + ch.length;
+    const out = foldChar(ch);
+    const last = folded.text.length - 1;
+    if (last >= 0 && (out === '' || SOUND_MARKS.test(out))) {
+      // A mark belongs with the character before it: ｶﾞ is が, and e + ◌́ is e
+      if (out) folded.text = folded.text.slice(0, last) + (folded.text[last] + out).normalize('NFC');
+      folded.to[last] = end;
+    } else {
+      // One entry per UTF-16 unit, as string offsets count them
+      for (let k = 0; k < out.length; k++) {
+        folded.from.push(offset);
+        folded.to.push(end);
+      }
+      folded.text += out;
+    }
+    offset = end;
+  }
+  return folded;
+};
+
+const ROMAJI: Record<string, string> = {};
+const addRow = (kana: string, romaji: string[]) => [...kana].forEach((k, i) => { ROMAJI[k] = romaji[i]; });
+addRow('あいうえお', ['a', 'i', 'u', 'e', 'o']);
+addRow('ぁぃぅぇぉ', ['a', 'i', 'u', 'e', 'o']);
+addRow('かきくけこ', ['ka', 'ki', 'ku', 'ke', 'ko']);
+addRow('がぎぐげご', ['ga', 'gi', 'gu', 'ge', 'go']);
+addRow('さしすせそ', ['sa', 'shi', 'su', 'se', 'so']);
+addRow('ざじずぜぞ', ['za', 'ji', 'zu', 'ze', 'zo']);
+addRow('たちつてと', ['ta', 'chi', 'tsu', 'te', 'to']);
+addRow('だぢづでど', ['da', 'ji', 'zu', 'de', 'do']);
+addRow('なにぬねの', ['na', 'ni', 'nu', 'ne', 'no']);
+addRow('はひふへほ', ['ha', 'hi', 'fu', 'he', 'ho']);
+addRow('ばびぶべぼ', ['ba', 'bi', 'bu', 'be', 'bo']);
+addRow('ぱぴぷぺぽ', ['pa', 'pi', 'pu', 'pe', 'po']);
+addRow('まみむめも', ['ma', 'mi', 'mu', 'me', 'mo']);
+addRow('やゆよゃゅょ', ['ya', 'yu', 'yo', 'ya', 'yu', 'yo']);
+addRow('らりるれろ', ['ra', 'ri', 'ru', 're', 'ro']);
+addRow('わをんゔ', ['wa', 'o', 'n', 'vu']);
+
+// きゃ is kya, しゃ sha, ちゃ cha and じゃ ja: the i-row kana loses its vowel
+const YOON: Record<string, string> = { 'ゃ': 'a', 'ゅ': 'u', 'ょ': 'o' };
+const yoonStem = (kana: string) => {
+  const romaji = ROMAJI[kana];
+  if (!romaji || !romaji.endsWith('i') || kana === 'い' || kana === 'ぃ') return null;
+  return /^(sh|ch|j)/.test(romaji) ? romaji.slice(0, -1) : `${romaji.slice(0, -1)}y`;
+};
+
+/** Hepburn romaji for the kana in folded text; other characters pass through. */
+const toRomaji = (folded: FoldedText): FoldedText => {
+  const out: FoldedText = { text: '', from: [], to: [] };
+  const push = (text: string, from: number, to: number) => {
+    for (let k = 0; k < text.length; k++) {
+      out.from.push(from);
+      out.to.push(to);
+    }
+    out.text += text;
+  };
+  const chars = folded.text;
+  let doubleNext = false;
+  for (let i = 0; i < chars.length; i++) {
+    const kana = chars[i];
+    const from = folded.from[i];
+    if (kana === 'っ') {
+      doubleNext = true;
+      continue;
+    }
+    if (kana === 'ー') continue; // Long vowels are written as the short one
+    const stem = YOON[chars[i + 1]] ? yoonStem(kana) : null;
+    const romaji = stem ? stem + YOON[chars[i + 1]] : ROMAJI[kana] ?? kana;
+    const to = stem ? folded.to[i + 1] : folded.to[i];
+    // っ doubles the consonant after it, with っち as "tchi" (matcha)
+    const doubled = romaji.startsWith('ch') ? `t${romaji}` : romaji[0] + romaji;
+    push(doubleNext && /^[a-z]/.test(romaji) ? doubled : romaji, doubleNext ? folded.from[i - 1] ?? from : from, to);
+    doubleNext = false;
+    if (stem) i++;
+  }
+  return out;
+};
+
+interface IndexedText {
+  folded: FoldedText;
+  romaji: FoldedText;
+  /** Results of `matchText` on this text so far, by term, for the next page and the ranking. */
+  matches: Map<string, TextMatch | null>;
+}
+
+const MAX_INDEXED = 5000;
+const MAX_REMEMBERED = 50; // Terms per text, as each pause in typing searches anew
+const index = new Map<string, IndexedText>();
+
+/**
+ * The folded forms of a text, from the index of every name, description and category name
+ * searched so far. Folding is the costly part, and a text is matched once per term and page.
+ */
+const indexed = (text: string): IndexedText => {
+  let entry = index.get(text);
+  if (!entry) {
+    if (index.size >= MAX_INDEXED) index.clear();
+    const folded = foldText(text);
+    entry = { folded, romaji: toRomaji(folded), matches: new Map() };
+    index.set(text, entry);
+  }
+  return entry;
+};
+
+// Edits allowed for a term of this many letters; short words have to be exact, or "bear" finds "year".
+const allowedEdits = (length: number) => (length >= 8 ? 2 : length >= 5 ? 1 : 0);
+
+/**
+ * The substring of `text` closest to `pattern`, within `maxEdits` insertions, deletions
+ * or substitutions (Sellers' algorithm), as the span of `text` it covers. The span starts
+ * and ends on the pattern's own first and last letters, so a typo can't pull in a letter
+ * next to it: "pink" stays out of "Pikachu" and "blue" out of "double".
+ */
+const fuzzyFind = (pattern: string, text: string, maxEdits: number) => {
+  const m = pattern.length;
+  // Rows past the first can't be reached by dropping the pattern's first letter
+  let prev = Array.from({ length: m + 1 }, (_, i) => (i === 0 ? 0 : Infinity));
+  let prevStart = new Array<number>(m + 1).fill(0);
+  let best: { from: number; to: number; edits: number } | null = null;
+  for (let j = 1; j <= text.length; j++) {
+    const cur = [0];
+    const curStart = [j];
+    for (let i = 1; i <= m; i++) {
+      const same = pattern[i - 1] === text[j - 1];
+      // The first letter only ever matches itself
+      let value = i === 1 && !same ? Infinity : prev[i - 1] + (same ? 0 : 1);
+      let start = i === 1 ? j - 1 : prevStart[i - 1];
+      if (prev[i] + 1 < value) {
+        value = prev[i] + 1;
+        start = prevStart[i];
+      }
+      if (i > 1 && cur[i - 1] + 1 < value) {
+        value = cur[i - 1] + 1;
+        start = curStart[i - 1];
+      }
+      cur[i] = value;
+      curStart[i] = start;
+    }
+    // A span ends on the last letter matched as it is
+    const edits = pattern[m - 1] === text[j - 1] ? prev[m - 1] : Infinity;
+    const from = prevStart[m - 1];
+    // Fewest edits wins; a tie from the same start takes the longer span, so "hachiwarre" is marked whole
+    if (edits <= maxEdits && (!best || edits < best.edits || (edits === best.edits && from === best.from))) {
+      best = { from, to: j, edits };
+    }
+    prev = cur;
+    prevStart = curStart;
+  }
+  return best;
+};
+
+const isWordStart = (text: string, at: number) => at === 0 || /[\s\p{P}\p{S}]/u.test(text[at - 1]);
+
+/** 1 for the start of the text, less for the start of a later word, inside a word, or with typos. */
+const matchQuality = (text: string, at: number, edits: number) =>
+  (at === 0 ? 1 : isWordStart(text, at) ? 0.8 : 0.6) - edits * 0.2;
+
+const spanOf = (folded: FoldedText, from: number, to: number, edits: number): TextMatch => ({
+  from: folded.from[from],
+  to: folded.to[to - 1],
+  edits,
+  quality: matchQuality(folded.text, from, edits),
+});
+
+const findMatch = (term: string, haystack: IndexedText): TextMatch | null => {
+  const needle = indexed(term.trim());
+  if (!needle.folded.text) return null;
+
+  const exact = haystack.folded.text.indexOf(needle.folded.text);
+  if (exact !== -1) return spanOf(haystack.folded, exact, exact + needle.folded.text.length, 0);
+  const romaji = needle.romaji.text ? haystack.romaji.text.indexOf(needle.romaji.text) : -1;
+  if (romaji !== -1) return spanOf(haystack.romaji, romaji, romaji + needle.romaji.text.length, 0);
+
+  const maxEdits = allowedEdits(needle.romaji.text.length);
+  if (maxEdits === 0) return null;
+  const fuzzy = fuzzyFind(needle.romaji.text, haystack.romaji.text, maxEdits);
+  return fuzzy && fuzzy.to > fuzzy.from ? spanOf(haystack.romaji, fuzzy.from, fuzzy.to, fuzzy.edits) : null;
+};
+
+/** The best place `term` matches in `text`, or null. */
+export const matchText = (term: string, text: string | null | undefined): TextMatch | null => {
+  if (!text) return null;
+  const haystack = indexed(text);
+  const known = haystack.matches.get(term);
+  if (known !== undefined) return known;
+  const match = findMatch(term, haystack);
+  if (haystack.matches.size >= MAX_REMEMBERED) haystack.matches.clear();
+  haystack.matches.set(term, match);
+  return match;
+};
+
+/** The parts of `text` any of the terms match, merged and in order, to highlight. */
+export const matchRanges = (text: string, terms: string[]) => {
+  const ranges = terms
+    .map(term => matchText(term, text))
+    .filter((match): match is TextMatch => !!match)
+    .map(({ from, to }) => ({ from, to }))
+    .sort((a, b) => a.from - b.from);
+  return ranges.reduce<{ from: number; to: number }[]>((merged, range) => {
+    const last = merged[merged.length - 1];
+    if (last && range.from <= last.to) last.to = Math.max(last.to, range.to);
+    else merged.push({ ...range });
+    return merged;
+  }, []);
+};
@@ -0,0 +1,138 @@
+import { Doll, SizeVariant, Topic } from '../types';
+import { dollSizes, sizeVariantsOf } from './sizes';
+
+type Counts = Pick<Doll, 'sizes' | 'quantities' | 'for_trade'>;
+
+/**
+ * Copies of the doll owned in a size: at least one when it comes in that size, none
+ * otherwise. Rows cached before dolls had quantities count one of each.
+ */
+export const quantityOf = (doll: Counts, sizeId: string) =>
+  doll.sizes.includes(sizeId) ? Math.max(1, Math.floor(doll.quantities?.[sizeId] ?? 1)) : 0;
+
+/** Copies beyond the one kept. */
+export const sparesOf = (doll: Counts, sizeId: string) => Math.max(0, quantityOf(doll, sizeId) - 1);
+
+/** Spares marked for trade, never more than there are. */
+export const tradeableOf = (doll: Counts, sizeId: string) =>
+  Math.min(sparesOf(doll, sizeId), Math.max(0, Math.floor(doll.for_trade?.[sizeId] ?? 0)));
+
+export const totalTradeable = (doll: Counts) => doll.sizes.reduce((sum, id) => sum + tradeableOf(doll, id), 0);
+
+/**
+ * Quantities and trade counts as stored: only the doll's sizes, single copies and
+ * zero trades left out, trades capped at the spares.
+ */
+export const cleanCounts = (doll: Counts): Pick<Doll, 'quantities' | 'for_trade'> => {
+  const quantities: Record<string, number> = {};
+  const forTrade: Record<string, number> = {};
+  doll.sizes.forEach(id => {
+    const quantity = quantityOf(doll, id);
+    if (quantity > 1) quantities[id] = quantity;
+    const tradeable = tradeableOf(doll, id);
+    if (tradeable > 0) forTrade[id] = tradeable;
+  });
+  return { quantities, for_trade: forTrade };
+};
+
+export interface TradeEntry {
+  doll: Doll;
+  topic: Topic;
+  size: SizeVariant;
+  count: number;
+}
+
+/** Every size of every doll with spares up for trade, by collection, then name. */
+export const tradeEntries = (topics: Topic[], dolls: Doll[]): TradeEntry[] => {
+  const byId = new Map(topics.map(t => [t.id, t]));
+  return dolls
+    .filter(doll => byId.has(doll.topic_id))
+    .flatMap(doll => {
+      const topic = byId.get(doll.topic_id)!;
+      return dollSizes(doll, sizeVariantsOf(topic))
+        .map(size => ({ doll, topic, size, count: tradeableOf(doll, size.id) }))
+        .filter(entry => entry.count > 0);
+    })
+    .sort((a, b) =>
+      topics.indexOf(a.topic) - topics.indexOf(b.topic) || a.doll.name.localeCompare(b.doll.name)
+    );
+};
+
+/** "Chiikawa (Small) ×2"; the size is left out for collections with only one. */
+export const entryLabel = (entry: TradeEntry) => {
+  const sized = sizeVariantsOf(entry.topic).length > 1 ? `${entry.doll.name} (${entry.size.label})` : entry.doll.name;
+  return entry.count > 1 ? `${sized} ×${entry.count}` : sized;
+};
+
+/** The list as plain text to paste into a trading group, one section per collection. */
+export const formatTradeList = (entries: TradeEntry[], title = 'Up for trade') => {
+  const sections: string[] = [];
+  entries.forEach((entry, i) => {
+    if (i === 0 || entries[i - 1].topic !== entry.topic) sections.push(`\n${entry.topic.name}`);
+    sections.push(`• ${entryLabel(entry)}`);
+  });
+  return `${title}\n${sections.join('\n')}\n`;
+};
+
+const loadImage = (url: string) =>
+  new Promise<HTMLImageElement | null>(resolve => {
+    const img = new Image();
+    // Storage serves CORS headers; without them the canvas can't be exported
+    img.crossOrigin = 'anonymous';
+    img.onload = () => resolve(img);
+    img.onerror = () => resolve(null);
+    img.src = url;
+  });
+
+/**
+ * The list as a PNG of photo tiles with names and counts, to post where text won't do.
+ * A photo that can't be loaded leaves its tile blank rather than failing the export.
+ */
+export const renderTradeImage = async (entries: TradeEntry[], title = 'Up for trade'): Promise<Blob> => {
+  const COLUMNS = Math.min(4, Math.max(1, entries.length));
+  const TILE = 240;
+  const LABEL = 56;
+  const GAP = 16;
+  const HEADER = 88;
+  const rows = Math.ceil(entries.length / COLUMNS);
+
+  const canvas = document.createElement('canvas');
+  canvas.width = GAP + COLUMNS * (TILE + GAP);
+  canvas.height = HEADER + rows * (TILE + LABEL + GAP) + GAP;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error('Canvas context not available');
+
+  ctx.fillStyle = '#f0f9ff';
+  ctx.fillRect(0, 0, canvas.width, canvas.height);
+  ctx.fillStyle = '#1e293b';
+  ctx.font = 'bold 36px sans-serif';
+  ctx.textBaseline = 'middle';
+  ctx.fillText(title, GAP, HEADER / 2);
+
+  const images = await Promise.all(entries.map(entry => loadImage(entry.doll.image_url)));
+  entries.forEach((entry, i) => {
+    const x = GAP + (i % COLUMNS) * (TILE + GAP);
+    const y = HEADER + Math.floor(i / COLUMNS) * (TILE + LABEL + GAP);
+    ctx.fillStyle = '#ffffff';
+    ctx.fillRect(x, y, TILE, TILE + LABEL);
+
+    const img = images[i];
+    if (img) {
+      // Cropped to a square from the middle, as the cards show them
+      const side = Math.min(img.width, img.height);
+      ctx.drawImage(img, (img.width - side) / 2, (img.height - side) / 2, side, side, x, y, TILE, TILE);
+    }
+
+    ctx.fillStyle = entry.size.color;
+    ctx.fillRect(x, y + TILE, TILE, 4);
+    ctx.fillStyle = '#334155';
+    ctx.font = 'bold 18px sans-serif';
+    let label = entryLabel(entry);
+    while (label.length > 1 && ctx.measureText(label).width > TILE - 16) label = `${label.slice(0, -2)}…`;
+    ctx.fillText(label, x + 8, y + TILE + LABEL / 2 + 2);
+  });
+
+  return new Promise((resolve, reject) =>
+    canvas.toBlob(blob => (blob ? resolve(blob) : reject(new Error('Could not export the image'))), 'image/png')
+  );
+};
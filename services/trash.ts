@@ -0,0 +1,83 @@
+import { Topic } from '../types';
+import type { TableName, TopicContents, TrashedRows } from './repository';
+
+/** One entry on the Trash screen; rows trashed along with it are folded into `contents`. */
+export interface TrashItem {
+  table: TableName;
+  id: string;
+  name: string;
+  imageUrl: string | null;
+  topicId: string | null;
+  deletedAt: string;
+  contents: TopicContents;
+}
+
+export const DEFAULT_RETENTION_DAYS = 30;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/** Retention choices offered to a topic's owners; 0 keeps trashed items until emptied by hand. */
+export const RETENTION_OPTIONS = [7, 30, 90, 0];
+
+// Rows cached before topics had a retention setting carry none.
+export const retentionDaysOf = (topic: Pick<Topic, 'trash_retention_days'>) =>
+  topic.trash_retention_days ?? DEFAULT_RETENTION_DAYS;
+
+/** When an item trashed at `deletedAt` will be purged, or null if its topic keeps the trash. */
+export const expiresAt = (deletedAt: string, retentionDays: number) =>
+  retentionDays > 0 ? new Date(new Date(deletedAt).getTime() + retentionDays * DAY_MS) : null;
+
+// `deleted_at` comes back from Postgres with its own offset format, so compare instants.
+const sameInstant = (a?: string | null, b?: string | null) =>
+  !!a && !!b && new Date(a).getTime() === new Date(b).getTime();
+
+/**
+ * Groups trashed rows the way they were deleted: a topic carries the categories and
+ * dolls trashed with it, a category the dolls trashed with it. Newest first.
+ */
+export const buildTrashItems = ({ topics, categories, dolls }: TrashedRows): TrashItem[] => {
+  const trashedTopics = new Map(topics.map(t => [t.id, t]));
+  const trashedCategories = new Map(categories.map(c => [c.id, c]));
+
+  const withTopic = (row: { topic_id: string; deleted_at?: string | null }) =>
+    sameInstant(row.deleted_at, trashedTopics.get(row.topic_id)?.deleted_at);
+
+  const items: TrashItem[] = [
+    ...topics.map(topic => ({
+      table: 'topics' as const,
+      id: topic.id,
+      name: topic.name,
+      imageUrl: null,
+      topicId: null,
+      deletedAt: topic.deleted_at!,
+      contents: {
+        categories: categories.filter(withTopic).filter(c => c.topic_id === topic.id).length,
+        dolls: dolls.filter(withTopic).filter(d => d.topic_id === topic.id).length,
+      },
+    })),
+    ...categories.filter(c => !withTopic(c)).map(category => ({
+      table: 'categories' as const,
+      id: category.id,
+      name: category.name,
+      imageUrl: category.image_url || null,
+      topicId: category.topic_id,
+      deletedAt: category.deleted_at!,
+      contents: {
+        categories: 0,
+        dolls: dolls.filter(d => d.category_id === category.id && sameInstant(d.deleted_at, category.deleted_at)).length,
+      },
+    })),
+    ...dolls
+      .filter(d => !withTopic(d) && !(d.category_id && sameInstant(d.deleted_at, trashedCategories.get(d.category_id)?.deleted_at)))
+      .map(doll => ({
+        table: 'dolls' as const,
+        id: doll.id,
+        name: doll.name,
+        imageUrl: doll.image_url || null,
+        topicId: doll.topic_id,
+        deletedAt: doll.deleted_at!,
+        contents: { categories: 0, dolls: 0 },
+      })),
+  ];
+
+  return items.sort((a, b) => new Date(b.deletedAt).getTime() - new Date(a.deletedAt).getTime());
+};
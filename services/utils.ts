@@ -59,4 +59,21 @@ export const compressImage = async (file: File): Promise<File> => {
         
         reader.readAsDataURL(file);
     });
-};
\ No newline at end of file
+};
+
+/**
+ * Merges a realtime change into a list of rows. Upserts replace the row with the
+ * same id or append it; `keep` drops upserted rows that no longer belong in the list.
+ */
+export const applyRowChange = <T extends { id: string }>(
+    rows: T[],
+    change: { type: 'upsert'; row: T } | { type: 'delete'; id: string },
+    keep: (row: T) => boolean = () => true
+): T[] => {
+    if (change.type === 'delete') return rows.filter(r => r.id !== change.id);
+    const others = rows.filter(r => r.id !== change.row.id);
+    if (!keep(change.row)) return others;
+    return rows.some(r => r.id === change.row.id)
+        ? rows.map(r => r.id === change.row.id ? change.row : r)
+        : [...rows, change.row];
+};
@@ -0,0 +1,44 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { ValidationError, parseMembership, parseRows, parseShareLink, parseTopic, validateDollForm } from './validation';
+
+const link = { id: 's1', topic_id: 't1', token: 'abc', hide_catch_dates: false, created_at: '2026-01-01T00:00:00Z' };
+
+afterEach(() => {
+  vi.restoreAllMocks();
+});
+
+describe('parseRows', () => {
+  it('leaves out and logs malformed rows, keeping the rest', () => {
+    const log = vi.spyOn(console, 'error').mockImplementation(() => {});
+    const rows = parseRows([link, { ...link, id: 's2', hide_catch_dates: 'yes' }], parseShareLink);
+    expect(rows.map(row => row.id)).toEqual(['s1']);
+    expect(log).toHaveBeenCalledOnce();
+  });
+
+  it('passes on errors that are not about the row', () => {
+    expect(() => parseRows([link], () => { throw new TypeError('bug'); })).toThrow(TypeError);
+  });
+});
+
+describe('parseMembership', () => {
+  it('reads a known role', () => {
+    expect(parseMembership({ topic_id: 't1', role: 'editor' })).toEqual({ topicId: 't1', role: 'editor' });
+  });
+
+  it('rejects a role the app does not know', () => {
+    expect(() => parseMembership({ topic_id: 't1', role: 'admin' })).toThrow(ValidationError);
+  });
+});
+
+describe('validateDollForm', () => {
+  const topic = parseTopic({ id: 't1', name: 'Sharks', created_at: '2026-01-01T00:00:00Z' });
+
+  it('stores "No category" as null', () => {
+    expect(validateDollForm({ name: 'Orca', sizes: ['normal'], category_id: '' }, topic).category_id).toBeNull();
+    expect(validateDollForm({ name: 'Orca', sizes: ['normal'], category_id: 'c1' }, topic).category_id).toBe('c1');
+  });
+
+  it('rejects a form without a name or a size', () => {
+    expect(() => validateDollForm({ name: ' ', sizes: [] }, topic)).toThrow(ValidationError);
+  });
+});
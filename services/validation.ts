@@ -0,0 +1,494 @@
+import {
+  AcquisitionMethod, Category, ChecklistItem, CustomField, CustomFieldType, CustomValue, Doll,
+  MemberRole, ShareLink, SizeVariant, StorageLocation, Topic, TopicInvite, TopicMember,
+} from '../types';
+import type { FieldChange, TableName } from './repository';
+import type { CategoryWithStats } from './categoryStats';
+import type { TagWithCount } from './tags';
+import { DEFAULT_SIZE_VARIANTS, sizeVariantsOf } from './sizes';
+import { CUSTOM_FIELD_TYPE_LABELS, cleanCustomValues, customFieldsOf, hasOptions, isEmptyValue } from './customFields';
+import { DEFAULT_CURRENCY, currencyOf } from './spending';
+import { cleanCounts } from './trades';
+import { DEFAULT_RETENTION_DAYS } from './trash';
+
+/** One thing wrong with a value, at a dotted path such as `size_variants[1].color`. */
+export interface ValidationIssue {
+  path: string;
+  message: string;
+}
+
+/**
+ * Data that doesn't have the shape the domain types promise: a database row, a submitted
+ * form or an AI answer. Every problem found is listed, not just the first.
+ */
+export class ValidationError extends Error {
+  constructor(readonly entity: string, readonly issues: ValidationIssue[]) {
+    super(`Invalid ${entity}: ${issues.map(issue => `${issue.path} ${issue.message}`).join('; ')}`);
+    this.name = 'ValidationError';
+  }
+}
+
+type Raw = Record<string, unknown>;
+
+const isRecord = (value: unknown): value is Raw => typeof value === 'object' && value !== null && !Array.isArray(value);
+
+/** A real calendar day as YYYY-MM-DD, so "2024-02-30" is out. */
+export const isDateString = (value: unknown): value is string => {
+  if (typeof value !== 'string' || !/^\d{4}-\d{2}-\d{2}$/.test(value)) return false;
+  const date = new Date(`${value}T00:00:00Z`);
+  return !isNaN(date.getTime()) && date.toISOString().startsWith(value);
+};
+
+const isTimestamp = (value: unknown): value is string => typeof value === 'string' && !isNaN(Date.parse(value));
+
+export const isCurrencyCode = (value: unknown): value is string => typeof value === 'string' && /^[A-Z]{3}$/.test(value);
+
+const METHODS: AcquisitionMethod[] = ['crane', 'purchase', 'gift', 'trade'];
+const ROLES: MemberRole[] = ['owner', 'editor', 'viewer'];
+const TABLES: TableName[] = ['topics', 'categories', 'dolls'];
+const FIELD_TYPES = Object.keys(CUSTOM_FIELD_TYPE_LABELS) as CustomFieldType[];
+
+/**
+ * Reads fields off one untrusted value. Problems are collected rather than thrown, and
+ * each reader hands back a usable default so the rest of the value can still be checked.
+ */
+const reader = (raw: unknown, prefix: string, issues: ValidationIssue[]) => {
+  const at = (key: string) => (prefix ? `${prefix}.${key}` : key);
+  const fail = (key: string, message: string) => { issues.push({ path: at(key), message }); };
+  if (!isRecord(raw)) issues.push({ path: prefix || 'value', message: 'must be an object' });
+  const row: Raw = isRecord(raw) ? raw : {};
+  const missing = (key: string) => row[key] === undefined || row[key] === null;
+
+  return {
+    at,
+    fail,
+    row,
+    /** Optional columns are only set when the row has them, so parsed rows equal stored ones. */
+    has: (key: string) => row[key] !== undefined,
+    text(key: string) {
+      if (typeof row[key] === 'string') return row[key] as string;
+      fail(key, 'must be text');
+      return '';
+    },
+    nullableText(key: string) {
+      if (missing(key)) return null;
+      if (typeof row[key] === 'string') return row[key] as string;
+      fail(key, 'must be text');
+      return null;
+    },
+    timestamp(key: string) {
+      if (isTimestamp(row[key])) return row[key] as string;
+      fail(key, 'must be a timestamp');
+      return new Date(0).toISOString();
+    },
+    nullableTimestamp(key: string) {
+      if (missing(key)) return null;
+      if (isTimestamp(row[key])) return row[key] as string;
+      fail(key, 'must be a timestamp');
+      return null;
+    },
+    date(key: string) {
+      if (missing(key)) return null;
+      if (isDateString(row[key])) return row[key] as string;
+      fail(key, 'must be a YYYY-MM-DD date');
+      return null;
+    },
+    /** A whole number of at least zero; Postgres numerics may arrive as strings. */
+    count(key: string) {
+      if (missing(key)) return null;
+      const value = Number(row[key]);
+      if (Number.isInteger(value) && value >= 0) return value;
+      fail(key, 'must be a whole number of at least 0');
+      return null;
+    },
+    amount(key: string) {
+      if (missing(key)) return null;
+      const value = typeof row[key] === 'string' || typeof row[key] === 'number' ? Number(row[key]) : NaN;
+      if (Number.isFinite(value) && value >= 0) return value;
+      fail(key, 'must be an amount of at least 0');
+      return null;
+    },
+    oneOf<T extends string>(key: string, values: readonly T[]) {
+      if (missing(key)) return null;
+      if (values.includes(row[key] as T)) return row[key] as T;
+      fail(key, `must be one of ${values.join(', ')}`);
+      return null;
+    },
+    textList(key: string) {
+      if (missing(key)) return [];
+      const value = row[key];
+      if (Array.isArray(value) && value.every(item => typeof item === 'string')) return value as string[];
+      fail(key, 'must be a list of text');
+      return [];
+    },
+    list<T>(key: string, parseItem: (raw: unknown, path: string) => T) {
+      if (missing(key)) return [];
+      const value = row[key];
+      if (!Array.isArray(value)) {
+        fail(key, 'must be a list');
+        return [];
+      }
+      return value.map((item, i) => parseItem(item, `${at(key)}[${i}]`));
+    },
+    /** Whole-number counts by key, e.g. copies per size variant. */
+    counts(key: string) {
+      if (missing(key)) return {};
+      const value = row[key];
+      if (isRecord(value) && Object.values(value).every(n => Number.isInteger(n) && (n as number) >= 0)) {
+        return value as Record<string, number>;
+      }
+      fail(key, 'must map keys to whole numbers');
+      return {};
+    },
+  };
+};
+
+const finish = <T>(entity: string, issues: ValidationIssue[], value: T): T => {
+  if (issues.length > 0) throw new ValidationError(entity, issues);
+  return value;
+};
+
+const parseSizeVariant = (issues: ValidationIssue[]) => (raw: unknown, path: string): SizeVariant => {
+  const r = reader(raw, path, issues);
+  return { id: r.text('id'), label: r.text('label'), color: r.text('color') };
+};
+
+const parseCustomField = (issues: ValidationIssue[]) => (raw: unknown, path: string): CustomField => {
+  const r = reader(raw, path, issues);
+  const type = r.oneOf('type', FIELD_TYPES) || 'text';
+  return {
+    id: r.text('id'),
+    name: r.text('name'),
+    type,
+    ...(hasOptions(type) ? { options: r.textList('options') } : {}),
+  };
+};
+
+const parseLocation = (issues: ValidationIssue[]) => (raw: unknown, path: string): StorageLocation => {
+  const r = reader(raw, path, issues);
+  return { id: r.text('id'), name: r.text('name'), parent_id: r.nullableText('parent_id') };
+};
+
+const parseChecklistItem = (issues: ValidationIssue[]) => (raw: unknown, path: string): ChecklistItem => {
+  const r = reader(raw, path, issues);
+  return { id: r.text('id'), name: r.text('name'), image_url: r.nullableText('image_url'), sizes: r.textList('sizes') };
+};
+
+/** A topic row. Columns added after it was written get their defaults, e.g. the default sizes. */
+export const parseTopic = (raw: unknown): Topic => {
+  const issues: ValidationIssue[] = [];
+  const r = reader(raw, '', issues);
+  const currency = r.nullableText('currency');
+  if (currency !== null && !isCurrencyCode(currency)) r.fail('currency', 'must be a three-letter currency code');
+  const sizeVariants = r.list('size_variants', parseSizeVariant(issues));
+  const topic: Topic = {
+    id: r.text('id'),
+    name: r.text('name'),
+    currency: currency && isCurrencyCode(currency) ? currency : DEFAULT_CURRENCY,
+    size_variants: sizeVariants.length > 0 ? sizeVariants : DEFAULT_SIZE_VARIANTS,
+    custom_fields: r.list('custom_fields', parseCustomField(issues)),
+    locations: r.list('locations', parseLocation(issues)),
+    trash_retention_days: r.count('trash_retention_days') ?? DEFAULT_RETENTION_DAYS,
+    created_at: r.timestamp('created_at'),
+  };
+  if (r.has('deleted_at')) topic.deleted_at = r.nullableTimestamp('deleted_at');
+  if (r.has('owner_id')) topic.owner_id = r.text('owner_id');
+  return finish('collection', issues, topic);
+};
+
+export const parseCategory = (raw: unknown): Category => {
+  const issues: ValidationIssue[] = [];
+  const r = reader(raw, '', issues);
+  const category: Category = {
+    id: r.text('id'),
+    name: r.text('name'),
+    topic_id: r.text('topic_id'),
+    parent_id: r.nullableText('parent_id'),
+    checklist: r.list('checklist', parseChecklistItem(issues)),
+    created_at: r.timestamp('created_at'),
+  };
+  const imageUrl = r.nullableText('image_url');
+  if (imageUrl) category.image_url = imageUrl;
+  if (r.has('deleted_at')) category.deleted_at = r.nullableTimestamp('deleted_at');
+  if (r.has('owner_id')) category.owner_id = r.text('owner_id');
+  return finish('category', issues, category);
+};
+
+const isCustomValue = (value: unknown): value is CustomValue =>
+  typeof value === 'string' || (typeof value === 'number' && Number.isFinite(value))
+  || (Array.isArray(value) && value.every(item => typeof item === 'string'));
+
+/**
+ * A doll row. Size ids aren't checked against the topic here: a variant removed from the
+ * topic stays on its dolls and is dropped when shown (see `dollSizes`).
+ */
+export const parseDoll = (raw: unknown): Doll => {
+  const issues: ValidationIssue[] = [];
+  const r = reader(raw, '', issues);
+  const customValues = isRecord(r.row.custom_values) ? r.row.custom_values : {};
+  if (r.row.custom_values !== undefined && r.row.custom_values !== null && !isRecord(r.row.custom_values)) {
+    r.fail('custom_values', 'must map field ids to values');
+  }
+  Object.entries(customValues).forEach(([id, value]) => {
+    if (!isCustomValue(value)) r.fail(`custom_values.${id}`, 'must be text, a number or a list of text');
+  });
+  const currency = r.nullableText('currency');
+  if (currency !== null && !isCurrencyCode(currency)) r.fail('currency', 'must be a three-letter currency code');
+  const imageUrl = r.text('image_url');
+  const photos = r.textList('photos');
+
+  const doll: Doll = {
+    id: r.text('id'),
+    name: r.text('name'),
+    description: r.nullableText('description'),
+    sizes: r.textList('sizes'),
+    quantities: r.counts('quantities'),
+    for_trade: r.counts('for_trade'),
+    custom_values: customValues as Record<string, CustomValue>,
+    tags: r.textList('tags'),
+    category_id: r.nullableText('category_id'),
+    topic_id: r.text('topic_id'),
+    catch_date: r.date('catch_date'),
+    method: r.oneOf('method', METHODS),
+    tries: r.count('tries'),
+    cost: r.amount('cost'),
+    currency,
+    venue: r.nullableText('venue'),
+    image_url: imageUrl,
+    // Rows from before dolls had several photos only have their cover
+    photos: photos.length > 0 ? photos : imageUrl ? [imageUrl] : [],
+    checklist_item: r.nullableText('checklist_item'),
+    location_id: r.nullableText('location_id'),
+    created_at: r.timestamp('created_at'),
+  };
+  if (r.has('deleted_at')) doll.deleted_at = r.nullableTimestamp('deleted_at');
+  if (r.has('owner_id')) doll.owner_id = r.text('owner_id');
+  if (r.has('added_by')) doll.added_by = r.nullableText('added_by');
+  return finish('doll', issues, doll);
+};
+
+// `oneOf` for a column that can't be empty; `fallback` only stands in while issues are collected.
+const requiredOneOf = <T extends string>(r: ReturnType<typeof reader>, key: string, values: readonly T[], fallback: T) => {
+  if (r.row[key] === undefined || r.row[key] === null) r.fail(key, `must be one of ${values.join(', ')}`);
+  return r.oneOf(key, values) ?? fallback;
+};
+
+const role = (r: ReturnType<typeof reader>) => requiredOneOf(r, 'role', ROLES, 'viewer');
+
+/** A category_stats row: the category and the aggregates the category grid shows. */
+export const parseCategoryStats = (raw: unknown): CategoryWithStats => {
+  const issues: ValidationIssue[] = [];
+  const r = reader(raw, '', issues);
+  const stats = {
+    count: r.count('doll_count') ?? 0,
+    latestCatchDate: r.date('latest_catch_date'),
+    sampleImageUrl: r.nullableText('sample_image_url'),
+    checklistOwned: r.count('checklist_owned') ?? 0,
+  };
+  // The category's own columns are checked, and reported, as a category
+  return { category: parseCategory(raw), ...finish('category stats', issues, stats) };
+};
+
+export const parseTagWithCount = (raw: unknown): TagWithCount => {
+  const issues: ValidationIssue[] = [];
+  const r = reader(raw, '', issues);
+  return finish('tag', issues, { name: r.text('name'), count: r.count('doll_count') ?? 0 });
+};
+
+/** A change_log row; its id is a bigint, which may arrive as a number. */
+export const parseFieldChange = (raw: unknown): FieldChange => {
+  const issues: ValidationIssue[] = [];
+  const r = reader(raw, '', issues);
+  const id = r.row.id;
+  if (typeof id !== 'string' && typeof id !== 'number') r.fail('id', 'must be text or a number');
+  const change: FieldChange = {
+    id: String(id ?? ''),
+    table: requiredOneOf(r, 'table_name', TABLES, 'dolls'),
+    row_id: r.text('row_id'),
+    field: r.nullableText('field'),
+    old_value: r.row.old_value ?? null,
+    new_value: r.row.new_value ?? null,
+    actor: r.nullableText('actor'),
+    changed_at: r.timestamp('changed_at'),
+  };
+  return finish('change', issues, change);
+};
+
+export const parseShareLink = (raw: unknown): ShareLink => {
+  const issues: ValidationIssue[] = [];
+  const r = reader(raw, '', issues);
+  const hideCatchDates = r.row.hide_catch_dates;
+  if (typeof hideCatchDates !== 'boolean') r.fail('hide_catch_dates', 'must be true or false');
+  const link: ShareLink = {
+    id: r.text('id'),
+    topic_id: r.text('topic_id'),
+    token: r.text('token'),
+    hide_catch_dates: hideCatchDates === true,
+    created_at: r.timestamp('created_at'),
+  };
+  if (r.has('owner_id')) link.owner_id = r.text('owner_id');
+  return finish('share link', issues, link);
+};
+
+/** The account's own topic_members row, as the topic and the role it has there. */
+export const parseMembership = (raw: unknown): { topicId: string; role: MemberRole } => {
+  const issues: ValidationIssue[] = [];
+  const r = reader(raw, '', issues);
+  return finish('membership', issues, { topicId: r.text('topic_id'), role: role(r) });
+};
+
+export const parseTopicMember = (raw: unknown): TopicMember => {
+  const issues: ValidationIssue[] = [];
+  const r = reader(raw, '', issues);
+  return finish('member', issues, {
+    topic_id: r.text('topic_id'),
+    user_id: r.text('user_id'),
+    role: role(r),
+    display_name: r.nullableText('display_name') ?? '',
+    email: r.nullableText('email') ?? '',
+    created_at: r.timestamp('created_at'),
+  });
+};
+
+export const parseTopicInvite = (raw: unknown): TopicInvite => {
+  const issues: ValidationIssue[] = [];
+  const r = reader(raw, '', issues);
+  return finish('invite', issues, {
+    id: r.text('id'),
+    topic_id: r.text('topic_id'),
+    topic_name: r.nullableText('topic_name') ?? '',
+    email: r.text('email'),
+    role: role(r),
+    invited_by: r.nullableText('invited_by'),
+    created_at: r.timestamp('created_at'),
+  });
+};
+
+/**
+ * The valid rows of a query result. A malformed row is logged with what is wrong with it
+ * and left out, so one bad row doesn't empty the whole list.
+ */
+export const parseRows = <T>(rows: unknown[] | null, parse: (raw: unknown) => T): T[] =>
+  (rows || []).flatMap(row => {
+    try {
+      return [parse(row)];
+    } catch (err) {
+      if (!(err instanceof ValidationError)) throw err;
+      console.error('Skipped a malformed row:', err);
+      return [];
+    }
+  });
+
+/** What the add and edit forms hold for the fields a person types or picks. */
+export interface DollFormValues {
+  name?: string;
+  description?: string | null;
+  /** '' while the picker is on "No category". */
+  category_id?: string | null;
+  sizes?: string[];
+  quantities?: Record<string, number>;
+  for_trade?: Record<string, number>;
+  custom_values?: Record<string, CustomValue>;
+  tags?: string[];
+  catch_date?: string | null;
+  method?: AcquisitionMethod | null;
+  tries?: number | null;
+  cost?: number | null;
+  currency?: string | null;
+  venue?: string | null;
+}
+
+export type ValidDollForm = Pick<Doll,
+  'name' | 'description' | 'category_id' | 'sizes' | 'quantities' | 'for_trade' | 'custom_values' | 'tags' |
+  'catch_date' | 'method' | 'tries' | 'cost' | 'currency' | 'venue'>;
+
+/**
+ * A submitted doll form checked against its topic: a name, at least one of the topic's
+ * sizes, a real catch date, sensible amounts and custom values that fit their fields.
+ * Returns the values as stored: trimmed, in the topic's order, blanks left out.
+ */
+export const validateDollForm = (form: DollFormValues, topic: Topic): ValidDollForm => {
+  const issues: ValidationIssue[] = [];
+  const fail = (path: string, message: string) => { issues.push({ path, message }); };
+  const variants = sizeVariantsOf(topic);
+
+  const name = (form.name || '').trim();
+  if (!name) fail('name', 'Give the doll a name.');
+
+  const sizes = form.sizes || [];
+  if (sizes.length === 0) fail('sizes', 'Choose at least one size.');
+  sizes.filter(id => !variants.some(v => v.id === id))
+    .forEach(id => fail('sizes', `"${id}" isn't one of this collection's sizes.`));
+  const orderedSizes = variants.filter(v => sizes.includes(v.id)).map(v => v.id);
+
+  const catchDate = form.catch_date || null;
+  if (catchDate !== null && !isDateString(catchDate)) fail('catch_date', "The catch date isn't a real date.");
+
+  if (form.method && !METHODS.includes(form.method)) fail('method', `"${form.method}" isn't a way of getting a doll.`);
+  if (form.tries != null && !(Number.isInteger(form.tries) && form.tries >= 0)) fail('tries', 'Tries must be a whole number.');
+  if (form.cost != null && !(Number.isFinite(form.cost) && form.cost >= 0)) fail('cost', "The amount spent can't be negative.");
+  const currency = form.currency || currencyOf(topic);
+  if (!isCurrencyCode(currency)) fail('currency', `"${currency}" isn't a currency code.`);
+
+  // Options are only offered from the field, so only typed values can be off
+  const fields = customFieldsOf(topic);
+  fields.forEach(field => {
+    const value = form.custom_values?.[field.id];
+    if (isEmptyValue(value) || (typeof value === 'string' && !value.trim())) return;
+    const path = `custom_values.${field.id}`;
+    if (field.type === 'number' && !Number.isFinite(Number(value))) fail(path, `${field.name} must be a number.`);
+    if (field.type === 'date' && !isDateString(String(value).trim())) fail(path, `${field.name} isn't a real date.`);
+  });
+
+  return finish('doll', issues, {
+    name,
+    description: form.description == null ? null : form.description.trim(),
+    category_id: form.category_id || null,
+    sizes: orderedSizes,
+    ...cleanCounts({ sizes: orderedSizes, quantities: form.quantities || {}, for_trade: form.for_trade || {} }),
+    custom_values: cleanCustomValues(fields, form.custom_values),
+    tags: form.tags || [],
+    catch_date: catchDate,
+    method: form.method || null,
+    tries: form.tries ?? null,
+    cost: form.cost ?? null,
+    currency,
+    venue: form.venue?.trim() || null,
+  });
+};
+
+/** What the AI makes of a doll photo. */
+export interface DollIdentification {
+  name: string;
+  description: string;
+  /** Labels of the topic's size variants, as offered in the prompt. */
+  sizes: string[];
+}
+
+/**
+ * The AI's answer to `identifyDoll`. Sizes it made up are dropped rather than rejected,
+ * since the rest of the answer is still useful; anything not shaped like the schema is an error.
+ */
+export const parseIdentification = (raw: unknown, sizeLabels: string[]): DollIdentification => {
+  const issues: ValidationIssue[] = [];
+  const r = reader(raw, '', issues);
+  const wanted = sizeLabels.map(label => label.toLowerCase());
+  const identification = {
+    name: r.text('name').trim(),
+    description: (r.nullableText('description') || '').trim(),
+    sizes: r.textList('sizes').filter(label => wanted.includes(label.trim().toLowerCase())),
+  };
+  return finish('AI answer', issues, identification);
+};
+
+/** The AI's answer to `suggestCategory`. */
+export const parseCategorySuggestion = (raw: unknown) => {
+  const issues: ValidationIssue[] = [];
+  const r = reader(raw, '', issues);
+  const category = r.text('category').trim();
+  if (!category && issues.length === 0) r.fail('category', 'must not be empty');
+  return finish('AI answer', issues, category);
+};
+
+/** The issues as lines to show a person, e.g. in an alert after submitting a form. */
+export const describeIssues = (error: ValidationError) => error.issues.map(issue => issue.message).join('\n');
@@ -0,0 +1,2 @@
+-- Publish row changes so clients can subscribe to live updates.
+alter publication supabase_realtime add table public.topics, public.categories, public.dolls;
@@ -0,0 +1,4 @@
+-- Keyset pagination for the doll grid orders by (created_at, id) or (name, id) within a topic.
+create index if not exists dolls_topic_created_idx on public.dolls (topic_id, created_at, id);
+create index if not exists dolls_topic_name_idx on public.dolls (topic_id, name, id);
+create index if not exists dolls_category_idx on public.dolls (category_id);
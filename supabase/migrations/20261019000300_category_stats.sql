@@ -0,0 +1,18 @@
+-- Every category with its doll count, latest catch date and a sample thumbnail,
+-- so the category grid renders from a single query.
+create or replace view public.category_stats
+with (security_invoker = true) as
+select
+  c.*,
+  count(d.id)::int as doll_count,
+  max(d.catch_date) as latest_catch_date,
+  (
+    select s.image_url
+    from public.dolls s
+    where s.category_id = c.id
+    order by s.created_at desc
+    limit 1
+  ) as sample_image_url
+from public.categories c
+left join public.dolls d on d.category_id = c.id
+group by c.id;
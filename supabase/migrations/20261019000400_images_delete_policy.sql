@@ -0,0 +1,8 @@
+-- Let the app remove files from the images bucket when the row that owned them goes away.
+-- Only a signed-in uploader may delete, and only their own files: the anon key ships with
+-- the app, so a policy without an owner check would let anyone empty the bucket. Files
+-- uploaded anonymously have no owner and are left for the orphan sweep.
+create policy "images are deletable"
+  on storage.objects for delete
+  to authenticated
+  using (bucket_id = 'images' and owner_id = auth.uid()::text);
@@ -0,0 +1,61 @@
+-- Deleting a category or topic with an explicit choice for what it contains.
+-- Both run as one transaction and return the image URLs of every deleted row,
+-- so the client can remove those files from storage.
+
+create or replace function public.delete_category(
+  p_category_id uuid,
+  p_dolls text,
+  p_target_category_id uuid default null
+) returns setof text
+language plpgsql
+security invoker
+as $$
+begin
+  if p_dolls = 'move' then
+    if not exists (
+      select 1
+      from public.categories source
+      join public.categories target on target.topic_id = source.topic_id
+      where source.id = p_category_id and target.id = p_target_category_id and target.id <> source.id
+    ) then
+      raise exception 'Target category must be another category in the same collection';
+    end if;
+    update public.dolls set category_id = p_target_category_id where category_id = p_category_id;
+  elsif p_dolls = 'uncategorize' then
+    update public.dolls set category_id = null where category_id = p_category_id;
+  elsif p_dolls = 'delete' then
+    return query delete from public.dolls where category_id = p_category_id returning image_url;
+  else
+    raise exception 'Unknown dolls action: %', p_dolls;
+  end if;
+
+  return query delete from public.categories where id = p_category_id returning image_url;
+end;
+$$;
+
+create or replace function public.delete_topic(
+  p_topic_id uuid,
+  p_contents text,
+  p_target_topic_id uuid default null
+) returns setof text
+language plpgsql
+security invoker
+as $$
+begin
+  if p_contents = 'move' then
+    if p_target_topic_id is null or p_target_topic_id = p_topic_id
+       or not exists (select 1 from public.topics where id = p_target_topic_id) then
+      raise exception 'Target collection must be another existing collection';
+    end if;
+    update public.categories set topic_id = p_target_topic_id where topic_id = p_topic_id;
+    update public.dolls set topic_id = p_target_topic_id where topic_id = p_topic_id;
+  elsif p_contents = 'delete' then
+    return query delete from public.dolls where topic_id = p_topic_id returning image_url;
+    return query delete from public.categories where topic_id = p_topic_id returning image_url;
+  else
+    raise exception 'Unknown contents action: %', p_contents;
+  end if;
+
+  delete from public.topics where id = p_topic_id;
+end;
+$$;
@@ -0,0 +1,190 @@
+-- Soft deletion. Deleting a doll, category or topic stamps `deleted_at` instead of
+-- removing the row; everything trashed by one delete shares the same timestamp, which
+-- is how restore and purge find the rows that belong together.
+
+alter table public.topics add column if not exists deleted_at timestamptz;
+alter table public.categories add column if not exists deleted_at timestamptz;
+alter table public.dolls add column if not exists deleted_at timestamptz;
+
+create index if not exists topics_trash_idx on public.topics (deleted_at) where deleted_at is not null;
+create index if not exists categories_trash_idx on public.categories (deleted_at) where deleted_at is not null;
+create index if not exists dolls_trash_idx on public.dolls (deleted_at) where deleted_at is not null;
+
+-- `c.*` gains a column, so the view is recreated rather than replaced.
+drop view if exists public.category_stats;
+create view public.category_stats
+with (security_invoker = true) as
+select
+  c.*,
+  count(d.id)::int as doll_count,
+  max(d.catch_date) as latest_catch_date,
+  (
+    select s.image_url
+    from public.dolls s
+    where s.category_id = c.id and s.deleted_at is null
+    order by s.created_at desc
+    limit 1
+  ) as sample_image_url
+from public.categories c
+left join public.dolls d on d.category_id = c.id and d.deleted_at is null
+where c.deleted_at is null
+group by c.id;
+
+-- The delete functions now move rows to the trash; images stay until the rows are purged.
+drop function if exists public.delete_category(uuid, text, uuid);
+drop function if exists public.delete_topic(uuid, text, uuid);
+
+create function public.delete_category(
+  p_category_id uuid,
+  p_dolls text,
+  p_target_category_id uuid default null
+) returns void
+language plpgsql
+security invoker
+as $$
+declare
+  v_now timestamptz := now();
+begin
+  if p_dolls = 'move' then
+    if not exists (
+      select 1
+      from public.categories source
+      join public.categories target on target.topic_id = source.topic_id
+      where source.id = p_category_id and target.id = p_target_category_id
+        and target.id <> source.id and target.deleted_at is null
+    ) then
+      raise exception 'Target category must be another category in the same collection';
+    end if;
+    update public.dolls set category_id = p_target_category_id where category_id = p_category_id and deleted_at is null;
+  elsif p_dolls = 'uncategorize' then
+    update public.dolls set category_id = null where category_id = p_category_id and deleted_at is null;
+  elsif p_dolls = 'delete' then
+    update public.dolls set deleted_at = v_now where category_id = p_category_id and deleted_at is null;
+  else
+    raise exception 'Unknown dolls action: %', p_dolls;
+  end if;
+
+  update public.categories set deleted_at = v_now where id = p_category_id and deleted_at is null;
+end;
+$$;
+
+create function public.delete_topic(
+  p_topic_id uuid,
+  p_contents text,
+  p_target_topic_id uuid default null
+) returns void
+language plpgsql
+security invoker
+as $$
+declare
+  v_now timestamptz := now();
+begin
+  if p_contents = 'move' then
+    if p_target_topic_id is null or p_target_topic_id = p_topic_id
+       or not exists (select 1 from public.topics where id = p_target_topic_id and deleted_at is null) then
+      raise exception 'Target collection must be another existing collection';
+    end if;
+    update public.categories set topic_id = p_target_topic_id where topic_id = p_topic_id;
+    update public.dolls set topic_id = p_target_topic_id where topic_id = p_topic_id;
+  elsif p_contents = 'delete' then
+    update public.dolls set deleted_at = v_now where topic_id = p_topic_id and deleted_at is null;
+    update public.categories set deleted_at = v_now where topic_id = p_topic_id and deleted_at is null;
+  else
+    raise exception 'Unknown contents action: %', p_contents;
+  end if;
+
+  update public.topics set deleted_at = v_now where id = p_topic_id and deleted_at is null;
+end;
+$$;
+
+-- Brings a trashed row back together with everything trashed in the same delete.
+-- A doll or category also brings back its collection; a doll whose category is
+-- still in the trash comes back uncategorized.
+create or replace function public.restore_from_trash(p_table text, p_id uuid)
+returns void
+language plpgsql
+security invoker
+as $$
+declare
+  v_deleted_at timestamptz;
+  v_topic_id uuid;
+  v_category_id uuid;
+begin
+  if p_table = 'topics' then
+    select deleted_at into v_deleted_at from public.topics where id = p_id;
+    if v_deleted_at is null then return; end if;
+    update public.dolls set deleted_at = null where topic_id = p_id and deleted_at = v_deleted_at;
+    update public.categories set deleted_at = null where topic_id = p_id and deleted_at = v_deleted_at;
+    update public.topics set deleted_at = null where id = p_id;
+  elsif p_table = 'categories' then
+    select deleted_at, topic_id into v_deleted_at, v_topic_id from public.categories where id = p_id;
+    if v_deleted_at is null then return; end if;
+    update public.dolls set deleted_at = null where category_id = p_id and deleted_at = v_deleted_at;
+    update public.categories set deleted_at = null where id = p_id;
+    update public.topics set deleted_at = null where id = v_topic_id and deleted_at is not null;
+  elsif p_table = 'dolls' then
+    select deleted_at, topic_id, category_id into v_deleted_at, v_topic_id, v_category_id from public.dolls where id = p_id;
+    if v_deleted_at is null then return; end if;
+    update public.dolls
+    set deleted_at = null,
+        category_id = case
+          when exists (select 1 from public.categories where id = v_category_id and deleted_at is null) then v_category_id
+        end
+    where id = p_id;
+    update public.topics set deleted_at = null where id = v_topic_id and deleted_at is not null;
+  else
+    raise exception 'Unknown table: %', p_table;
+  end if;
+end;
+$$;
+
+-- Deletes a trashed row for good, with everything trashed in the same delete.
+-- Returns the image URLs of the deleted rows so the client can remove the files.
+create or replace function public.purge_from_trash(p_table text, p_id uuid)
+returns setof text
+language plpgsql
+security invoker
+as $$
+declare
+  v_deleted_at timestamptz;
+begin
+  if p_table = 'topics' then
+    select deleted_at into v_deleted_at from public.topics where id = p_id;
+    if v_deleted_at is null then return; end if;
+    return query delete from public.dolls where topic_id = p_id returning image_url;
+    return query delete from public.categories where topic_id = p_id returning image_url;
+    delete from public.topics where id = p_id;
+  elsif p_table = 'categories' then
+    select deleted_at into v_deleted_at from public.categories where id = p_id;
+    if v_deleted_at is null then return; end if;
+    return query delete from public.dolls where category_id = p_id and deleted_at = v_deleted_at returning image_url;
+    update public.dolls set category_id = null where category_id = p_id;
+    return query delete from public.categories where id = p_id returning image_url;
+  elsif p_table = 'dolls' then
+    return query delete from public.dolls where id = p_id and deleted_at is not null returning image_url;
+  else
+    raise exception 'Unknown table: %', p_table;
+  end if;
+end;
+$$;
+
+-- Permanently deletes everything trashed before the cutoff (the retention purge).
+create or replace function public.purge_trash_before(p_cutoff timestamptz)
+returns setof text
+language plpgsql
+security invoker
+as $$
+begin
+  return query delete from public.dolls
+    where deleted_at < p_cutoff
+       or topic_id in (select id from public.topics where deleted_at < p_cutoff)
+    returning image_url;
+  update public.dolls set category_id = null
+    where category_id in (select id from public.categories where deleted_at < p_cutoff);
+  return query delete from public.categories
+    where deleted_at < p_cutoff
+       or topic_id in (select id from public.topics where deleted_at < p_cutoff)
+    returning image_url;
+  delete from public.topics where deleted_at < p_cutoff;
+end;
+$$;
@@ -0,0 +1,77 @@
+-- Field-level audit trail. Triggers record every change to a doll, and renames of
+-- categories and topics, whichever client made them.
+
+create table if not exists public.change_log (
+  id bigint generated always as identity primary key,
+  table_name text not null,
+  row_id uuid not null,
+  field text, -- null: the row was created
+  old_value jsonb,
+  new_value jsonb,
+  actor text,
+  changed_at timestamptz not null default now()
+);
+
+create index if not exists change_log_row_idx on public.change_log (table_name, row_id, changed_at desc);
+
+-- Written only by the trigger below.
+alter table public.change_log enable row level security;
+create policy "change log is readable" on public.change_log for select using (true);
+
+-- Who made the change, from the request's verified JWT: the signed-in user's email, else
+-- their id. Nothing else the client sends, such as a header, is trusted to name the actor,
+-- so anonymous changes go unattributed.
+create or replace function public.request_actor()
+returns text
+language sql
+stable
+as $$
+  select coalesce(
+    nullif(auth.jwt() ->> 'email', ''),
+    auth.uid()::text
+  );
+$$;
+
+-- Trigger arguments, when given, limit the log to those columns.
+create or replace function public.log_row_changes()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_old jsonb;
+  v_new jsonb := to_jsonb(new);
+  v_key text;
+  v_actor text := public.request_actor();
+begin
+  if tg_op = 'INSERT' then
+    insert into public.change_log (table_name, row_id, field, actor)
+    values (tg_table_name, new.id, null, v_actor);
+    return new;
+  end if;
+
+  v_old := to_jsonb(old);
+  for v_key in select jsonb_object_keys(v_new) loop
+    continue when v_key in ('id', 'created_at');
+    continue when tg_nargs > 0 and not v_key = any(tg_argv);
+    if v_old -> v_key is distinct from v_new -> v_key then
+      insert into public.change_log (table_name, row_id, field, old_value, new_value, actor)
+      values (tg_table_name, new.id, v_key, v_old -> v_key, v_new -> v_key, v_actor);
+    end if;
+  end loop;
+  return new;
+end;
+$$;
+
+create trigger dolls_change_log
+  after insert or update on public.dolls
+  for each row execute function public.log_row_changes();
+
+create trigger categories_change_log
+  after update of name on public.categories
+  for each row execute function public.log_row_changes('name');
+
+create trigger topics_change_log
+  after update of name on public.topics
+  for each row execute function public.log_row_changes('name');
@@ -0,0 +1,106 @@
+-- Per-user collections. Every row belongs to the account that created it and
+-- row-level security limits each account to its own rows and image files.
+--
+-- Rows created before this migration have no owner and are hidden from everyone;
+-- assign them with e.g. `update public.topics set owner_id = '<user id>' where owner_id is null;`
+-- (likewise for categories, dolls and change_log).
+
+alter table public.topics add column if not exists owner_id uuid references auth.users on delete cascade default auth.uid();
+alter table public.categories add column if not exists owner_id uuid references auth.users on delete cascade default auth.uid();
+alter table public.dolls add column if not exists owner_id uuid references auth.users on delete cascade default auth.uid();
+alter table public.change_log add column if not exists owner_id uuid references auth.users on delete cascade;
+
+create index if not exists topics_owner_idx on public.topics (owner_id);
+create index if not exists categories_owner_idx on public.categories (owner_id);
+create index if not exists dolls_owner_idx on public.dolls (owner_id);
+
+alter table public.topics enable row level security;
+alter table public.categories enable row level security;
+alter table public.dolls enable row level security;
+
+create policy "owners manage their topics" on public.topics
+  for all to authenticated
+  using (owner_id = auth.uid())
+  with check (owner_id = auth.uid());
+
+-- Categories and dolls may only point at the owner's own topic.
+create policy "owners manage their categories" on public.categories
+  for all to authenticated
+  using (owner_id = auth.uid())
+  with check (
+    owner_id = auth.uid()
+    and exists (select 1 from public.topics t where t.id = topic_id and t.owner_id = auth.uid())
+  );
+
+create policy "owners manage their dolls" on public.dolls
+  for all to authenticated
+  using (owner_id = auth.uid())
+  with check (
+    owner_id = auth.uid()
+    and exists (select 1 from public.topics t where t.id = topic_id and t.owner_id = auth.uid())
+  );
+
+drop policy if exists "change log is readable" on public.change_log;
+create policy "owners read their change log" on public.change_log
+  for select to authenticated
+  using (owner_id = auth.uid());
+
+-- Edits are attributed to the account's display name, falling back to its email.
+create or replace function public.request_actor()
+returns text
+language sql
+stable
+as $$
+  select coalesce(
+    nullif(auth.jwt() -> 'user_metadata' ->> 'display_name', ''),
+    nullif(auth.jwt() ->> 'email', '')
+  );
+$$;
+
+create or replace function public.log_row_changes()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_old jsonb;
+  v_new jsonb := to_jsonb(new);
+  v_key text;
+  v_actor text := public.request_actor();
+  v_owner uuid := (v_new ->> 'owner_id')::uuid;
+begin
+  if tg_op = 'INSERT' then
+    insert into public.change_log (table_name, row_id, field, actor, owner_id)
+    values (tg_table_name, new.id, null, v_actor, v_owner);
+    return new;
+  end if;
+
+  v_old := to_jsonb(old);
+  for v_key in select jsonb_object_keys(v_new) loop
+    continue when v_key in ('id', 'created_at', 'owner_id');
+    continue when tg_nargs > 0 and not v_key = any(tg_argv);
+    if v_old -> v_key is distinct from v_new -> v_key then
+      insert into public.change_log (table_name, row_id, field, old_value, new_value, actor, owner_id)
+      values (tg_table_name, new.id, v_key, v_old -> v_key, v_new -> v_key, v_actor, v_owner);
+    end if;
+  end loop;
+  return new;
+end;
+$$;
+
+-- Image files live under a folder named after the owner's user id. The bucket stays
+-- public for reads so stored image URLs keep working; listing, upload and delete are per owner.
+drop policy if exists "images are deletable" on storage.objects;
+
+create policy "owners upload images to their folder" on storage.objects
+  for insert to authenticated
+  with check (bucket_id = 'images' and (storage.foldername(name))[1] = auth.uid()::text);
+
+create policy "owners list their images" on storage.objects
+  for select to authenticated
+  using (bucket_id = 'images' and owner_id = auth.uid()::text);
+
+create policy "owners delete their images" on storage.objects
+  for delete to authenticated
+  using (bucket_id = 'images' and owner_id = auth.uid()::text);
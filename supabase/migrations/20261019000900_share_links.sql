@@ -0,0 +1,74 @@
+-- Read-only share links. Whoever holds a link's token can view that topic's categories
+-- and dolls without an account; revoking deletes the link, rotating replaces its token.
+
+create table if not exists public.share_links (
+  id uuid primary key default gen_random_uuid(),
+  topic_id uuid not null references public.topics on delete cascade,
+  token text not null unique,
+  hide_catch_dates boolean not null default false,
+  created_at timestamptz not null default now(),
+  owner_id uuid references auth.users on delete cascade default auth.uid()
+);
+
+create index if not exists share_links_topic_idx on public.share_links (topic_id);
+
+alter table public.share_links enable row level security;
+
+create policy "owners manage their share links" on public.share_links
+  for all to authenticated
+  using (owner_id = auth.uid())
+  with check (
+    owner_id = auth.uid()
+    and exists (select 1 from public.topics t where t.id = topic_id and t.owner_id = auth.uid())
+  );
+
+-- Everything a shared page shows, in one call. Runs as the definer so visitors need no
+-- access to the tables themselves; trashed rows are left out, and catch dates are
+-- blanked when the link hides them. Returns null for unknown or revoked tokens.
+create or replace function public.shared_collection(p_token text)
+returns jsonb
+language plpgsql
+stable
+security definer
+set search_path = public
+as $$
+declare
+  v_link public.share_links;
+  v_topic public.topics;
+begin
+  select * into v_link from public.share_links where token = p_token;
+  if not found then
+    return null;
+  end if;
+
+  select * into v_topic from public.topics where id = v_link.topic_id and deleted_at is null;
+  if not found then
+    return null;
+  end if;
+
+  return jsonb_build_object(
+    'topic', jsonb_build_object('id', v_topic.id, 'name', v_topic.name, 'created_at', v_topic.created_at),
+    'hide_catch_dates', v_link.hide_catch_dates,
+    'categories', coalesce((
+      select jsonb_agg(jsonb_build_object(
+        'id', c.id, 'name', c.name, 'topic_id', c.topic_id, 'image_url', c.image_url, 'created_at', c.created_at
+      ) order by c.name)
+      from public.categories c
+      where c.topic_id = v_topic.id and c.deleted_at is null
+    ), '[]'::jsonb),
+    'dolls', coalesce((
+      select jsonb_agg(jsonb_build_object(
+        'id', d.id, 'name', d.name, 'description', d.description, 'size', d.size,
+        'category_id', d.category_id, 'topic_id', d.topic_id,
+        'catch_date', case when v_link.hide_catch_dates then null else d.catch_date end,
+        'image_url', d.image_url, 'created_at', d.created_at
+      ))
+      from public.dolls d
+      where d.topic_id = v_topic.id and d.deleted_at is null
+    ), '[]'::jsonb)
+  );
+end;
+$$;
+
+revoke all on function public.shared_collection(text) from public;
+grant execute on function public.shared_collection(text) to anon, authenticated;
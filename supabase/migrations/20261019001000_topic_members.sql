@@ -0,0 +1,262 @@
+-- Shared collections. Access to a topic and everything in it now comes from membership
+-- instead of row ownership: owners manage the topic and its members, editors add, edit
+-- and delete categories and dolls, viewers only look. People join by accepting an
+-- invite addressed to their email.
+
+create table if not exists public.topic_members (
+  topic_id uuid not null references public.topics on delete cascade,
+  user_id uuid not null references auth.users on delete cascade,
+  role text not null check (role in ('owner', 'editor', 'viewer')),
+  -- Copied from the account on joining; other members can't read auth.users.
+  display_name text not null default '',
+  email text not null default '',
+  created_at timestamptz not null default now(),
+  primary key (topic_id, user_id)
+);
+
+create index if not exists topic_members_user_idx on public.topic_members (user_id);
+
+create table if not exists public.topic_invites (
+  id uuid primary key default gen_random_uuid(),
+  topic_id uuid not null references public.topics on delete cascade,
+  email text not null,
+  role text not null check (role in ('owner', 'editor', 'viewer')),
+  -- Filled in by a trigger, so the invitee sees them before they can read the topic.
+  topic_name text not null default '',
+  invited_by text,
+  created_at timestamptz not null default now(),
+  unique (topic_id, email)
+);
+
+-- Existing topics: whoever owned the rows becomes the owner member.
+insert into public.topic_members (topic_id, user_id, role, display_name, email)
+select t.id, t.owner_id, 'owner', coalesce(u.raw_user_meta_data ->> 'display_name', ''), coalesce(u.email, '')
+from public.topics t
+join auth.users u on u.id = t.owner_id
+on conflict do nothing;
+
+-- Which member added each doll.
+alter table public.dolls add column if not exists added_by uuid references auth.users on delete set null default auth.uid();
+update public.dolls set added_by = owner_id where added_by is null;
+
+-- The signed-in account's role in a topic, or null. Security definer so the policies
+-- on topic_members can use it without recursing into themselves.
+create or replace function public.topic_role(p_topic_id uuid)
+returns text
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select role from public.topic_members where topic_id = p_topic_id and user_id = auth.uid();
+$$;
+
+create or replace function public.add_topic_owner()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  if auth.uid() is not null then
+    insert into public.topic_members (topic_id, user_id, role, display_name, email)
+    values (
+      new.id, auth.uid(), 'owner',
+      coalesce(auth.jwt() -> 'user_metadata' ->> 'display_name', ''),
+      coalesce(auth.jwt() ->> 'email', '')
+    );
+  end if;
+  return new;
+end;
+$$;
+
+drop trigger if exists topics_add_owner on public.topics;
+create trigger topics_add_owner after insert on public.topics
+  for each row execute function public.add_topic_owner();
+
+-- A topic always keeps at least one owner. Deleting the topic itself is fine.
+create or replace function public.keep_an_owner()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  if old.role = 'owner'
+    and (tg_op = 'DELETE' or new.role <> 'owner')
+    and exists (select 1 from public.topics where id = old.topic_id)
+    and not exists (
+      select 1 from public.topic_members
+      where topic_id = old.topic_id and role = 'owner' and user_id <> old.user_id
+    )
+  then
+    raise exception 'A collection needs at least one owner';
+  end if;
+  return coalesce(new, old);
+end;
+$$;
+
+drop trigger if exists topic_members_keep_owner on public.topic_members;
+create trigger topic_members_keep_owner before update or delete on public.topic_members
+  for each row execute function public.keep_an_owner();
+
+create or replace function public.fill_invite()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  new.email := lower(trim(new.email));
+  new.topic_name := (select name from public.topics where id = new.topic_id);
+  new.invited_by := public.request_actor();
+  return new;
+end;
+$$;
+
+drop trigger if exists topic_invites_fill on public.topic_invites;
+create trigger topic_invites_fill before insert on public.topic_invites
+  for each row execute function public.fill_invite();
+
+-- Joins the topic with the invite's role. Only works for the account the invite is addressed to.
+create or replace function public.accept_invite(p_invite_id uuid)
+returns uuid
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_invite public.topic_invites;
+begin
+  select * into v_invite from public.topic_invites
+  where id = p_invite_id and email = lower(auth.jwt() ->> 'email');
+  if not found then
+    raise exception 'Invite not found';
+  end if;
+
+  insert into public.topic_members (topic_id, user_id, role, display_name, email)
+  values (
+    v_invite.topic_id, auth.uid(), v_invite.role,
+    coalesce(auth.jwt() -> 'user_metadata' ->> 'display_name', ''),
+    v_invite.email
+  )
+  on conflict (topic_id, user_id) do update set role = excluded.role;
+
+  delete from public.topic_invites where id = p_invite_id;
+  return v_invite.topic_id;
+end;
+$$;
+
+-- --- Policies: membership replaces ownership ---
+
+alter table public.topic_members enable row level security;
+alter table public.topic_invites enable row level security;
+
+create policy "members see each other" on public.topic_members
+  for select to authenticated
+  using (public.topic_role(topic_id) is not null);
+
+create policy "owners change roles" on public.topic_members
+  for update to authenticated
+  using (public.topic_role(topic_id) = 'owner')
+  with check (public.topic_role(topic_id) = 'owner');
+
+create policy "owners remove members, members leave" on public.topic_members
+  for delete to authenticated
+  using (public.topic_role(topic_id) = 'owner' or user_id = auth.uid());
+
+create policy "owners and invitees see invites" on public.topic_invites
+  for select to authenticated
+  using (public.topic_role(topic_id) = 'owner' or email = lower(auth.jwt() ->> 'email'));
+
+create policy "owners invite" on public.topic_invites
+  for insert to authenticated
+  with check (public.topic_role(topic_id) = 'owner');
+
+create policy "owners withdraw, invitees decline" on public.topic_invites
+  for delete to authenticated
+  using (public.topic_role(topic_id) = 'owner' or email = lower(auth.jwt() ->> 'email'));
+
+drop policy if exists "owners manage their topics" on public.topics;
+-- The creator can see a new topic before the trigger has made them a member.
+create policy "members see topics" on public.topics
+  for select to authenticated
+  using (owner_id = auth.uid() or public.topic_role(id) is not null);
+create policy "anyone creates topics" on public.topics
+  for insert to authenticated
+  with check (owner_id = auth.uid());
+create policy "owners rename and delete topics" on public.topics
+  for update to authenticated
+  using (public.topic_role(id) = 'owner')
+  with check (public.topic_role(id) = 'owner');
+create policy "owners purge topics" on public.topics
+  for delete to authenticated
+  using (public.topic_role(id) = 'owner');
+
+drop policy if exists "owners manage their categories" on public.categories;
+create policy "members see categories" on public.categories
+  for select to authenticated
+  using (public.topic_role(topic_id) is not null);
+create policy "editors manage categories" on public.categories
+  for all to authenticated
+  using (public.topic_role(topic_id) in ('owner', 'editor'))
+  with check (public.topic_role(topic_id) in ('owner', 'editor'));
+
+drop policy if exists "owners manage their dolls" on public.dolls;
+create policy "members see dolls" on public.dolls
+  for select to authenticated
+  using (public.topic_role(topic_id) is not null);
+create policy "editors manage dolls" on public.dolls
+  for all to authenticated
+  using (public.topic_role(topic_id) in ('owner', 'editor'))
+  with check (public.topic_role(topic_id) in ('owner', 'editor'));
+
+drop policy if exists "owners manage their share links" on public.share_links;
+create policy "owners manage share links" on public.share_links
+  for all to authenticated
+  using (public.topic_role(topic_id) = 'owner')
+  with check (public.topic_role(topic_id) = 'owner');
+
+-- The change log follows the topic its rows belong to.
+alter table public.change_log add column if not exists topic_id uuid references public.topics on delete cascade;
+update public.change_log l set topic_id = t.id from public.topics t where l.table_name = 'topics' and l.row_id = t.id;
+update public.change_log l set topic_id = c.topic_id from public.categories c where l.table_name = 'categories' and l.row_id = c.id;
+update public.change_log l set topic_id = d.topic_id from public.dolls d where l.table_name = 'dolls' and l.row_id = d.id;
+
+drop policy if exists "owners read their change log" on public.change_log;
+create policy "members read the change log" on public.change_log
+  for select to authenticated
+  using (public.topic_role(topic_id) is not null);
+
+create or replace function public.log_row_changes()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_old jsonb;
+  v_new jsonb := to_jsonb(new);
+  v_key text;
+  v_actor text := public.request_actor();
+  v_owner uuid := (v_new ->> 'owner_id')::uuid;
+  v_topic uuid := case when tg_table_name = 'topics' then new.id else (v_new ->> 'topic_id')::uuid end;
+begin
+  if tg_op = 'INSERT' then
+    insert into public.change_log (table_name, row_id, field, actor, owner_id, topic_id)
+    values (tg_table_name, new.id, null, v_actor, v_owner, v_topic);
+    return new;
+  end if;
+
+  v_old := to_jsonb(old);
+  for v_key in select jsonb_object_keys(v_new) loop
+    continue when v_key in ('id', 'created_at', 'owner_id', 'added_by');
+    continue when tg_nargs > 0 and not v_key = any(tg_argv);
+    if v_old -> v_key is distinct from v_new -> v_key then
+      insert into public.change_log (table_name, row_id, field, old_value, new_value, actor, owner_id, topic_id)
+      values (tg_table_name, new.id, v_key, v_old -> v_key, v_new -> v_key, v_actor, v_owner, v_topic);
+    end if;
+  end loop;
+  return new;
+end;
+$$;
@@ -0,0 +1,132 @@
+-- Size variants per collection. Each topic keeps an ordered list of the sizes its items
+-- come in ({id, label, color}); a doll lists the ids of the variants it comes in,
+-- replacing the comma-joined `size` string ("Normal, Small").
+
+alter table public.topics add column if not exists size_variants jsonb not null default
+  '[{"id": "normal", "label": "Normal", "color": "#60a5fa"}, {"id": "small", "label": "Small", "color": "#f472b6"}]'::jsonb;
+
+alter table public.dolls add column if not exists sizes text[] not null default '{}';
+
+-- "Normal, Small" -> {normal,small}. Labels become ids by lowercasing, as the client does
+-- for rows it cached before this change.
+create function pg_temp.size_ids(p_size text)
+returns text[]
+language sql
+immutable
+as $$
+  select coalesce(array_agg(lower(trim(s)) order by ord), '{}')
+  from unnest(string_to_array(coalesce(p_size, ''), ',')) with ordinality as t(s, ord)
+  where trim(s) <> '';
+$$;
+
+-- Sizes other than Normal and Small become variants of their topic, in grey.
+update public.topics t
+set size_variants = t.size_variants || extra.variants
+from (
+  select topic_id, jsonb_agg(jsonb_build_object('id', lower(label), 'label', label, 'color', '#94a3b8') order by label) as variants
+  from (
+    select distinct on (d.topic_id, lower(trim(s))) d.topic_id, trim(s) as label
+    from public.dolls d, unnest(string_to_array(d.size, ',')) as s
+    where trim(s) <> '' and lower(trim(s)) not in ('normal', 'small')
+  ) found
+  group by topic_id
+) extra
+where extra.topic_id = t.id;
+
+update public.dolls set sizes = pg_temp.size_ids(size) where size is not null;
+
+-- Keep the edit history readable and revertible under the new field.
+update public.change_log
+set field = 'sizes',
+    old_value = to_jsonb(pg_temp.size_ids(old_value #>> '{}')),
+    new_value = to_jsonb(pg_temp.size_ids(new_value #>> '{}'))
+where table_name = 'dolls' and field = 'size';
+
+alter table public.dolls drop column if exists size;
+
+-- The grid's size filter: sizes @> {id}
+create index if not exists dolls_sizes_idx on public.dolls using gin (sizes);
+
+-- Dolls moved into another topic keep their sizes; the target takes on any variants it lacks.
+create or replace function public.delete_topic(
+  p_topic_id uuid,
+  p_contents text,
+  p_target_topic_id uuid default null
+) returns void
+language plpgsql
+security invoker
+as $$
+declare
+  v_now timestamptz := now();
+begin
+  if p_contents = 'move' then
+    if p_target_topic_id is null or p_target_topic_id = p_topic_id
+       or not exists (select 1 from public.topics where id = p_target_topic_id and deleted_at is null) then
+      raise exception 'Target collection must be another existing collection';
+    end if;
+    update public.topics t
+    set size_variants = t.size_variants || coalesce((
+      select jsonb_agg(v order by ord)
+      from public.topics s, jsonb_array_elements(s.size_variants) with ordinality as e(v, ord)
+      where s.id = p_topic_id
+        and not exists (select 1 from jsonb_array_elements(t.size_variants) tv where tv ->> 'id' = v ->> 'id')
+    ), '[]'::jsonb)
+    where t.id = p_target_topic_id;
+    update public.categories set topic_id = p_target_topic_id where topic_id = p_topic_id;
+    update public.dolls set topic_id = p_target_topic_id where topic_id = p_topic_id;
+  elsif p_contents = 'delete' then
+    update public.dolls set deleted_at = v_now where topic_id = p_topic_id and deleted_at is null;
+    update public.categories set deleted_at = v_now where topic_id = p_topic_id and deleted_at is null;
+  else
+    raise exception 'Unknown contents action: %', p_contents;
+  end if;
+
+  update public.topics set deleted_at = v_now where id = p_topic_id and deleted_at is null;
+end;
+$$;
+
+-- Share links show the topic's variants and each doll's sizes.
+create or replace function public.shared_collection(p_token text)
+returns jsonb
+language plpgsql
+stable
+security definer
+set search_path = public
+as $$
+declare
+  v_link public.share_links;
+  v_topic public.topics;
+begin
+  select * into v_link from public.share_links where token = p_token;
+  if not found then
+    return null;
+  end if;
+
+  select * into v_topic from public.topics where id = v_link.topic_id and deleted_at is null;
+  if not found then
+    return null;
+  end if;
+
+  return jsonb_build_object(
+    'topic', jsonb_build_object('id', v_topic.id, 'name', v_topic.name, 'size_variants', v_topic.size_variants, 'created_at', v_topic.created_at),
+    'hide_catch_dates', v_link.hide_catch_dates,
+    'categories', coalesce((
+      select jsonb_agg(jsonb_build_object(
+        'id', c.id, 'name', c.name, 'topic_id', c.topic_id, 'image_url', c.image_url, 'created_at', c.created_at
+      ) order by c.name)
+      from public.categories c
+      where c.topic_id = v_topic.id and c.deleted_at is null
+    ), '[]'::jsonb),
+    'dolls', coalesce((
+      select jsonb_agg(jsonb_build_object(
+        'id', d.id, 'name', d.name, 'description', d.description, 'sizes', d.sizes,
+        'category_id', d.category_id, 'topic_id', d.topic_id,
+        'catch_date', case when v_link.hide_catch_dates then null else d.catch_date end,
+        'image_url', d.image_url, 'created_at', d.created_at
+      ))
+      from public.dolls d
+      where d.topic_id = v_topic.id and d.deleted_at is null
+    ), '[]'::jsonb)
+  );
+end;
+$$;
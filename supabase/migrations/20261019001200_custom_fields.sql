@@ -0,0 +1,98 @@
+-- Custom fields per collection. Each topic keeps an ordered schema of extra attributes
+-- ({id, name, type, options}); a doll's values live in `custom_values`, keyed by field id.
+-- Types: text, number, date (YYYY-MM-DD), select, multiselect (an array) and url.
+
+alter table public.topics add column if not exists custom_fields jsonb not null default '[]'::jsonb;
+alter table public.dolls add column if not exists custom_values jsonb not null default '{}'::jsonb;
+
+-- Dolls moved into another topic keep their values; the target takes on any sizes and fields it lacks.
+create or replace function public.delete_topic(
+  p_topic_id uuid,
+  p_contents text,
+  p_target_topic_id uuid default null
+) returns void
+language plpgsql
+security invoker
+as $$
+declare
+  v_now timestamptz := now();
+begin
+  if p_contents = 'move' then
+    if p_target_topic_id is null or p_target_topic_id = p_topic_id
+       or not exists (select 1 from public.topics where id = p_target_topic_id and deleted_at is null) then
+      raise exception 'Target collection must be another existing collection';
+    end if;
+    update public.topics t
+    set size_variants = t.size_variants || coalesce((
+      select jsonb_agg(v order by ord)
+      from public.topics s, jsonb_array_elements(s.size_variants) with ordinality as e(v, ord)
+      where s.id = p_topic_id
+        and not exists (select 1 from jsonb_array_elements(t.size_variants) tv where tv ->> 'id' = v ->> 'id')
+    ), '[]'::jsonb),
+    custom_fields = t.custom_fields || coalesce((
+      select jsonb_agg(f order by ord)
+      from public.topics s, jsonb_array_elements(s.custom_fields) with ordinality as e(f, ord)
+      where s.id = p_topic_id
+        and not exists (select 1 from jsonb_array_elements(t.custom_fields) tf where tf ->> 'id' = f ->> 'id')
+    ), '[]'::jsonb)
+    where t.id = p_target_topic_id;
+    update public.categories set topic_id = p_target_topic_id where topic_id = p_topic_id;
+    update public.dolls set topic_id = p_target_topic_id where topic_id = p_topic_id;
+  elsif p_contents = 'delete' then
+    update public.dolls set deleted_at = v_now where topic_id = p_topic_id and deleted_at is null;
+    update public.categories set deleted_at = v_now where topic_id = p_topic_id and deleted_at is null;
+  else
+    raise exception 'Unknown contents action: %', p_contents;
+  end if;
+
+  update public.topics set deleted_at = v_now where id = p_topic_id and deleted_at is null;
+end;
+$$;
+
+-- Share links show custom fields too.
+create or replace function public.shared_collection(p_token text)
+returns jsonb
+language plpgsql
+stable
+security definer
+set search_path = public
+as $$
+declare
+  v_link public.share_links;
+  v_topic public.topics;
+begin
+  select * into v_link from public.share_links where token = p_token;
+  if not found then
+    return null;
+  end if;
+
+  select * into v_topic from public.topics where id = v_link.topic_id and deleted_at is null;
+  if not found then
+    return null;
+  end if;
+
+  return jsonb_build_object(
+    'topic', jsonb_build_object('id', v_topic.id, 'name', v_topic.name, 'size_variants', v_topic.size_variants,
+      'custom_fields', v_topic.custom_fields, 'created_at', v_topic.created_at),
+    'hide_catch_dates', v_link.hide_catch_dates,
+    'categories', coalesce((
+      select jsonb_agg(jsonb_build_object(
+        'id', c.id, 'name', c.name, 'topic_id', c.topic_id, 'image_url', c.image_url, 'created_at', c.created_at
+      ) order by c.name)
+      from public.categories c
+      where c.topic_id = v_topic.id and c.deleted_at is null
+    ), '[]'::jsonb),
+    'dolls', coalesce((
+      select jsonb_agg(jsonb_build_object(
+        'id', d.id, 'name', d.name, 'description', d.description, 'sizes', d.sizes,
+        'custom_values', d.custom_values,
+        'category_id', d.category_id, 'topic_id', d.topic_id,
+        'catch_date', case when v_link.hide_catch_dates then null else d.catch_date end,
+        'image_url', d.image_url, 'created_at', d.created_at
+      ))
+      from public.dolls d
+      where d.topic_id = v_topic.id and d.deleted_at is null
+    ), '[]'::jsonb)
+  );
+end;
+$$;
@@ -0,0 +1,92 @@
+-- Free-form tags. A doll lists its tags by name, so a topic's tags are whatever its dolls
+-- carry; renaming, merging and deleting rewrite those arrays across the topic.
+
+alter table public.dolls add column if not exists tags text[] not null default '{}';
+
+-- The grid's tag filter: tags @> {a,b} (all) or tags && {a,b} (any)
+create index if not exists dolls_tags_idx on public.dolls using gin (tags);
+
+-- Each tag in use with how many live dolls carry it, for the filter bar and tag manager.
+create or replace view public.topic_tags
+with (security_invoker = true) as
+select d.topic_id, t.name, count(*)::int as doll_count
+from public.dolls d, unnest(d.tags) as t(name)
+where d.deleted_at is null
+group by d.topic_id, t.name;
+
+-- Renaming onto a tag the doll already has leaves a single copy, where the first one was.
+-- Trashed dolls are included so restoring one doesn't bring the old name back.
+create or replace function public.rename_tag(p_topic_id uuid, p_from text, p_to text)
+returns void
+language sql
+security invoker
+as $$
+  update public.dolls d
+  set tags = (
+    select array_agg(name order by first)
+    from (
+      select name, min(ord) as first
+      from unnest(array_replace(d.tags, p_from, p_to)) with ordinality as t(name, ord)
+      group by name
+    ) renamed
+  )
+  where d.topic_id = p_topic_id and p_from = any(d.tags);
+$$;
+
+create or replace function public.delete_tag(p_topic_id uuid, p_name text)
+returns void
+language sql
+security invoker
+as $$
+  update public.dolls
+  set tags = array_remove(tags, p_name)
+  where topic_id = p_topic_id and p_name = any(tags);
+$$;
+
+-- Share links show tags too.
+create or replace function public.shared_collection(p_token text)
+returns jsonb
+language plpgsql
+stable
+security definer
+set search_path = public
+as $$
+declare
+  v_link public.share_links;
+  v_topic public.topics;
+begin
+  select * into v_link from public.share_links where token = p_token;
+  if not found then
+    return null;
+  end if;
+
+  select * into v_topic from public.topics where id = v_link.topic_id and deleted_at is null;
+  if not found then
+    return null;
+  end if;
+
+  return jsonb_build_object(
+    'topic', jsonb_build_object('id', v_topic.id, 'name', v_topic.name, 'size_variants', v_topic.size_variants,
+      'custom_fields', v_topic.custom_fields, 'created_at', v_topic.created_at),
+    'hide_catch_dates', v_link.hide_catch_dates,
+    'categories', coalesce((
+      select jsonb_agg(jsonb_build_object(
+        'id', c.id, 'name', c.name, 'topic_id', c.topic_id, 'image_url', c.image_url, 'created_at', c.created_at
+      ) order by c.name)
+      from public.categories c
+      where c.topic_id = v_topic.id and c.deleted_at is null
+    ), '[]'::jsonb),
+    'dolls', coalesce((
+      select jsonb_agg(jsonb_build_object(
+        'id', d.id, 'name', d.name, 'description', d.description, 'sizes', d.sizes,
+        'custom_values', d.custom_values, 'tags', d.tags,
+        'category_id', d.category_id, 'topic_id', d.topic_id,
+        'catch_date', case when v_link.hide_catch_dates then null else d.catch_date end,
+        'image_url', d.image_url, 'created_at', d.created_at
+      ))
+      from public.dolls d
+      where d.topic_id = v_topic.id and d.deleted_at is null
+    ), '[]'::jsonb)
+  );
+end;
+$$;
@@ -0,0 +1,115 @@
+-- Several photos per doll. `photos` lists them in display order and `image_url` stays
+-- the cover, one of them. Dolls from before keep an empty list: their cover is their
+-- only photo, and they get a list the first time their photos are edited.
+
+alter table public.dolls add column if not exists photos text[] not null default '{}';
+
+-- Releasing an image checks whether any doll still lists it: photos && {url}
+create index if not exists dolls_photos_idx on public.dolls using gin (photos);
+
+-- Purges hand back every photo of the deleted dolls, not only their covers.
+create or replace function public.purge_from_trash(p_table text, p_id uuid)
+returns setof text
+language plpgsql
+security invoker
+as $$
+declare
+  v_deleted_at timestamptz;
+begin
+  if p_table = 'topics' then
+    select deleted_at into v_deleted_at from public.topics where id = p_id;
+    if v_deleted_at is null then return; end if;
+    return query
+      with gone as (delete from public.dolls where topic_id = p_id returning image_url, photos)
+      select distinct url from gone, unnest(array_append(gone.photos, gone.image_url)) as url;
+    return query delete from public.categories where topic_id = p_id returning image_url;
+    delete from public.topics where id = p_id;
+  elsif p_table = 'categories' then
+    select deleted_at into v_deleted_at from public.categories where id = p_id;
+    if v_deleted_at is null then return; end if;
+    return query
+      with gone as (delete from public.dolls where category_id = p_id and deleted_at = v_deleted_at returning image_url, photos)
+      select distinct url from gone, unnest(array_append(gone.photos, gone.image_url)) as url;
+    update public.dolls set category_id = null where category_id = p_id;
+    return query delete from public.categories where id = p_id returning image_url;
+  elsif p_table = 'dolls' then
+    return query
+      with gone as (delete from public.dolls where id = p_id and deleted_at is not null returning image_url, photos)
+      select distinct url from gone, unnest(array_append(gone.photos, gone.image_url)) as url;
+  else
+    raise exception 'Unknown table: %', p_table;
+  end if;
+end;
+$$;
+
+create or replace function public.purge_trash_before(p_cutoff timestamptz)
+returns setof text
+language plpgsql
+security invoker
+as $$
+begin
+  return query
+    with gone as (
+      delete from public.dolls
+      where deleted_at < p_cutoff
+         or topic_id in (select id from public.topics where deleted_at < p_cutoff)
+      returning image_url, photos
+    )
+    select distinct url from gone, unnest(array_append(gone.photos, gone.image_url)) as url;
+  update public.dolls set category_id = null
+    where category_id in (select id from public.categories where deleted_at < p_cutoff);
+  return query delete from public.categories
+    where deleted_at < p_cutoff
+       or topic_id in (select id from public.topics where deleted_at < p_cutoff)
+    returning image_url;
+  delete from public.topics where deleted_at < p_cutoff;
+end;
+$$;
+
+-- Share links show every photo.
+create or replace function public.shared_collection(p_token text)
+returns jsonb
+language plpgsql
+stable
+security definer
+set search_path = public
+as $$
+declare
+  v_link public.share_links;
+  v_topic public.topics;
+begin
+  select * into v_link from public.share_links where token = p_token;
+  if not found then
+    return null;
+  end if;
+
+  select * into v_topic from public.topics where id = v_link.topic_id and deleted_at is null;
+  if not found then
+    return null;
+  end if;
+
+  return jsonb_build_object(
+    'topic', jsonb_build_object('id', v_topic.id, 'name', v_topic.name, 'size_variants', v_topic.size_variants,
+      'custom_fields', v_topic.custom_fields, 'created_at', v_topic.created_at),
+    'hide_catch_dates', v_link.hide_catch_dates,
+    'categories', coalesce((
+      select jsonb_agg(jsonb_build_object(
+        'id', c.id, 'name', c.name, 'topic_id', c.topic_id, 'image_url', c.image_url, 'created_at', c.created_at
+      ) order by c.name)
+      from public.categories c
+      where c.topic_id = v_topic.id and c.deleted_at is null
+    ), '[]'::jsonb),
+    'dolls', coalesce((
+      select jsonb_agg(jsonb_build_object(
+        'id', d.id, 'name', d.name, 'description', d.description, 'sizes', d.sizes,
+        'custom_values', d.custom_values, 'tags', d.tags,
+        'category_id', d.category_id, 'topic_id', d.topic_id,
+        'catch_date', case when v_link.hide_catch_dates then null else d.catch_date end,
+        'image_url', d.image_url, 'photos', d.photos, 'created_at', d.created_at
+      ))
+      from public.dolls d
+      where d.topic_id = v_topic.id and d.deleted_at is null
+    ), '[]'::jsonb)
+  );
+end;
+$$;
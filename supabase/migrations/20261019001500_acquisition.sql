@@ -0,0 +1,13 @@
+-- How each doll was acquired and what it cost, for the spending report. Amounts are kept
+-- in the currency they were paid in; a doll without one is in its topic's currency.
+-- Share links leave all of this out, so shared_collection is unchanged.
+
+alter table public.topics add column if not exists currency text not null default 'JPY'
+  check (currency ~ '^[A-Z]{3}$');
+
+alter table public.dolls
+  add column if not exists method text check (method in ('crane', 'purchase', 'gift', 'trade')),
+  add column if not exists tries integer check (tries >= 0),
+  add column if not exists cost numeric(12, 2) check (cost >= 0),
+  add column if not exists currency text check (currency ~ '^[A-Z]{3}$'),
+  add column if not exists venue text;
@@ -0,0 +1,148 @@
+-- Nested categories. A category may sit inside another of the same collection; moving
+-- it moves everything below it too. Dolls still point at exactly one category, and
+-- filtering by a parent takes in its descendants (the client sends the ids).
+
+alter table public.categories
+  add column if not exists parent_id uuid references public.categories(id) on delete set null
+  check (parent_id <> id);
+
+create index if not exists categories_parent_idx on public.categories (parent_id);
+
+-- A parent must be in the same collection, and never the category itself or one below it.
+create or replace function public.check_category_parent()
+returns trigger
+language plpgsql
+security invoker
+as $$
+begin
+  if new.parent_id is null then
+    return new;
+  end if;
+  if not exists (select 1 from public.categories where id = new.parent_id and topic_id = new.topic_id) then
+    raise exception 'Parent category must be in the same collection';
+  end if;
+  if exists (
+    with recursive above as (
+      select id, parent_id from public.categories where id = new.parent_id
+      union
+      select c.id, c.parent_id from public.categories c join above on c.id = above.parent_id
+    )
+    select 1 from above where id = new.id
+  ) then
+    raise exception 'A category cannot be moved inside itself';
+  end if;
+  return new;
+end;
+$$;
+
+create trigger categories_check_parent
+  before insert or update of parent_id on public.categories
+  for each row execute function public.check_category_parent();
+
+-- `c.*` gains a column, so the view is recreated rather than replaced.
+drop view if exists public.category_stats;
+create view public.category_stats
+with (security_invoker = true) as
+select
+  c.*,
+  count(d.id)::int as doll_count,
+  max(d.catch_date) as latest_catch_date,
+  (
+    select s.image_url
+    from public.dolls s
+    where s.category_id = c.id and s.deleted_at is null
+    order by s.created_at desc
+    limit 1
+  ) as sample_image_url
+from public.categories c
+left join public.dolls d on d.category_id = c.id and d.deleted_at is null
+where c.deleted_at is null
+group by c.id;
+
+-- Deleting a category moves its subcategories up to its own parent.
+create or replace function public.delete_category(
+  p_category_id uuid,
+  p_dolls text,
+  p_target_category_id uuid default null
+) returns void
+language plpgsql
+security invoker
+as $$
+declare
+  v_now timestamptz := now();
+begin
+  if p_dolls = 'move' then
+    if not exists (
+      select 1
+      from public.categories source
+      join public.categories target on target.topic_id = source.topic_id
+      where source.id = p_category_id and target.id = p_target_category_id
+        and target.id <> source.id and target.deleted_at is null
+    ) then
+      raise exception 'Target category must be another category in the same collection';
+    end if;
+    update public.dolls set category_id = p_target_category_id where category_id = p_category_id and deleted_at is null;
+  elsif p_dolls = 'uncategorize' then
+    update public.dolls set category_id = null where category_id = p_category_id and deleted_at is null;
+  elsif p_dolls = 'delete' then
+    update public.dolls set deleted_at = v_now where category_id = p_category_id and deleted_at is null;
+  else
+    raise exception 'Unknown dolls action: %', p_dolls;
+  end if;
+
+  update public.categories
+  set parent_id = (select parent_id from public.categories where id = p_category_id)
+  where parent_id = p_category_id and deleted_at is null;
+
+  update public.categories set deleted_at = v_now where id = p_category_id and deleted_at is null;
+end;
+$$;
+
+-- Share links keep the nesting.
+create or replace function public.shared_collection(p_token text)
+returns jsonb
+language plpgsql
+stable
+security definer
+set search_path = public
+as $$
+declare
+  v_link public.share_links;
+  v_topic public.topics;
+begin
+  select * into v_link from public.share_links where token = p_token;
+  if not found then
+    return null;
+  end if;
+
+  select * into v_topic from public.topics where id = v_link.topic_id and deleted_at is null;
+  if not found then
+    return null;
+  end if;
+
+  return jsonb_build_object(
+    'topic', jsonb_build_object('id', v_topic.id, 'name', v_topic.name, 'size_variants', v_topic.size_variants,
+      'custom_fields', v_topic.custom_fields, 'created_at', v_topic.created_at),
+    'hide_catch_dates', v_link.hide_catch_dates,
+    'categories', coalesce((
+      select jsonb_agg(jsonb_build_object(
+        'id', c.id, 'name', c.name, 'topic_id', c.topic_id, 'parent_id', c.parent_id,
+        'image_url', c.image_url, 'created_at', c.created_at
+      ) order by c.name)
+      from public.categories c
+      where c.topic_id = v_topic.id and c.deleted_at is null
+    ), '[]'::jsonb),
+    'dolls', coalesce((
+      select jsonb_agg(jsonb_build_object(
+        'id', d.id, 'name', d.name, 'description', d.description, 'sizes', d.sizes,
+        'custom_values', d.custom_values, 'tags', d.tags,
+        'category_id', d.category_id, 'topic_id', d.topic_id,
+        'catch_date', case when v_link.hide_catch_dates then null else d.catch_date end,
+        'image_url', d.image_url, 'photos', d.photos, 'created_at', d.created_at
+      ))
+      from public.dolls d
+      where d.topic_id = v_topic.id and d.deleted_at is null
+    ), '[]'::jsonb)
+  );
+end;
+$$;
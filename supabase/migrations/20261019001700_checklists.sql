@@ -0,0 +1,165 @@
+-- Series checklists. A category lists the known items of its series, owned or not, as
+-- [{id, name, image_url, sizes}]. A doll owns an item when it links to it through
+-- `checklist_item`, or, unlinked, when it has the item's name.
+
+alter table public.categories add column if not exists checklist jsonb not null default '[]';
+alter table public.dolls add column if not exists checklist_item text;
+
+-- Releasing an image checks whether a checklist still shows it: checklist @> [{"image_url": url}]
+create index if not exists categories_checklist_idx on public.categories using gin (checklist jsonb_path_ops);
+
+-- `c.*` gains a column, so the view is recreated rather than replaced.
+drop view if exists public.category_stats;
+create view public.category_stats
+with (security_invoker = true) as
+select
+  c.*,
+  count(d.id)::int as doll_count,
+  max(d.catch_date) as latest_catch_date,
+  (
+    select s.image_url
+    from public.dolls s
+    where s.category_id = c.id and s.deleted_at is null
+    order by s.created_at desc
+    limit 1
+  ) as sample_image_url,
+  (
+    select count(*)::int
+    from jsonb_array_elements(c.checklist) as item
+    where exists (
+      select 1
+      from public.dolls o
+      where o.category_id = c.id and o.deleted_at is null
+        and (o.checklist_item = item ->> 'id'
+          or (o.checklist_item is null and lower(trim(o.name)) = lower(trim(item ->> 'name'))))
+    )
+  ) as checklist_owned
+from public.categories c
+left join public.dolls d on d.category_id = c.id and d.deleted_at is null
+where c.deleted_at is null
+group by c.id;
+
+-- Purges hand back checklist pictures along with the category image.
+create or replace function public.purge_from_trash(p_table text, p_id uuid)
+returns setof text
+language plpgsql
+security invoker
+as $$
+declare
+  v_deleted_at timestamptz;
+begin
+  if p_table = 'topics' then
+    select deleted_at into v_deleted_at from public.topics where id = p_id;
+    if v_deleted_at is null then return; end if;
+    return query
+      with gone as (delete from public.dolls where topic_id = p_id returning image_url, photos)
+      select distinct url from gone, unnest(array_append(gone.photos, gone.image_url)) as url;
+    return query
+      with gone as (delete from public.categories where topic_id = p_id returning image_url, checklist)
+      select distinct url from gone, unnest(array_append(
+        array(select item ->> 'image_url' from jsonb_array_elements(gone.checklist) as item), gone.image_url
+      )) as url
+      where url is not null;
+    delete from public.topics where id = p_id;
+  elsif p_table = 'categories' then
+    select deleted_at into v_deleted_at from public.categories where id = p_id;
+    if v_deleted_at is null then return; end if;
+    return query
+      with gone as (delete from public.dolls where category_id = p_id and deleted_at = v_deleted_at returning image_url, photos)
+      select distinct url from gone, unnest(array_append(gone.photos, gone.image_url)) as url;
+    update public.dolls set category_id = null where category_id = p_id;
+    return query
+      with gone as (delete from public.categories where id = p_id returning image_url, checklist)
+      select distinct url from gone, unnest(array_append(
+        array(select item ->> 'image_url' from jsonb_array_elements(gone.checklist) as item), gone.image_url
+      )) as url
+      where url is not null;
+  elsif p_table = 'dolls' then
+    return query
+      with gone as (delete from public.dolls where id = p_id and deleted_at is not null returning image_url, photos)
+      select distinct url from gone, unnest(array_append(gone.photos, gone.image_url)) as url;
+  else
+    raise exception 'Unknown table: %', p_table;
+  end if;
+end;
+$$;
+
+create or replace function public.purge_trash_before(p_cutoff timestamptz)
+returns setof text
+language plpgsql
+security invoker
+as $$
+begin
+  return query
+    with gone as (
+      delete from public.dolls
+      where deleted_at < p_cutoff
+         or topic_id in (select id from public.topics where deleted_at < p_cutoff)
+      returning image_url, photos
+    )
+    select distinct url from gone, unnest(array_append(gone.photos, gone.image_url)) as url;
+  update public.dolls set category_id = null
+    where category_id in (select id from public.categories where deleted_at < p_cutoff);
+  return query
+    with gone as (
+      delete from public.categories
+      where deleted_at < p_cutoff
+         or topic_id in (select id from public.topics where deleted_at < p_cutoff)
+      returning image_url, checklist
+    )
+    select distinct url from gone, unnest(array_append(
+      array(select item ->> 'image_url' from jsonb_array_elements(gone.checklist) as item), gone.image_url
+    )) as url
+    where url is not null;
+  delete from public.topics where deleted_at < p_cutoff;
+end;
+$$;
+
+-- Share links show the checklists, and which dolls fulfil them.
+create or replace function public.shared_collection(p_token text)
+returns jsonb
+language plpgsql
+stable
+security definer
+set search_path = public
+as $$
+declare
+  v_link public.share_links;
+  v_topic public.topics;
+begin
+  select * into v_link from public.share_links where token = p_token;
+  if not found then
+    return null;
+  end if;
+
+  select * into v_topic from public.topics where id = v_link.topic_id and deleted_at is null;
+  if not found then
+    return null;
+  end if;
+
+  return jsonb_build_object(
+    'topic', jsonb_build_object('id', v_topic.id, 'name', v_topic.name, 'size_variants', v_topic.size_variants,
+      'custom_fields', v_topic.custom_fields, 'created_at', v_topic.created_at),
+    'hide_catch_dates', v_link.hide_catch_dates,
+    'categories', coalesce((
+      select jsonb_agg(jsonb_build_object(
+        'id', c.id, 'name', c.name, 'topic_id', c.topic_id, 'parent_id', c.parent_id,
+        'checklist', c.checklist, 'image_url', c.image_url, 'created_at', c.created_at
+      ) order by c.name)
+      from public.categories c
+      where c.topic_id = v_topic.id and c.deleted_at is null
+    ), '[]'::jsonb),
+    'dolls', coalesce((
+      select jsonb_agg(jsonb_build_object(
+        'id', d.id, 'name', d.name, 'description', d.description, 'sizes', d.sizes,
+        'custom_values', d.custom_values, 'tags', d.tags,
+        'category_id', d.category_id, 'topic_id', d.topic_id, 'checklist_item', d.checklist_item,
+        'catch_date', case when v_link.hide_catch_dates then null else d.catch_date end,
+        'image_url', d.image_url, 'photos', d.photos, 'created_at', d.created_at
+      ))
+      from public.dolls d
+      where d.topic_id = v_topic.id and d.deleted_at is null
+    ), '[]'::jsonb)
+  );
+end;
+$$;
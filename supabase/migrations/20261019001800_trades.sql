@@ -0,0 +1,61 @@
+-- Duplicates and trades. `quantities` holds the copies owned per size variant id and
+-- `for_trade` how many of the spares are offered; a size missing from either means one
+-- copy and none offered. The client keeps trades below the quantity.
+
+alter table public.dolls
+  add column if not exists quantities jsonb not null default '{}'::jsonb,
+  add column if not exists for_trade jsonb not null default '{}'::jsonb;
+
+-- The trade list reads every doll with something offered, across collections.
+create index if not exists dolls_for_trade_idx on public.dolls (topic_id)
+  where for_trade <> '{}'::jsonb and deleted_at is null;
+
+-- Share links show counts and spares, so a trade partner can see what's offered.
+create or replace function public.shared_collection(p_token text)
+returns jsonb
+language plpgsql
+stable
+security definer
+set search_path = public
+as $$
+declare
+  v_link public.share_links;
+  v_topic public.topics;
+begin
+  select * into v_link from public.share_links where token = p_token;
+  if not found then
+    return null;
+  end if;
+
+  select * into v_topic from public.topics where id = v_link.topic_id and deleted_at is null;
+  if not found then
+    return null;
+  end if;
+
+  return jsonb_build_object(
+    'topic', jsonb_build_object('id', v_topic.id, 'name', v_topic.name, 'size_variants', v_topic.size_variants,
+      'custom_fields', v_topic.custom_fields, 'created_at', v_topic.created_at),
+    'hide_catch_dates', v_link.hide_catch_dates,
+    'categories', coalesce((
+      select jsonb_agg(jsonb_build_object(
+        'id', c.id, 'name', c.name, 'topic_id', c.topic_id, 'parent_id', c.parent_id,
+        'checklist', c.checklist, 'image_url', c.image_url, 'created_at', c.created_at
+      ) order by c.name)
+      from public.categories c
+      where c.topic_id = v_topic.id and c.deleted_at is null
+    ), '[]'::jsonb),
+    'dolls', coalesce((
+      select jsonb_agg(jsonb_build_object(
+        'id', d.id, 'name', d.name, 'description', d.description, 'sizes', d.sizes,
+        'quantities', d.quantities, 'for_trade', d.for_trade,
+        'custom_values', d.custom_values, 'tags', d.tags,
+        'category_id', d.category_id, 'topic_id', d.topic_id, 'checklist_item', d.checklist_item,
+        'catch_date', case when v_link.hide_catch_dates then null else d.catch_date end,
+        'image_url', d.image_url, 'photos', d.photos, 'created_at', d.created_at
+      ))
+      from public.dolls d
+      where d.topic_id = v_topic.id and d.deleted_at is null
+    ), '[]'::jsonb)
+  );
+end;
+$$;
@@ -0,0 +1,59 @@
+-- Where the dolls are physically kept. Each topic keeps its own tree of storage locations
+-- ({id, name, parent_id}); a doll points at one of them by id. A location removed from
+-- the topic leaves its dolls pointing nowhere, which reads as "not put away".
+-- Share links leave locations out, so shared_collection is unchanged.
+
+alter table public.topics add column if not exists locations jsonb not null default '[]'::jsonb;
+alter table public.dolls add column if not exists location_id text;
+
+create index if not exists dolls_topic_location_idx on public.dolls (topic_id, location_id);
+
+-- Dolls moved into another topic keep their location; the target takes on any it lacks.
+create or replace function public.delete_topic(
+  p_topic_id uuid,
+  p_contents text,
+  p_target_topic_id uuid default null
+) returns void
+language plpgsql
+security invoker
+as $$
+declare
+  v_now timestamptz := now();
+begin
+  if p_contents = 'move' then
+    if p_target_topic_id is null or p_target_topic_id = p_topic_id
+       or not exists (select 1 from public.topics where id = p_target_topic_id and deleted_at is null) then
+      raise exception 'Target collection must be another existing collection';
+    end if;
+    update public.topics t
+    set size_variants = t.size_variants || coalesce((
+      select jsonb_agg(v order by ord)
+      from public.topics s, jsonb_array_elements(s.size_variants) with ordinality as e(v, ord)
+      where s.id = p_topic_id
+        and not exists (select 1 from jsonb_array_elements(t.size_variants) tv where tv ->> 'id' = v ->> 'id')
+    ), '[]'::jsonb),
+    custom_fields = t.custom_fields || coalesce((
+      select jsonb_agg(f order by ord)
+      from public.topics s, jsonb_array_elements(s.custom_fields) with ordinality as e(f, ord)
+      where s.id = p_topic_id
+        and not exists (select 1 from jsonb_array_elements(t.custom_fields) tf where tf ->> 'id' = f ->> 'id')
+    ), '[]'::jsonb),
+    locations = t.locations || coalesce((
+      select jsonb_agg(l order by ord)
+      from public.topics s, jsonb_array_elements(s.locations) with ordinality as e(l, ord)
+      where s.id = p_topic_id
+        and not exists (select 1 from jsonb_array_elements(t.locations) tl where tl ->> 'id' = l ->> 'id')
+    ), '[]'::jsonb)
+    where t.id = p_target_topic_id;
+    update public.categories set topic_id = p_target_topic_id where topic_id = p_topic_id;
+    update public.dolls set topic_id = p_target_topic_id where topic_id = p_topic_id;
+  elsif p_contents = 'delete' then
+    update public.dolls set deleted_at = v_now where topic_id = p_topic_id and deleted_at is null;
+    update public.categories set deleted_at = v_now where topic_id = p_topic_id and deleted_at is null;
+  else
+    raise exception 'Unknown contents action: %', p_contents;
+  end if;
+
+  update public.topics set deleted_at = v_now where id = p_topic_id and deleted_at is null;
+end;
+$$;
@@ -0,0 +1,54 @@
+-- How long trashed rows are kept is now set per topic by its owners (only owners can
+-- update topics), instead of on each device: a member's device with a short setting
+-- used to purge the trash of every collection shared with them. 0 keeps trashed rows
+-- until they are deleted by hand.
+
+alter table public.topics add column if not exists trash_retention_days integer not null default 30
+  check (trash_retention_days >= 0);
+
+-- Whether a row of this topic trashed at p_deleted_at has outlived the topic's retention.
+create or replace function public.trash_expired(p_topic_id uuid, p_deleted_at timestamptz)
+returns boolean
+language sql
+stable
+security invoker
+as $$
+  select p_deleted_at is not null and exists (
+    select 1 from public.topics t
+    where t.id = p_topic_id
+      and t.trash_retention_days > 0
+      and p_deleted_at < now() - make_interval(days => t.trash_retention_days)
+  );
+$$;
+
+-- The retention purge: like purge_trash_before, with each topic's own cutoff.
+create or replace function public.purge_expired_trash()
+returns setof text
+language plpgsql
+security invoker
+as $$
+begin
+  return query
+    with gone as (
+      delete from public.dolls d
+      where public.trash_expired(d.topic_id, d.deleted_at)
+         or d.topic_id in (select id from public.topics t where public.trash_expired(t.id, t.deleted_at))
+      returning image_url, photos
+    )
+    select distinct url from gone, unnest(array_append(gone.photos, gone.image_url)) as url;
+  update public.dolls set category_id = null
+    where category_id in (select id from public.categories c where public.trash_expired(c.topic_id, c.deleted_at));
+  return query
+    with gone as (
+      delete from public.categories c
+      where public.trash_expired(c.topic_id, c.deleted_at)
+         or c.topic_id in (select id from public.topics t where public.trash_expired(t.id, t.deleted_at))
+      returning image_url, checklist
+    )
+    select distinct url from gone, unnest(array_append(
+      array(select item ->> 'image_url' from jsonb_array_elements(gone.checklist) as item), gone.image_url
+    )) as url
+    where url is not null;
+  delete from public.topics t where public.trash_expired(t.id, t.deleted_at);
+end;
+$$;
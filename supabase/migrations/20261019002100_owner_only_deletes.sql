@@ -0,0 +1,86 @@
+-- Deleting a collection is for its owners. delete_topic runs as the caller, and an editor
+-- calling it used to trash or move everything in the topic before the owner-only update
+-- of the topic itself changed nothing, leaving the collection half deleted.
+--
+-- Editors still add, edit and trash categories and dolls (moving to the trash is an
+-- update); deleting rows for good, as the trash purges do, is for owners like the topic.
+
+drop policy if exists "editors manage categories" on public.categories;
+create policy "editors add categories" on public.categories
+  for insert to authenticated
+  with check (public.topic_role(topic_id) in ('owner', 'editor'));
+create policy "editors change categories" on public.categories
+  for update to authenticated
+  using (public.topic_role(topic_id) in ('owner', 'editor'))
+  with check (public.topic_role(topic_id) in ('owner', 'editor'));
+create policy "owners purge categories" on public.categories
+  for delete to authenticated
+  using (public.topic_role(topic_id) = 'owner');
+
+drop policy if exists "editors manage dolls" on public.dolls;
+create policy "editors add dolls" on public.dolls
+  for insert to authenticated
+  with check (public.topic_role(topic_id) in ('owner', 'editor'));
+create policy "editors change dolls" on public.dolls
+  for update to authenticated
+  using (public.topic_role(topic_id) in ('owner', 'editor'))
+  with check (public.topic_role(topic_id) in ('owner', 'editor'));
+create policy "owners purge dolls" on public.dolls
+  for delete to authenticated
+  using (public.topic_role(topic_id) = 'owner');
+
+create or replace function public.delete_topic(
+  p_topic_id uuid,
+  p_contents text,
+  p_target_topic_id uuid default null
+) returns void
+language plpgsql
+security invoker
+as $$
+declare
+  v_now timestamptz := now();
+begin
+  -- topic_role is null for non-members, so compare with "is distinct from"
+  if public.topic_role(p_topic_id) is distinct from 'owner' then
+    raise exception 'Only owners can delete a collection';
+  end if;
+
+  if p_contents = 'move' then
+    -- The target's sizes, fields and locations take on the source's, which only its owners may change
+    if p_target_topic_id is null or p_target_topic_id = p_topic_id
+       or not exists (select 1 from public.topics where id = p_target_topic_id and deleted_at is null)
+       or public.topic_role(p_target_topic_id) is distinct from 'owner' then
+      raise exception 'Target collection must be another existing collection you own';
+    end if;
+    update public.topics t
+    set size_variants = t.size_variants || coalesce((
+      select jsonb_agg(v order by ord)
+      from public.topics s, jsonb_array_elements(s.size_variants) with ordinality as e(v, ord)
+      where s.id = p_topic_id
+        and not exists (select 1 from jsonb_array_elements(t.size_variants) tv where tv ->> 'id' = v ->> 'id')
+    ), '[]'::jsonb),
+    custom_fields = t.custom_fields || coalesce((
+      select jsonb_agg(f order by ord)
+      from public.topics s, jsonb_array_elements(s.custom_fields) with ordinality as e(f, ord)
+      where s.id = p_topic_id
+        and not exists (select 1 from jsonb_array_elements(t.custom_fields) tf where tf ->> 'id' = f ->> 'id')
+    ), '[]'::jsonb),
+    locations = t.locations || coalesce((
+      select jsonb_agg(l order by ord)
+      from public.topics s, jsonb_array_elements(s.locations) with ordinality as e(l, ord)
+      where s.id = p_topic_id
+        and not exists (select 1 from jsonb_array_elements(t.locations) tl where tl ->> 'id' = l ->> 'id')
+    ), '[]'::jsonb)
+    where t.id = p_target_topic_id;
+    update public.categories set topic_id = p_target_topic_id where topic_id = p_topic_id;
+    update public.dolls set topic_id = p_target_topic_id where topic_id = p_topic_id;
+  elsif p_contents = 'delete' then
+    update public.dolls set deleted_at = v_now where topic_id = p_topic_id and deleted_at is null;
+    update public.categories set deleted_at = v_now where topic_id = p_topic_id and deleted_at is null;
+  else
+    raise exception 'Unknown contents action: %', p_contents;
+  end if;
+
+  update public.topics set deleted_at = v_now where id = p_topic_id and deleted_at is null;
+end;
+$$;
@@ -0,0 +1,58 @@
+-- Images now go into a folder per topic, topics/<topic id>/, instead of the uploader's own
+-- folder. With account folders, an owner could not remove files an editor had uploaded, and
+-- once the editor left the topic their orphan sweep saw those files as unused, since it
+-- could no longer read the rows pointing at them, and deleted photos the topic still shows.
+-- Files already in account folders stay there under the accounts migration's policies.
+
+-- The signed-in account's role in the topic whose folder holds the file at p_name, or null
+-- for files outside topic folders.
+create or replace function public.image_folder_role(p_name text)
+returns text
+language plpgsql
+stable
+security definer
+set search_path = public
+as $$
+declare
+  v_folders text[] := storage.foldername(p_name);
+begin
+  if v_folders[1] is distinct from 'topics'
+     or v_folders[2] !~ '^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$' then
+    return null;
+  end if;
+  return public.topic_role(v_folders[2]::uuid);
+end;
+$$;
+
+create policy "editors upload images to their topics" on storage.objects
+  for insert to authenticated
+  with check (bucket_id = 'images' and public.image_folder_role(name) in ('owner', 'editor'));
+
+create policy "editors list their topics' images" on storage.objects
+  for select to authenticated
+  using (bucket_id = 'images' and public.image_folder_role(name) in ('owner', 'editor'));
+
+create policy "editors delete their topics' images" on storage.objects
+  for delete to authenticated
+  using (bucket_id = 'images' and public.image_folder_role(name) in ('owner', 'editor'));
+
+-- Which of p_urls a category or doll still points at, trashed rows included, in any topic.
+-- Security definer because a file can be used outside the topics the caller can read, e.g.
+-- after its doll moved to a collection the caller isn't in; only the URLs asked about come back.
+create or replace function public.images_in_use(p_urls text[])
+returns setof text
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select url from unnest(p_urls) as url
+  where exists (select 1 from public.dolls where image_url = url or photos @> array[url])
+     or exists (
+       select 1 from public.categories
+       where image_url = url or checklist @> jsonb_build_array(jsonb_build_object('image_url', url))
+     );
+$$;
+
+revoke execute on function public.images_in_use(text[]) from public, anon;
+grant execute on function public.images_in_use(text[]) to authenticated;
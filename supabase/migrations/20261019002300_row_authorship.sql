@@ -0,0 +1,86 @@
+-- Who added a row is recorded by the database, not taken from the request. `added_by` and
+-- `owner_id` were only column defaults, and the editor policies check the topic role, not
+-- the columns, so an editor could set or rewrite them and pass a doll off as another
+-- member's. Inserts from a signed-in account now take it as both; updates keep the old
+-- values. Requests without an account, such as the service role's, are left as they are.
+create or replace function public.keep_row_authorship()
+returns trigger
+language plpgsql
+as $$
+begin
+  if auth.uid() is null then
+    return new;
+  end if;
+  if tg_op = 'INSERT' then
+    new.owner_id := auth.uid();
+    if tg_table_name = 'dolls' then
+      new.added_by := auth.uid();
+    end if;
+  else
+    new.owner_id := old.owner_id;
+    if tg_table_name = 'dolls' then
+      new.added_by := old.added_by;
+    end if;
+  end if;
+  return new;
+end;
+$$;
+
+drop trigger if exists dolls_keep_authorship on public.dolls;
+create trigger dolls_keep_authorship before insert or update on public.dolls
+  for each row execute function public.keep_row_authorship();
+
+drop trigger if exists categories_keep_authorship on public.categories;
+create trigger categories_keep_authorship before insert or update on public.categories
+  for each row execute function public.keep_row_authorship();
+
+-- Invites are matched by email, and the email in a token only proves the address once it
+-- has been confirmed: without this, signing up with someone else's address, on a project
+-- that doesn't require confirmation, was enough to see and accept their invites.
+create or replace function public.confirmed_email()
+returns text
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select lower(email) from auth.users where id = auth.uid() and email_confirmed_at is not null;
+$$;
+
+create or replace function public.accept_invite(p_invite_id uuid)
+returns uuid
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_invite public.topic_invites;
+begin
+  select * into v_invite from public.topic_invites
+  where id = p_invite_id and email = public.confirmed_email();
+  if not found then
+    raise exception 'Invite not found';
+  end if;
+
+  insert into public.topic_members (topic_id, user_id, role, display_name, email)
+  values (
+    v_invite.topic_id, auth.uid(), v_invite.role,
+    coalesce(auth.jwt() -> 'user_metadata' ->> 'display_name', ''),
+    v_invite.email
+  )
+  on conflict (topic_id, user_id) do update set role = excluded.role;
+
+  delete from public.topic_invites where id = p_invite_id;
+  return v_invite.topic_id;
+end;
+$$;
+
+drop policy if exists "owners and invitees see invites" on public.topic_invites;
+create policy "owners and invitees see invites" on public.topic_invites
+  for select to authenticated
+  using (public.topic_role(topic_id) = 'owner' or email = public.confirmed_email());
+
+drop policy if exists "owners withdraw, invitees decline" on public.topic_invites;
+create policy "owners withdraw, invitees decline" on public.topic_invites
+  for delete to authenticated
+  using (public.topic_role(topic_id) = 'owner' or email = public.confirmed_email());
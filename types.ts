@@ -1,41 +1,147 @@
+/** One size a collection's items come in. Dolls refer to it by `id`, so it can be renamed freely. */
+export interface SizeVariant {
+  id: string;
+  label: string;
+  color: string; // CSS color for the card's size bar and badges
+}
+
+export type CustomFieldType = 'text' | 'number' | 'date' | 'select' | 'multiselect' | 'url';
+
+/** An attribute a collection tracks beyond the built-in ones. Values are stored under `id`. */
+export interface CustomField {
+  id: string;
+  name: string;
+  type: CustomFieldType;
+  options?: string[]; // The choices of a select or multiselect field
+}
+
+/** Dates are YYYY-MM-DD; multiselect values are the chosen options. */
+export type CustomValue = string | number | string[];
+
+/** How a doll came into the collection. */
+export type AcquisitionMethod = 'crane' | 'purchase' | 'gift' | 'trade';
+
 export interface Topic {
   id: string;
   name: string;
+  currency: string; // ISO 4217 code that spending is reported in
+  size_variants: SizeVariant[]; // In display order
+  custom_fields: CustomField[]; // In display order
+  locations: StorageLocation[]; // Where the dolls are kept, nested through `parent_id`
+  trash_retention_days: number; // How long trashed rows are kept before the purge; 0 keeps them
   created_at: string;
+  deleted_at?: string | null; // Set while the row is in the trash
+  owner_id?: string; // Filled in by the database from the signed-in account
+}
+
+/** A room, shelf, box or bin the collection's dolls are kept in (see services/locations.ts). */
+export interface StorageLocation {
+  id: string;
+  name: string;
+  parent_id: string | null; // The location it sits inside; null at the top level
+}
+
+/** One known item of a series, tracked whether or not we own it yet (see services/checklist.ts). */
+export interface ChecklistItem {
+  id: string;
+  name: string;
+  image_url?: string | null; // Reference picture, e.g. from the maker's lineup
+  sizes: string[]; // Size variant ids it comes in
 }
 
 export interface Category {
   id: string;
   name: string;
   topic_id: string;
+  parent_id?: string | null; // The category it is nested in; unset at the top level
+  checklist?: ChecklistItem[]; // The series' known items, owned or not; unset on older rows
   image_url?: string;
   created_at: string;
+  deleted_at?: string | null;
+  owner_id?: string;
 }
 
 export interface Doll {
   id: string;
   name: string;
   description: string | null;
-  size: string; // Changed to string to allow "Normal, Small" etc.
+  sizes: string[]; // Ids of the topic's size variants this doll comes in
+  quantities: Record<string, number>; // Copies owned by size id; a size left out means one
+  for_trade: Record<string, number>; // Spare copies up for trade by size id; never all of them
+  custom_values: Record<string, CustomValue>; // By custom field id; empty fields are left out
+  tags: string[]; // Free-form labels, shared across the topic by name
   category_id: string | null;
   topic_id: string;
   catch_date: string | null;
-  image_url: string;
+  method: AcquisitionMethod | null;
+  tries: number | null; // Crane game attempts
+  cost: number | null; // Amount spent, in `currency`
+  currency: string | null; // ISO 4217; null means the topic's currency
+  venue: string | null; // The arcade or store
+  image_url: string; // The cover photo, shown on cards
+  photos: string[]; // Every photo in display order, the cover included
+  checklist_item?: string | null; // The entry of its category's checklist it fulfils
+  location_id?: string | null; // One of the topic's storage locations; null while not put away
+  created_at: string;
+  deleted_at?: string | null;
+  owner_id?: string;
+  added_by?: string | null; // The member who added it; filled in by the database
+}
+
+/** Owners manage the collection and its members, editors change its contents, viewers look. */
+export type MemberRole = 'owner' | 'editor' | 'viewer';
+
+export interface TopicMember {
+  topic_id: string;
+  user_id: string;
+  role: MemberRole;
+  display_name: string;
+  email: string;
+  created_at: string;
+}
+
+export interface TopicInvite {
+  id: string;
+  topic_id: string;
+  topic_name: string;
+  email: string;
+  role: MemberRole;
+  invited_by: string | null;
+  created_at: string;
+}
+
+export interface ShareLink {
+  id: string;
+  topic_id: string;
+  token: string; // The secret part of the link; rotating replaces it
+  hide_catch_dates: boolean;
   created_at: string;
+  owner_id?: string;
 }
 
 export enum ViewState {
   HOME = 'HOME',
   CATEGORY = 'CATEGORY',
-  PROFILE = 'PROFILE'
+  PROFILE = 'PROFILE',
+  TRASH = 'TRASH',
+  TRADES = 'TRADES'
 }
 
 export interface NewDollForm {
   name: string;
   description: string;
-  size: string[]; // Changed to array for checkboxes
+  sizes: string[];
+  quantities: Record<string, number>;
+  for_trade: Record<string, number>;
+  custom_values: Record<string, CustomValue>;
+  tags: string[];
   category_id: string;
   catch_date: string;
+  method: AcquisitionMethod | null;
+  tries: number | null;
+  cost: number | null;
+  currency: string | null;
+  venue: string | null;
   imageFile: File | null;
 }
 
@@ -0,0 +1,102 @@
+import React, { useState } from 'react';
+import { auth } from '../services/auth';
+
+type Mode = 'signIn' | 'signUp';
+
+const AuthView: React.FC = () => {
+  const [mode, setMode] = useState<Mode>('signIn');
+  const [email, setEmail] = useState('');
+  const [password, setPassword] = useState('');
+  const [displayName, setDisplayName] = useState('');
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [notice, setNotice] = useState<string | null>(null);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsSubmitting(true);
+    setNotice(null);
+    try {
+      if (mode === 'signUp') {
+        const { needsConfirmation } = await auth.signUp(email, password, displayName.trim());
+        if (needsConfirmation) {
+          setNotice("Check your inbox to confirm your email, then sign in.");
+          setMode('signIn');
+          setPassword('');
+        }
+      } else {
+        await auth.signIn(email, password);
+      }
+    } catch (err) {
+      console.error(err);
+      alert((err as { message?: string })?.message || (mode === 'signUp' ? "Sign-up failed." : "Sign-in failed."));
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const inputClass = "w-full bg-slate-50 dark:bg-slate-800 rounded-xl p-3 text-sm dark:text-white border-none focus:ring-2 focus:ring-primary/50";
+
+  return (
+    <div className="flex-1 flex flex-col h-full items-center justify-center p-6 bg-background-light dark:bg-background-dark">
+        <div className="w-full max-w-sm">
+            <div className="flex flex-col items-center mb-8">
+                <div className="w-16 h-16 rounded-full bg-primary text-white shadow-soft flex items-center justify-center mb-3">
+                    <span className="material-icons-round text-3xl">toys</span>
+                </div>
+                <h1 className="text-2xl font-display font-bold text-slate-800 dark:text-white">
+                    {mode === 'signIn' ? 'Welcome back' : 'Create your account'}
+                </h1>
+                <p className="text-sm text-slate-400 dark:text-slate-500">Your collections are private to your account.</p>
+            </div>
+
+            {notice && (
+                <p className="mb-4 p-3 rounded-xl bg-blue-50 dark:bg-primary/10 text-sm text-primary">{notice}</p>
+            )}
+
+            <form onSubmit={handleSubmit} className="bg-white dark:bg-card-dark p-6 rounded-2xl shadow-sm border border-slate-100 dark:border-slate-700 space-y-4">
+                {mode === 'signUp' && (
+                    <div>
+                        <label className="block text-xs font-bold text-slate-500 uppercase mb-1">Display Name</label>
+                        <input value={displayName} onChange={e => setDisplayName(e.target.value)} className={inputClass} placeholder="e.g. Mika" />
+                    </div>
+                )}
+                <div>
+                    <label className="block text-xs font-bold text-slate-500 uppercase mb-1">Email</label>
+                    <input required type="email" autoComplete="email" value={email} onChange={e => setEmail(e.target.value)} className={inputClass} />
+                </div>
+                <div>
+                    <label className="block text-xs font-bold text-slate-500 uppercase mb-1">Password</label>
+                    <input
+                        required
+                        type="password"
+                        minLength={6}
+                        autoComplete={mode === 'signIn' ? 'current-password' : 'new-password'}
+                        value={password}
+                        onChange={e => setPassword(e.target.value)}
+                        className={inputClass}
+                    />
+                </div>
+                <button
+                    type="submit"
+                    disabled={isSubmitting}
+                    className="w-full bg-primary text-white py-3 rounded-xl font-bold shadow-soft hover:brightness-110 transition disabled:opacity-50"
+                >
+                    {isSubmitting ? '...' : mode === 'signIn' ? 'Sign In' : 'Sign Up'}
+                </button>
+            </form>
+
+            <p className="text-center text-sm text-slate-400 mt-6">
+                {mode === 'signIn' ? "Don't have an account?" : 'Already have an account?'}{' '}
+                <button
+                    onClick={() => { setMode(mode === 'signIn' ? 'signUp' : 'signIn'); setNotice(null); }}
+                    className="font-bold text-primary hover:underline"
+                >
+                    {mode === 'signIn' ? 'Sign up' : 'Sign in'}
+                </button>
+            </p>
+        </div>
+    </div>
+  );
+};
+
+export default AuthView;
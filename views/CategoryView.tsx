@@ -1,52 +1,60 @@
-import React, { useEffect, useState } from 'react';
-import { supabase } from '../services/supabaseClient';
-import { Category, Topic } from '../types';
+import React, { useEffect, useMemo, useState } from 'react';
+import { repository } from '../services/repository';
+import { Category, Topic, MemberRole } from '../types';
+import type { CategoryDeleteOptions, SharedCollection } from '../services/repository';
 import LoadingSpinner from '../components/LoadingSpinner';
+import SeriesChecklist from '../components/SeriesChecklist';
 import { suggestCategory } from '../services/geminiService';
-import { compressImage } from '../services/utils';
+import { compressImage, applyRowChange } from '../services/utils';
+import { CategoryWithStats, emptyStats, summarizeCategories } from '../services/categoryStats';
+import { history } from '../services/history';
+import { categoryCreated, categoryDeleted, categoryEdited } from '../services/commands';
+import { canEdit } from '../services/roles';
+import { checklistOf, completion } from '../services/checklist';
+import { ancestry, canMoveTo, childrenOf, flattenTree, indentedName, rollUpStats } from '../services/categoryTree';
 
 interface CategoryViewProps {
   currentTopic: Topic;
+  /** The signed-in account's role in the topic; viewers can't change categories. */
+  role?: MemberRole | null;
   onSelectCategory: (categoryId: string) => void;
+  /** Set when opened from a share link: read-only, served from the link's snapshot. */
+  shared?: SharedCollection;
 }
 
-const CategoryView: React.FC<CategoryViewProps> = ({ currentTopic, onSelectCategory }) => {
-  const [categories, setCategories] = useState<{ category: Category, count: number }[]>([]);
+const CategoryView: React.FC<CategoryViewProps> = ({ currentTopic, role, onSelectCategory, shared }) => {
+  const readOnly = !!shared || !canEdit(role);
+  const [categories, setCategories] = useState<CategoryWithStats[]>([]);
   const [loading, setLoading] = useState(true);
   const [newCategoryName, setNewCategoryName] = useState('');
   const [imageFile, setImageFile] = useState<File | null>(null);
   const [isAiLoading, setIsAiLoading] = useState(false);
   const [isCreating, setIsCreating] = useState(false);
+  const [checklistCategory, setChecklistCategory] = useState<Category | null>(null);
+  // The category being browsed; null at the top level
+  const [browsingId, setBrowsingId] = useState<string | null>(null);
 
   // Edit State
   const [editingCategory, setEditingCategory] = useState<Category | null>(null);
   const [editName, setEditName] = useState('');
+  const [editParentId, setEditParentId] = useState('');
   const [editImageFile, setEditImageFile] = useState<File | null>(null);
   const [isSavingEdit, setIsSavingEdit] = useState(false);
 
-  // Deletion state mapping: categoryId -> boolean (isDeleting state)
-  const [deletingStates, setDeletingStates] = useState<Record<string, boolean>>({});
+  // Delete State: which category, and what happens to its dolls
+  const [deletingCategory, setDeletingCategory] = useState<CategoryWithStats | null>(null);
+  const [deleteDollsAction, setDeleteDollsAction] = useState<CategoryDeleteOptions['dolls']>('uncategorize');
+  const [moveTargetId, setMoveTargetId] = useState('');
+  const [isDeleting, setIsDeleting] = useState(false);
 
-  const fetchCategories = async () => {
+  const fetchCategories = async (silent = false) => {
     if (!currentTopic) return;
-    setLoading(true);
+    if (!silent) setLoading(true);
     try {
-        const { data: cats, error: catError } = await supabase
-            .from('categories')
-            .select('*')
-            .eq('topic_id', currentTopic.id)
-            .order('name');
-        if (catError) throw catError;
-
-        const catsWithCounts = await Promise.all(cats.map(async (c) => {
-            const { count } = await supabase.from('dolls').select('*', { count: 'exact', head: true }).eq('category_id', c.id);
-            return {
-                category: c,
-                count: count || 0
-            };
-        }));
-        
-        setCategories(catsWithCounts);
+        const catsWithStats = shared
+            ? summarizeCategories(shared.categories, shared.dolls)
+            : await repository.categories.listWithStats(currentTopic.id);
+        setCategories(catsWithStats);
     } catch (err) {
       console.error(err);
     } finally {
@@ -58,12 +66,69 @@ const CategoryView: React.FC<CategoryViewProps> = ({ currentTopic, onSelectCateg
     fetchCategories();
   }, [currentTopic]);
 
+  useEffect(() => {
+    setBrowsingId(null);
+  }, [currentTopic.id]);
+
+  const allCategories = useMemo(() => categories.map(c => c.category), [categories]);
+  const rolledUp = useMemo(() => rollUpStats(categories), [categories]);
+  // Falls back to the nearest level still there if the browsed category goes away
+  const browsingPath = ancestry(allCategories, browsingId);
+  const browsing = browsingPath[browsingPath.length - 1] || null;
+  const browsingStats = browsing ? rolledUp.find(c => c.category.id === browsing.id) : undefined;
+  const visibleIds = new Set(childrenOf(allCategories, browsing?.id ?? null).map(c => c.id));
+  const visible = rolledUp.filter(c => visibleIds.has(c.category.id));
+  const subcategoryCount = (id: string) => childrenOf(allCategories, id).length;
+
+  // Parents open their subcategories; the rest go to their dolls
+  const openCategory = (id: string) => {
+      if (subcategoryCount(id) > 0) setBrowsingId(id);
+      else onSelectCategory(id);
+  };
+
+  // Live updates from other devices. Doll events don't say which category a doll
+  // left, so stats are refreshed in the background (coalesced over a short window).
+  useEffect(() => {
+    if (shared) return;
+    const topicId = currentTopic.id;
+    let recountTimer: ReturnType<typeof setTimeout> | undefined;
+    const unsubscribe = repository.subscribe(topicId, change => {
+        if (change.table === 'categories') {
+            setCategories(prev => {
+                const merged = applyRowChange(prev.map(c => c.category), change, c => c.topic_id === topicId);
+                return merged
+                    .sort((a, b) => a.name.localeCompare(b.name))
+                    .map(category => {
+                        const existing = prev.find(c => c.category.id === category.id);
+                        return existing ? { ...existing, category } : emptyStats(category);
+                    });
+            });
+        } else if (change.table === 'dolls') {
+            clearTimeout(recountTimer);
+            recountTimer = setTimeout(() => fetchCategories(true), 500);
+        }
+    });
+    return () => {
+        clearTimeout(recountTimer);
+        unsubscribe();
+    };
+  }, [currentTopic.id]);
+
+  // Undo/redo may touch rows realtime hasn't reported yet
+  useEffect(() => {
+    if (shared) return;
+    return history.subscribe(event => {
+        if (event.type !== 'recorded') fetchCategories(true);
+    });
+  }, [currentTopic.id]);
+
   const handleAiScan = async (file: File) => {
     setIsAiLoading(true);
     try {
         const suggestion = await suggestCategory(file);
         setNewCategoryName(suggestion);
     } catch(e) {
+        console.error(e);
         alert("Could not scan.");
     } finally {
         setIsAiLoading(false);
@@ -78,25 +143,45 @@ const CategoryView: React.FC<CategoryViewProps> = ({ currentTopic, onSelectCateg
       }
   };
 
-  const handleDeleteCategory = async (e: React.MouseEvent, catId: string) => {
+  const startDelete = (e: React.MouseEvent, id: string) => {
       e.stopPropagation();
-      
-      if (deletingStates[catId]) {
-          // Confirmed delete
-          try {
-              const { error } = await supabase.from('categories').delete().eq('id', catId);
-              if (error) throw error;
-              setCategories(prev => prev.filter(c => c.category.id !== catId));
-          } catch (err) {
-              console.error(err);
-              alert("Failed to delete category.");
-          }
-      } else {
-          // Arm delete
-          setDeletingStates(prev => ({ ...prev, [catId]: true }));
-          setTimeout(() => {
-              setDeletingStates(prev => ({ ...prev, [catId]: false }));
-          }, 3000);
+      // Its own dolls, not the rolled-up count: subcategories keep theirs
+      const item = categories.find(c => c.category.id === id);
+      if (!item) return;
+      setDeletingCategory(item);
+      setDeleteDollsAction('uncategorize');
+      setMoveTargetId('');
+  };
+
+  const handleDeleteCategory = async () => {
+      if (!deletingCategory) return;
+      const options: CategoryDeleteOptions = deleteDollsAction === 'move'
+          ? { dolls: 'move', targetCategoryId: moveTargetId }
+          : { dolls: deleteDollsAction };
+      if (options.dolls === 'move' && !options.targetCategoryId) return alert("Choose a category to move the dolls to.");
+
+      setIsDeleting(true);
+      try {
+          const catId = deletingCategory.category.id;
+          // Remember which dolls leave the category so undo can put them back
+          const movedDollIds = options.dolls === 'delete' || deletingCategory.count === 0 ? [] :
+              (await repository.dolls.listByTopic(currentTopic.id)).filter(d => d.category_id === catId).map(d => d.id);
+          const childIds = childrenOf(allCategories, catId).map(c => c.id);
+          const parentId = deletingCategory.category.parent_id ?? null;
+          await repository.categories.remove(catId, options);
+          history.record(categoryDeleted(deletingCategory.category, options, movedDollIds, childIds));
+          setCategories(prev => prev
+              .filter(c => c.category.id !== catId)
+              .map(c => options.dolls === 'move' && c.category.id === options.targetCategoryId
+                  ? { ...c, count: c.count + deletingCategory.count }
+                  : c)
+              .map(c => childIds.includes(c.category.id) ? { ...c, category: { ...c.category, parent_id: parentId } } : c));
+          setDeletingCategory(null);
+      } catch (err) {
+          console.error(err);
+          alert("Failed to delete category.");
+      } finally {
+          setIsDeleting(false);
       }
   };
 
@@ -114,23 +199,15 @@ const CategoryView: React.FC<CategoryViewProps> = ({ currentTopic, onSelectCateg
         // Upload Image
         const fileExt = compressed.name.split('.').pop();
         const fileName = `cat_${Date.now()}.${fileExt}`;
-        const { error: uploadError } = await supabase.storage
-            .from('images')
-            .upload(fileName, compressed);
-
-        if (uploadError) throw uploadError;
-
-        const { data: { publicUrl } } = supabase.storage
-            .from('images')
-            .getPublicUrl(fileName);
+        const publicUrl = await repository.images.upload(currentTopic.id, fileName, compressed);
 
-        const { error } = await supabase.from('categories').insert([{ 
+        const category = await repository.categories.create({
             name: newCategoryName,
             topic_id: currentTopic.id,
-            image_url: publicUrl 
-        }]);
-
-        if (error) throw error;
+            parent_id: browsing?.id ?? null,
+            image_url: publicUrl
+        });
+        history.record(categoryCreated(category));
 
         setNewCategoryName('');
         setImageFile(null);
@@ -148,6 +225,7 @@ const CategoryView: React.FC<CategoryViewProps> = ({ currentTopic, onSelectCateg
       e.stopPropagation();
       setEditingCategory(category);
       setEditName(category.name);
+      setEditParentId(category.parent_id || '');
       setEditImageFile(null);
   };
 
@@ -162,25 +240,21 @@ const CategoryView: React.FC<CategoryViewProps> = ({ currentTopic, onSelectCateg
              const compressed = await compressImage(editImageFile);
              const fileExt = compressed.name.split('.').pop();
              const fileName = `cat_${Date.now()}.${fileExt}`;
-             const { error: uploadError } = await supabase.storage
-                .from('images')
-                .upload(fileName, compressed);
-             if (uploadError) throw uploadError;
-             
-             const { data } = supabase.storage.from('images').getPublicUrl(fileName);
-             imageUrl = data.publicUrl;
+             imageUrl = await repository.images.upload(currentTopic.id, fileName, compressed);
           }
 
-          const { error } = await supabase.from('categories').update({
-              name: editName,
-              image_url: imageUrl
-          }).eq('id', editingCategory.id);
-
-          if (error) throw error;
+          // Moving a category takes its subcategories along
+          const parentId = editParentId || null;
+          const patch = { name: editName, image_url: imageUrl, parent_id: parentId };
+          if (patch.name !== editingCategory.name || patch.image_url !== editingCategory.image_url || parentId !== (editingCategory.parent_id ?? null)) {
+              // The old image is kept while the edit can be undone
+              await repository.categories.update(editingCategory.id, patch, { keepPreviousImage: true });
+              history.record(categoryEdited(editingCategory, patch));
+          }
 
           setCategories(prev => prev.map(c => 
               c.category.id === editingCategory.id 
-                ? { ...c, category: { ...c.category, name: editName, image_url: imageUrl } } 
+                ? { ...c, category: { ...c.category, name: editName, image_url: imageUrl, parent_id: parentId } } 
                 : c
           ));
           setEditingCategory(null);
@@ -199,74 +273,104 @@ const CategoryView: React.FC<CategoryViewProps> = ({ currentTopic, onSelectCateg
             <button className="text-[#0d181c] dark:text-white flex size-10 shrink-0 items-center justify-center rounded-full hover:bg-gray-200 dark:hover:bg-white/10 transition-colors opacity-0 cursor-default">
                 <span className="material-symbols-outlined">arrow_back_ios_new</span>
             </button>
-            <h2 className="text-[#0d181c] dark:text-white text-lg font-bold leading-tight tracking-[-0.015em]">Manage Categories</h2>
+            <h2 className="text-[#0d181c] dark:text-white text-lg font-bold leading-tight tracking-[-0.015em]">{readOnly ? 'Categories' : 'Manage Categories'}</h2>
             <div className="w-10"></div>
         </header>
 
         <main className="flex-1 flex flex-col w-full max-w-7xl mx-auto">
             {/* Input Section */}
-            <section className="px-4 pt-6 pb-2">
-                <h3 className="text-[#0d181c] dark:text-white tracking-tight text-xl font-bold leading-tight text-left mb-4">Add to {currentTopic.name}</h3>
-                <div className="bg-white dark:bg-[#1a2c32] p-4 rounded-2xl shadow-sm border border-gray-100 dark:border-gray-800 max-w-md mx-auto">
-                    <div className="flex gap-4 mb-4">
-                        {/* Image Upload Placeholder */}
-                        <div className="shrink-0 group cursor-pointer relative">
-                            <div className={`w-24 h-24 rounded-xl border-2 border-dashed ${isAiLoading ? 'border-primary animate-pulse' : 'border-[#cfe2e8] dark:border-gray-600'} bg-background-light dark:bg-white/5 flex flex-col items-center justify-center transition-all group-hover:border-primary group-hover:bg-primary/5 overflow-hidden`}>
-                                {imageFile ? (
-                                    <img src={URL.createObjectURL(imageFile)} className="w-full h-full object-cover" />
-                                ) : (
-                                    <>
-                                        <span className="material-symbols-outlined text-primary mb-1">add_a_photo</span>
-                                        <span className="text-[10px] font-bold text-center text-gray-500 dark:text-gray-400 group-hover:text-primary leading-tight px-1">Scan / Upload</span>
-                                    </>
-                                )}
+            {!readOnly && (
+                <section className="px-4 pt-6 pb-2">
+                    <h3 className="text-[#0d181c] dark:text-white tracking-tight text-xl font-bold leading-tight text-left mb-4">Add to {browsing ? browsing.name : currentTopic.name}</h3>
+                    <div className="bg-white dark:bg-[#1a2c32] p-4 rounded-2xl shadow-sm border border-gray-100 dark:border-gray-800 max-w-md mx-auto">
+                        <div className="flex gap-4 mb-4">
+                            {/* Image Upload Placeholder */}
+                            <div className="shrink-0 group cursor-pointer relative">
+                                <div className={`w-24 h-24 rounded-xl border-2 border-dashed ${isAiLoading ? 'border-primary animate-pulse' : 'border-[#cfe2e8] dark:border-gray-600'} bg-background-light dark:bg-white/5 flex flex-col items-center justify-center transition-all group-hover:border-primary group-hover:bg-primary/5 overflow-hidden`}>
+                                    {imageFile ? (
+                                        <img src={URL.createObjectURL(imageFile)} className="w-full h-full object-cover" />
+                                    ) : (
+                                        <>
+                                            <span className="material-symbols-outlined text-primary mb-1">add_a_photo</span>
+                                            <span className="text-[10px] font-bold text-center text-gray-500 dark:text-gray-400 group-hover:text-primary leading-tight px-1">Scan / Upload</span>
+                                        </>
+                                    )}
+                                </div>
+                                <input type="file" accept="image/*" className="absolute inset-0 opacity-0 cursor-pointer" onChange={handleFileChange} />
+                            </div>
+                            {/* Text Input */}
+                            <div className="flex-1 flex flex-col justify-center">
+                                <label className="text-xs font-bold text-gray-500 dark:text-gray-400 uppercase tracking-wider mb-2">Category Name</label>
+                                <input 
+                                    className="w-full bg-background-light dark:bg-background-dark border-none rounded-xl h-12 px-4 text-[#0d181c] dark:text-white placeholder:text-[#4b879b]/60 focus:ring-2 focus:ring-primary/50 transition-all font-medium" 
+                                    placeholder={isAiLoading ? "Scanning..." : "e.g. Sharks"} 
+                                    type="text"
+                                    value={newCategoryName}
+                                    onChange={(e) => setNewCategoryName(e.target.value)}
+                                />
                             </div>
-                            <input type="file" accept="image/*" className="absolute inset-0 opacity-0 cursor-pointer" onChange={handleFileChange} />
-                        </div>
-                        {/* Text Input */}
-                        <div className="flex-1 flex flex-col justify-center">
-                            <label className="text-xs font-bold text-gray-500 dark:text-gray-400 uppercase tracking-wider mb-2">Category Name</label>
-                            <input 
-                                className="w-full bg-background-light dark:bg-background-dark border-none rounded-xl h-12 px-4 text-[#0d181c] dark:text-white placeholder:text-[#4b879b]/60 focus:ring-2 focus:ring-primary/50 transition-all font-medium" 
-                                placeholder={isAiLoading ? "Scanning..." : "e.g. Sharks"} 
-                                type="text"
-                                value={newCategoryName}
-                                onChange={(e) => setNewCategoryName(e.target.value)}
-                            />
                         </div>
+                        {/* Create Button */}
+                        <button 
+                            onClick={createCategory}
+                            disabled={!newCategoryName || !imageFile || isCreating}
+                            className="w-full cursor-pointer items-center justify-center overflow-hidden rounded-xl h-12 px-5 bg-primary hover:bg-primary/90 active:scale-[0.98] transition-all text-[#0d181c] text-base font-bold leading-normal tracking-[0.015em] flex gap-2 disabled:opacity-50 disabled:cursor-not-allowed"
+                        >
+                            <span className="material-symbols-outlined text-[20px]">add</span>
+                            <span>{isCreating ? 'Saving...' : 'Create Category'}</span>
+                        </button>
                     </div>
-                    {/* Create Button */}
-                    <button 
-                        onClick={createCategory}
-                        disabled={!newCategoryName || !imageFile || isCreating}
-                        className="w-full cursor-pointer items-center justify-center overflow-hidden rounded-xl h-12 px-5 bg-primary hover:bg-primary/90 active:scale-[0.98] transition-all text-[#0d181c] text-base font-bold leading-normal tracking-[0.015em] flex gap-2 disabled:opacity-50 disabled:cursor-not-allowed"
-                    >
-                        <span className="material-symbols-outlined text-[20px]">add</span>
-                        <span>{isCreating ? 'Saving...' : 'Create Category'}</span>
-                    </button>
-                </div>
-            </section>
+                </section>
+            )}
 
             <div className="h-4"></div>
 
             {/* List Section */}
             <section className="px-4 pb-12 flex-1">
+                {/* Breadcrumbs down to the browsed category */}
+                {browsing && (
+                    <nav className="flex flex-wrap items-center gap-1 mb-2 px-1 text-sm">
+                        <button onClick={() => setBrowsingId(null)} className="font-medium text-gray-500 dark:text-gray-400 hover:text-primary">All</button>
+                        {browsingPath.map(cat => (
+                            <React.Fragment key={cat.id}>
+                                <span className="material-icons-round text-base text-gray-300">chevron_right</span>
+                                <button
+                                    onClick={() => setBrowsingId(cat.id)}
+                                    className={`font-medium ${cat.id === browsing.id ? 'text-[#0d181c] dark:text-white' : 'text-gray-500 dark:text-gray-400 hover:text-primary'}`}
+                                >
+                                    {cat.name}
+                                </button>
+                            </React.Fragment>
+                        ))}
+                    </nav>
+                )}
                 <div className="flex items-end justify-between mb-4 px-1 max-w-7xl mx-auto">
-                    <h3 className="text-[#0d181c] dark:text-white tracking-tight text-xl font-bold leading-tight">Current Categories</h3>
-                    <span className="text-sm font-medium text-gray-400 dark:text-gray-500">{categories.length}</span>
+                    <h3 className="text-[#0d181c] dark:text-white tracking-tight text-xl font-bold leading-tight">{browsing ? browsing.name : 'Current Categories'}</h3>
+                    <span className="text-sm font-medium text-gray-400 dark:text-gray-500">{visible.length}</span>
                 </div>
+
+                {browsing && (
+                    <button
+                        onClick={() => onSelectCategory(browsing.id)}
+                        className="w-full mb-4 flex items-center gap-2 px-4 py-3 rounded-2xl bg-primary/10 text-primary text-sm font-bold hover:bg-primary/20 transition-colors"
+                    >
+                        <span className="material-icons-round text-lg">grid_view</span>
+                        <span className="flex-1 text-left">Show all {browsingStats?.count ?? 0} dolls in {browsing.name}</span>
+                        <span className="material-icons-round text-lg">chevron_right</span>
+                    </button>
+                )}
                 
                 {loading ? <LoadingSpinner /> : (
                     <div className="grid grid-cols-2 sm:grid-cols-3 md:grid-cols-4 lg:grid-cols-5 gap-4">
-                        {categories.map((item) => (
+                        {visible.map((item) => (
                              <div 
                                 key={item.category.id} 
-                                onClick={() => onSelectCategory(item.category.id)}
+                                onClick={() => openCategory(item.category.id)}
                                 className="group bg-white dark:bg-[#1a2c32] rounded-2xl p-3 shadow-sm border border-transparent hover:border-primary/20 dark:hover:border-primary/20 transition-all cursor-pointer hover:shadow-md relative"
                              >
                                 <div className="relative w-full aspect-square rounded-xl overflow-hidden mb-3 bg-primary/10">
-                                    {item.category.image_url ? (
-                                         <div className="w-full h-full bg-cover bg-center transition-transform duration-500 group-hover:scale-110" style={{backgroundImage: `url(${item.category.image_url})`}}></div>
+                                    {item.category.image_url || item.sampleImageUrl ? (
+                                         <div className="w-full h-full bg-cover bg-center transition-transform duration-500 group-hover:scale-110" style={{backgroundImage: `url(${item.category.image_url || item.sampleImageUrl})`}}></div>
                                     ) : (
                                         <div className="w-full h-full flex items-center justify-center text-primary/30">
                                             <span className="material-icons-round text-4xl">folder</span>
@@ -275,26 +379,53 @@ const CategoryView: React.FC<CategoryViewProps> = ({ currentTopic, onSelectCateg
                                 </div>
                                 <div className="flex flex-col px-1">
                                     <h4 className="font-bold text-base text-[#0d181c] dark:text-white truncate">{item.category.name}</h4>
-                                    <p className="text-xs text-gray-500 dark:text-gray-400 font-medium mt-0.5">{item.count} Items</p>
+                                    <p className="text-xs text-gray-500 dark:text-gray-400 font-medium mt-0.5">
+                                        {item.count} Items
+                                        {subcategoryCount(item.category.id) > 0 && ` · ${subcategoryCount(item.category.id)} subcategories`}
+                                    </p>
+                                    {item.latestCatchDate && (
+                                        <p className="text-[10px] text-gray-400 dark:text-gray-500 mt-0.5">Last caught {item.latestCatchDate}</p>
+                                    )}
+                                    {checklistOf(item.category).length > 0 && (
+                                        <div className="flex items-center gap-2 mt-1.5 pr-8" title={`${item.checklistOwned} of ${checklistOf(item.category).length} in the checklist`}>
+                                            <div className="flex-1 h-1.5 rounded-full bg-uncollected dark:bg-uncollected-dark overflow-hidden">
+                                                <div className="h-full bg-primary rounded-full" style={{ width: `${completion(item.checklistOwned, checklistOf(item.category).length)}%` }} />
+                                            </div>
+                                            <span className="text-[10px] font-bold text-gray-500 dark:text-gray-400">{completion(item.checklistOwned, checklistOf(item.category).length)}%</span>
+                                        </div>
+                                    )}
                                 </div>
+
+                                {/* Checklist Icon - shown once there is one, or to editors on hover */}
+                                {(!readOnly || checklistOf(item.category).length > 0) && (
+                                    <div
+                                        onClick={(e) => { e.stopPropagation(); setChecklistCategory(item.category); }}
+                                        title="Checklist"
+                                        className={`absolute top-2 left-2 p-1.5 rounded-full z-10 transition-all bg-white/50 dark:bg-black/50 text-slate-500 dark:text-slate-300 hover:bg-white hover:text-primary ${checklistOf(item.category).length > 0 ? '' : 'opacity-0 group-hover:opacity-100'}`}
+                                    >
+                                        <span className="material-icons-round text-[16px]">checklist</span>
+                                    </div>
+                                )}
                                 
                                 {/* Edit Icon - Bottom Right, Transparent */}
-                                <div 
-                                    onClick={(e) => startEdit(e, item.category)}
-                                    className="absolute bottom-3 right-3 p-1.5 rounded-full z-10 bg-white/50 text-slate-800 opacity-20 hover:opacity-100 transition-all hover:bg-white shadow-sm"
-                                >
-                                     <span className="material-icons-round text-[16px]">edit</span>
-                                </div>
+                                {!readOnly && (
+                                    <div 
+                                        onClick={(e) => startEdit(e, item.category)}
+                                        className="absolute bottom-3 right-3 p-1.5 rounded-full z-10 bg-white/50 text-slate-800 opacity-20 hover:opacity-100 transition-all hover:bg-white shadow-sm"
+                                    >
+                                         <span className="material-icons-round text-[16px]">edit</span>
+                                    </div>
+                                )}
 
                                 {/* Delete Icon */}
-                                <div 
-                                    onClick={(e) => handleDeleteCategory(e, item.category.id)}
-                                    className={`absolute top-2 right-2 p-1.5 rounded-full z-10 transition-all ${deletingStates[item.category.id] ? 'bg-red-500 text-white opacity-100' : 'bg-white/50 dark:bg-black/50 text-slate-500 dark:text-slate-300 opacity-0 group-hover:opacity-100 hover:bg-red-50 dark:hover:bg-red-900/50 hover:text-red-500'}`}
-                                >
-                                    <span className="material-icons-round text-[16px]">
-                                        {deletingStates[item.category.id] ? 'check' : 'delete'}
-                                    </span>
-                                </div>
+                                {!readOnly && (
+                                    <div 
+                                        onClick={(e) => startDelete(e, item.category.id)}
+                                        className="absolute top-2 right-2 p-1.5 rounded-full z-10 transition-all bg-white/50 dark:bg-black/50 text-slate-500 dark:text-slate-300 opacity-0 group-hover:opacity-100 hover:bg-red-50 dark:hover:bg-red-900/50 hover:text-red-500"
+                                    >
+                                        <span className="material-icons-round text-[16px]">delete</span>
+                                    </div>
+                                )}
                             </div>
                         ))}
                     </div>
@@ -302,6 +433,20 @@ const CategoryView: React.FC<CategoryViewProps> = ({ currentTopic, onSelectCateg
             </section>
         </main>
 
+        {checklistCategory && (
+            <SeriesChecklist
+                topic={currentTopic}
+                category={checklistCategory}
+                readOnly={readOnly}
+                sharedDolls={shared?.dolls}
+                onClose={() => setChecklistCategory(null)}
+                onChanged={category => {
+                    setCategories(prev => prev.map(c => c.category.id === category.id ? { ...c, category } : c));
+                    if (!shared) fetchCategories(true);
+                }}
+            />
+        )}
+
         {/* Edit Category Modal */}
         {editingCategory && (
             <div className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-black/60 backdrop-blur-sm" onClick={() => setEditingCategory(null)}>
@@ -330,6 +475,23 @@ const CategoryView: React.FC<CategoryViewProps> = ({ currentTopic, onSelectCateg
                             />
                         </div>
 
+                        <div>
+                            <label className="text-xs font-bold text-slate-500 uppercase">Inside</label>
+                            <select
+                                value={editParentId}
+                                onChange={e => setEditParentId(e.target.value)}
+                                className="w-full bg-slate-50 dark:bg-slate-800 rounded-lg p-2 mt-1 dark:text-white border-none"
+                            >
+                                <option value="">Top level</option>
+                                {flattenTree(allCategories)
+                                    .filter(({ category }) => canMoveTo(allCategories, editingCategory.id, category.id))
+                                    .map(({ category, depth }) => (
+                                        <option key={category.id} value={category.id}>{indentedName(category.name, depth)}</option>
+                                    ))}
+                            </select>
+                            <p className="text-[10px] text-slate-400 mt-1">Its subcategories and dolls move along with it.</p>
+                        </div>
+
                         <div className="flex gap-2">
                              <button onClick={() => setEditingCategory(null)} className="flex-1 py-2 bg-slate-100 rounded-lg font-bold text-slate-500">Cancel</button>
                              <button onClick={handleUpdateCategory} disabled={isSavingEdit} className="flex-1 py-2 bg-primary rounded-lg font-bold text-white">
@@ -340,6 +502,58 @@ const CategoryView: React.FC<CategoryViewProps> = ({ currentTopic, onSelectCateg
                 </div>
             </div>
         )}
+
+        {/* Delete Category Modal */}
+        {deletingCategory && (
+            <div className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-black/60 backdrop-blur-sm" onClick={() => setDeletingCategory(null)}>
+                <div className="bg-white dark:bg-card-dark rounded-2xl w-full max-w-sm p-6 shadow-2xl" onClick={e => e.stopPropagation()}>
+                    <h2 className="text-xl font-bold mb-1 text-slate-800 dark:text-white">Delete "{deletingCategory.category.name}"?</h2>
+                    <p className="text-sm text-slate-500 dark:text-slate-400 mb-4">
+                        {deletingCategory.count === 0
+                            ? 'This category is empty.'
+                            : `${deletingCategory.count} doll${deletingCategory.count === 1 ? ' is' : 's are'} in this category.`}
+                        {subcategoryCount(deletingCategory.category.id) > 0 &&
+                            ` Its subcategories move up to ${ancestry(allCategories, deletingCategory.category.parent_id ?? null).pop()?.name || 'the top level'}.`}
+                    </p>
+
+                    {deletingCategory.count > 0 && (
+                        <div className="flex flex-col gap-2 mb-4">
+                            <label className="flex items-center gap-2 text-sm text-slate-600 dark:text-slate-300 cursor-pointer">
+                                <input type="radio" checked={deleteDollsAction === 'move'} onChange={() => setDeleteDollsAction('move')} className="text-primary focus:ring-primary" />
+                                Move them to
+                                <select
+                                    value={moveTargetId}
+                                    onChange={e => { setMoveTargetId(e.target.value); setDeleteDollsAction('move'); }}
+                                    className="flex-1 bg-slate-50 dark:bg-slate-800 rounded-lg p-1.5 text-sm dark:text-white border-none"
+                                >
+                                    <option value="">Choose...</option>
+                                    {flattenTree(allCategories).filter(({ category }) => category.id !== deletingCategory.category.id).map(({ category, depth }) => (
+                                        <option key={category.id} value={category.id}>{indentedName(category.name, depth)}</option>
+                                    ))}
+                                </select>
+                            </label>
+                            <label className="flex items-center gap-2 text-sm text-slate-600 dark:text-slate-300 cursor-pointer">
+                                <input type="radio" checked={deleteDollsAction === 'uncategorize'} onChange={() => setDeleteDollsAction('uncategorize')} className="text-primary focus:ring-primary" />
+                                Leave them uncategorized
+                            </label>
+                            <label className="flex items-center gap-2 text-sm text-red-500 cursor-pointer">
+                                <input type="radio" checked={deleteDollsAction === 'delete'} onChange={() => setDeleteDollsAction('delete')} className="text-red-500 focus:ring-red-500" />
+                                Delete all {deletingCategory.count} doll{deletingCategory.count === 1 ? '' : 's'} too
+                            </label>
+                        </div>
+                    )}
+
+                    <p className="text-xs text-slate-400 mb-4">Deleted items can be restored from Trash in your profile.</p>
+
+                    <div className="flex gap-2">
+                        <button onClick={() => setDeletingCategory(null)} className="flex-1 py-2 bg-slate-100 rounded-lg font-bold text-slate-500">Cancel</button>
+                        <button onClick={handleDeleteCategory} disabled={isDeleting} className="flex-1 py-2 bg-red-500 rounded-lg font-bold text-white disabled:opacity-50">
+                            {isDeleting ? 'Deleting...' : 'Delete'}
+                        </button>
+                    </div>
+                </div>
+            </div>
+        )}
     </div>
   );
 };
@@ -1,32 +1,102 @@
-import React, { useEffect, useState, useMemo } from 'react';
-import { supabase } from '../services/supabaseClient';
-import { Doll, Category, NewDollForm, Topic, SortOption, GridOption } from '../types';
+import React, { useEffect, useState, useMemo, useRef } from 'react';
+import { repository, DollUpdate, SharedCollection } from '../services/repository';
+import { Doll, Category, NewDollForm, Topic, SortOption, GridOption, MemberRole } from '../types';
 import DollCard from '../components/DollCard';
 import LoadingSpinner from '../components/LoadingSpinner';
+import DollHistory from '../components/DollHistory';
+import CustomFieldInputs from '../components/CustomFieldInputs';
+import TagInput from '../components/TagInput';
+import TagManager from '../components/TagManager';
+import PhotoGallery from '../components/PhotoGallery';
+import AcquisitionInputs from '../components/AcquisitionInputs';
+import QuantityInputs from '../components/QuantityInputs';
+import StorageFinder from '../components/StorageFinder';
+import SearchQueryInput from '../components/SearchQueryInput';
 import { identifyDoll } from '../services/geminiService';
-import { compressImage } from '../services/utils';
+import { ValidDollForm, ValidationError, describeIssues, validateDollForm } from '../services/validation';
+import { compressImage, applyRowChange } from '../services/utils';
+import { DollQuery, LoadedDolls, DOLL_PAGE_SIZE, applyDollChange, pageDolls } from '../services/dollQuery';
+import { history } from '../services/history';
+import { dollAdded, dollDeleted, dollEdited, topicRenamed } from '../services/commands';
+import { canEdit, canManage } from '../services/roles';
+import { sizeVariantsOf, dollSizes, sizesFromLabels } from '../services/sizes';
+import { customFieldsOf, customValue, formatCustomValue, isEmptyValue, isSafeUrl, isSortable } from '../services/customFields';
+import { TagMode, summarizeTags, tagsOf } from '../services/tags';
+import { MAX_PHOTOS, photosOf } from '../services/photos';
+import { currencyOf, describeAcquisition } from '../services/spending';
+import { quantityOf, totalTradeable } from '../services/trades';
+import { ancestry, categoryPath, childrenOf, flattenTree, indentedName, subtreeIds } from '../services/categoryTree';
+import { locationOf, locationPath, locationsOf } from '../services/locations';
+import { SearchClause, SearchContext, highlightTerms, isRankedSearch, parseSearch } from '../services/searchQuery';
 
 interface HomeViewProps {
   currentTopic: Topic;
+  /** The signed-in account's role in the topic; decides which controls show. */
+  role?: MemberRole | null;
   initialCategoryId?: string | null;
   onUpdateTopic: (topic: Topic) => void;
   onClearInitialCategory: () => void;
+  /** Set when opened from a share link: read-only, served from the link's snapshot. */
+  shared?: SharedCollection;
 }
 
 type FilterType = 'ALL' | 'NEW' | 'DATE_FILTER' | string;
 
-const HomeView: React.FC<HomeViewProps> = ({ currentTopic, initialCategoryId, onUpdateTopic, onClearInitialCategory }) => {
-  const [dolls, setDolls] = useState<Doll[]>([]);
+// The add form as it opens: the topic's first size, caught today
+const emptyDollForm = (topic: Topic): NewDollForm => ({
+  name: '',
+  description: '',
+  sizes: sizeVariantsOf(topic).slice(0, 1).map(v => v.id),
+  quantities: {},
+  for_trade: {},
+  custom_values: {},
+  tags: [],
+  category_id: '',
+  catch_date: new Date().toISOString().split('T')[0],
+  method: null,
+  tries: null,
+  cost: null,
+  currency: null,
+  venue: null,
+  imageFile: null
+});
+
+const HomeView: React.FC<HomeViewProps> = ({ currentTopic, role, initialCategoryId, onUpdateTopic, onClearInitialCategory, shared }) => {
+  const readOnly = !!shared || !canEdit(role);
+  const canRename = !shared && canManage(role);
+  const hideCatchDates = !!shared?.hideCatchDates;
+  const sizeVariants = sizeVariantsOf(currentTopic);
+  const customFields = useMemo(() => customFieldsOf(currentTopic), [currentTopic]);
+  const currency = currencyOf(currentTopic);
+  const locations = locationsOf(currentTopic);
+  const [grid, setGrid] = useState<LoadedDolls>({ dolls: [], total: 0, nextCursor: null });
   const [categories, setCategories] = useState<Category[]>([]);
+  const [tagNames, setTagNames] = useState<string[]>([]); // Every tag in use in the topic
   const [loading, setLoading] = useState(true);
+  const [isLoadingMore, setIsLoadingMore] = useState(false);
+  const loadMoreRef = useRef<HTMLDivElement>(null);
   
   // View/Sort State
   const [activeFilter, setActiveFilter] = useState<FilterType>('ALL');
   const [dateFilterValue, setDateFilterValue] = useState<string>(''); // Format YYYY-MM
+  const [sizeFilter, setSizeFilter] = useState<string | null>(null); // Size variant id, combines with the other filters
+  const [locationFilter, setLocationFilter] = useState<string | null>(null); // Storage location id; takes in those inside it
+  const [showStorageFinder, setShowStorageFinder] = useState(false);
   const [searchQuery, setSearchQuery] = useState('');
+  const [debouncedSearch, setDebouncedSearch] = useState('');
+  const [searchClauses, setSearchClauses] = useState<SearchClause[]>([]); // The last search that parsed
   const [isSearchOpen, setIsSearchOpen] = useState(false);
+  const [tagFilter, setTagFilter] = useState<string[]>([]);
+  const [tagMode, setTagMode] = useState<TagMode>('all');
+  const [showTagManager, setShowTagManager] = useState(false);
+  
+  // Custom field filter and sort, by field id; dropped when the field is removed from the topic
+  const [fieldFilter, setFieldFilter] = useState<{ fieldId: string; value: string } | null>(null);
+  const [showFieldFilter, setShowFieldFilter] = useState(false);
+  const [fieldFilterDraft, setFieldFilterDraft] = useState<{ fieldId: string; value: string }>({ fieldId: '', value: '' });
   
   const [sortOption, setSortOption] = useState<SortOption>('DATE_DESC');
+  const [fieldSort, setFieldSort] = useState<{ fieldId: string; ascending: boolean } | null>(null);
   const [gridOption, setGridOption] = useState<GridOption>('GRID_3');
   const [showSortMenu, setShowSortMenu] = useState(false);
   const [showGridMenu, setShowGridMenu] = useState(false);
@@ -38,51 +108,234 @@ const HomeView: React.FC<HomeViewProps> = ({ currentTopic, initialCategoryId, on
   // Detail/Edit Modal State
   const [selectedDoll, setSelectedDoll] = useState<Doll | null>(null);
   const [isEditingDoll, setIsEditingDoll] = useState(false);
-  const [editDollData, setEditDollData] = useState<Partial<Doll> & { sizeArray?: string[] }>({});
+  const [editDollData, setEditDollData] = useState<Partial<Doll>>({});
+  const [showDollHistory, setShowDollHistory] = useState(false);
+  const [isSavingDoll, setIsSavingDoll] = useState(false);
+  // Photos while editing; ones added since are previewed from object URLs and uploaded on save
+  const [editPhotos, setEditPhotos] = useState<{ url: string; file?: File }[]>([]);
+  const [editCover, setEditCover] = useState('');
+
+  // Member names by user id, for "Added by"; null until loaded
+  const [memberNames, setMemberNames] = useState<Record<string, string> | null>(null);
   
   // Add Modal State
   const [isAddModalOpen, setIsAddModalOpen] = useState(false);
   const [isAiLoading, setIsAiLoading] = useState(false);
-  const [formData, setFormData] = useState<NewDollForm>({
-    name: '',
-    description: '',
-    size: ['Normal'],
-    category_id: '',
-    catch_date: new Date().toISOString().split('T')[0],
-    imageFile: null
-  });
-
-  const fetchData = async () => {
-    if (!currentTopic) return;
-    setLoading(true);
+  const [formData, setFormData] = useState<NewDollForm>(() => emptyDollForm(currentTopic));
+
+  // A variant removed from the topic stops filtering
+  const activeSize = sizeVariants.some(v => v.id === sizeFilter) ? sizeFilter : null;
+  // Likewise a removed location; keyed by the ids like the category scope below
+  const activeLocation = locations.some(l => l.id === locationFilter) ? locationFilter : null;
+  const locationScope = activeLocation ? subtreeIds(locations, activeLocation).join(',') : '';
+
+  // A category filter takes in its subcategories. Keyed by the ids so unrelated
+  // category edits don't refetch the grid.
+  const isCategoryFilter = !['ALL', 'NEW', 'DATE_FILTER'].includes(activeFilter);
+  const categoryScope = isCategoryFilter ? subtreeIds(categories, activeFilter).join(',') : '';
+  const activeCategoryPath = isCategoryFilter ? ancestry(categories, activeFilter) : [];
+
+  // Names in the search box are looked up in the topic as it is now
+  const searchContext = useMemo<SearchContext>(
+    () => ({ categories, sizeVariants, tags: tagNames, locations }),
+    [categories, sizeVariants, tagNames, locations]
+  );
+  const parsedSearch = useMemo(() => parseSearch(debouncedSearch, searchContext), [debouncedSearch, searchContext]);
+  // Shown once typing pauses, while the offsets still fit the text
+  const searchErrors = searchQuery === debouncedSearch ? parsedSearch.errors : [];
+
+  // A search with errors keeps the grid on the last one that parsed, rather than matching nothing
+  useEffect(() => {
+    if (parsedSearch.errors.length > 0) return;
+    setSearchClauses(prev => (JSON.stringify(prev) === JSON.stringify(parsedSearch.clauses) ? prev : parsedSearch.clauses));
+  }, [parsedSearch]);
+
+  // The words cards mark, by the field they were matched in
+  const searchHighlight = useMemo(() => isRankedSearch(searchClauses) ? {
+    name: highlightTerms(searchClauses, 'name'),
+    description: highlightTerms(searchClauses, 'description'),
+    category: highlightTerms(searchClauses, 'category'),
+  } : undefined, [searchClauses]);
+
+  // Filters & sort, applied by the repository (search words are ranked in memory)
+  const dollQuery = useMemo<DollQuery>(() => {
+    const query: DollQuery = { topicId: currentTopic.id, sort: sortOption };
+    if (searchClauses.length > 0) query.search = searchClauses;
+    if (activeSize) query.size = activeSize;
+    if (locationScope) query.locationIds = locationScope.split(',');
+    if (tagFilter.length > 0) {
+        query.tags = tagFilter;
+        query.tagMode = tagMode;
+    }
+
+    const filterField = fieldFilter && customFields.find(f => f.id === fieldFilter.fieldId);
+    if (filterField) query.fieldFilter = { field: filterField, value: fieldFilter!.value };
+    const sortField = fieldSort && customFields.find(f => f.id === fieldSort.fieldId && isSortable(f));
+    if (sortField) query.fieldSort = { field: sortField, ascending: fieldSort!.ascending };
+
+    if (activeFilter === 'NEW') {
+        query.createdSince = new Date(Date.now() - 30 * 24 * 60 * 60 * 1000).toISOString();
+    } else if (activeFilter === 'DATE_FILTER') {
+        if (dateFilterValue) query.catchMonth = dateFilterValue;
+    } else if (categoryScope) {
+        query.categoryIds = categoryScope.split(',');
+    }
+    return query;
+  }, [currentTopic.id, sortOption, searchClauses, activeFilter, categoryScope, dateFilterValue, activeSize, locationScope, tagFilter, tagMode, customFields, fieldFilter, fieldSort]);
+
+  // The query the grid currently shows; responses for older queries are dropped.
+  const activeQueryRef = useRef(dollQuery);
+
+  const fetchDolls = async (silent = false) => {
+    const query = dollQuery;
+    activeQueryRef.current = query;
+    if (!silent) setLoading(true);
     try {
-      const { data: dollsData, error: dollsError } = await supabase
-        .from('dolls')
-        .select('*')
-        .eq('topic_id', currentTopic.id);
-      
-      const { data: catData, error: catError } = await supabase
-        .from('categories')
-        .select('*')
-        .eq('topic_id', currentTopic.id)
-        .order('name');
-
-      if (dollsError) throw dollsError;
-      if (catError) throw catError;
-
-      setDolls(dollsData || []);
-      setCategories(catData || []);
+      const page = shared
+        ? pageDolls(shared.dolls, query, null, DOLL_PAGE_SIZE)
+        : await repository.dolls.page(query, null, DOLL_PAGE_SIZE);
+      if (activeQueryRef.current !== query) return;
+      setGrid({ dolls: page.dolls, total: page.total ?? page.dolls.length, nextCursor: page.nextCursor });
     } catch (err) {
       console.error('Error fetching data:', err);
     } finally {
-      setLoading(false);
+      if (activeQueryRef.current === query) setLoading(false);
+    }
+  };
+
+  const fetchCategories = async () => {
+    try {
+      setCategories(shared ? shared.categories : await repository.categories.listByTopic(currentTopic.id));
+    } catch (err) {
+      console.error('Error fetching data:', err);
+    }
+  };
+
+  const fetchTags = async () => {
+    try {
+      const tags = shared ? summarizeTags(shared.dolls) : await repository.tags.listByTopic(currentTopic.id);
+      setTagNames(tags.map(t => t.name));
+    } catch (err) {
+      console.error('Error fetching tags:', err);
+    }
+  };
+
+  const fetchData = () => {
+    fetchDolls();
+    fetchCategories();
+    fetchTags();
+  };
+
+  const loadMore = async () => {
+    if (!grid.nextCursor || isLoadingMore || loading) return;
+    const query = dollQuery;
+    setIsLoadingMore(true);
+    try {
+      const page = shared
+        ? pageDolls(shared.dolls, query, grid.nextCursor, DOLL_PAGE_SIZE)
+        : await repository.dolls.page(query, grid.nextCursor, DOLL_PAGE_SIZE);
+      if (activeQueryRef.current !== query) return;
+      setGrid(prev => ({
+        ...prev,
+        dolls: [...prev.dolls, ...page.dolls.filter(d => !prev.dolls.some(p => p.id === d.id))],
+        nextCursor: page.nextCursor,
+      }));
+    } catch (err) {
+      console.error('Error loading more:', err);
+    } finally {
+      setIsLoadingMore(false);
     }
   };
 
   useEffect(() => {
-    fetchData();
+    fetchCategories();
+    fetchTags();
   }, [currentTopic]);
 
+  // Tags renamed or deleted, or no longer on any doll, stop filtering
+  useEffect(() => {
+    setTagFilter(prev => {
+      const kept = prev.filter(t => tagNames.includes(t));
+      return kept.length === prev.length ? prev : kept;
+    });
+  }, [tagNames]);
+
+  // Sizes, categories and fields belong to the topic, so a half-filled form doesn't carry over
+  useEffect(() => {
+    setFormData(emptyDollForm(currentTopic));
+  }, [currentTopic.id]);
+
+  useEffect(() => {
+    setMemberNames(null);
+    if (shared) return;
+    repository.members.listByTopic(currentTopic.id)
+      .then(members => setMemberNames(Object.fromEntries(members.map(m => [m.user_id, m.display_name || m.email]))))
+      .catch(err => console.error('Error fetching members:', err));
+  }, [currentTopic.id]);
+
+  useEffect(() => {
+    fetchDolls();
+  }, [dollQuery]);
+
+  useEffect(() => {
+    const timer = setTimeout(() => setDebouncedSearch(searchQuery), 300);
+    return () => clearTimeout(timer);
+  }, [searchQuery]);
+
+  // Infinite scroll: load the next page as the end of the grid comes into view
+  useEffect(() => {
+    const sentinel = loadMoreRef.current;
+    if (!sentinel) return;
+    const observer = new IntersectionObserver(entries => {
+        if (entries[0].isIntersecting) loadMore();
+    }, { rootMargin: '400px' });
+    observer.observe(sentinel);
+    return () => observer.disconnect();
+  }, [grid.nextCursor, isLoadingMore, loading, dollQuery]);
+
+  // Live updates from other devices
+  useEffect(() => {
+    if (shared) return;
+    const topicId = currentTopic.id;
+    return repository.subscribe(topicId, change => {
+        switch (change.table) {
+            case 'dolls':
+                setGrid(prev => applyDollChange(prev, change, activeQueryRef.current));
+                if (change.type === 'upsert') {
+                    setSelectedDoll(prev => prev?.id === change.row.id ? change.row : prev);
+                    setTagNames(prev => {
+                        const added = tagsOf(change.row).filter(t => !prev.includes(t));
+                        return added.length === 0 ? prev : [...prev, ...added].sort((a, b) => a.localeCompare(b));
+                    });
+                } else {
+                    setSelectedDoll(prev => prev?.id === change.id ? null : prev);
+                }
+                break;
+            case 'categories':
+                setCategories(prev => applyRowChange(prev, change, c => c.topic_id === topicId)
+                    .sort((a, b) => a.name.localeCompare(b.name)));
+                break;
+        }
+    });
+  }, [currentTopic.id]);
+
+  // Undo/redo rewrites rows behind the grid's back; reload what is on screen
+  const openDollId = selectedDoll?.id;
+  useEffect(() => {
+    if (shared) return;
+    return history.subscribe(event => {
+        if (event.type === 'recorded') return;
+        fetchDolls(true);
+        fetchCategories();
+        fetchTags();
+        if (openDollId) {
+            repository.dolls.get(openDollId)
+                .then(doll => setSelectedDoll(prev => prev?.id === openDollId ? (doll && !doll.deleted_at ? doll : null) : prev))
+                .catch(console.error);
+        }
+    });
+  }, [dollQuery, openDollId]);
+
   // Handle Redirect from Category Tab
   useEffect(() => {
       if (initialCategoryId) {
@@ -96,48 +349,9 @@ const HomeView: React.FC<HomeViewProps> = ({ currentTopic, initialCategoryId, on
       setEditTitleName(currentTopic.name);
   }, [currentTopic]);
 
-  // Filter & Sort Logic
-  const processedDolls = useMemo(() => {
-    let result = [...dolls];
-
-    // Search Filter
-    if (searchQuery) {
-        result = result.filter(d => 
-            d.name.toLowerCase().includes(searchQuery.toLowerCase()) || 
-            (d.description && d.description.toLowerCase().includes(searchQuery.toLowerCase()))
-        );
-    }
-
-    // Category/Date Filter
-    if (activeFilter === 'NEW') {
-        result = result.filter(d => {
-            const created = new Date(d.created_at);
-            const now = new Date();
-            const diffDays = Math.ceil(Math.abs(now.getTime() - created.getTime()) / (1000 * 60 * 60 * 24));
-            return diffDays <= 30;
-        });
-    } else if (activeFilter === 'DATE_FILTER') {
-        if (dateFilterValue) {
-            // Check if catch_date string starts with YYYY-MM
-            result = result.filter(d => d.catch_date && d.catch_date.startsWith(dateFilterValue));
-        }
-    } else if (activeFilter !== 'ALL') {
-        result = result.filter(d => d.category_id === activeFilter);
-    }
-
-    // Sort
-    result.sort((a, b) => {
-        switch (sortOption) {
-            case 'DATE_DESC': return new Date(b.created_at).getTime() - new Date(a.created_at).getTime();
-            case 'DATE_ASC': return new Date(a.created_at).getTime() - new Date(b.created_at).getTime();
-            case 'NAME_ASC': return a.name.localeCompare(b.name);
-            case 'NAME_DESC': return b.name.localeCompare(a.name);
-            default: return 0;
-        }
-    });
-
-    return result;
-  }, [dolls, activeFilter, dateFilterValue, sortOption, searchQuery]);
+  const categoryOptions = useMemo(() => flattenTree(categories).map(({ category, depth }) => (
+      <option key={category.id} value={category.id}>{indentedName(category.name, depth)}</option>
+  )), [categories]);
 
   const categoryMap = useMemo(() => {
       const map: Record<string, string> = {};
@@ -148,9 +362,10 @@ const HomeView: React.FC<HomeViewProps> = ({ currentTopic, initialCategoryId, on
   // --- Collection Name Edit ---
   const saveTitleEdit = async () => {
     if(!editTitleName.trim()) return;
+    if (editTitleName === currentTopic.name) return setIsEditingTitle(false);
     try {
-        const { error } = await supabase.from('topics').update({ name: editTitleName }).eq('id', currentTopic.id);
-        if(error) throw error;
+        await repository.topics.update(currentTopic.id, { name: editTitleName });
+        history.record(topicRenamed(currentTopic, editTitleName));
         onUpdateTopic({ ...currentTopic, name: editTitleName });
         setIsEditingTitle(false);
     } catch (e) {
@@ -162,10 +377,11 @@ const HomeView: React.FC<HomeViewProps> = ({ currentTopic, initialCategoryId, on
   // --- Delete Logic ---
   const handleDeleteDoll = async (e: React.MouseEvent, dollId: string) => {
       e.stopPropagation();
+      const doll = grid.dolls.find(d => d.id === dollId);
       try {
-          const { error } = await supabase.from('dolls').delete().eq('id', dollId);
-          if (error) throw error;
-          setDolls(prev => prev.filter(d => d.id !== dollId));
+          await repository.dolls.remove(dollId);
+          if (doll) history.record(dollDeleted(doll));
+          setGrid(prev => applyDollChange(prev, { type: 'delete', id: dollId }, dollQuery));
           if (selectedDoll?.id === dollId) setSelectedDoll(null);
       } catch (err) {
           console.error(err);
@@ -184,21 +400,14 @@ const HomeView: React.FC<HomeViewProps> = ({ currentTopic, initialCategoryId, on
     if (!formData.imageFile) return alert("Please upload an image first.");
     setIsAiLoading(true);
     try {
-      const aiData = await identifyDoll(formData.imageFile);
-      
-      let newSizes = [...formData.size];
-      if (aiData.size) {
-          newSizes = []; 
-          if (aiData.size.includes('Normal')) newSizes.push('Normal');
-          if (aiData.size.includes('Small')) newSizes.push('Small');
-          if (newSizes.length === 0) newSizes.push('Normal');
-      }
+      const aiData = await identifyDoll(formData.imageFile, sizeVariants.map(v => v.label));
+      const suggestedSizes = sizesFromLabels(aiData.sizes, sizeVariants);
 
       setFormData(prev => ({
         ...prev,
         name: aiData.name || prev.name,
         description: aiData.description || prev.description,
-        size: newSizes
+        sizes: suggestedSizes.length > 0 ? suggestedSizes : prev.sizes
       }));
     } catch (e) {
       console.error(e);
@@ -210,11 +419,11 @@ const HomeView: React.FC<HomeViewProps> = ({ currentTopic, initialCategoryId, on
 
   const handleSizeChange = (size: string) => {
       setFormData(prev => {
-          const current = prev.size;
+          const current = prev.sizes;
           if (current.includes(size)) {
-              return { ...prev, size: current.filter(s => s !== size) };
+              return { ...prev, sizes: current.filter(s => s !== size) };
           } else {
-              return { ...prev, size: [...current, size] };
+              return { ...prev, sizes: [...current, size] };
           }
       });
   };
@@ -222,7 +431,13 @@ const HomeView: React.FC<HomeViewProps> = ({ currentTopic, initialCategoryId, on
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
     if (!formData.imageFile) return alert("Image is required.");
-    if (formData.size.length === 0) return alert("Please select at least one size.");
+    let values: ValidDollForm;
+    try {
+      values = validateDollForm(formData, currentTopic);
+    } catch (err) {
+      if (err instanceof ValidationError) return alert(describeIssues(err));
+      throw err;
+    }
     
     setLoading(true);
     try {
@@ -231,34 +446,18 @@ const HomeView: React.FC<HomeViewProps> = ({ currentTopic, initialCategoryId, on
 
       const fileExt = compressedFile.name.split('.').pop();
       const fileName = `${Date.now()}.${fileExt}`;
-      const { error: uploadError } = await supabase.storage
-        .from('images')
-        .upload(fileName, compressedFile);
-
-      if (uploadError) throw uploadError;
-
-      const { data: { publicUrl } } = supabase.storage
-        .from('images')
-        .getPublicUrl(fileName);
-
-      const { error: insertError } = await supabase
-        .from('dolls')
-        .insert([{
-          name: formData.name,
-          description: formData.description,
-          size: formData.size.join(', '), 
-          category_id: formData.category_id || null,
-          topic_id: currentTopic.id,
-          catch_date: formData.catch_date,
-          image_url: publicUrl
-        }]);
-      
-      if (insertError) throw insertError;
+      const publicUrl = await repository.images.upload(currentTopic.id, fileName, compressedFile);
 
-      setIsAddModalOpen(false);
-      setFormData({
-        name: '', description: '', size: ['Normal'], category_id: '', catch_date: new Date().toISOString().split('T')[0], imageFile: null
+      const doll = await repository.dolls.create({
+        ...values,
+        topic_id: currentTopic.id,
+        image_url: publicUrl,
+        photos: [publicUrl]
       });
+      history.record(dollAdded(doll));
+
+      setIsAddModalOpen(false);
+      setFormData(emptyDollForm(currentTopic));
       fetchData();
 
     } catch (err) {
@@ -272,60 +471,154 @@ const HomeView: React.FC<HomeViewProps> = ({ currentTopic, initialCategoryId, on
   // --- Edit Logic ---
   const openDetailModal = (doll: Doll) => {
       setSelectedDoll(doll);
-      setEditDollData({
-          ...doll,
-          sizeArray: doll.size ? doll.size.split(',').map(s => s.trim()) : []
-      });
+      setEditDollData({ ...doll });
       setIsEditingDoll(false);
+      setShowDollHistory(false);
+  };
+
+  const startEditingDoll = () => {
+      if (!selectedDoll) return;
+      setEditPhotos(photosOf(selectedDoll).map(url => ({ url })));
+      setEditCover(selectedDoll.image_url);
+      // Variants removed from the topic since aren't offered, so they aren't submitted either
+      setEditDollData({ ...selectedDoll, sizes: dollSizes(selectedDoll, sizeVariants).map(v => v.id) });
+      setIsEditingDoll(true);
+  };
+
+  const discardNewPhotos = () => editPhotos.forEach(photo => photo.file && URL.revokeObjectURL(photo.url));
+
+  const cancelEditingDoll = () => {
+      discardNewPhotos();
+      setIsEditingDoll(false);
+  };
+
+  const handleAddPhotos = (e: React.ChangeEvent<HTMLInputElement>) => {
+      const files = Array.from(e.target.files || []).slice(0, MAX_PHOTOS - editPhotos.length);
+      setEditPhotos(prev => [...prev, ...files.map(file => ({ url: URL.createObjectURL(file), file }))]);
+      e.target.value = '';
   };
 
+  const removeEditPhoto = (photo: { url: string; file?: File }) => {
+      if (photo.file) URL.revokeObjectURL(photo.url);
+      setEditPhotos(prev => prev.filter(p => p.url !== photo.url));
+  };
+
+  const moveEditPhoto = (index: number) =>
+      setEditPhotos(prev => {
+          const next = [...prev];
+          [next[index - 1], next[index]] = [next[index], next[index - 1]];
+          return next;
+      });
+
+  // A removed cover hands over to the first photo
+  const editCoverUrl = editPhotos.some(p => p.url === editCover) ? editCover : editPhotos[0]?.url;
+
   const handleEditSizeChange = (size: string) => {
       setEditDollData(prev => {
-          const current = prev.sizeArray || [];
+          const current = prev.sizes || [];
           if (current.includes(size)) {
-              return { ...prev, sizeArray: current.filter(s => s !== size) };
+              return { ...prev, sizes: current.filter(s => s !== size) };
           } else {
-              return { ...prev, sizeArray: [...current, size] };
+              return { ...prev, sizes: [...current, size] };
           }
       });
   };
 
   const handleUpdateDoll = async () => {
       if (!selectedDoll) return;
+      if (editPhotos.length === 0) return alert("Keep at least one photo.");
+      let values: ValidDollForm;
       try {
-          const sizeString = editDollData.sizeArray?.join(', ') || '';
-          
-          const { error } = await supabase
-            .from('dolls')
-            .update({
-                name: editDollData.name,
-                description: editDollData.description,
-                size: sizeString, 
-                catch_date: editDollData.catch_date,
-                category_id: editDollData.category_id
-            })
-            .eq('id', selectedDoll.id);
-          
-          if (error) throw error;
+          values = validateDollForm(editDollData, currentTopic);
+      } catch (err) {
+          if (err instanceof ValidationError) return alert(describeIssues(err));
+          throw err;
+      }
+      setIsSavingDoll(true);
+      try {
+          const photos: string[] = [];
+          for (const photo of editPhotos) {
+              if (!photo.file) {
+                  photos.push(photo.url);
+                  continue;
+              }
+              const compressedFile = await compressImage(photo.file);
+              const fileExt = compressedFile.name.split('.').pop();
+              photos.push(await repository.images.upload(selectedDoll.topic_id, `${Date.now()}_${photos.length}.${fileExt}`, compressedFile));
+          }
+          const cover = photos[editPhotos.findIndex(p => p.url === editCoverUrl)];
+          const photosChanged = cover !== selectedDoll.image_url || JSON.stringify(photos) !== JSON.stringify(photosOf(selectedDoll));
+
+          const patch: DollUpdate = {
+              ...values,
+              ...(photosChanged ? { photos, image_url: cover } : {})
+          };
+
+          // Removed photos are kept while the edit can be undone
+          await repository.dolls.update(selectedDoll.id, patch, { keepPreviousImage: true });
+          history.record(dollEdited(selectedDoll, patch));
+          discardNewPhotos();
           
-          const updatedDoll = { 
-              ...selectedDoll, 
-              name: editDollData.name!,
-              description: editDollData.description!,
-              size: sizeString,
-              catch_date: editDollData.catch_date!,
-              category_id: editDollData.category_id!
-          } as Doll;
-
-          setDolls(prev => prev.map(d => d.id === updatedDoll.id ? updatedDoll : d));
+          const updatedDoll = { ...selectedDoll, ...patch } as Doll;
+
+          setGrid(prev => applyDollChange(prev, { type: 'upsert', row: updatedDoll }, dollQuery));
           setSelectedDoll(updatedDoll);
           setIsEditingDoll(false);
+          fetchTags();
       } catch (err) {
           console.error(err);
           alert("Failed to update.");
+      } finally {
+          setIsSavingDoll(false);
       }
   };
 
+  // One field changed straight from the detail modal, outside the edit form
+  const saveDollField = async (field: keyof DollUpdate, value: unknown, failure: string) => {
+      if (!selectedDoll) return;
+      const patch = { [field]: value } as DollUpdate;
+      try {
+          await repository.dolls.update(selectedDoll.id, patch);
+          history.record(dollEdited(selectedDoll, patch));
+
+          const updatedDoll = { ...selectedDoll, ...patch } as Doll;
+          setGrid(prev => applyDollChange(prev, { type: 'upsert', row: updatedDoll }, dollQuery));
+          setSelectedDoll(updatedDoll);
+          if (field === 'tags') fetchTags();
+      } catch (err) {
+          console.error(err);
+          alert(failure);
+      }
+  };
+
+  const handleRevertField = (field: keyof DollUpdate, value: unknown) => saveDollField(field, value, "Failed to revert.");
+
+  // --- Tag Filter ---
+  const toggleTagFilter = (tag: string) =>
+      setTagFilter(prev => prev.includes(tag) ? prev.filter(t => t !== tag) : [...prev, tag]);
+
+  // From a chip in the detail modal: show everything else carrying that tag
+  const filterByTag = (tag: string) => {
+      setTagFilter([tag]);
+      setSelectedDoll(null);
+  };
+
+  // --- Custom Field Filter ---
+  const draftField = customFields.find(f => f.id === fieldFilterDraft.fieldId);
+
+  const openFieldFilter = () => {
+      setFieldFilterDraft({ fieldId: customFields[0].id, value: '' });
+      setShowFieldFilter(!showFieldFilter);
+  };
+
+  const applyFieldFilter = (e: React.FormEvent) => {
+      e.preventDefault();
+      if (!fieldFilterDraft.value.trim()) return;
+      if (draftField?.type === 'number' && !Number.isFinite(Number(fieldFilterDraft.value))) return alert("Enter a number to filter by.");
+      setFieldFilter({ fieldId: fieldFilterDraft.fieldId, value: fieldFilterDraft.value.trim() });
+      setShowFieldFilter(false);
+  };
+
   const getGridClass = () => {
       switch(gridOption) {
           case 'GRID_2': return 'grid-cols-2 sm:grid-cols-3 md:grid-cols-4';
@@ -358,18 +651,20 @@ const HomeView: React.FC<HomeViewProps> = ({ currentTopic, initialCategoryId, on
                 <div className="flex-1 flex justify-center mx-2">
                     {isSearchOpen ? (
                         <div className="w-full max-w-xs relative animate-in fade-in zoom-in-95 duration-200">
-                            <input 
-                                autoFocus
+                            <SearchQueryInput
                                 value={searchQuery}
-                                onChange={e => setSearchQuery(e.target.value)}
-                                placeholder="Search..."
-                                className="w-full bg-slate-100 dark:bg-slate-800 border-none rounded-full py-2 px-4 text-sm focus:ring-2 focus:ring-primary/50"
+                                onChange={setSearchQuery}
+                                errors={searchErrors}
+                                context={searchContext}
                             />
-                            <span className="material-icons-round absolute right-3 top-2 text-slate-400 text-sm">search</span>
                         </div>
                     ) : (
                         <div className="text-center group flex flex-col items-center animate-in fade-in zoom-in-95 duration-200">
-                             {isEditingTitle ? (
+                             {!canRename ? (
+                                <h1 className="text-xl sm:text-2xl font-display font-bold text-slate-800 dark:text-white tracking-wide truncate max-w-[200px] p-1">
+                                    {currentTopic.name}
+                                </h1>
+                            ) : isEditingTitle ? (
                                 <input 
                                     autoFocus
                                     value={editTitleName} 
@@ -387,7 +682,7 @@ const HomeView: React.FC<HomeViewProps> = ({ currentTopic, initialCategoryId, on
                                 </div>
                             )}
                             <p className="text-xs text-slate-400 dark:text-slate-500 font-medium">
-                                {processedDolls.length} Collected
+                                {grid.total} Collected
                             </p>
                         </div>
                     )}
@@ -405,6 +700,17 @@ const HomeView: React.FC<HomeViewProps> = ({ currentTopic, initialCategoryId, on
                         </button>
                      )}
 
+                    {/* Where is it? */}
+                    {!isSearchOpen && !shared && locations.length > 0 && (
+                        <button
+                            onClick={() => setShowStorageFinder(true)}
+                            title="Where is it?"
+                            className="p-2 rounded-full hover:bg-slate-100 dark:hover:bg-slate-700 transition"
+                        >
+                            <span className="material-icons-round text-slate-500 dark:text-slate-300">travel_explore</span>
+                        </button>
+                    )}
+
                     {/* Grid Button */}
                     <button 
                         onClick={() => { setShowGridMenu(!showGridMenu); setShowSortMenu(false); }}
@@ -431,11 +737,27 @@ const HomeView: React.FC<HomeViewProps> = ({ currentTopic, initialCategoryId, on
                         <span className="material-icons-round text-slate-500 dark:text-slate-300">sort</span>
                     </button>
                     {showSortMenu && (
-                        <div className="absolute top-12 right-0 bg-white dark:bg-card-dark shadow-xl rounded-xl p-2 flex flex-col gap-1 z-50 border border-slate-100 dark:border-slate-700 min-w-[140px]">
-                            <button onClick={() => { setSortOption('DATE_DESC'); setShowSortMenu(false); }} className={`text-left text-xs p-2 rounded-lg ${sortOption === 'DATE_DESC' ? 'bg-primary/10 text-primary font-bold' : 'hover:bg-slate-50 dark:hover:bg-slate-700'}`}>Newest First</button>
-                            <button onClick={() => { setSortOption('DATE_ASC'); setShowSortMenu(false); }} className={`text-left text-xs p-2 rounded-lg ${sortOption === 'DATE_ASC' ? 'bg-primary/10 text-primary font-bold' : 'hover:bg-slate-50 dark:hover:bg-slate-700'}`}>Oldest First</button>
-                            <button onClick={() => { setSortOption('NAME_ASC'); setShowSortMenu(false); }} className={`text-left text-xs p-2 rounded-lg ${sortOption === 'NAME_ASC' ? 'bg-primary/10 text-primary font-bold' : 'hover:bg-slate-50 dark:hover:bg-slate-700'}`}>Name (A-Z)</button>
-                            <button onClick={() => { setSortOption('NAME_DESC'); setShowSortMenu(false); }} className={`text-left text-xs p-2 rounded-lg ${sortOption === 'NAME_DESC' ? 'bg-primary/10 text-primary font-bold' : 'hover:bg-slate-50 dark:hover:bg-slate-700'}`}>Name (Z-A)</button>
+                        <div className="absolute top-12 right-0 bg-white dark:bg-card-dark shadow-xl rounded-xl p-2 flex flex-col gap-1 z-50 border border-slate-100 dark:border-slate-700 min-w-[140px] max-h-[60vh] overflow-y-auto">
+                            <button onClick={() => { setSortOption('DATE_DESC'); setFieldSort(null); setShowSortMenu(false); }} className={`text-left text-xs p-2 rounded-lg ${!dollQuery.fieldSort && sortOption === 'DATE_DESC' ? 'bg-primary/10 text-primary font-bold' : 'hover:bg-slate-50 dark:hover:bg-slate-700'}`}>Newest First</button>
+                            <button onClick={() => { setSortOption('DATE_ASC'); setFieldSort(null); setShowSortMenu(false); }} className={`text-left text-xs p-2 rounded-lg ${!dollQuery.fieldSort && sortOption === 'DATE_ASC' ? 'bg-primary/10 text-primary font-bold' : 'hover:bg-slate-50 dark:hover:bg-slate-700'}`}>Oldest First</button>
+                            <button onClick={() => { setSortOption('NAME_ASC'); setFieldSort(null); setShowSortMenu(false); }} className={`text-left text-xs p-2 rounded-lg ${!dollQuery.fieldSort && sortOption === 'NAME_ASC' ? 'bg-primary/10 text-primary font-bold' : 'hover:bg-slate-50 dark:hover:bg-slate-700'}`}>Name (A-Z)</button>
+                            <button onClick={() => { setSortOption('NAME_DESC'); setFieldSort(null); setShowSortMenu(false); }} className={`text-left text-xs p-2 rounded-lg ${!dollQuery.fieldSort && sortOption === 'NAME_DESC' ? 'bg-primary/10 text-primary font-bold' : 'hover:bg-slate-50 dark:hover:bg-slate-700'}`}>Name (Z-A)</button>
+                            {customFields.filter(isSortable).map(field => (
+                                <React.Fragment key={field.id}>
+                                    <div className="border-t border-slate-100 dark:border-slate-700 my-0.5"></div>
+                                    {[true, false].map(ascending => {
+                                        const isActive = dollQuery.fieldSort?.field.id === field.id && dollQuery.fieldSort.ascending === ascending;
+                                        const direction = field.type === 'number' ? (ascending ? 'Low-High' : 'High-Low')
+                                            : field.type === 'date' ? (ascending ? 'Oldest' : 'Newest')
+                                            : (ascending ? 'A-Z' : 'Z-A');
+                                        return (
+                                            <button key={String(ascending)} onClick={() => { setFieldSort({ fieldId: field.id, ascending }); setShowSortMenu(false); }} className={`text-left text-xs p-2 rounded-lg ${isActive ? 'bg-primary/10 text-primary font-bold' : 'hover:bg-slate-50 dark:hover:bg-slate-700'}`}>
+                                                {field.name} ({direction})
+                                            </button>
+                                        );
+                                    })}
+                                </React.Fragment>
+                            ))}
                         </div>
                     )}
                 </div>
@@ -461,59 +783,215 @@ const HomeView: React.FC<HomeViewProps> = ({ currentTopic, initialCategoryId, on
                 </button>
 
                 {/* Catch Date Filter (Month) */}
-                <div className={`flex items-center gap-1 px-3 py-1.5 rounded-full text-xs font-bold shadow-soft border transition-colors ${activeFilter === 'DATE_FILTER' ? 'bg-primary text-white border-primary' : 'bg-white dark:bg-card-dark text-slate-600 dark:text-slate-300 border-slate-200 dark:border-slate-700'}`}>
-                    <span className="material-icons-round text-sm">calendar_month</span>
-                    <input 
-                        type="month" 
-                        value={dateFilterValue}
-                        onChange={(e) => {
-                            setDateFilterValue(e.target.value);
-                            setActiveFilter('DATE_FILTER');
-                        }}
-                        className="bg-transparent border-none p-0 text-xs w-24 focus:ring-0 text-inherit cursor-pointer"
-                    />
-                </div>
+                {!hideCatchDates && (
+                    <div className={`flex items-center gap-1 px-3 py-1.5 rounded-full text-xs font-bold shadow-soft border transition-colors ${activeFilter === 'DATE_FILTER' ? 'bg-primary text-white border-primary' : 'bg-white dark:bg-card-dark text-slate-600 dark:text-slate-300 border-slate-200 dark:border-slate-700'}`}>
+                        <span className="material-icons-round text-sm">calendar_month</span>
+                        <input 
+                            type="month" 
+                            value={dateFilterValue}
+                            onChange={(e) => {
+                                setDateFilterValue(e.target.value);
+                                setActiveFilter('DATE_FILTER');
+                            }}
+                            className="bg-transparent border-none p-0 text-xs w-24 focus:ring-0 text-inherit cursor-pointer"
+                        />
+                    </div>
+                )}
+
+                {/* Size Filters */}
+                {sizeVariants.length > 1 && sizeVariants.map(variant => (
+                    <button
+                        key={variant.id}
+                        onClick={() => setSizeFilter(activeSize === variant.id ? null : variant.id)}
+                        style={activeSize === variant.id ? { backgroundColor: variant.color, borderColor: variant.color } : undefined}
+                        className={`flex items-center gap-1.5 px-3 py-1.5 rounded-full text-xs font-bold shadow-soft whitespace-nowrap border transition-colors ${activeSize === variant.id ? 'text-white' : 'bg-white dark:bg-card-dark text-slate-600 dark:text-slate-300 border-slate-200 dark:border-slate-700 hover:bg-slate-50'}`}
+                    >
+                        {activeSize !== variant.id && <span className="w-2 h-2 rounded-full" style={{ backgroundColor: variant.color }}></span>}
+                        {variant.label}
+                    </button>
+                ))}
+
+                {/* Storage Location Filter */}
+                {locations.length > 0 && (
+                    <div className={`flex items-center gap-1 px-3 py-1.5 rounded-full text-xs font-bold shadow-soft border transition-colors ${activeLocation ? 'bg-primary text-white border-primary' : 'bg-white dark:bg-card-dark text-slate-600 dark:text-slate-300 border-slate-200 dark:border-slate-700'}`}>
+                        <span className="material-icons-round text-sm">place</span>
+                        <select
+                            value={activeLocation || ''}
+                            onChange={e => setLocationFilter(e.target.value || null)}
+                            className="bg-transparent border-none p-0 pr-6 text-xs font-bold focus:ring-0 text-inherit cursor-pointer"
+                        >
+                            <option value="">Anywhere</option>
+                            {flattenTree(locations).map(({ category: location, depth }) => (
+                                <option key={location.id} value={location.id}>{indentedName(location.name, depth)}</option>
+                            ))}
+                        </select>
+                    </div>
+                )}
+
+                {/* Custom Field Filter */}
+                {customFields.length > 0 && (dollQuery.fieldFilter ? (
+                    <button
+                        onClick={() => setFieldFilter(null)}
+                        className="flex items-center gap-1 px-3 py-1.5 rounded-full text-xs font-bold shadow-soft whitespace-nowrap bg-primary text-white"
+                    >
+                        {dollQuery.fieldFilter.field.name}: {dollQuery.fieldFilter.value}
+                        <span className="material-icons-round text-sm">close</span>
+                    </button>
+                ) : (
+                    <button
+                        onClick={openFieldFilter}
+                        className={`flex items-center gap-1 px-3 py-1.5 rounded-full text-xs font-bold shadow-soft whitespace-nowrap border transition-colors ${showFieldFilter ? 'border-primary text-primary bg-white dark:bg-card-dark' : 'bg-white dark:bg-card-dark text-slate-600 dark:text-slate-300 border-slate-200 dark:border-slate-700 hover:bg-slate-50'}`}
+                    >
+                        <span className="material-icons-round text-sm">tune</span>
+                        Field
+                    </button>
+                ))}
 
-                {/* Category Filters */}
-                {categories.map(cat => (
+                {/* Category Filters: top level here, subcategories in the row below */}
+                {childrenOf(categories, null).map(cat => (
                      <button 
                         key={cat.id}
                         onClick={() => setActiveFilter(cat.id)}
-                        className={`px-4 py-1.5 rounded-full text-xs font-bold shadow-soft whitespace-nowrap transition-colors ${activeFilter === cat.id ? 'bg-primary text-white' : 'bg-white dark:bg-card-dark text-slate-600 dark:text-slate-300 border border-slate-200 dark:border-slate-700 hover:bg-slate-50'}`}
+                        className={`px-4 py-1.5 rounded-full text-xs font-bold shadow-soft whitespace-nowrap transition-colors ${activeCategoryPath[0]?.id === cat.id ? 'bg-primary text-white' : 'bg-white dark:bg-card-dark text-slate-600 dark:text-slate-300 border border-slate-200 dark:border-slate-700 hover:bg-slate-50'}`}
                     >
                         {cat.name}
                     </button>
                 ))}
             </div>
 
+            {/* Subcategories of the chosen category, after the path down to it */}
+            {activeCategoryPath.length > 0 && (activeCategoryPath.length > 1 || childrenOf(categories, activeFilter).length > 0) && (
+                <div className="flex gap-2 items-center mb-2 overflow-x-auto no-scrollbar pb-2">
+                    {activeCategoryPath.map((cat, i) => (
+                        <React.Fragment key={cat.id}>
+                            {i > 0 && <span className="material-icons-round text-sm text-slate-300">chevron_right</span>}
+                            <button
+                                onClick={() => setActiveFilter(cat.id)}
+                                className={`text-xs font-bold whitespace-nowrap ${cat.id === activeFilter ? 'text-primary' : 'text-slate-500 dark:text-slate-400 hover:text-primary'}`}
+                            >
+                                {cat.name}
+                            </button>
+                        </React.Fragment>
+                    ))}
+                    {childrenOf(categories, activeFilter).map(cat => (
+                        <button
+                            key={cat.id}
+                            onClick={() => setActiveFilter(cat.id)}
+                            className="px-3 py-1 rounded-full text-xs font-bold whitespace-nowrap bg-white dark:bg-card-dark text-slate-600 dark:text-slate-300 border border-slate-200 dark:border-slate-700 hover:bg-slate-50"
+                        >
+                            {cat.name}
+                        </button>
+                    ))}
+                </div>
+            )}
+
+            {/* Tag Filters: all of the chosen tags, or any one */}
+            {(tagNames.length > 0 || tagFilter.length > 0) && (
+                <div className="flex gap-2 items-center mb-2 overflow-x-auto no-scrollbar pb-2">
+                    <button
+                        onClick={() => setTagMode(tagMode === 'all' ? 'any' : 'all')}
+                        disabled={tagFilter.length < 2}
+                        title={tagMode === 'all' ? 'Showing dolls with all chosen tags' : 'Showing dolls with any chosen tag'}
+                        className="flex items-center gap-1 px-3 py-1.5 rounded-full text-xs font-bold shadow-soft whitespace-nowrap border bg-white dark:bg-card-dark text-slate-600 dark:text-slate-300 border-slate-200 dark:border-slate-700 disabled:opacity-50"
+                    >
+                        <span className="material-icons-round text-sm">sell</span>
+                        {tagMode === 'all' ? 'All of' : 'Any of'}
+                    </button>
+                    {tagNames.map(tag => (
+                        <button
+                            key={tag}
+                            onClick={() => toggleTagFilter(tag)}
+                            className={`px-3 py-1.5 rounded-full text-xs font-bold shadow-soft whitespace-nowrap transition-colors ${tagFilter.includes(tag) ? 'bg-primary text-white' : 'bg-white dark:bg-card-dark text-slate-600 dark:text-slate-300 border border-slate-200 dark:border-slate-700 hover:bg-slate-50'}`}
+                        >
+                            #{tag}
+                        </button>
+                    ))}
+                    {tagFilter.length > 0 && (
+                        <button onClick={() => setTagFilter([])} className="text-xs font-bold text-slate-400 hover:text-slate-600 whitespace-nowrap px-1">
+                            Clear
+                        </button>
+                    )}
+                    {!readOnly && (
+                        <button onClick={() => setShowTagManager(true)} title="Manage tags" className="p-1.5 text-slate-400 hover:text-primary">
+                            <span className="material-icons-round text-lg">edit</span>
+                        </button>
+                    )}
+                </div>
+            )}
+
+            {showFieldFilter && draftField && (
+                <form onSubmit={applyFieldFilter} className="flex gap-2 items-center mb-3 p-2 rounded-xl bg-white dark:bg-card-dark border border-slate-100 dark:border-slate-700 shadow-soft">
+                    <select
+                        value={draftField.id}
+                        onChange={e => setFieldFilterDraft({ fieldId: e.target.value, value: '' })}
+                        className="bg-slate-50 dark:bg-slate-800 rounded-lg p-2 text-xs dark:text-white border-none max-w-[40%]"
+                    >
+                        {customFields.map(f => <option key={f.id} value={f.id}>{f.name}</option>)}
+                    </select>
+                    {draftField.type === 'select' || draftField.type === 'multiselect' ? (
+                        <select
+                            value={fieldFilterDraft.value}
+                            onChange={e => setFieldFilterDraft({ ...fieldFilterDraft, value: e.target.value })}
+                            className="flex-1 min-w-0 bg-slate-50 dark:bg-slate-800 rounded-lg p-2 text-xs dark:text-white border-none"
+                        >
+                            <option value="">Choose...</option>
+                            {(draftField.options || []).map(option => <option key={option} value={option}>{option}</option>)}
+                        </select>
+                    ) : (
+                        <input
+                            autoFocus
+                            type={draftField.type === 'number' ? 'number' : draftField.type === 'date' ? 'date' : 'text'}
+                            step={draftField.type === 'number' ? 'any' : undefined}
+                            placeholder={draftField.type === 'text' || draftField.type === 'url' ? 'Contains...' : undefined}
+                            value={fieldFilterDraft.value}
+                            onChange={e => setFieldFilterDraft({ ...fieldFilterDraft, value: e.target.value })}
+                            className="flex-1 min-w-0 bg-slate-50 dark:bg-slate-800 rounded-lg p-2 text-xs dark:text-white border-none focus:ring-2 focus:ring-primary/50"
+                        />
+                    )}
+                    <button type="submit" disabled={!fieldFilterDraft.value.trim()} className="bg-primary text-white rounded-lg px-3 py-2 text-xs font-bold disabled:opacity-50">Apply</button>
+                    <button type="button" onClick={() => setShowFieldFilter(false)} className="text-slate-400 hover:text-slate-600">
+                        <span className="material-icons-round text-lg">close</span>
+                    </button>
+                </form>
+            )}
+
             {loading ? <LoadingSpinner /> : (
                 <div className={`grid gap-3 ${getGridClass()}`}>
-                    {processedDolls.map(doll => (
+                    {grid.dolls.map(doll => (
                         <DollCard 
                             key={doll.id} 
                             doll={doll} 
                             categoryName={doll.category_id ? categoryMap[doll.category_id] : undefined}
+                            sizeVariants={sizeVariants}
                             onClick={openDetailModal} 
-                            onDelete={handleDeleteDoll}
+                            onDelete={readOnly ? undefined : handleDeleteDoll}
+                            highlight={searchHighlight}
                         />
                     ))}
-                    {processedDolls.length === 0 && (
+                    {grid.dolls.length === 0 && (
                         <div className="col-span-full text-center py-10 flex flex-col items-center">
                             <span className="material-icons-round text-slate-200 text-6xl mb-2">filter_alt_off</span>
                             <p className="text-slate-400 text-sm">No items found.</p>
                         </div>
                     )}
+                    {grid.nextCursor && (
+                        <div ref={loadMoreRef} className="col-span-full">
+                            {isLoadingMore && <LoadingSpinner />}
+                        </div>
+                    )}
                 </div>
             )}
         </main>
 
         {/* Floating Action Button - FIXED Position */}
-        <button 
-            onClick={() => setIsAddModalOpen(true)}
-            className="fixed bottom-24 right-6 bg-primary/40 backdrop-blur-md text-white p-4 rounded-full shadow-lg hover:bg-primary/60 transition-all hover:scale-110 z-40 flex items-center justify-center"
-        >
-            <span className="material-icons-round text-2xl drop-shadow-sm">add_a_photo</span>
-        </button>
+        {!readOnly && (
+            <button 
+                onClick={() => setIsAddModalOpen(true)}
+                className="fixed bottom-24 right-6 bg-primary/40 backdrop-blur-md text-white p-4 rounded-full shadow-lg hover:bg-primary/60 transition-all hover:scale-110 z-40 flex items-center justify-center"
+            >
+                <span className="material-icons-round text-2xl drop-shadow-sm">add_a_photo</span>
+            </button>
+        )}
 
         {/* Add Modal */}
         {isAddModalOpen && (
@@ -569,40 +1047,56 @@ const HomeView: React.FC<HomeViewProps> = ({ currentTopic, initialCategoryId, on
                             <div>
                                 <label className="block text-xs font-bold text-slate-500 uppercase mb-1">Size</label>
                                 <div className="flex flex-col gap-2 mt-2">
-                                    <label className="flex items-center gap-2 text-sm text-slate-600 dark:text-slate-300 cursor-pointer">
-                                        <input 
-                                            type="checkbox" 
-                                            checked={formData.size.includes('Normal')} 
-                                            onChange={() => handleSizeChange('Normal')}
-                                            className="rounded border-slate-300 text-primary focus:ring-primary"
-                                        />
-                                        Normal
-                                    </label>
-                                    <label className="flex items-center gap-2 text-sm text-slate-600 dark:text-slate-300 cursor-pointer">
-                                        <input 
-                                            type="checkbox" 
-                                            checked={formData.size.includes('Small')} 
-                                            onChange={() => handleSizeChange('Small')}
-                                            className="rounded border-slate-300 text-primary focus:ring-primary"
-                                        />
-                                        Small
-                                    </label>
+                                    {sizeVariants.map(variant => (
+                                        <label key={variant.id} className="flex items-center gap-2 text-sm text-slate-600 dark:text-slate-300 cursor-pointer">
+                                            <input 
+                                                type="checkbox" 
+                                                checked={formData.sizes.includes(variant.id)} 
+                                                onChange={() => handleSizeChange(variant.id)}
+                                                className="rounded border-slate-300 text-primary focus:ring-primary"
+                                            />
+                                            {variant.label}
+                                        </label>
+                                    ))}
                                 </div>
                             </div>
                             <div>
                                 <label className="block text-xs font-bold text-slate-500 uppercase mb-1">Category</label>
                                 <select value={formData.category_id} onChange={e => setFormData({...formData, category_id: e.target.value})} className="w-full bg-slate-50 dark:bg-slate-800 rounded-lg p-3 text-sm dark:text-white border-none">
                                     <option value="">None</option>
-                                    {categories.map(c => <option key={c.id} value={c.id}>{c.name}</option>)}
+                                    {categoryOptions}
                                 </select>
                             </div>
                         </div>
 
+                        <QuantityInputs
+                            sizes={dollSizes(formData, sizeVariants)}
+                            values={{ quantities: formData.quantities, for_trade: formData.for_trade }}
+                            onChange={counts => setFormData(prev => ({ ...prev, ...counts }))}
+                        />
+
                          <div>
                             <label className="block text-xs font-bold text-slate-500 uppercase mb-1">Catch Date</label>
                             <input type="date" value={formData.catch_date} onChange={e => setFormData({...formData, catch_date: e.target.value})} className="w-full bg-slate-50 dark:bg-slate-800 rounded-lg p-3 text-sm dark:text-white border-none focus:ring-2 focus:ring-primary/50" />
                         </div>
 
+                        <div>
+                            <label className="block text-xs font-bold text-slate-500 uppercase mb-1">Tags</label>
+                            <TagInput tags={formData.tags} known={tagNames} onChange={tags => setFormData(prev => ({ ...prev, tags }))} />
+                        </div>
+
+                        <CustomFieldInputs
+                            fields={customFields}
+                            values={formData.custom_values}
+                            onChange={custom_values => setFormData(prev => ({ ...prev, custom_values }))}
+                        />
+
+                        <AcquisitionInputs
+                            values={formData}
+                            defaultCurrency={currency}
+                            onChange={acquisition => setFormData(prev => ({ ...prev, ...acquisition }))}
+                        />
+
                         <button 
                             type="submit" 
                             disabled={loading}
@@ -620,8 +1114,11 @@ const HomeView: React.FC<HomeViewProps> = ({ currentTopic, initialCategoryId, on
             <div className="fixed inset-0 z-[100] flex items-center justify-center p-4 bg-black/80 backdrop-blur-md" onClick={() => setSelectedDoll(null)}>
                 <div className="bg-white dark:bg-card-dark rounded-3xl w-full max-w-sm overflow-hidden shadow-2xl animate-[fadeIn_0.2s_ease-out] flex flex-col max-h-[90vh]" onClick={e => e.stopPropagation()}>
                     <div className="relative bg-black/5 dark:bg-black/40 flex-1 min-h-[50%] overflow-hidden">
-                         {/* Full Picture View: object-contain */}
-                         <img src={selectedDoll.image_url} className="w-full h-full object-contain" />
+                         <PhotoGallery
+                             key={selectedDoll.id}
+                             photos={isEditingDoll ? editPhotos.map(p => p.url) : photosOf(selectedDoll)}
+                             initialIndex={Math.max(0, photosOf(selectedDoll).indexOf(selectedDoll.image_url))}
+                         />
                          <button onClick={() => setSelectedDoll(null)} className="absolute top-4 right-4 bg-black/20 text-white rounded-full p-1 hover:bg-black/40 backdrop-blur-md z-10">
                             <span className="material-icons-round">close</span>
                          </button>
@@ -635,35 +1132,59 @@ const HomeView: React.FC<HomeViewProps> = ({ currentTopic, initialCategoryId, on
                                     onChange={e => setEditDollData({...editDollData, name: e.target.value})}
                                 />
                                 
+                                <div className="flex gap-2 overflow-x-auto no-scrollbar pb-1">
+                                    {editPhotos.map((photo, index) => (
+                                        <div key={photo.url} className={`relative w-16 h-16 shrink-0 rounded-lg overflow-hidden border-2 ${photo.url === editCoverUrl ? 'border-primary' : 'border-transparent'}`}>
+                                            <img src={photo.url} className="w-full h-full object-cover" />
+                                            <button onClick={() => setEditCover(photo.url)} title="Use as cover" className="absolute bottom-0.5 left-0.5 bg-black/40 text-white rounded-full p-0.5 flex">
+                                                <span className="material-icons-round text-xs">{photo.url === editCoverUrl ? 'star' : 'star_border'}</span>
+                                            </button>
+                                            {index > 0 && (
+                                                <button onClick={() => moveEditPhoto(index)} title="Move earlier" className="absolute bottom-0.5 right-0.5 bg-black/40 text-white rounded-full p-0.5 flex">
+                                                    <span className="material-icons-round text-xs">arrow_back</span>
+                                                </button>
+                                            )}
+                                            <button onClick={() => removeEditPhoto(photo)} title="Remove" className="absolute top-0.5 right-0.5 bg-black/40 text-white rounded-full p-0.5 flex hover:bg-red-500">
+                                                <span className="material-icons-round text-xs">close</span>
+                                            </button>
+                                        </div>
+                                    ))}
+                                    {editPhotos.length < MAX_PHOTOS && (
+                                        <label title="Add photos" className="w-16 h-16 shrink-0 rounded-lg border-2 border-dashed border-slate-300 dark:border-slate-600 flex items-center justify-center cursor-pointer hover:border-primary">
+                                            <span className="material-icons-round text-slate-300">add_a_photo</span>
+                                            <input type="file" accept="image/*" multiple className="hidden" onChange={handleAddPhotos} />
+                                        </label>
+                                    )}
+                                </div>
+
                                 <select 
                                     value={editDollData.category_id || ''} 
                                     onChange={e => setEditDollData({...editDollData, category_id: e.target.value})} 
                                     className="w-full bg-slate-50 dark:bg-slate-800 rounded-lg p-2 text-sm dark:text-white border-none"
                                 >
                                     <option value="">No Category</option>
-                                    {categories.map(c => <option key={c.id} value={c.id}>{c.name}</option>)}
+                                    {categoryOptions}
                                 </select>
 
-                                <div className="flex gap-4">
-                                     <label className="flex items-center gap-2 text-sm text-slate-600 dark:text-slate-300 cursor-pointer">
-                                        <input 
-                                            type="checkbox" 
-                                            checked={editDollData.sizeArray?.includes('Normal')} 
-                                            onChange={() => handleEditSizeChange('Normal')}
-                                            className="rounded border-slate-300 text-primary focus:ring-primary"
-                                        />
-                                        Normal
-                                    </label>
-                                    <label className="flex items-center gap-2 text-sm text-slate-600 dark:text-slate-300 cursor-pointer">
-                                        <input 
-                                            type="checkbox" 
-                                            checked={editDollData.sizeArray?.includes('Small')} 
-                                            onChange={() => handleEditSizeChange('Small')}
-                                            className="rounded border-slate-300 text-primary focus:ring-primary"
-                                        />
-                                        Small
-                                    </label>
+                                <div className="flex flex-wrap gap-x-4 gap-y-2">
+                                    {sizeVariants.map(variant => (
+                                        <label key={variant.id} className="flex items-center gap-2 text-sm text-slate-600 dark:text-slate-300 cursor-pointer">
+                                            <input 
+                                                type="checkbox" 
+                                                checked={!!editDollData.sizes?.includes(variant.id)} 
+                                                onChange={() => handleEditSizeChange(variant.id)}
+                                                className="rounded border-slate-300 text-primary focus:ring-primary"
+                                            />
+                                            {variant.label}
+                                        </label>
+                                    ))}
                                 </div>
+                                <QuantityInputs
+                                    compact
+                                    sizes={dollSizes({ sizes: editDollData.sizes || [] }, sizeVariants)}
+                                    values={{ quantities: editDollData.quantities || {}, for_trade: editDollData.for_trade || {} }}
+                                    onChange={counts => setEditDollData(prev => ({ ...prev, ...counts }))}
+                                />
 
                                 <input 
                                     type="date"
@@ -676,19 +1197,44 @@ const HomeView: React.FC<HomeViewProps> = ({ currentTopic, initialCategoryId, on
                                     value={editDollData.description || ''} 
                                     onChange={e => setEditDollData({...editDollData, description: e.target.value})}
                                 />
+                                <TagInput
+                                    compact
+                                    tags={editDollData.tags || []}
+                                    known={tagNames}
+                                    onChange={tags => setEditDollData(prev => ({ ...prev, tags }))}
+                                />
+                                <CustomFieldInputs
+                                    compact
+                                    fields={customFields}
+                                    values={editDollData.custom_values || {}}
+                                    onChange={custom_values => setEditDollData(prev => ({ ...prev, custom_values }))}
+                                />
+                                <AcquisitionInputs
+                                    compact
+                                    values={{
+                                        method: editDollData.method ?? null,
+                                        tries: editDollData.tries ?? null,
+                                        cost: editDollData.cost ?? null,
+                                        currency: editDollData.currency ?? null,
+                                        venue: editDollData.venue ?? null,
+                                    }}
+                                    defaultCurrency={currency}
+                                    onChange={acquisition => setEditDollData(prev => ({ ...prev, ...acquisition }))}
+                                />
                                 <div className="flex gap-2 pt-2">
-                                    <button onClick={() => setIsEditingDoll(false)} className="flex-1 py-2 rounded-lg text-slate-500 font-bold bg-slate-100">Cancel</button>
-                                    <button onClick={handleUpdateDoll} className="flex-1 py-2 rounded-lg text-white font-bold bg-primary">Save</button>
+                                    <button onClick={cancelEditingDoll} className="flex-1 py-2 rounded-lg text-slate-500 font-bold bg-slate-100">Cancel</button>
+                                    <button onClick={handleUpdateDoll} disabled={isSavingDoll} className="flex-1 py-2 rounded-lg text-white font-bold bg-primary disabled:opacity-50">{isSavingDoll ? 'Saving...' : 'Save'}</button>
                                 </div>
                             </div>
                         ) : (
                             <>
                                 <div className="flex justify-between items-start mb-2">
                                     <h2 className="text-2xl font-display font-bold text-slate-800 dark:text-white">{selectedDoll.name}</h2>
-                                    <div className="flex gap-1">
-                                        {selectedDoll.size && selectedDoll.size.split(',').map(s => (
-                                            <span key={s.trim()} className={`px-2 py-1 rounded-full text-[10px] font-bold text-white ${s.trim() === 'Normal' ? 'bg-blue-400' : 'bg-pink-400'}`}>
-                                                {s.trim()}
+                                    <div className="flex flex-wrap justify-end gap-1">
+                                        {dollSizes(selectedDoll, sizeVariants).map(variant => (
+                                            <span key={variant.id} style={{ backgroundColor: variant.color }} className="px-2 py-1 rounded-full text-[10px] font-bold text-white whitespace-nowrap">
+                                                {variant.label}
+                                                {quantityOf(selectedDoll, variant.id) > 1 && ` ×${quantityOf(selectedDoll, variant.id)}`}
                                             </span>
                                         ))}
                                     </div>
@@ -697,32 +1243,139 @@ const HomeView: React.FC<HomeViewProps> = ({ currentTopic, initialCategoryId, on
                                 {selectedDoll.category_id && categoryMap[selectedDoll.category_id] && (
                                     <div className="mb-2">
                                         <span className="text-[10px] uppercase font-bold text-slate-400 bg-slate-100 dark:bg-slate-800 px-2 py-1 rounded">
-                                            {categoryMap[selectedDoll.category_id]}
+                                            {categoryPath(categories, selectedDoll.category_id)}
                                         </span>
                                     </div>
                                 )}
 
+                                {tagsOf(selectedDoll).length > 0 && (
+                                    <div className="flex flex-wrap gap-1.5 mb-3">
+                                        {tagsOf(selectedDoll).map(tag => (
+                                            <button
+                                                key={tag}
+                                                onClick={() => filterByTag(tag)}
+                                                title="Show dolls with this tag"
+                                                className="px-2 py-0.5 rounded-full bg-primary/10 text-primary text-xs font-bold hover:bg-primary/20"
+                                            >
+                                                #{tag}
+                                            </button>
+                                        ))}
+                                    </div>
+                                )}
+
                                 <p className="text-slate-500 dark:text-slate-400 text-sm mb-6 leading-relaxed">
                                     {selectedDoll.description || 'No description provided.'}
                                 </p>
+
+                                {customFields.some(f => !isEmptyValue(customValue(selectedDoll, f.id))) && (
+                                    <dl className="grid grid-cols-[auto_1fr] gap-x-3 gap-y-1.5 text-xs mb-6">
+                                        {customFields.filter(f => !isEmptyValue(customValue(selectedDoll, f.id))).map(field => {
+                                            const value = formatCustomValue(customValue(selectedDoll, field.id));
+                                            return (
+                                                <React.Fragment key={field.id}>
+                                                    <dt className="font-bold text-slate-400 uppercase">{field.name}</dt>
+                                                    <dd className="text-slate-600 dark:text-slate-300 break-words">
+                                                        {field.type === 'url' && isSafeUrl(value)
+                                                            ? <a href={value} target="_blank" rel="noopener noreferrer" className="text-primary hover:underline break-all">{value}</a>
+                                                            : value}
+                                                    </dd>
+                                                </React.Fragment>
+                                            );
+                                        })}
+                                    </dl>
+                                )}
                                 
-                                <div className="flex items-center gap-2 text-xs text-slate-400 mb-6">
-                                    <span className="material-icons-round text-base">calendar_today</span>
-                                    <span>Caught on {selectedDoll.catch_date || 'Unknown date'}</span>
+                                <div className="space-y-2 mb-6 empty:hidden">
+                                    {!hideCatchDates && (
+                                        <div className="flex items-center gap-2 text-xs text-slate-400">
+                                            <span className="material-icons-round text-base">calendar_today</span>
+                                            <span>Caught on {selectedDoll.catch_date || 'Unknown date'}</span>
+                                        </div>
+                                    )}
+                                    {locations.length > 0 && (readOnly ? locationOf(selectedDoll, locations) && (
+                                        <div className="flex items-center gap-2 text-xs text-slate-400">
+                                            <span className="material-icons-round text-base">place</span>
+                                            <span>Kept in {locationPath(locations, selectedDoll.location_id!)}</span>
+                                        </div>
+                                    ) : (
+                                        <div className="flex items-center gap-2 text-xs text-slate-400">
+                                            <span className="material-icons-round text-base">place</span>
+                                            <select
+                                                value={locationOf(selectedDoll, locations)?.id || ''}
+                                                onChange={e => saveDollField('location_id', e.target.value || null, "Failed to move the doll.")}
+                                                className="flex-1 min-w-0 bg-slate-50 dark:bg-slate-800 rounded-lg py-1 pl-2 text-xs dark:text-white border-none"
+                                            >
+                                                <option value="">Not put away</option>
+                                                {flattenTree(locations).map(({ category: location, depth }) => (
+                                                    <option key={location.id} value={location.id}>{indentedName(location.name, depth)}</option>
+                                                ))}
+                                            </select>
+                                        </div>
+                                    ))}
+                                    {totalTradeable(selectedDoll) > 0 && (
+                                        <div className="flex items-center gap-2 text-xs text-slate-400">
+                                            <span className="material-icons-round text-base">swap_horiz</span>
+                                            <span>{totalTradeable(selectedDoll)} {totalTradeable(selectedDoll) === 1 ? 'spare' : 'spares'} up for trade</span>
+                                        </div>
+                                    )}
+                                    {describeAcquisition(selectedDoll, currency) && (
+                                        <div className="flex items-center gap-2 text-xs text-slate-400">
+                                            <span className="material-icons-round text-base">payments</span>
+                                            <span>{describeAcquisition(selectedDoll, currency)}</span>
+                                        </div>
+                                    )}
+                                    {!shared && selectedDoll.added_by && memberNames && (
+                                        <div className="flex items-center gap-2 text-xs text-slate-400">
+                                            <span className="material-icons-round text-base">person</span>
+                                            <span>Added by {memberNames[selectedDoll.added_by] || 'a former member'}</span>
+                                        </div>
+                                    )}
                                 </div>
 
-                                <button 
-                                    onClick={() => setIsEditingDoll(true)}
-                                    className="w-full py-3 rounded-xl border border-slate-200 dark:border-slate-700 text-slate-600 dark:text-slate-300 font-bold hover:bg-slate-50 dark:hover:bg-slate-800 transition"
-                                >
-                                    Edit Details
-                                </button>
+                                {!readOnly && (
+                                    <div className="flex gap-2">
+                                        <button 
+                                            onClick={startEditingDoll}
+                                            className="flex-1 py-3 rounded-xl border border-slate-200 dark:border-slate-700 text-slate-600 dark:text-slate-300 font-bold hover:bg-slate-50 dark:hover:bg-slate-800 transition"
+                                        >
+                                            Edit Details
+                                        </button>
+                                        <button 
+                                            onClick={() => setShowDollHistory(!showDollHistory)}
+                                            className={`px-4 py-3 rounded-xl border font-bold transition flex items-center ${showDollHistory ? 'border-primary text-primary' : 'border-slate-200 dark:border-slate-700 text-slate-400 hover:bg-slate-50 dark:hover:bg-slate-800'}`}
+                                            title="Edit history"
+                                        >
+                                            <span className="material-icons-round text-lg">history</span>
+                                        </button>
+                                    </div>
+                                )}
+
+                                {showDollHistory && (
+                                    <div className="mt-6">
+                                        <h3 className="text-xs font-bold text-slate-500 uppercase tracking-wider mb-3">History</h3>
+                                        <DollHistory doll={selectedDoll} categoryNames={categoryMap} locations={locations} sizeVariants={sizeVariants} customFields={customFields} onRevert={handleRevertField} />
+                                    </div>
+                                )}
                             </>
                         )}
                     </div>
                 </div>
             </div>
         )}
+
+        {showTagManager && (
+            <TagManager topic={currentTopic} onClose={() => setShowTagManager(false)} onChanged={fetchData} />
+        )}
+        {showStorageFinder && (
+            <StorageFinder
+                topic={currentTopic}
+                onClose={() => setShowStorageFinder(false)}
+                onSelect={doll => {
+                    setShowStorageFinder(false);
+                    openDetailModal(doll);
+                }}
+            />
+        )}
     </div>
   );
 };
@@ -1,35 +1,72 @@
 import React, { useEffect, useState } from 'react';
-import { supabase } from '../services/supabaseClient';
-import { Topic } from '../types';
+import { repository, sync, TopicContents, TopicDeleteOptions } from '../services/repository';
+import { Topic, MemberRole, TopicInvite } from '../types';
 import LoadingSpinner from '../components/LoadingSpinner';
+import StorageCleanup from '../components/StorageCleanup';
+import ShareLinks from '../components/ShareLinks';
+import TopicMembers from '../components/TopicMembers';
+import SizeVariantsEditor from '../components/SizeVariantsEditor';
+import CustomFieldsEditor from '../components/CustomFieldsEditor';
+import LocationsEditor from '../components/LocationsEditor';
+import SpendingReport from '../components/SpendingReport';
+import { applyRowChange } from '../services/utils';
+import { history } from '../services/history';
+import { topicRenamed } from '../services/commands';
+import { auth, Account } from '../services/auth';
+import { ROLE_LABELS, canManage } from '../services/roles';
+import { DEFAULT_SIZE_VARIANTS } from '../services/sizes';
+import { DEFAULT_CURRENCY } from '../services/spending';
+import { DEFAULT_RETENTION_DAYS } from '../services/trash';
 
 interface ProfileViewProps {
+  account: Account;
   currentTopic: Topic;
+  /** The account's role in each topic, by topic id. */
+  roles: Record<string, MemberRole>;
+  /** Called after joining or leaving a topic, or a change to the account's own role. */
+  onMembershipChange: () => void;
   onSwitchTopic: (topic: Topic) => void;
+  onOpenTrash: () => void;
+  onOpenTrades: () => void;
 }
 
-const ProfileView: React.FC<ProfileViewProps> = ({ currentTopic, onSwitchTopic }) => {
+const ProfileView: React.FC<ProfileViewProps> = ({ account, currentTopic, roles, onMembershipChange, onSwitchTopic, onOpenTrash, onOpenTrades }) => {
   const [topics, setTopics] = useState<Topic[]>([]);
   const [loading, setLoading] = useState(true);
   const [newTopicName, setNewTopicName] = useState('');
   const [isCreating, setIsCreating] = useState(false);
+
+  // Account State
+  const [isEditingProfile, setIsEditingProfile] = useState(false);
+  const [displayName, setDisplayName] = useState(account.displayName);
+  const [isSigningOut, setIsSigningOut] = useState(false);
   
   // Edit State
   const [editingTopicId, setEditingTopicId] = useState<string | null>(null);
   const [editName, setEditName] = useState('');
 
-  // Delete Confirmation State
+  // Delete Confirmation State, with a preview of what the delete affects
   const [deletingTopicId, setDeletingTopicId] = useState<string | null>(null);
+  const [deletePreview, setDeletePreview] = useState<TopicContents | null>(null);
+  const [deleteContentsAction, setDeleteContentsAction] = useState<TopicDeleteOptions['contents']>('move');
+  const [moveTargetTopicId, setMoveTargetTopicId] = useState('');
+
+  // Share Links State
+  const [sharingTopic, setSharingTopic] = useState<Topic | null>(null);
+
+  // Membership State
+  const [membersTopic, setMembersTopic] = useState<Topic | null>(null);
+  const [sizesTopic, setSizesTopic] = useState<Topic | null>(null);
+  const [fieldsTopic, setFieldsTopic] = useState<Topic | null>(null);
+  const [locationsTopic, setLocationsTopic] = useState<Topic | null>(null);
+  const [spendingTopic, setSpendingTopic] = useState<Topic | null>(null);
+  const [myInvites, setMyInvites] = useState<TopicInvite[]>([]);
+  const [respondingInviteId, setRespondingInviteId] = useState<string | null>(null);
 
   const fetchTopics = async () => {
     try {
-      const { data, error } = await supabase
-        .from('topics')
-        .select('*')
-        .order('created_at', { ascending: true });
-      
-      if (error) throw error;
-      setTopics(data || []);
+      const data = await repository.topics.list();
+      setTopics(data);
     } catch (err) {
       console.error('Error fetching topics:', err);
     } finally {
@@ -39,27 +76,35 @@ const ProfileView: React.FC<ProfileViewProps> = ({ currentTopic, onSwitchTopic }
 
   useEffect(() => {
     fetchTopics();
+    repository.members.listMyInvites()
+      .then(setMyInvites)
+      .catch(err => console.error('Error fetching invites:', err));
   }, []);
 
+  useEffect(() => {
+    return history.subscribe(event => {
+        if (event.type !== 'recorded') fetchTopics();
+    });
+  }, []);
+
+  // Live updates from other devices
+  useEffect(() => {
+    return repository.subscribe(currentTopic.id, change => {
+        if (change.table !== 'topics') return;
+        setTopics(prev => applyRowChange(prev, change).sort((a, b) => a.created_at.localeCompare(b.created_at)));
+    });
+  }, [currentTopic.id]);
+
   const handleCreateTopic = async (e: React.FormEvent) => {
     e.preventDefault();
     if (!newTopicName.trim()) return;
 
     setIsCreating(true);
     try {
-      const { data, error } = await supabase
-        .from('topics')
-        .insert([{ name: newTopicName }])
-        .select()
-        .single();
-
-      if (error) throw error;
-
-      if (data) {
-        setTopics([...topics, data]);
-        setNewTopicName('');
-        onSwitchTopic(data); 
-      }
+      const data = await repository.topics.create({ name: newTopicName, size_variants: DEFAULT_SIZE_VARIANTS, custom_fields: [], locations: [], currency: DEFAULT_CURRENCY, trash_retention_days: DEFAULT_RETENTION_DAYS });
+      setTopics([...topics, data]);
+      setNewTopicName('');
+      onSwitchTopic(data);
     } catch (err) {
       alert("Failed to create topic");
       console.error(err);
@@ -68,18 +113,41 @@ const ProfileView: React.FC<ProfileViewProps> = ({ currentTopic, onSwitchTopic }
     }
   };
 
+  // Contents can only move into collections the account owns, as they take on its sizes and fields
+  const moveTargetsFor = (topic: Topic) => topics.filter(t => t.id !== topic.id && canManage(roles[t.id]));
+
+  const startDelete = async (topic: Topic) => {
+      const targets = moveTargetsFor(topic);
+      setDeletingTopicId(topic.id);
+      setEditingTopicId(null);
+      setDeletePreview(null);
+      setDeleteContentsAction(targets.length > 0 ? 'move' : 'delete');
+      setMoveTargetTopicId(targets[0]?.id || '');
+      try {
+          setDeletePreview(await repository.topics.countContents(topic.id));
+      } catch (e) {
+          console.error(e);
+      }
+  };
+
   const handleDeleteTopic = async (topicId: string) => {
       // Inline confirmation Logic handled in render
+      const isEmpty = !!deletePreview && deletePreview.categories === 0 && deletePreview.dolls === 0;
+      const options: TopicDeleteOptions = deleteContentsAction === 'move' && !isEmpty
+          ? { contents: 'move', targetTopicId: moveTargetTopicId }
+          : { contents: 'delete' };
+      if (options.contents === 'move' && !options.targetTopicId) return alert("Choose a collection to move everything into.");
+
       try {
-          const { error } = await supabase.from('topics').delete().eq('id', topicId);
-          if (error) throw error;
+          await repository.topics.remove(topicId, options);
           
           const remainingTopics = topics.filter(t => t.id !== topicId);
           setTopics(remainingTopics);
           setDeletingTopicId(null);
           
           if (currentTopic.id === topicId && remainingTopics.length > 0) {
-              onSwitchTopic(remainingTopics[0]);
+              const moveTarget = options.contents === 'move' ? remainingTopics.find(t => t.id === options.targetTopicId) : undefined;
+              onSwitchTopic(moveTarget || remainingTopics[0]);
           } else if (remainingTopics.length === 0) {
               window.location.reload(); 
           }
@@ -89,6 +157,59 @@ const ProfileView: React.FC<ProfileViewProps> = ({ currentTopic, onSwitchTopic }
       }
   };
 
+  const respondToInvite = async (invite: TopicInvite, accept: boolean) => {
+      setRespondingInviteId(invite.id);
+      try {
+          if (accept) {
+              await repository.members.acceptInvite(invite.id);
+              await fetchTopics();
+              onMembershipChange();
+          } else {
+              await repository.members.cancelInvite(invite.id);
+          }
+          setMyInvites(prev => prev.filter(i => i.id !== invite.id));
+      } catch (e) {
+          console.error(e);
+          alert(accept ? "Failed to join the collection." : "Failed to decline the invite.");
+      } finally {
+          setRespondingInviteId(null);
+      }
+  };
+
+  const handleMembershipChange = async (topic: Topic, left: boolean) => {
+      onMembershipChange();
+      if (!left) return;
+      const remainingTopics = topics.filter(t => t.id !== topic.id);
+      setTopics(remainingTopics);
+      if (currentTopic.id === topic.id) {
+          if (remainingTopics.length > 0) onSwitchTopic(remainingTopics[0]);
+          else window.location.reload();
+      }
+  };
+
+  const saveProfile = async () => {
+      try {
+          await auth.updateProfile({ displayName: displayName.trim() });
+          setIsEditingProfile(false);
+      } catch (e) {
+          console.error(e);
+          alert("Failed to update profile.");
+      }
+  };
+
+  // Clears this device's offline copy too, so the next person to sign in starts clean
+  const handleSignOut = async () => {
+      setIsSigningOut(true);
+      try {
+          await sync?.setOwner(null);
+          await auth.signOut();
+      } catch (e) {
+          console.error(e);
+          alert("Failed to sign out.");
+          setIsSigningOut(false);
+      }
+  };
+
   const startEdit = (topic: Topic) => {
       setEditingTopicId(topic.id);
       setEditName(topic.name);
@@ -98,10 +219,11 @@ const ProfileView: React.FC<ProfileViewProps> = ({ currentTopic, onSwitchTopic }
   const saveEdit = async () => {
       if (!editingTopicId || !editName.trim()) return;
       try {
-          const { error } = await supabase.from('topics').update({ name: editName }).eq('id', editingTopicId);
-          if (error) throw error;
+          const topic = topics.find(t => t.id === editingTopicId)!;
+          await repository.topics.update(editingTopicId, { name: editName });
+          if (editName !== topic.name) history.record(topicRenamed(topic, editName));
           
-          const updatedTopic = { ...topics.find(t => t.id === editingTopicId)!, name: editName };
+          const updatedTopic = { ...topic, name: editName };
           setTopics(topics.map(t => t.id === editingTopicId ? updatedTopic : t));
           
           // If we edited the currently active topic, update it in parent via prop callback
@@ -115,15 +237,97 @@ const ProfileView: React.FC<ProfileViewProps> = ({ currentTopic, onSwitchTopic }
       }
   };
 
+  const handleTopicSaved = (updatedTopic: Topic) => {
+      setTopics(prev => prev.map(t => t.id === updatedTopic.id ? updatedTopic : t));
+      if (currentTopic.id === updatedTopic.id) onSwitchTopic(updatedTopic);
+  };
+
   return (
     <div className="flex-1 flex flex-col h-full overflow-hidden bg-background-light dark:bg-background-dark">
         {/* Header */}
         <header className="px-6 pt-12 pb-6 bg-white/80 dark:bg-card-dark/80 backdrop-blur-md sticky top-0 border-b border-blue-100 dark:border-slate-700 z-10">
-            <h1 className="text-2xl font-display font-bold text-slate-800 dark:text-white">My Collections</h1>
-            <p className="text-sm text-slate-400 dark:text-slate-500">Switch topics to manage different sets.</p>
+            <h1 className="text-2xl font-display font-bold text-slate-800 dark:text-white">Profile</h1>
+            <p className="text-sm text-slate-400 dark:text-slate-500">Your account and collections.</p>
         </header>
 
         <main className="p-6 overflow-y-auto flex-1 pb-24 no-scrollbar">
+            {/* Account */}
+            <div className="bg-white dark:bg-card-dark p-4 rounded-2xl shadow-sm border border-slate-100 dark:border-slate-700 mb-8">
+                <div className="flex items-center gap-4">
+                    <div className="w-14 h-14 rounded-full bg-primary text-white shadow-soft flex items-center justify-center text-xl font-bold shrink-0">
+                        {(account.displayName || account.email).charAt(0).toUpperCase()}
+                    </div>
+                    <div className="flex-1 min-w-0">
+                        {isEditingProfile ? (
+                            <div className="flex gap-2 animate-in fade-in">
+                                <input
+                                    autoFocus
+                                    value={displayName}
+                                    placeholder="Display name"
+                                    onChange={e => setDisplayName(e.target.value)}
+                                    onKeyDown={e => e.key === 'Enter' && saveProfile()}
+                                    className="flex-1 min-w-0 bg-white rounded px-2 py-1 text-sm border border-slate-300"
+                                />
+                                <button onClick={saveProfile} className="text-green-500 material-icons-round">check</button>
+                                <button onClick={() => { setIsEditingProfile(false); setDisplayName(account.displayName); }} className="text-red-500 material-icons-round">close</button>
+                            </div>
+                        ) : (
+                            <div onClick={() => setIsEditingProfile(true)} className="flex items-center gap-2 cursor-pointer">
+                                <h3 className="font-bold text-base text-slate-700 dark:text-slate-200 truncate">{account.displayName || 'Add a display name'}</h3>
+                                <span className="material-icons-round text-sm text-slate-300">edit</span>
+                            </div>
+                        )}
+                        <p className="text-xs text-slate-400 truncate">{account.email}</p>
+                        <p className="text-[10px] text-slate-400">Member since {new Date(account.created_at).toLocaleDateString()}</p>
+                    </div>
+                </div>
+                {sync && sync.getStatus().pending > 0 && (
+                    <p className="text-xs text-amber-500 mt-4">{sync.getStatus().pending} change{sync.getStatus().pending === 1 ? " hasn't" : "s haven't"} synced yet and will be lost if you sign out now.</p>
+                )}
+                <button
+                    onClick={handleSignOut}
+                    disabled={isSigningOut}
+                    className="mt-4 w-full py-2 bg-slate-100 dark:bg-slate-800 rounded-xl text-xs font-bold text-slate-500 disabled:opacity-50"
+                >
+                    {isSigningOut ? 'Signing out...' : 'Sign Out'}
+                </button>
+            </div>
+
+            {/* Invitations */}
+            {myInvites.length > 0 && (
+                <div className="mb-8">
+                    <h3 className="text-sm font-bold text-slate-500 uppercase tracking-wider mb-3">Invitations</h3>
+                    <div className="space-y-2">
+                        {myInvites.map(invite => (
+                            <div key={invite.id} className="bg-white dark:bg-card-dark p-4 rounded-2xl shadow-sm border border-primary/30 flex items-center gap-3">
+                                <span className="material-icons-round text-primary">mail</span>
+                                <div className="flex-1 min-w-0">
+                                    <p className="font-bold text-sm text-slate-700 dark:text-slate-200 truncate">{invite.topic_name}</p>
+                                    <p className="text-xs text-slate-400 truncate">
+                                        {invite.invited_by ? `From ${invite.invited_by} · ` : ''}as {ROLE_LABELS[invite.role]}
+                                    </p>
+                                </div>
+                                <button
+                                    onClick={() => respondToInvite(invite, false)}
+                                    disabled={respondingInviteId !== null}
+                                    className="px-3 py-1 text-slate-500 bg-slate-100 dark:bg-slate-800 rounded-lg text-xs font-bold disabled:opacity-50"
+                                >
+                                    Decline
+                                </button>
+                                <button
+                                    onClick={() => respondToInvite(invite, true)}
+                                    disabled={respondingInviteId !== null}
+                                    className="px-3 py-1 text-white bg-primary rounded-lg text-xs font-bold disabled:opacity-50"
+                                >
+                                    {respondingInviteId === invite.id ? '...' : 'Join'}
+                                </button>
+                            </div>
+                        ))}
+                    </div>
+                </div>
+            )}
+
+            <h3 className="text-sm font-bold text-slate-500 uppercase tracking-wider mb-3">My Collections</h3>
             {loading ? <LoadingSpinner /> : (
                 <div className="space-y-4">
                     {/* List Topics */}
@@ -138,11 +342,39 @@ const ProfileView: React.FC<ProfileViewProps> = ({ currentTopic, onSwitchTopic }
                         >
                             {/* Deleting State */}
                             {deletingTopicId === topic.id ? (
-                                <div className="flex items-center justify-between w-full animate-in fade-in slide-in-from-right duration-200">
-                                    <span className="text-sm font-bold text-red-500">Confirm delete "{topic.name}"?</span>
-                                    <div className="flex gap-2">
+                                <div className="flex flex-col gap-3 w-full animate-in fade-in slide-in-from-right duration-200">
+                                    <div>
+                                        <span className="text-sm font-bold text-red-500">Confirm delete "{topic.name}"?</span>
+                                        <p className="text-xs text-slate-400">
+                                            {deletePreview
+                                                ? `${deletePreview.categories} categor${deletePreview.categories === 1 ? 'y' : 'ies'} · ${deletePreview.dolls} doll${deletePreview.dolls === 1 ? '' : 's'}`
+                                                : 'Counting contents...'}
+                                        </p>
+                                    </div>
+                                    {deletePreview && (deletePreview.categories > 0 || deletePreview.dolls > 0) && (
+                                        <div className="flex flex-col gap-2">
+                                            <label className={`flex items-center gap-2 text-xs text-slate-600 dark:text-slate-300 ${moveTargetsFor(topic).length > 0 ? 'cursor-pointer' : 'opacity-50'}`}>
+                                                <input type="radio" disabled={moveTargetsFor(topic).length === 0} checked={deleteContentsAction === 'move'} onChange={() => setDeleteContentsAction('move')} className="text-primary focus:ring-primary" />
+                                                Move everything into
+                                                <select
+                                                    value={moveTargetTopicId}
+                                                    disabled={moveTargetsFor(topic).length === 0}
+                                                    onChange={e => { setMoveTargetTopicId(e.target.value); setDeleteContentsAction('move'); }}
+                                                    className="flex-1 bg-white dark:bg-slate-800 rounded-lg p-1 text-xs dark:text-white border border-slate-200 dark:border-slate-700"
+                                                >
+                                                    {moveTargetsFor(topic).map(t => <option key={t.id} value={t.id}>{t.name}</option>)}
+                                                </select>
+                                            </label>
+                                            <label className="flex items-center gap-2 text-xs text-red-500 cursor-pointer">
+                                                <input type="radio" checked={deleteContentsAction === 'delete'} onChange={() => setDeleteContentsAction('delete')} className="text-red-500 focus:ring-red-500" />
+                                                Delete everything
+                                            </label>
+                                        </div>
+                                    )}
+                                    <p className="text-[10px] text-slate-400">Deleted items can be restored from Trash.</p>
+                                    <div className="flex gap-2 justify-end">
                                         <button onClick={() => setDeletingTopicId(null)} className="px-3 py-1 text-slate-500 bg-slate-100 rounded-lg text-xs font-bold">Cancel</button>
-                                        <button onClick={() => handleDeleteTopic(topic.id)} className="px-3 py-1 text-white bg-red-500 rounded-lg text-xs font-bold">Delete</button>
+                                        <button onClick={() => handleDeleteTopic(topic.id)} disabled={!deletePreview} className="px-3 py-1 text-white bg-red-500 rounded-lg text-xs font-bold disabled:opacity-50">Delete</button>
                                     </div>
                                 </div>
                             ) : editingTopicId === topic.id ? (
@@ -175,19 +407,47 @@ const ProfileView: React.FC<ProfileViewProps> = ({ currentTopic, onSwitchTopic }
                                             <h3 className={`font-bold text-base ${currentTopic.id === topic.id ? 'text-primary' : 'text-slate-700 dark:text-slate-200'}`}>
                                                 {topic.name}
                                             </h3>
-                                            {currentTopic.id === topic.id && (
-                                                <span className="text-[10px] font-bold text-primary uppercase tracking-wider">Active</span>
-                                            )}
+                                            <div className="flex gap-2">
+                                                {currentTopic.id === topic.id && (
+                                                    <span className="text-[10px] font-bold text-primary uppercase tracking-wider">Active</span>
+                                                )}
+                                                {roles[topic.id] && roles[topic.id] !== 'owner' && (
+                                                    <span className="text-[10px] font-bold text-slate-400 uppercase tracking-wider">Shared · {ROLE_LABELS[roles[topic.id]]}</span>
+                                                )}
+                                            </div>
                                         </div>
                                     </div>
                                     
                                     <div className="flex items-center gap-1 opacity-100 sm:opacity-0 group-hover:opacity-100 transition-opacity">
-                                        <button onClick={() => startEdit(topic)} className="p-2 text-slate-400 hover:text-blue-500">
-                                            <span className="material-icons-round text-lg">edit</span>
+                                        <button onClick={() => setMembersTopic(topic)} className="p-2 text-slate-400 hover:text-primary" title="Members">
+                                            <span className="material-icons-round text-lg">group</span>
                                         </button>
-                                        <button onClick={() => setDeletingTopicId(topic.id)} className="p-2 text-slate-400 hover:text-red-500">
-                                            <span className="material-icons-round text-lg">delete</span>
+                                        <button onClick={() => setSpendingTopic(topic)} className="p-2 text-slate-400 hover:text-primary" title="Spending">
+                                            <span className="material-icons-round text-lg">payments</span>
                                         </button>
+                                        {/* Only owners rename, delete or share the collection */}
+                                        {canManage(roles[topic.id]) && (
+                                            <>
+                                                <button onClick={() => setSharingTopic(topic)} className="p-2 text-slate-400 hover:text-primary" title="Share">
+                                                    <span className="material-icons-round text-lg">share</span>
+                                                </button>
+                                                <button onClick={() => setSizesTopic(topic)} className="p-2 text-slate-400 hover:text-primary" title="Sizes">
+                                                    <span className="material-icons-round text-lg">straighten</span>
+                                                </button>
+                                                <button onClick={() => setFieldsTopic(topic)} className="p-2 text-slate-400 hover:text-primary" title="Fields">
+                                                    <span className="material-icons-round text-lg">tune</span>
+                                                </button>
+                                                <button onClick={() => setLocationsTopic(topic)} className="p-2 text-slate-400 hover:text-primary" title="Storage">
+                                                    <span className="material-icons-round text-lg">inventory_2</span>
+                                                </button>
+                                                <button onClick={() => startEdit(topic)} className="p-2 text-slate-400 hover:text-blue-500">
+                                                    <span className="material-icons-round text-lg">edit</span>
+                                                </button>
+                                                <button onClick={() => startDelete(topic)} className="p-2 text-slate-400 hover:text-red-500">
+                                                    <span className="material-icons-round text-lg">delete</span>
+                                                </button>
+                                            </>
+                                        )}
                                     </div>
                                 </>
                             )}
@@ -216,9 +476,84 @@ const ProfileView: React.FC<ProfileViewProps> = ({ currentTopic, onSwitchTopic }
                              </div>
                         </form>
                     </div>
+
+                    {/* Trade List */}
+                    <button
+                        onClick={onOpenTrades}
+                        className="mt-8 w-full bg-white dark:bg-card-dark p-4 rounded-2xl shadow-sm border border-slate-100 dark:border-slate-700 flex items-center gap-4 text-left hover:border-blue-200 dark:hover:border-slate-600 transition"
+                    >
+                        <div className="w-12 h-12 rounded-full bg-slate-100 dark:bg-slate-800 text-slate-400 flex items-center justify-center shrink-0">
+                            <span className="material-icons-round">swap_horiz</span>
+                        </div>
+                        <div className="flex-1">
+                            <h3 className="font-bold text-base text-slate-700 dark:text-slate-200">Trade List</h3>
+                            <p className="text-xs text-slate-400">Spares up for trade, to post as text or an image.</p>
+                        </div>
+                        <span className="material-icons-round text-slate-300">chevron_right</span>
+                    </button>
+
+                    {/* Trash */}
+                    <button
+                        onClick={onOpenTrash}
+                        className="mt-3 w-full bg-white dark:bg-card-dark p-4 rounded-2xl shadow-sm border border-slate-100 dark:border-slate-700 flex items-center gap-4 text-left hover:border-blue-200 dark:hover:border-slate-600 transition"
+                    >
+                        <div className="w-12 h-12 rounded-full bg-slate-100 dark:bg-slate-800 text-slate-400 flex items-center justify-center shrink-0">
+                            <span className="material-icons-round">delete_outline</span>
+                        </div>
+                        <div className="flex-1">
+                            <h3 className="font-bold text-base text-slate-700 dark:text-slate-200">Trash</h3>
+                            <p className="text-xs text-slate-400">Restore deleted dolls, categories and collections.</p>
+                        </div>
+                        <span className="material-icons-round text-slate-300">chevron_right</span>
+                    </button>
+
+                    <StorageCleanup />
                 </div>
             )}
         </main>
+
+        {sharingTopic && <ShareLinks topic={sharingTopic} onClose={() => setSharingTopic(null)} />}
+        {sizesTopic && (
+            <SizeVariantsEditor
+                topic={sizesTopic}
+                onClose={() => setSizesTopic(null)}
+                onSaved={handleTopicSaved}
+            />
+        )}
+        {fieldsTopic && (
+            <CustomFieldsEditor
+                topic={fieldsTopic}
+                onClose={() => setFieldsTopic(null)}
+                onSaved={handleTopicSaved}
+            />
+        )}
+        {locationsTopic && (
+            <LocationsEditor
+                topic={locationsTopic}
+                onClose={() => setLocationsTopic(null)}
+                onSaved={handleTopicSaved}
+            />
+        )}
+        {spendingTopic && (
+            <SpendingReport
+                topic={spendingTopic}
+                canChangeCurrency={canManage(roles[spendingTopic.id])}
+                onClose={() => setSpendingTopic(null)}
+                onSaved={topic => {
+                    handleTopicSaved(topic);
+                    setSpendingTopic(topic);
+                }}
+            />
+        )}
+        {membersTopic && (
+            <TopicMembers
+                topic={membersTopic}
+                userId={account.id}
+                role={roles[membersTopic.id] ?? null}
+                onClose={() => setMembersTopic(null)}
+                onMembershipChange={left => handleMembershipChange(membersTopic, left)}
+            />
+        )}
     </div>
   );
 };
@@ -0,0 +1,76 @@
+import React, { useEffect, useState } from 'react';
+import HomeView from './HomeView';
+import CategoryView from './CategoryView';
+import BottomNav from '../components/BottomNav';
+import LoadingSpinner from '../components/LoadingSpinner';
+import { ViewState } from '../types';
+import { repository, SharedCollection } from '../services/repository';
+
+interface SharedCollectionViewProps {
+  token: string;
+}
+
+/** What visitors of a share link see: the topic's grid and categories, without any editing. */
+const SharedCollectionView: React.FC<SharedCollectionViewProps> = ({ token }) => {
+  // undefined while loading, null when the link doesn't work (any more)
+  const [shared, setShared] = useState<SharedCollection | null | undefined>(undefined);
+  const [currentView, setCurrentView] = useState<ViewState>(ViewState.HOME);
+  const [homeInitialCategoryId, setHomeInitialCategoryId] = useState<string | null>(null);
+
+  useEffect(() => {
+    repository.shares.open(token)
+      .then(setShared)
+      .catch(err => {
+        console.error("Failed to open shared collection", err);
+        setShared(null);
+      });
+  }, [token]);
+
+  const handleSelectCategory = (categoryId: string) => {
+      setHomeInitialCategoryId(categoryId);
+      setCurrentView(ViewState.HOME);
+  };
+
+  const renderView = () => {
+    if (shared === undefined) return <div className="flex h-full items-center justify-center"><LoadingSpinner /></div>;
+    if (shared === null) {
+      return (
+        <div className="flex h-full flex-col items-center justify-center text-center p-6">
+            <span className="material-icons-round text-slate-200 text-6xl mb-2">link_off</span>
+            <p className="text-slate-500 font-bold">This link isn't active.</p>
+            <p className="text-sm text-slate-400">Ask the owner for a new one.</p>
+        </div>
+      );
+    }
+
+    if (currentView === ViewState.CATEGORY) {
+      return <CategoryView currentTopic={shared.topic} onSelectCategory={handleSelectCategory} shared={shared} />;
+    }
+    return <HomeView
+        currentTopic={shared.topic}
+        initialCategoryId={homeInitialCategoryId}
+        onClearInitialCategory={() => setHomeInitialCategoryId(null)}
+        onUpdateTopic={() => {}}
+        shared={shared}
+    />;
+  };
+
+  return (
+    <div className="w-full h-full max-w-7xl mx-auto relative flex flex-col shadow-2xl overflow-hidden bg-background-light dark:bg-background-dark">
+      <div className="absolute inset-0 bubble-pattern opacity-50 pointer-events-none z-0"></div>
+
+      <div className="relative z-50 flex items-center justify-center gap-1 px-4 py-1.5 text-xs font-bold text-primary bg-blue-50 dark:bg-primary/10">
+          <span className="material-icons-round text-sm">visibility</span>
+          Shared collection · view only
+      </div>
+
+      <div className="flex-1 relative w-full overflow-hidden">
+        {renderView()}
+      </div>
+
+      {shared && <BottomNav currentView={currentView} setView={setCurrentView} views={[ViewState.HOME, ViewState.CATEGORY]} />}
+    </div>
+  );
+};
+
+export default SharedCollectionView;
@@ -0,0 +1,194 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { Doll, MemberRole, Topic } from '../types';
+import { repository } from '../services/repository';
+import { history } from '../services/history';
+import { dollEdited } from '../services/commands';
+import { canEdit } from '../services/roles';
+import { TradeEntry, cleanCounts, formatTradeList, quantityOf, renderTradeImage, tradeEntries, tradeableOf } from '../services/trades';
+import LoadingSpinner from '../components/LoadingSpinner';
+
+interface TradeListViewProps {
+  /** The account's role in each topic; collections it only views aren't its to trade from. */
+  roles: Record<string, MemberRole>;
+  onBack: () => void;
+}
+
+/** Every spare marked for trade across the account's collections, ready to post to a trading group. */
+const TradeListView: React.FC<TradeListViewProps> = ({ roles, onBack }) => {
+  const [topics, setTopics] = useState<Topic[]>([]);
+  const [dolls, setDolls] = useState<Doll[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [topicFilter, setTopicFilter] = useState<string | null>(null); // Topic id; null for all
+  const [busyKey, setBusyKey] = useState<string | null>(null);
+  const [copied, setCopied] = useState(false);
+
+  useEffect(() => {
+    Promise.all([repository.topics.list(), repository.dolls.listForTrade()])
+      .then(([topicList, dollList]) => {
+        setTopics(topicList.filter(t => canEdit(roles[t.id])));
+        setDolls(dollList);
+      })
+      .catch(err => {
+        console.error('Error fetching trade list:', err);
+        alert("Could not load the trade list.");
+      })
+      .finally(() => setLoading(false));
+  }, []);
+
+  const allEntries = useMemo(() => tradeEntries(topics, dolls), [topics, dolls]);
+  const entries = topicFilter ? allEntries.filter(e => e.topic.id === topicFilter) : allEntries;
+  const listedTopics = topics.filter(t => allEntries.some(e => e.topic.id === t.id));
+  const totalCount = entries.reduce((sum, e) => sum + e.count, 0);
+
+  const copyText = async () => {
+    const text = formatTradeList(entries);
+    try {
+      await navigator.clipboard.writeText(text);
+      setCopied(true);
+      setTimeout(() => setCopied(false), 2000);
+    } catch (err) {
+      console.error(err);
+      prompt("Copy this list:", text);
+    }
+  };
+
+  // Shared as a file where the device can, e.g. straight into a chat app; downloaded otherwise
+  const exportImage = async () => {
+    setBusyKey('image');
+    try {
+      const blob = await renderTradeImage(entries);
+      const file = new File([blob], 'trade-list.png', { type: 'image/png' });
+      if (navigator.canShare?.({ files: [file] })) {
+        await navigator.share({ files: [file], title: 'Up for trade' });
+      } else {
+        const url = URL.createObjectURL(blob);
+        const link = document.createElement('a');
+        link.href = url;
+        link.download = file.name;
+        link.click();
+        URL.revokeObjectURL(url);
+      }
+    } catch (err) {
+      // Closing the share sheet isn't a failure
+      if (err instanceof DOMException && err.name === 'AbortError') return;
+      console.error(err);
+      alert("Failed to export the image.");
+    } finally {
+      setBusyKey(null);
+    }
+  };
+
+  // One copy traded away: the doll keeps the rest
+  const markTraded = async (entry: TradeEntry) => {
+    const { doll, size } = entry;
+    const key = `${doll.id}:${size.id}`;
+    setBusyKey(key);
+    try {
+      const patch = cleanCounts({
+        sizes: doll.sizes,
+        quantities: { ...doll.quantities, [size.id]: quantityOf(doll, size.id) - 1 },
+        for_trade: { ...doll.for_trade, [size.id]: tradeableOf(doll, size.id) - 1 },
+      });
+      await repository.dolls.update(doll.id, patch);
+      history.record(dollEdited(doll, patch));
+      setDolls(prev => prev.map(d => (d.id === doll.id ? { ...d, ...patch } : d)));
+    } catch (err) {
+      console.error(err);
+      alert("Failed to update the doll.");
+    } finally {
+      setBusyKey(null);
+    }
+  };
+
+  return (
+    <div className="flex-1 flex flex-col h-full overflow-hidden bg-background-light dark:bg-background-dark">
+        {/* Header */}
+        <header className="px-6 pt-12 pb-6 bg-white/80 dark:bg-card-dark/80 backdrop-blur-md sticky top-0 border-b border-blue-100 dark:border-slate-700 z-10 flex items-center gap-3">
+            <button onClick={onBack} className="p-2 -ml-2 text-slate-400 hover:text-primary">
+                <span className="material-icons-round">arrow_back</span>
+            </button>
+            <div className="flex-1">
+                <h1 className="text-2xl font-display font-bold text-slate-800 dark:text-white">Trade List</h1>
+                <p className="text-sm text-slate-400 dark:text-slate-500">Spares you've marked for trade, across collections.</p>
+            </div>
+        </header>
+
+        <main className="p-6 overflow-y-auto flex-1 pb-24 no-scrollbar">
+            {loading ? <LoadingSpinner /> : allEntries.length === 0 ? (
+                <div className="text-center text-slate-400 py-16">
+                    <span className="material-icons-round text-5xl mb-2">swap_horiz</span>
+                    <p className="text-sm">Nothing up for trade.</p>
+                    <p className="text-xs mt-1">Set how many copies of a doll you have when editing it, then mark the spares for trade.</p>
+                </div>
+            ) : (
+                <>
+                    {listedTopics.length > 1 && (
+                        <div className="flex gap-2 overflow-x-auto no-scrollbar mb-4">
+                            {[{ id: null, name: 'All' }, ...listedTopics].map(topic => (
+                                <button
+                                    key={topic.id ?? 'all'}
+                                    onClick={() => setTopicFilter(topic.id)}
+                                    className={`px-3 py-1.5 rounded-full text-xs font-bold whitespace-nowrap border transition-colors ${topicFilter === topic.id ? 'bg-primary text-white border-primary' : 'bg-white dark:bg-card-dark text-slate-600 dark:text-slate-300 border-slate-200 dark:border-slate-700'}`}
+                                >
+                                    {topic.name}
+                                </button>
+                            ))}
+                        </div>
+                    )}
+
+                    <div className="flex gap-2 mb-6">
+                        <button onClick={copyText} className="flex-1 py-2 bg-white dark:bg-card-dark border border-slate-200 dark:border-slate-700 rounded-xl text-xs font-bold text-slate-600 dark:text-slate-300 flex items-center justify-center gap-1">
+                            <span className="material-icons-round text-base">{copied ? 'check' : 'content_copy'}</span>
+                            {copied ? 'Copied!' : 'Copy as text'}
+                        </button>
+                        <button onClick={exportImage} disabled={busyKey === 'image'} className="flex-1 py-2 bg-primary rounded-xl text-xs font-bold text-white flex items-center justify-center gap-1 disabled:opacity-50">
+                            <span className="material-icons-round text-base">image</span>
+                            {busyKey === 'image' ? 'Exporting...' : 'Share as image'}
+                        </button>
+                    </div>
+
+                    <p className="text-xs font-bold text-slate-500 uppercase mb-2">
+                        {totalCount} {totalCount === 1 ? 'spare' : 'spares'}
+                    </p>
+                    <div className="space-y-3">
+                        {entries.map((entry, i) => {
+                            const key = `${entry.doll.id}:${entry.size.id}`;
+                            return (
+                                <React.Fragment key={key}>
+                                    {!topicFilter && (i === 0 || entries[i - 1].topic !== entry.topic) && (
+                                        <h2 className="text-sm font-bold text-slate-700 dark:text-slate-200 pt-2">{entry.topic.name}</h2>
+                                    )}
+                                    <div className="p-3 rounded-2xl border-2 border-slate-100 dark:border-slate-700 bg-white dark:bg-card-dark flex items-center gap-3">
+                                        <img src={entry.doll.image_url} alt={entry.doll.name} className="w-14 h-14 rounded-xl object-cover shrink-0 bg-slate-100" />
+                                        <div className="flex-1 min-w-0">
+                                            <h3 className="font-bold text-sm text-slate-700 dark:text-slate-200 truncate">{entry.doll.name}</h3>
+                                            <div className="flex items-center gap-2 mt-1">
+                                                <span style={{ backgroundColor: entry.size.color }} className="px-2 py-0.5 rounded-full text-[10px] font-bold text-white whitespace-nowrap">
+                                                    {entry.size.label}
+                                                </span>
+                                                <span className="text-[11px] text-slate-400">
+                                                    {entry.count} of {quantityOf(entry.doll, entry.size.id)} for trade
+                                                </span>
+                                            </div>
+                                        </div>
+                                        <button
+                                            onClick={() => markTraded(entry)}
+                                            disabled={busyKey !== null}
+                                            title="Traded one away"
+                                            className="px-2 py-1 text-primary bg-primary/10 rounded-lg text-xs font-bold shrink-0 disabled:opacity-50"
+                                        >
+                                            {busyKey === key ? '...' : 'Traded'}
+                                        </button>
+                                    </div>
+                                </React.Fragment>
+                            );
+                        })}
+                    </div>
+                </>
+            )}
+        </main>
+    </div>
+  );
+};
+
+export default TradeListView;
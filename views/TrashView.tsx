@@ -0,0 +1,250 @@
+import React, { useEffect, useState } from 'react';
+import { repository } from '../services/repository';
+import { MemberRole, Topic } from '../types';
+import { buildTrashItems, expiresAt, retentionDaysOf, RETENTION_OPTIONS, TrashItem } from '../services/trash';
+import { canManage } from '../services/roles';
+import LoadingSpinner from '../components/LoadingSpinner';
+
+interface TrashViewProps {
+  /** The account's role in each topic; owners set how long their topics keep the trash. */
+  roles: Record<string, MemberRole>;
+  onBack: () => void;
+}
+
+const KIND_LABELS: Record<TrashItem['table'], { label: string; icon: string }> = {
+  topics: { label: 'Collection', icon: 'folder' },
+  categories: { label: 'Category', icon: 'category' },
+  dolls: { label: 'Doll', icon: 'image' },
+};
+
+const describeContents = (item: TrashItem) => {
+  const parts: string[] = [];
+  if (item.contents.categories > 0) parts.push(`${item.contents.categories} categor${item.contents.categories === 1 ? 'y' : 'ies'}`);
+  if (item.contents.dolls > 0) parts.push(`${item.contents.dolls} doll${item.contents.dolls === 1 ? '' : 's'}`);
+  return parts.length > 0 ? `with ${parts.join(' · ')}` : null;
+};
+
+const daysLeft = (deletedAt: string, retentionDays: number) => {
+  const expiry = expiresAt(deletedAt, retentionDays);
+  if (!expiry) return null;
+  const days = Math.max(0, Math.ceil((expiry.getTime() - Date.now()) / (24 * 60 * 60 * 1000)));
+  return days === 0 ? 'Deletes today' : `Deletes in ${days} day${days === 1 ? '' : 's'}`;
+};
+
+const TrashView: React.FC<TrashViewProps> = ({ roles, onBack }) => {
+  const [items, setItems] = useState<TrashItem[]>([]);
+  const [liveTopics, setLiveTopics] = useState<Topic[]>([]);
+  const [topicsById, setTopicsById] = useState<Map<string, Topic>>(new Map());
+  const [loading, setLoading] = useState(true);
+  const [busyId, setBusyId] = useState<string | null>(null);
+
+  // Inline confirmation for the permanent actions
+  const [confirmingPurgeId, setConfirmingPurgeId] = useState<string | null>(null);
+  const [confirmingEmpty, setConfirmingEmpty] = useState(false);
+
+  const fetchTrash = async () => {
+    try {
+      const [trashed, topics] = await Promise.all([repository.trash.list(), repository.topics.list()]);
+      setItems(buildTrashItems(trashed));
+      setLiveTopics(topics);
+      setTopicsById(new Map([...topics, ...trashed.topics].map(t => [t.id, t])));
+    } catch (err) {
+      console.error('Error fetching trash:', err);
+      alert("Could not load the trash. Are you online?");
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    fetchTrash();
+  }, []);
+
+  const handleRestore = async (item: TrashItem) => {
+    setBusyId(item.id);
+    try {
+      await repository.trash.restore(item.table, item.id);
+      await fetchTrash();
+    } catch (err) {
+      console.error(err);
+      alert("Failed to restore.");
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const handlePurge = async (item: TrashItem) => {
+    setBusyId(item.id);
+    try {
+      await repository.trash.purge(item.table, item.id);
+      setItems(prev => prev.filter(i => i.id !== item.id));
+      setConfirmingPurgeId(null);
+    } catch (err) {
+      console.error(err);
+      alert("Failed to delete.");
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const handleEmptyTrash = async () => {
+    setBusyId('all');
+    try {
+      await repository.trash.purgeBefore(new Date().toISOString());
+      setConfirmingEmpty(false);
+      await fetchTrash();
+    } catch (err) {
+      console.error(err);
+      alert("Failed to empty the trash.");
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const handleRetentionChange = async (topic: Topic, days: number) => {
+    setBusyId(topic.id);
+    try {
+      await repository.topics.update(topic.id, { trash_retention_days: days });
+      await repository.trash.purgeExpired();
+      await fetchTrash();
+    } catch (err) {
+      console.error(err);
+      alert("Failed to change how long deleted items are kept.");
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  // A trashed topic, and everything trashed with it or from it, follows the topic's setting
+  const topicIdOf = (item: TrashItem) => (item.table === 'topics' ? item.id : item.topicId || '');
+  const retentionOf = (item: TrashItem) => {
+    const topic = topicsById.get(topicIdOf(item));
+    return topic ? retentionDaysOf(topic) : 0;
+  };
+  // Only owners delete for good; editors can still restore
+  const canPurge = (item: TrashItem) => canManage(roles[topicIdOf(item)]);
+  const purgeableCount = items.filter(canPurge).length;
+
+  return (
+    <div className="flex-1 flex flex-col h-full overflow-hidden bg-background-light dark:bg-background-dark">
+        {/* Header */}
+        <header className="px-6 pt-12 pb-6 bg-white/80 dark:bg-card-dark/80 backdrop-blur-md sticky top-0 border-b border-blue-100 dark:border-slate-700 z-10 flex items-center gap-3">
+            <button onClick={onBack} className="p-2 -ml-2 text-slate-400 hover:text-primary">
+                <span className="material-icons-round">arrow_back</span>
+            </button>
+            <div className="flex-1">
+                <h1 className="text-2xl font-display font-bold text-slate-800 dark:text-white">Trash</h1>
+                <p className="text-sm text-slate-400 dark:text-slate-500">Restore deleted items or remove them for good.</p>
+            </div>
+        </header>
+
+        <main className="p-6 overflow-y-auto flex-1 pb-24 no-scrollbar">
+            {/* Retention Setting, per collection and set by its owners */}
+            <div className="bg-white dark:bg-card-dark p-4 rounded-2xl shadow-sm border border-slate-100 dark:border-slate-700 mb-6">
+                <h3 className="text-sm font-bold text-slate-700 dark:text-slate-200">Keep deleted items</h3>
+                <p className="text-xs text-slate-400 mb-3">Older items are deleted permanently, photos included. Each collection's owners choose for everyone in it.</p>
+                <div className="space-y-2">
+                    {liveTopics.map(topic => {
+                        const days = retentionDaysOf(topic);
+                        const options = RETENTION_OPTIONS.includes(days) ? RETENTION_OPTIONS : [...RETENTION_OPTIONS, days];
+                        return (
+                            <div key={topic.id} className="flex items-center justify-between gap-4">
+                                <span className="text-sm text-slate-600 dark:text-slate-300 truncate">{topic.name}</span>
+                                {canManage(roles[topic.id]) ? (
+                                    <select
+                                        value={days}
+                                        disabled={busyId !== null}
+                                        onChange={e => handleRetentionChange(topic, Number(e.target.value))}
+                                        className="bg-slate-50 dark:bg-slate-800 rounded-lg p-2 text-sm dark:text-white border-none disabled:opacity-50"
+                                    >
+                                        {options.map(option => (
+                                            <option key={option} value={option}>{option === 0 ? 'Forever' : `${option} days`}</option>
+                                        ))}
+                                    </select>
+                                ) : (
+                                    <span className="text-xs text-slate-400 shrink-0">{days === 0 ? 'Forever' : `${days} days`}</span>
+                                )}
+                            </div>
+                        );
+                    })}
+                </div>
+            </div>
+
+            {loading ? <LoadingSpinner /> : items.length === 0 ? (
+                <div className="text-center text-slate-400 py-16">
+                    <span className="material-icons-round text-5xl mb-2">delete_outline</span>
+                    <p className="text-sm">Trash is empty.</p>
+                </div>
+            ) : (
+                <div className="space-y-3">
+                    {items.map(item => {
+                        const kind = KIND_LABELS[item.table];
+                        const contents = describeContents(item);
+                        const expiry = daysLeft(item.deletedAt, retentionOf(item));
+                        return (
+                            <div key={`${item.table}:${item.id}`} className="p-3 rounded-2xl border-2 border-slate-100 dark:border-slate-700 bg-white dark:bg-card-dark flex items-center gap-3">
+                                {item.imageUrl ? (
+                                    <img src={item.imageUrl} alt={item.name} className="w-14 h-14 rounded-xl object-cover shrink-0 bg-slate-100" />
+                                ) : (
+                                    <div className="w-14 h-14 rounded-xl shrink-0 bg-slate-100 dark:bg-slate-800 text-slate-400 flex items-center justify-center">
+                                        <span className="material-icons-round">{kind.icon}</span>
+                                    </div>
+                                )}
+
+                                <div className="flex-1 min-w-0">
+                                    <h3 className="font-bold text-sm text-slate-700 dark:text-slate-200 truncate">{item.name}</h3>
+                                    <p className="text-[11px] text-slate-400 truncate">
+                                        {kind.label}
+                                        {item.topicId && topicsById.has(item.topicId) && ` in ${topicsById.get(item.topicId)!.name}`}
+                                        {contents && ` ${contents}`}
+                                    </p>
+                                    <p className="text-[10px] text-slate-400">
+                                        Deleted {new Date(item.deletedAt).toLocaleDateString()}
+                                        {expiry && ` · ${expiry}`}
+                                    </p>
+                                </div>
+
+                                {confirmingPurgeId === item.id ? (
+                                    <div className="flex gap-1 shrink-0 animate-in fade-in">
+                                        <button onClick={() => setConfirmingPurgeId(null)} className="px-2 py-1 text-slate-500 bg-slate-100 rounded-lg text-xs font-bold">Cancel</button>
+                                        <button onClick={() => handlePurge(item)} disabled={busyId === item.id} className="px-2 py-1 text-white bg-red-500 rounded-lg text-xs font-bold disabled:opacity-50">Delete forever</button>
+                                    </div>
+                                ) : (
+                                    <div className="flex items-center gap-1 shrink-0">
+                                        <button onClick={() => handleRestore(item)} disabled={busyId !== null} className="p-2 text-slate-400 hover:text-primary disabled:opacity-50" title="Restore">
+                                            <span className="material-icons-round text-lg">restore_from_trash</span>
+                                        </button>
+                                        {canPurge(item) && (
+                                            <button onClick={() => setConfirmingPurgeId(item.id)} disabled={busyId !== null} className="p-2 text-slate-400 hover:text-red-500 disabled:opacity-50" title="Delete forever">
+                                                <span className="material-icons-round text-lg">delete_forever</span>
+                                            </button>
+                                        )}
+                                    </div>
+                                )}
+                            </div>
+                        );
+                    })}
+
+                    {/* Empty Trash: what the account owns */}
+                    {purgeableCount > 0 && <div className="pt-4">
+                        {confirmingEmpty ? (
+                            <div className="flex gap-2">
+                                <button onClick={() => setConfirmingEmpty(false)} className="flex-1 py-2 bg-slate-100 dark:bg-slate-800 rounded-xl text-xs font-bold text-slate-500">Cancel</button>
+                                <button onClick={handleEmptyTrash} disabled={busyId !== null} className="flex-1 py-2 bg-red-500 rounded-xl text-xs font-bold text-white disabled:opacity-50">
+                                    {busyId === 'all' ? 'Deleting...' : `Delete ${purgeableCount === items.length ? 'all ' : ''}${purgeableCount} forever`}
+                                </button>
+                            </div>
+                        ) : (
+                            <button onClick={() => setConfirmingEmpty(true)} disabled={busyId !== null} className="w-full py-2 bg-slate-100 dark:bg-slate-800 rounded-xl text-xs font-bold text-red-500 disabled:opacity-50">
+                                Empty Trash
+                            </button>
+                        )}
+                    </div>}
+                </div>
+            )}
+        </main>
+    </div>
+  );
+};
+
+export default TrashView;